@@ -21,6 +21,10 @@ export const TYPES = {
   TodoService: Symbol.for('TodoService'),
   /** Symbol for MasterStore dependency injection */
   MasterStore: Symbol.for('MasterStore'),
+  /** Symbol for MasterStoreConfig (persistence, ...) dependency injection */
+  MasterStoreConfig: Symbol.for('MasterStoreConfig'),
+  /** Symbol for StoreMiddleware multi-injection into MasterStore */
+  StoreMiddleware: Symbol.for('StoreMiddleware'),
   /** Symbol for TodoView (StoreView<Todo>) dependency injection */
   TodoView: Symbol.for('TodoView'),
 } as const;
@@ -0,0 +1,103 @@
+import { ContainerModule } from 'inversify';
+import { TYPES } from '@/constants/types';
+import { MasterStore } from '@/store/MasterStore';
+import { ValidationError } from '@/store/schema';
+import { TODO_FEATURE_INFO, TODO_TYPES, TODOS_KEY, TODO_LISTS_KEY, TODO_TAGS_KEY } from '@/features/todo';
+import type { ITodoService } from '@/features/todo';
+import { AppContainer, FeatureModuleError, featureStoreKeys } from './index';
+import type { FeatureModule } from './index';
+
+describe('AppContainer', () => {
+  let loaded: string[];
+
+  const createModule = (name: string, dependencies: string[] = [], storeKeys: string[] = []): FeatureModule => ({
+    name,
+    version: '1.0.0',
+    containerModule: new ContainerModule((bind) => {
+      loaded.push(name);
+      bind(Symbol.for(`${name}.Name`)).toConstantValue(name);
+    }),
+    dependencies,
+    storeKeys: storeKeys.map((key) => ({ key })),
+  });
+
+  beforeEach(() => {
+    loaded = [];
+  });
+
+  describe('Loading', () => {
+    test('modules load after their dependencies, in the given order otherwise', () => {
+      const app = new AppContainer().load(
+        createModule('notes', ['todo', 'tags']),
+        createModule('tags'),
+        createModule('todo', ['tags'])
+      );
+
+      expect(loaded).toEqual(['tags', 'todo', 'notes']);
+      expect(app.getModules().map((module) => module.name)).toEqual(['tags', 'todo', 'notes']);
+      expect(app.get<string>(Symbol.for('notes.Name'))).toBe('notes');
+    });
+
+    test('dependencies may have been loaded earlier', () => {
+      const app = new AppContainer().load(createModule('todo'));
+      app.load(createModule('notes', ['todo']));
+
+      expect(loaded).toEqual(['todo', 'notes']);
+      expect(app.has('notes')).toBe(true);
+    });
+
+    test('modules share the MasterStore', () => {
+      const masterStore = new MasterStore();
+      const app = new AppContainer({ masterStore }).load(TODO_FEATURE_INFO);
+
+      expect(app.get(TYPES.MasterStore)).toBe(masterStore);
+      expect(app.get(TODO_TYPES.MasterStore)).toBe(masterStore);
+      app.get<ITodoService>(TODO_TYPES.TodoService).addTodo({ text: 'Buy milk' });
+      expect(masterStore.getView(TODOS_KEY).getItems()).toHaveLength(1);
+    });
+
+    test('schemas of the store keys are registered', () => {
+      const masterStore = new MasterStore();
+      new AppContainer({ masterStore }).load(TODO_FEATURE_INFO);
+
+      expect(() => masterStore.getView(TODOS_KEY).addItem({ text: '' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('Errors', () => {
+    test.each([
+      ['a missing dependency', [createModule('notes', ['todo'])], /"notes" depends on "todo", which is not loaded/],
+      [
+        'modules depending on each other',
+        [createModule('a', ['b']), createModule('b', ['c']), createModule('c', ['a'])],
+        /depend on each other: a → b → c → a/,
+      ],
+      ['a module given twice', [createModule('todo'), createModule('todo')], /"todo" is already loaded/],
+      [
+        'a store key claimed twice',
+        [createModule('todo', [], ['todos']), createModule('notes', [], ['todos'])],
+        /"notes" claims store key "todos" of "todo"/,
+      ],
+    ])('%s is rejected and nothing is loaded', (_case, modules, message) => {
+      const app = new AppContainer();
+
+      expect(() => app.load(...modules)).toThrow(FeatureModuleError);
+      expect(() => app.load(...modules)).toThrow(message);
+      expect(loaded).toEqual([]);
+      expect(app.getModules()).toEqual([]);
+    });
+
+    test('a loaded module cannot be loaded again', () => {
+      const app = new AppContainer().load(createModule('todo', [], ['todos']));
+
+      expect(() => app.load(createModule('todo'))).toThrow(FeatureModuleError);
+      expect(() => app.load(createModule('notes', [], ['todos']))).toThrow(/claims store key "todos"/);
+      expect(loaded).toEqual(['todo']);
+    });
+  });
+
+  test('featureStoreKeys lists the keys with an option set', () => {
+    expect(featureStoreKeys([TODO_FEATURE_INFO], 'undoable')).toEqual([TODOS_KEY, TODO_LISTS_KEY]);
+    expect(featureStoreKeys([TODO_FEATURE_INFO], 'synced')).toEqual([TODOS_KEY, TODO_TAGS_KEY, TODO_LISTS_KEY]);
+  });
+});
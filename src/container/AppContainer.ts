@@ -0,0 +1,156 @@
+import { Container } from 'inversify';
+import type { interfaces } from 'inversify';
+import { TYPES } from '@/constants/types';
+import { MasterStore } from '@/store/MasterStore';
+import type { FeatureModule } from './FeatureModule';
+import { FeatureModuleError } from './FeatureModuleError';
+
+/**
+ * Options for AppContainer.
+ */
+export interface AppContainerOptions {
+  /** Store shared by every module; a new one when omitted */
+  masterStore?: MasterStore;
+}
+
+/**
+ * Registry of feature modules sharing one Inversify container and one
+ * MasterStore.
+ *
+ * Modules are loaded after the modules they depend on, whatever order they
+ * are given in, and every module is loaded once. When a module loads, the
+ * schemas of its store keys are registered on the MasterStore, which is
+ * bound to `TYPES.MasterStore`.
+ *
+ * @example
+ * ```typescript
+ * const app = new AppContainer({ masterStore }).load(NOTES_FEATURE, TODO_FEATURE_INFO);
+ * const todoService = app.get<ITodoService>(TODO_TYPES.TodoService);
+ *
+ * <DIProvider container={app.container}>
+ *   <App />
+ * </DIProvider>
+ * ```
+ */
+export class AppContainer {
+  readonly container: Container;
+  readonly masterStore: MasterStore;
+  private modules = new Map<string, FeatureModule>();
+  /** Module owning each store key */
+  private storeKeyOwners = new Map<string, string>();
+
+  constructor(options: AppContainerOptions = {}) {
+    this.masterStore = options.masterStore ?? new MasterStore();
+    this.container = new Container();
+    this.container.bind(TYPES.MasterStore).toConstantValue(this.masterStore);
+  }
+
+  /**
+   * Load modules and the bindings they declare.
+   *
+   * Dependencies may be loaded earlier or be among the modules given.
+   * Every module is checked before any is loaded, so a FeatureModuleError
+   * leaves the container as it was.
+   *
+   * @param modules - Modules to load, in any order
+   * @returns This container, for chaining
+   * @throws FeatureModuleError if a module is already loaded, a dependency
+   *   is missing, modules depend on each other or a store key is claimed twice
+   */
+  load(...modules: FeatureModule[]): this {
+    const given = new Map<string, FeatureModule>();
+    modules.forEach((module) => {
+      if (this.modules.has(module.name) || given.has(module.name)) {
+        throw new FeatureModuleError(module.name, `Feature module "${module.name}" is already loaded`);
+      }
+      given.set(module.name, module);
+    });
+
+    const order = this.loadOrder(modules, given);
+    const owners = new Map(this.storeKeyOwners);
+    order.forEach((module) => {
+      (module.storeKeys ?? []).forEach(({ key }) => {
+        const owner = owners.get(key);
+        if (owner !== undefined) {
+          throw new FeatureModuleError(
+            module.name,
+            `Feature module "${module.name}" claims store key "${key}" of "${owner}"`
+          );
+        }
+        owners.set(key, module.name);
+      });
+    });
+
+    order.forEach((module) => {
+      (module.storeKeys ?? []).forEach(({ key, schema }) => {
+        if (schema) {
+          this.masterStore.defineSchema(key, schema);
+        }
+      });
+      this.container.load(module.containerModule);
+      this.modules.set(module.name, module);
+    });
+    this.storeKeyOwners = owners;
+    return this;
+  }
+
+  /**
+   * Whether a module is loaded.
+   * @param name - Name of the module
+   */
+  has(name: string): boolean {
+    return this.modules.has(name);
+  }
+
+  /**
+   * The loaded modules, in load order.
+   */
+  getModules(): FeatureModule[] {
+    return Array.from(this.modules.values());
+  }
+
+  /**
+   * Resolve a binding of the container.
+   * @param identifier - Symbol the service is bound to
+   */
+  get<T>(identifier: interfaces.ServiceIdentifier<T>): T {
+    return this.container.get<T>(identifier);
+  }
+
+  /**
+   * Sort modules so each comes after its dependencies, keeping the given
+   * order otherwise.
+   */
+  private loadOrder(modules: FeatureModule[], given: Map<string, FeatureModule>): FeatureModule[] {
+    const order: FeatureModule[] = [];
+    const placed = new Set<string>();
+
+    const visit = (module: FeatureModule, path: string[]): void => {
+      if (placed.has(module.name)) {
+        return;
+      }
+      if (path.includes(module.name)) {
+        const cycle = [...path.slice(path.indexOf(module.name)), module.name].join(' → ');
+        throw new FeatureModuleError(module.name, `Feature modules depend on each other: ${cycle}`);
+      }
+      (module.dependencies ?? []).forEach((name) => {
+        if (this.modules.has(name)) {
+          return;
+        }
+        const dependency = given.get(name);
+        if (!dependency) {
+          throw new FeatureModuleError(
+            module.name,
+            `Feature module "${module.name}" depends on "${name}", which is not loaded`
+          );
+        }
+        visit(dependency, [...path, module.name]);
+      });
+      placed.add(module.name);
+      order.push(module);
+    };
+
+    modules.forEach((module) => visit(module, []));
+    return order;
+  }
+}
@@ -0,0 +1,78 @@
+import type { ContainerModule } from 'inversify';
+import type { Schema } from '@/store/schema';
+
+/**
+ * MasterStore key a feature keeps its data under.
+ */
+export interface FeatureStoreKey {
+  /** MasterStore key */
+  key: string;
+  /** Schema the AppContainer registers for the key when the module loads */
+  schema?: Schema<any>;
+  /** Whether changes of the key should be recorded for undo (defaults to false) */
+  undoable?: boolean;
+  /** Whether the key should be shared with other tabs (defaults to false) */
+  synced?: boolean;
+}
+
+/**
+ * Manifest of a feature: its bindings, the features it builds on and the
+ * MasterStore keys it owns. Load it into an AppContainer.
+ *
+ * The container the module loads into has the shared MasterStore bound to
+ * `TYPES.MasterStore`; bind feature symbols to it with `toService`.
+ *
+ * @example
+ * ```typescript
+ * export const NOTES_FEATURE: FeatureModule = {
+ *   name: 'notes',
+ *   version: '1.0.0',
+ *   containerModule: new ContainerModule((bind) => {
+ *     bind(NOTE_TYPES.MasterStore).toService(TYPES.MasterStore);
+ *     bind(NOTE_TYPES.NoteService).to(NoteService).inSingletonScope();
+ *   }),
+ *   dependencies: ['todo'],
+ *   storeKeys: [{ key: 'notes', schema: noteSchema, undoable: true }],
+ * };
+ * ```
+ */
+export interface FeatureModule {
+  /** Unique name, referred to by the dependencies of other modules */
+  name: string;
+  /** Version of the feature, for tooling and documentation */
+  version: string;
+  description?: string;
+  /** Bindings of the feature */
+  containerModule: ContainerModule;
+  /** Names of the modules to load first (defaults to none) */
+  dependencies?: readonly string[];
+  /** MasterStore keys owned by the feature; no two modules may own the same key */
+  storeKeys?: readonly FeatureStoreKey[];
+}
+
+/**
+ * Get the store keys of some modules that have an option set, e.g. to
+ * configure history or sync of the MasterStore they will share.
+ * @param modules - Modules to look at
+ * @param option - Option the keys must have set
+ * @returns The keys, in module order
+ *
+ * @example
+ * ```typescript
+ * const masterStore = new MasterStore({
+ *   history: { keys: featureStoreKeys(features, 'undoable') },
+ *   sync: { keys: featureStoreKeys(features, 'synced') },
+ * });
+ * ```
+ */
+export function featureStoreKeys(modules: readonly FeatureModule[], option: 'undoable' | 'synced'): string[] {
+  const keys: string[] = [];
+  modules.forEach((module) => {
+    (module.storeKeys ?? []).forEach((storeKey) => {
+      if (storeKey[option]) {
+        keys.push(storeKey.key);
+      }
+    });
+  });
+  return keys;
+}
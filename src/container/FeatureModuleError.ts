@@ -0,0 +1,28 @@
+/**
+ * Error thrown when feature modules cannot be loaded: a dependency is
+ * missing, modules depend on each other, or two modules claim the same
+ * name or store key. Nothing is loaded.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   appContainer.load(NOTES_FEATURE);
+ * } catch (error) {
+ *   if (error instanceof FeatureModuleError) {
+ *     console.log(error.module); // 'notes'
+ *   }
+ * }
+ * ```
+ */
+export class FeatureModuleError extends Error {
+  constructor(
+    /** Name of the module that could not be loaded */
+    readonly module: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FeatureModuleError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, FeatureModuleError.prototype);
+  }
+}
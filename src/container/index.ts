@@ -0,0 +1,12 @@
+/**
+ * Feature module registry.
+ *
+ * Describe a feature with a FeatureModule manifest and load it into an
+ * AppContainer shared with the other features; provide the container to
+ * React with `DIProvider` and resolve bindings with `useInjection`.
+ */
+export { AppContainer } from './AppContainer';
+export type { AppContainerOptions } from './AppContainer';
+export { featureStoreKeys } from './FeatureModule';
+export type { FeatureModule, FeatureStoreKey } from './FeatureModule';
+export { FeatureModuleError } from './FeatureModuleError';
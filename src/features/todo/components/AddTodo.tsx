@@ -1,12 +1,27 @@
 import React, { useState } from 'react';
+import { ValidationError } from '@/store/schema';
 import { useTodoService } from '../hooks/useTodoService';
+import { fromDateTimeInputValue } from '../config/todo.due';
+import { TODO_PRIORITIES, TODO_PRIORITY_LABELS } from '../config/todo.sort';
+import { parseTodoTags } from '../config/todo.tags';
+import type { TodoPriority } from '../types/Todo';
+
+/**
+ * Format a validation issue for display next to the input.
+ */
+const formatIssue = (path: string, message: string): string => {
+  const field = path ? path.charAt(0).toUpperCase() + path.slice(1) : 'Todo';
+  return `${field} ${message}`;
+};
 
 /**
  * Component for adding new todos to the application.
  *
  * Provides a form interface for creating new todo items with:
- * - Text input with placeholder guidance
- * - Form validation (trims whitespace, prevents empty todos)
+ * - Text input with placeholder guidance; `#tag` words become tags
+ *   (e.g. `Buy milk #errands`)
+ * - Priority picker and optional due date and reminder pickers
+ * - Schema validation with inline error messages (e.g. empty or too long text)
  * - Automatic input clearing after successful submission
  * - Keyboard-friendly form submission (Enter key)
  *
@@ -16,28 +31,99 @@ import { useTodoService } from '../hooks/useTodoService';
  */
 export const AddTodo: React.FC = () => {
   const [text, setText] = useState('');
+  const [dueAt, setDueAt] = useState('');
+  const [remindAt, setRemindAt] = useState('');
+  const [priority, setPriority] = useState<TodoPriority>('normal');
+  const [errors, setErrors] = useState<string[]>([]);
   const todoService = useTodoService();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (text.trim()) {
-      todoService.addTodo({ text: text.trim() });
-      setText('');
+    const { text: todoText, tags } = parseTodoTags(text);
+    try {
+      todoService.addTodo({
+        text: todoText,
+        tags,
+        dueAt: fromDateTimeInputValue(dueAt),
+        remindAt: fromDateTimeInputValue(remindAt),
+        priority,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setErrors(error.issues.map((issue) => formatIssue(issue.path, issue.message)));
+        return;
+      }
+      throw error;
+    }
+    setText('');
+    setDueAt('');
+    setRemindAt('');
+    setPriority('normal');
+    setErrors([]);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    if (errors.length > 0) {
+      setErrors([]);
     }
   };
 
   return (
-    <form onSubmit={handleSubmit} className="add-todo-form">
+    <form onSubmit={handleSubmit} className="add-todo-form" noValidate>
       <input
         type="text"
         value={text}
-        onChange={(e) => setText(e.target.value)}
+        onChange={handleChange}
         placeholder="Add a new todo..."
-        className="todo-input"
+        className={`todo-input ${errors.length > 0 ? 'invalid' : ''}`}
+        aria-invalid={errors.length > 0}
+        aria-describedby={errors.length > 0 ? 'add-todo-errors' : undefined}
       />
       <button type="submit" className="add-button">
         Add Todo
       </button>
+      <div className="todo-date-fields">
+        <label>
+          Priority
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as TodoPriority)}
+            className="todo-priority-select"
+          >
+            {TODO_PRIORITIES.map((option) => (
+              <option key={option} value={option}>
+                {TODO_PRIORITY_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Due
+          <input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="todo-date-input"
+          />
+        </label>
+        <label>
+          Remind me
+          <input
+            type="datetime-local"
+            value={remindAt}
+            onChange={(e) => setRemindAt(e.target.value)}
+            className="todo-date-input"
+          />
+        </label>
+      </div>
+      {errors.length > 0 && (
+        <ul id="add-todo-errors" className="field-errors" role="alert">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
     </form>
   );
 };
@@ -1,7 +1,14 @@
 import React from 'react';
-import { useTodoData } from '../hooks/useTodoData';
+import { useTodoStats } from '../hooks/useTodoStats';
+import { useTodoFilterHashSync } from '../hooks/useTodoFilterHashSync';
 import { AddTodo } from './AddTodo';
 import { TodoList } from './TodoList';
+import { TodoFilterBar } from './TodoFilterBar';
+import { TodoReminders } from './TodoReminders';
+import { TodoTagFilter } from './TodoTagFilter';
+import { TodoSearch } from './TodoSearch';
+import { TodoHistoryControls } from './TodoHistoryControls';
+import { TodoTransfer } from './TodoTransfer';
 
 /**
  * Main Todo application component.
@@ -12,15 +19,19 @@ import { TodoList } from './TodoList';
  * Features:
  * - Real-time todo statistics (completed/total count)
  * - Responsive layout with header and main sections
- * - Automatic updates via reactive data hooks
+ * - Automatic updates via the derived statistics view (re-renders only when the counts change)
+ * - Undo/redo controls when history is enabled
+ * - All/Active/Completed filters, kept in sync with the URL hash
+ * - Due dates and in-app reminder notifications
+ * - Tags, entered as `#tag` words, with a tag filter
+ * - Full-text search with highlighted matches
+ * - Export to and import from JSON, CSV, Markdown and todo.txt files
  *
  * @returns JSX element representing the complete todo application
  */
 export const TodoApp: React.FC = () => {
-  const todos = useTodoData();
-
-  const completedCount = todos.filter(todo => todo.completed).length;
-  const totalCount = todos.length;
+  const { completed: completedCount, total: totalCount } = useTodoStats();
+  useTodoFilterHashSync();
 
   return (
     <div className="todo-app">
@@ -29,11 +40,17 @@ export const TodoApp: React.FC = () => {
         <p className="stats">
           {completedCount} of {totalCount} completed
         </p>
+        <TodoHistoryControls />
       </header>
       
       <main className="app-main">
+        <TodoReminders />
         <AddTodo />
+        <TodoSearch />
+        <TodoTagFilter />
         <TodoList />
+        <TodoFilterBar />
+        <TodoTransfer />
       </main>
     </div>
   );
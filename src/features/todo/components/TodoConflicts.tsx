@@ -0,0 +1,108 @@
+import React from 'react';
+import { useTodoConflicts } from '../hooks/useTodoConflicts';
+import { useTodoLists } from '../hooks/useTodoLists';
+import { useTodoSyncService } from '../hooks/useTodoSyncService';
+import { formatTodoDate } from '../config/todo.due';
+import { describeRecurrence } from '../config/todo.recurrence';
+import { TODO_PRIORITY_LABELS } from '../config/todo.sort';
+import { TODO_VERSIONED_FIELD_LABELS } from '../config/todo.versions';
+import type { Todo, TodoListInfo, TodoVersionedField } from '../types/Todo';
+
+/**
+ * Describe the value of a field for choosing between two versions.
+ */
+const describeField = (todo: Todo, field: TodoVersionedField, lists: TodoListInfo[]): string => {
+  switch (field) {
+    case 'text':
+      return todo.text;
+    case 'completed':
+      return todo.completed ? 'Yes' : 'No';
+    case 'dueAt':
+    case 'remindAt': {
+      const date = todo[field];
+      return date ? formatTodoDate(date) : 'None';
+    }
+    case 'priority':
+      return todo.priority ? TODO_PRIORITY_LABELS[todo.priority] : 'None';
+    case 'tags':
+      return todo.tags?.length ? todo.tags.map((name) => `#${name}`).join(' ') : 'None';
+    case 'subtasks':
+      return todo.subtasks?.length ? todo.subtasks.map((subtask) => subtask.text).join(', ') : 'None';
+    case 'recurrence':
+      return todo.recurrence ? describeRecurrence(todo.recurrence) : 'None';
+    case 'listId':
+      return lists.find((list) => list.id === todo.listId)?.name ?? 'None';
+    case 'order':
+      return todo.order ?? 'None';
+  }
+};
+
+/**
+ * Todos changed both here and on the server, with a choice of which
+ * version to keep.
+ *
+ * Lists the conflicting fields of each todo with the value on this device
+ * and on the server. "Keep mine" sends the values from this device, "Use
+ * theirs" takes the server's. Fields changed on one side only were merged
+ * already and are not shown.
+ *
+ * Renders nothing while there are no conflicts.
+ *
+ * @returns JSX element with the conflicts
+ */
+export const TodoConflicts: React.FC = () => {
+  const syncService = useTodoSyncService();
+  const conflicts = useTodoConflicts();
+  const lists = useTodoLists();
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="todo-conflicts" aria-label="Sync conflicts">
+      <h2>Changed elsewhere too</h2>
+      <ul>
+        {conflicts.map((conflict) => (
+          <li key={conflict.id} className="todo-conflict">
+            <table>
+              <caption>{conflict.local.text}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">Field</th>
+                  <th scope="col">Mine</th>
+                  <th scope="col">Theirs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflict.fields.map((field) => (
+                  <tr key={field}>
+                    <th scope="row">{TODO_VERSIONED_FIELD_LABELS[field]}</th>
+                    <td>{describeField(conflict.local, field, lists)}</td>
+                    <td>{describeField(conflict.remote, field, lists)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={() => syncService.resolveConflict(conflict.id, 'local')}
+              className="todo-sync-button"
+              aria-label={`Keep my version of ${conflict.local.text}`}
+            >
+              Keep mine
+            </button>{' '}
+            <button
+              type="button"
+              onClick={() => syncService.resolveConflict(conflict.id, 'remote')}
+              className="todo-sync-button"
+              aria-label={`Use their version of ${conflict.local.text}`}
+            >
+              Use theirs
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { useTodoReorder } from '../hooks/useTodoReorder';
+
+/**
+ * Props for the TodoDragHandle component.
+ */
+interface TodoDragHandleProps {
+  /** ID of the todo the handle moves */
+  id: string;
+  /** Todo text, used in announcements */
+  label: string;
+}
+
+/**
+ * Handle for moving a todo within a manually sorted list.
+ *
+ * - Mouse: drag the handle and drop the todo onto another one
+ * - Keyboard: Space or Enter picks the todo up, the arrow keys move it,
+ *   Space or Enter drops it and Escape puts it back where it was
+ *
+ * Every step is announced to screen reader users. Renders nothing when the
+ * list cannot be reordered (e.g. while it is sorted by priority).
+ *
+ * @returns JSX element with the drag handle, or null
+ */
+export const TodoDragHandle: React.FC<TodoDragHandleProps> = ({ id, label }) => {
+  const reorder = useTodoReorder();
+  const [grabbed, setGrabbed] = useState(false);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  /** ID of the todo that followed this one when it was picked up */
+  const origin = useRef<string | null>(null);
+  /** Set while the list re-renders after a move, which may blur the handle */
+  const moving = useRef(false);
+
+  if (!reorder) {
+    return null;
+  }
+
+  const describe = () => {
+    const position = reorder.positionOf(id);
+    return position ? `position ${position.index + 1} of ${position.count}` : 'the list';
+  };
+
+  // Render the move right away so focus can be put back on the handle
+  const moveAndRefocus = (move: () => void) => {
+    moving.current = true;
+    flushSync(move);
+    moving.current = false;
+    buttonRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (grabbed) {
+        setGrabbed(false);
+        reorder.announce(`Dropped ${label} at ${describe()}.`);
+      } else {
+        origin.current = reorder.nextId(id);
+        setGrabbed(true);
+        reorder.announce(
+          `Picked up ${label} at ${describe()}. Use the arrow keys to move it, Space to drop it, Escape to cancel.`
+        );
+      }
+    } else if (grabbed && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      moveAndRefocus(() => {
+        reorder.moveBy(id, e.key === 'ArrowUp' ? -1 : 1);
+      });
+      reorder.announce(`Moved ${label} to ${describe()}.`);
+    } else if (grabbed && e.key === 'Escape') {
+      e.preventDefault();
+      moveAndRefocus(() => reorder.moveBefore(id, origin.current));
+      setGrabbed(false);
+      reorder.announce(`Cancelled. ${label} is back at ${describe()}.`);
+    }
+  };
+
+  const handleBlur = () => {
+    if (grabbed && !moving.current) {
+      setGrabbed(false);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>) => {
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', id);
+      const item = e.currentTarget.closest('.todo-item');
+      if (item) {
+        e.dataTransfer.setDragImage(item, 0, 0);
+      }
+    }
+    reorder.startDrag(id);
+  };
+
+  return (
+    <button
+      ref={buttonRef}
+      className={`drag-handle ${grabbed ? 'grabbed' : ''}`}
+      aria-label={`Reorder ${label}`}
+      aria-pressed={grabbed}
+      draggable
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+      onDragStart={handleDragStart}
+      onDragEnd={reorder.endDrag}
+    >
+      ⠿
+    </button>
+  );
+};
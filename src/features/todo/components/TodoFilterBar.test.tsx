@@ -0,0 +1,157 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+  TodoApp,
+  TodoFeatureProvider,
+  TODO_TYPES,
+  TODOS_KEY,
+  TODO_FILTER_KEY,
+  configureTodoContainer,
+  getTodoFilterView,
+  todoFilterFromHash,
+  todoFilterHash,
+} from '../index';
+import type { ITodoService, TodoFilterState } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+
+describe('Todo Filters', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let filterView: StoreView<TodoFilterState>;
+
+  const renderApp = () =>
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        <TodoApp />
+      </TodoFeatureProvider>
+    );
+
+  const visibleTexts = () =>
+    screen.queryAllByRole('checkbox').map((checkbox) => checkbox.closest('.todo-item')?.textContent);
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    masterStore = new MasterStore();
+    todoService = configureTodoContainer(masterStore).get<ITodoService>(TODO_TYPES.TodoService);
+    filterView = getTodoFilterView(masterStore);
+
+    todoService.addTodo({ text: 'Write tests' });
+    const done = todoService.addTodo({ text: 'Ship it' });
+    todoService.toggleTodo(done.id);
+  });
+
+  describe('Hash Links', () => {
+    test('filters map to linkable hashes', () => {
+      expect(todoFilterHash('all')).toBe('#/');
+      expect(todoFilterHash('active')).toBe('#/active');
+      expect(todoFilterFromHash('#/completed')).toBe('completed');
+      expect(todoFilterFromHash('')).toBeUndefined();
+      expect(todoFilterFromHash('#/unknown')).toBeUndefined();
+    });
+  });
+
+  describe('Filter Bar', () => {
+    test('selecting a filter narrows the list and updates the hash', async () => {
+      const user = userEvent.setup();
+      renderApp();
+      expect(screen.getAllByRole('checkbox')).toHaveLength(2);
+
+      await user.click(screen.getByRole('link', { name: 'Active' }));
+
+      expect(visibleTexts()).toEqual([expect.stringContaining('Write tests')]);
+      expect(screen.getByRole('link', { name: 'Active' })).toHaveAttribute('aria-current', 'page');
+      expect(filterView.getItem()?.filter).toBe('active');
+      expect(window.location.hash).toBe('#/active');
+    });
+
+    test('shows the number of todos left', () => {
+      renderApp();
+      expect(screen.getByText('1 item left')).toBeInTheDocument();
+    });
+
+    test('explains an empty filtered list', async () => {
+      const user = userEvent.setup();
+      renderApp();
+
+      await user.click(screen.getByRole('button', { name: 'Clear completed' }));
+      await user.click(screen.getByRole('link', { name: 'Completed' }));
+
+      expect(screen.getByText('No completed todos yet.')).toBeInTheDocument();
+    });
+
+    test('is hidden while there are no todos', () => {
+      masterStore.getView(TODOS_KEY).clearItems();
+      renderApp();
+      expect(screen.queryByRole('link', { name: 'All' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('URL Hash Sync', () => {
+    test('a filter link in the URL selects the filter on load', () => {
+      window.history.replaceState(null, '', '#/completed');
+      renderApp();
+
+      expect(visibleTexts()).toEqual([expect.stringContaining('Ship it')]);
+    });
+
+    test('hash changes select the linked filter', async () => {
+      renderApp();
+
+      act(() => {
+        window.location.hash = '#/active';
+      });
+
+      await waitFor(() => expect(filterView.getItem()?.filter).toBe('active'));
+      expect(visibleTexts()).toEqual([expect.stringContaining('Write tests')]);
+    });
+
+    test('a stored filter is written to the hash when the URL has none', () => {
+      filterView.setItem({ id: 'filter', filter: 'completed' });
+      renderApp();
+
+      expect(window.location.hash).toBe('#/completed');
+    });
+
+    test('the filter is kept under its own MasterStore key', () => {
+      window.history.replaceState(null, '', '#/active');
+      renderApp();
+
+      expect(masterStore.getAllData()[TODO_FILTER_KEY]).toEqual([{ id: 'filter', filter: 'active' }]);
+    });
+  });
+
+  describe('Clear Completed', () => {
+    test('removes completed todos in a single write', () => {
+      const callback = jest.fn();
+      const todoView = masterStore.getView(TODOS_KEY);
+      const [active] = todoView.getItems();
+      todoView.subscribe(callback);
+
+      expect(todoService.clearCompleted()).toBe(1);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(todoService.getAllTodos()).toEqual([active]);
+      expect(todoService.getAllTodos()[0]).toBe(active);
+    });
+
+    test('does not write when nothing is completed', () => {
+      todoService.clearCompleted();
+      const before = todoService.getAllTodos();
+
+      expect(todoService.clearCompleted()).toBe(0);
+      expect(todoService.getAllTodos()).toBe(before);
+    });
+
+    test('is a single undo step', () => {
+      masterStore = new MasterStore({ history: {} });
+      todoService = configureTodoContainer(masterStore).get<ITodoService>(TODO_TYPES.TodoService);
+      ['One', 'Two', 'Three'].forEach((text) => todoService.toggleTodo(todoService.addTodo({ text }).id));
+
+      todoService.clearCompleted();
+      todoService.undo();
+
+      expect(todoService.getAllTodos().map((todo) => todo.text)).toEqual(['One', 'Two', 'Three']);
+    });
+  });
+});
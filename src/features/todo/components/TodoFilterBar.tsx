@@ -0,0 +1,87 @@
+import React from 'react';
+import { useTodoFilter } from '../hooks/useTodoFilter';
+import { useTodoService } from '../hooks/useTodoService';
+import { useTodoStats } from '../hooks/useTodoStats';
+import { TODO_FILTERS, todoFilterHash } from '../config/todo.filters';
+import { TODO_SORT_LABELS, TODO_SORT_MODES } from '../config/todo.sort';
+import type { TodoFilter, TodoSortMode } from '../types/Todo';
+
+/**
+ * Display names of the filters.
+ */
+const FILTER_LABELS: Record<TodoFilter, string> = {
+  all: 'All',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+/**
+ * Footer bar for choosing which todos are shown.
+ *
+ * Features:
+ * - Count of todos left to do
+ * - All/Active/Completed filter links (`#/`, `#/active`, `#/completed`), so
+ *   each filter can be opened in a new tab or bookmarked
+ * - Sort order: by hand, priority, newest first or due date
+ * - Toggle for grouping the list by due date
+ * - "Clear completed" button, shown while there are completed todos
+ *
+ * Renders nothing while there are no todos.
+ *
+ * @returns JSX element with the filter controls, or null
+ */
+export const TodoFilterBar: React.FC = () => {
+  const { filter, setFilter, groupByDue, setGroupByDue, sort, setSort } = useTodoFilter();
+  const { total, active, completed } = useTodoStats();
+  const todoService = useTodoService();
+
+  if (total === 0) {
+    return null;
+  }
+
+  return (
+    <footer className="todo-filter-bar">
+      <span className="todo-count">
+        {active} {active === 1 ? 'item' : 'items'} left
+      </span>
+      <ul className="todo-filters" aria-label="Filter todos">
+        {TODO_FILTERS.map((option) => (
+          <li key={option}>
+            <a
+              href={todoFilterHash(option)}
+              className={option === filter ? 'selected' : undefined}
+              aria-current={option === filter ? 'page' : undefined}
+              onClick={() => setFilter(option)}
+            >
+              {FILTER_LABELS[option]}
+            </a>
+          </li>
+        ))}
+      </ul>
+      <select
+        className="todo-sort"
+        aria-label="Sort by"
+        value={sort}
+        onChange={(e) => setSort(e.target.value as TodoSortMode)}
+      >
+        {TODO_SORT_MODES.map((option) => (
+          <option key={option} value={option}>
+            {TODO_SORT_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      <button
+        className={`group-toggle ${groupByDue ? 'selected' : ''}`}
+        aria-pressed={groupByDue}
+        onClick={() => setGroupByDue(!groupByDue)}
+      >
+        Group by due date
+      </button>
+      {completed > 0 && (
+        <button className="clear-completed" onClick={() => todoService.clearCompleted()}>
+          Clear completed
+        </button>
+      )}
+    </footer>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { useTodoHistory } from '../hooks/useTodoHistory';
+
+/**
+ * Undo/redo controls for todo changes.
+ *
+ * Lets users revert accidental changes such as removing a todo.
+ * Renders nothing when history is not enabled on the MasterStore.
+ *
+ * @returns JSX element with undo/redo buttons, or null
+ */
+export const TodoHistoryControls: React.FC = () => {
+  const { enabled, canUndo, canRedo, undo, redo } = useTodoHistory();
+
+  if (!enabled) {
+    return null;
+  }
+
+  return (
+    <div className="history-controls">
+      <button onClick={undo} disabled={!canUndo} className="undo-button">
+        Undo
+      </button>
+      <button onClick={redo} disabled={!canRedo} className="redo-button">
+        Redo
+      </button>
+    </div>
+  );
+};
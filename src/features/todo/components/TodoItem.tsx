@@ -1,44 +1,385 @@
-import React from 'react';
-import { Todo } from '../types/Todo';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { ValidationError } from '@/store/schema';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { Todo, TodoPriority, TodoRecurrenceFrequency, TodoSearchRange, TodoSyncState } from '../types/Todo';
 import { useTodoService } from '../hooks/useTodoService';
+import { useTodoItemServices } from '../hooks/useTodoItemServices';
+import type { TodoItemServices } from '../hooks/useTodoItemServices';
+import type { ITodoService } from '../services/ITodoService';
+import { useTodoSearchHighlights } from '../hooks/useTodoSearchHighlights';
+import { useTodoReorder } from '../hooks/useTodoReorder';
+import { TODOS_KEY } from '../config/todo.types';
+import {
+  formatTodoDate,
+  fromDateTimeInputValue,
+  isTodoOverdue,
+  toDateTimeInputValue,
+} from '../config/todo.due';
+import { TODO_PRIORITIES, TODO_PRIORITY_LABELS } from '../config/todo.sort';
+import { formatTodoTags, parseTodoTags } from '../config/todo.tags';
+import { subtaskProgress } from '../config/todo.subtasks';
+import {
+  describeRecurrence,
+  TODO_RECURRENCE_FREQUENCIES,
+  TODO_RECURRENCE_FREQUENCY_LABELS,
+} from '../config/todo.recurrence';
+import { TodoDragHandle } from './TodoDragHandle';
+import { TodoTagChip } from './TodoTagChip';
+import { TodoSubtasks } from './TodoSubtasks';
+import { useTodoLists } from '../hooks/useTodoLists';
+import { DEFAULT_TODO_LIST_NAME } from '../config/todo.lists';
+import { getTodoSyncView, TODO_SYNC_STATUS_LABELS } from '../config/todo.sync';
 
 /**
  * Props for the TodoItem component.
+ * Pass either the ID of a todo in the store, or a todo object.
  */
-interface TodoItemProps {
-  /** The todo item to display and interact with */
-  todo: Todo;
-}
+type TodoItemProps = (
+  | {
+      /** ID of the todo to display; the component subscribes to it in the store */
+      id: string;
+      todo?: never;
+    }
+  | {
+      /** The todo item to display; the live store version is preferred when present */
+      todo: Todo;
+      id?: never;
+    }
+) & {
+  /** Services resolved once by the list; resolved from the provider when omitted */
+  services?: TodoItemServices;
+};
+
+/**
+ * Todo text with the parts matched by the search marked.
+ * Todo items render it only while the text has matches.
+ */
+const HighlightedText: React.FC<{ text: string; ranges: TodoSearchRange[] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }) => {
+    parts.push(text.slice(position, start), <mark key={start}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+/**
+ * Picker moving a todo to another list. Rendered inside the details panel
+ * only, so todo items do not subscribe to the lists while it is closed.
+ */
+const TodoListPicker: React.FC<{ todo: Todo }> = ({ todo }) => {
+  const todoService = useTodoService();
+  const lists = useTodoLists().filter((list) => !list.archived || list.id === todo.listId);
+
+  if (lists.length === 0) {
+    return null;
+  }
+
+  return (
+    <label>
+      List
+      <select
+        value={todo.listId ?? ''}
+        onChange={(e) => todoService.updateTodo(todo.id, { listId: e.target.value || undefined })}
+        className="todo-list-picker"
+      >
+        <option value="">{DEFAULT_TODO_LIST_NAME}</option>
+        {lists.map((list) => (
+          <option key={list.id} value={list.id}>
+            {list.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+const SYNC_STATUS_ICONS: Record<TodoSyncState['status'], string> = {
+  synced: '✓',
+  pending: '⇅',
+  failed: '!',
+  conflict: '⚠',
+};
+
+/**
+ * Sync status of a todo, with a retry button once sending it failed.
+ * Renders nothing for todos that have never been synced. Todo items mount
+ * it only while sync is enabled.
+ */
+const TodoSyncStatus: React.FC<{ id: string; services: TodoItemServices }> = ({ id, services }) => {
+  const { syncService, masterStore } = services;
+  // Same subscription as useTodoSyncState, on the store passed down by the item
+  const syncView = useMemo(() => getTodoSyncView(masterStore), [masterStore]);
+  const selectState = useCallback(() => syncView.getById(id), [syncView, id]);
+  const state = useStoreSelector(syncView, selectState);
+
+  if (!state) {
+    return null;
+  }
+
+  const label = TODO_SYNC_STATUS_LABELS[state.status];
+  return (
+    <span className={`todo-sync-status ${state.status}`}>
+      <span role="img" aria-label={label} title={state.error ? `${label}: ${state.error}` : label}>
+        {SYNC_STATUS_ICONS[state.status]}
+      </span>
+      {state.status === 'failed' && (
+        <button onClick={() => syncService.retry(id)} className="todo-sync-retry">
+          Retry
+        </button>
+      )}
+    </span>
+  );
+};
+
+/**
+ * Priority, repeat, due date, reminder and list pickers of a todo.
+ * Mounted only while open, so closed todo items pay nothing for them.
+ */
+const TodoDetails: React.FC<{ todo: Todo; todoService: ITodoService }> = ({ todo, todoService }) => {
+  const updateDate = (field: 'dueAt' | 'remindAt', value: string) => {
+    try {
+      todoService.updateTodo(todo.id, { [field]: fromDateTimeInputValue(value) });
+    } catch (caught) {
+      // Incomplete input from the picker; keep the previous date
+      if (!(caught instanceof ValidationError)) {
+        throw caught;
+      }
+    }
+  };
+
+  const updateFrequency = (value: string) => {
+    todoService.updateTodo(todo.id, {
+      recurrence: value ? { ...todo.recurrence, frequency: value as TodoRecurrenceFrequency } : undefined,
+    });
+  };
+
+  return (
+    <div className="todo-schedule">
+      <label>
+        Priority
+        <select
+          value={todo.priority ?? 'normal'}
+          onChange={(e) => todoService.updateTodo(todo.id, { priority: e.target.value as TodoPriority })}
+          className="todo-priority-select"
+        >
+          {TODO_PRIORITIES.map((priority) => (
+            <option key={priority} value={priority}>
+              {TODO_PRIORITY_LABELS[priority]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Repeat
+        <select
+          value={todo.recurrence?.frequency ?? ''}
+          onChange={(e) => updateFrequency(e.target.value)}
+          className="todo-recurrence-select"
+        >
+          <option value="">Never</option>
+          {TODO_RECURRENCE_FREQUENCIES.map((frequency) => (
+            <option key={frequency} value={frequency}>
+              {TODO_RECURRENCE_FREQUENCY_LABELS[frequency]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Due
+        <input
+          type="datetime-local"
+          value={toDateTimeInputValue(todo.dueAt)}
+          onChange={(e) => updateDate('dueAt', e.target.value)}
+          className="todo-date-input"
+        />
+      </label>
+      <label>
+        Remind me
+        <input
+          type="datetime-local"
+          value={toDateTimeInputValue(todo.remindAt)}
+          onChange={(e) => updateDate('remindAt', e.target.value)}
+          className="todo-date-input"
+        />
+      </label>
+      <TodoListPicker todo={todo} />
+    </div>
+  );
+};
 
 /**
  * Individual todo item component with interactive controls.
  *
  * Renders a single todo with:
+ * - Drag handle while the list is sorted by hand
  * - Checkbox for toggling completion status
- * - Text display with completion styling
+ * - Text display with completion styling, with search matches highlighted
+ * - Inline editing: double-click the text, Enter or blur saves, Escape cancels;
+ *   text is trimmed, `#tag` words set the tags and emptying it deletes the todo
+ * - Tag chips that filter the list by their tag
+ * - Subtask progress (e.g. 2/5), opening the todo's checklist
+ * - Due date badge, highlighted once the todo is overdue
+ * - Recurrence badge for repeating todos
+ * - Sync status while todos are synced with a server, with a retry button once sending fails
+ *   and a warning while the todo was changed on the server too
+ * - Priority, repeat, due date, reminder and list pickers, opened with the details button
  * - Remove button with accessibility support
  * - Conditional CSS classes for visual states
  *
  * Performance optimized through:
- * - React.memo compatibility (structural sharing prevents unnecessary re-renders)
+ * - React.memo (structural sharing prevents unnecessary re-renders)
+ * - Subscribing to its own todo by ID, so changes to other todos are ignored
+ * - Services resolved once per list rather than per item (see useTodoItemServices)
+ * - Mounting the drag handle, sync status and details pickers only when needed
  * - Efficient event handlers using service layer
  * - Minimal DOM updates via conditional classes
  *
- * @param props - Component props containing the todo item
+ * @param props - Component props containing the todo ID or todo item
  * @returns JSX element representing a single todo item
  */
-export const TodoItem: React.FC<TodoItemProps> = ({ todo }) => {
-  const todoService = useTodoService();
+const TodoItemComponent: React.FC<TodoItemProps> = (props) => {
+  const services = useTodoItemServices(props.services);
+  const { todoService, masterStore, clock } = services;
+  const id = props.id ?? props.todo.id;
+  // Same subscription as useTodo, on the store passed down by the list
+  const todoView = useMemo(() => masterStore.getView<Todo>(TODOS_KEY), [masterStore]);
+  const selectTodo = useCallback(() => todoView.getById(id), [todoView, id]);
+  const liveTodo = useStoreSelector(todoView, selectTodo);
+  const todo = liveTodo ?? props.todo;
+  const highlights = useTodoSearchHighlights(todo?.text ?? '');
+  const reorderable = useTodoReorder() !== null;
+
+  const [editText, setEditText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scheduling, setScheduling] = useState(false);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  // Set once an edit is saved or cancelled, so the blur caused by unmounting the input is ignored
+  const editFinished = useRef(false);
+
+  if (!todo) {
+    return null;
+  }
+
+  const startEditing = () => {
+    editFinished.current = false;
+    setEditText(formatTodoTags(todo));
+    setError(null);
+  };
+
+  const stopEditing = () => {
+    editFinished.current = true;
+    setEditText(null);
+    setError(null);
+  };
+
+  const saveEdit = () => {
+    if (editFinished.current || editText === null) {
+      return;
+    }
+    const input = editText.trim();
+    if (!input) {
+      stopEditing();
+      todoService.removeTodo(todo.id);
+      return;
+    }
+    try {
+      if (input !== formatTodoTags(todo)) {
+        const { text, tags } = parseTodoTags(input);
+        todoService.updateTodo(todo.id, { text, tags });
+      }
+    } catch (caught) {
+      if (caught instanceof ValidationError) {
+        setError(caught.issues.map((issue) => `${issue.path} ${issue.message}`).join(', '));
+        return;
+      }
+      throw caught;
+    }
+    stopEditing();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      stopEditing();
+    }
+  };
+
+  const editing = editText !== null;
+  const progress = subtaskProgress(todo);
+  const overdue = todo.dueAt !== undefined && isTodoOverdue(todo, clock.now());
 
   return (
-    <div className={`todo-item ${todo.completed ? 'completed' : ''}`}>
+    <div
+      className={`todo-item ${todo.completed ? 'completed' : ''} ${editing ? 'editing' : ''} ${
+        overdue ? 'overdue' : ''
+      } ${todo.priority ? `priority-${todo.priority}` : ''}`}
+      data-todo-id={todo.id}
+    >
+      {reorderable && <TodoDragHandle id={todo.id} label={todo.text} />}
       <input
         type="checkbox"
         checked={todo.completed}
         onChange={() => todoService.toggleTodo(todo.id)}
         className="todo-checkbox"
       />
-      <span className="todo-text">{todo.text}</span>
+      {editing ? (
+        <input
+          type="text"
+          value={editText}
+          onChange={(e) => setEditText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={saveEdit}
+          className={`todo-edit-input ${error ? 'invalid' : ''}`}
+          aria-label="Edit todo"
+          aria-invalid={error !== null}
+          title={error ?? undefined}
+          autoFocus
+        />
+      ) : (
+        <span className="todo-text" onDoubleClick={startEditing}>
+          {highlights.length > 0 ? <HighlightedText text={todo.text} ranges={highlights} /> : todo.text}
+        </span>
+      )}
+      {!editing && todo.tags && (
+        <span className="todo-tags">
+          {todo.tags.map((name) => (
+            <TodoTagChip key={name} name={name} services={services} />
+          ))}
+        </span>
+      )}
+      {todo.dueAt && (
+        <span className="todo-due" title={overdue ? 'Overdue' : undefined}>
+          Due {formatTodoDate(todo.dueAt)}
+        </span>
+      )}
+      {todo.recurrence && (
+        <span className="todo-recurrence" title="Repeats">
+          ↻ {describeRecurrence(todo.recurrence)}
+        </span>
+      )}
+      {services.syncService.isEnabled() && <TodoSyncStatus id={todo.id} services={services} />}
+      <button
+        onClick={() => setShowSubtasks((open) => !open)}
+        className={`subtasks-button ${progress.total > 0 && progress.done === progress.total ? 'done' : ''}`}
+        aria-label={
+          progress.total > 0 ? `Subtasks, ${progress.done} of ${progress.total} done` : 'Subtasks'
+        }
+        aria-expanded={showSubtasks}
+      >
+        {progress.total > 0 ? `${progress.done}/${progress.total}` : '☑'}
+      </button>
+      <button
+        onClick={() => setScheduling((open) => !open)}
+        className={`schedule-button ${todo.remindAt ? 'has-reminder' : ''}`}
+        aria-label="Edit details"
+        aria-expanded={scheduling}
+      >
+        {todo.remindAt ? '⏰' : '📅'}
+      </button>
       <button
         onClick={() => todoService.removeTodo(todo.id)}
         className="remove-button"
@@ -46,6 +387,10 @@ export const TodoItem: React.FC<TodoItemProps> = ({ todo }) => {
       >
         ×
       </button>
+      {scheduling && <TodoDetails todo={todo} todoService={todoService} />}
+      {showSubtasks && <TodoSubtasks todo={todo} />}
     </div>
   );
 };
+
+export const TodoItem = React.memo(TodoItemComponent);
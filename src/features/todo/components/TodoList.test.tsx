@@ -0,0 +1,235 @@
+import React, { Profiler } from 'react';
+import { act, createEvent, fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+  TodoApp,
+  TodoFeatureProvider,
+  TodoList,
+  TodoItem,
+  TODO_TYPES,
+  configureTodoContainer,
+  getTodoFilterView,
+  setTodoSort,
+} from '../index';
+import type { ITodoService, Todo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+
+describe('Todo Ordering', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let todoView: StoreView<Todo>;
+  let todos: Todo[];
+
+  const visibleTexts = () =>
+    Array.from(document.querySelectorAll('.todo-item .todo-text')).map((text) => text.textContent);
+
+  const handle = (text: string) => screen.getByRole('button', { name: `Reorder ${text}` });
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+
+    todos = [
+      todoService.addTodo({ text: 'First', priority: 'low' }),
+      todoService.addTodo({ text: 'Second' }),
+      todoService.addTodo({ text: 'Third', priority: 'high' }),
+    ];
+  });
+
+  describe('Keyboard reordering', () => {
+    beforeEach(() => {
+      render(
+        <TodoFeatureProvider masterStore={masterStore}>
+          <TodoList />
+        </TodoFeatureProvider>
+      );
+    });
+
+    test('Space picks a todo up, arrows move it and Space drops it', async () => {
+      const user = userEvent.setup();
+      handle('First').focus();
+
+      await user.keyboard(' ');
+      expect(handle('First')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('status')).toHaveTextContent('Picked up First at position 1 of 3');
+
+      await user.keyboard('{ArrowDown}{ArrowDown}');
+      expect(visibleTexts()).toEqual(['Second', 'Third', 'First']);
+      expect(handle('First')).toHaveFocus();
+      expect(screen.getByRole('status')).toHaveTextContent('Moved First to position 3 of 3');
+
+      await user.keyboard('{ArrowUp}');
+      expect(visibleTexts()).toEqual(['Second', 'First', 'Third']);
+
+      await user.keyboard(' ');
+      expect(handle('First')).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('status')).toHaveTextContent('Dropped First at position 2 of 3');
+    });
+
+    test('arrow keys do nothing until the todo is picked up', async () => {
+      const user = userEvent.setup();
+      handle('First').focus();
+
+      await user.keyboard('{ArrowDown}');
+
+      expect(visibleTexts()).toEqual(['First', 'Second', 'Third']);
+    });
+
+    test('Escape puts the todo back where it was', async () => {
+      const user = userEvent.setup();
+      handle('Second').focus();
+
+      await user.keyboard('{Enter}{ArrowUp}');
+      expect(visibleTexts()).toEqual(['Second', 'First', 'Third']);
+
+      await user.keyboard('{Escape}');
+      expect(visibleTexts()).toEqual(['First', 'Second', 'Third']);
+      expect(handle('Second')).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('status')).toHaveTextContent('Cancelled. Second is back at position 2 of 3');
+    });
+
+    test('moving past either end is ignored', async () => {
+      const user = userEvent.setup();
+      handle('First').focus();
+
+      await user.keyboard(' {ArrowUp}');
+
+      expect(visibleTexts()).toEqual(['First', 'Second', 'Third']);
+      expect(todoView.getItems()).toEqual(todos);
+    });
+  });
+
+  describe('Drag and drop', () => {
+    const dataTransfer = () => ({
+      effectAllowed: '',
+      dropEffect: '',
+      setData: jest.fn(),
+      setDragImage: jest.fn(),
+    });
+
+    // jsdom has no DragEvent, so pointer coordinates have to be set by hand
+    const dragEvent = (
+      type: 'dragOver' | 'drop',
+      target: Element,
+      transfer: ReturnType<typeof dataTransfer>,
+      clientY: number
+    ) => {
+      const event = createEvent[type](target, { dataTransfer: transfer });
+      Object.defineProperty(event, 'clientY', { value: clientY });
+      fireEvent(target, event);
+    };
+
+    beforeEach(() => {
+      render(
+        <TodoFeatureProvider masterStore={masterStore}>
+          <TodoList />
+        </TodoFeatureProvider>
+      );
+    });
+
+    test('dropping on the upper half of a todo places the dragged todo before it', () => {
+      const transfer = dataTransfer();
+      const target = screen.getByText('First').closest('.todo-item')!;
+
+      fireEvent.dragStart(handle('Third'), { dataTransfer: transfer });
+      dragEvent('dragOver', target, transfer, 0);
+      expect(target).toHaveAttribute('data-drop', 'before');
+      dragEvent('drop', target, transfer, 0);
+
+      expect(transfer.setData).toHaveBeenCalledWith('text/plain', todos[2].id);
+      expect(visibleTexts()).toEqual(['Third', 'First', 'Second']);
+      expect(target).not.toHaveAttribute('data-drop');
+      expect(screen.getByRole('status')).toHaveTextContent('Moved to position 1 of 3');
+    });
+
+    test('dropping on the lower half of a todo places the dragged todo after it', () => {
+      const transfer = dataTransfer();
+      const target = screen.getByText('Second').closest('.todo-item')!;
+
+      fireEvent.dragStart(handle('First'), { dataTransfer: transfer });
+      dragEvent('drop', target, transfer, 10);
+
+      expect(visibleTexts()).toEqual(['Second', 'First', 'Third']);
+    });
+
+    test('drops that did not start on a drag handle are ignored', () => {
+      const target = screen.getByText('First').closest('.todo-item')!;
+
+      dragEvent('drop', target, dataTransfer(), 0);
+
+      expect(visibleTexts()).toEqual(['First', 'Second', 'Third']);
+    });
+
+    test('moving a todo re-renders only the moved item', () => {
+      const renderCounts = new Map<string, number>();
+      const countRender = (id: string) => renderCounts.set(id, (renderCounts.get(id) ?? 0) + 1);
+      render(
+        <TodoFeatureProvider masterStore={masterStore}>
+          {todos.map((todo) => (
+            <Profiler key={todo.id} id={todo.id} onRender={countRender}>
+              <TodoItem id={todo.id} />
+            </Profiler>
+          ))}
+        </TodoFeatureProvider>
+      );
+      renderCounts.clear();
+
+      act(() => todoService.moveTodo(todos[0].id, null));
+
+      expect(renderCounts.get(todos[0].id)).toBe(1);
+      expect(renderCounts.has(todos[1].id)).toBe(false);
+      expect(renderCounts.has(todos[2].id)).toBe(false);
+    });
+  });
+
+  describe('Sorting', () => {
+    const renderApp = () =>
+      render(
+        <TodoFeatureProvider masterStore={masterStore}>
+          <TodoApp />
+        </TodoFeatureProvider>
+      );
+
+    test('the sort select switches between orders and remembers the choice', async () => {
+      const user = userEvent.setup();
+      renderApp();
+
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Sort by' }), 'priority');
+      expect(visibleTexts()).toEqual(['Third', 'Second', 'First']);
+      expect(getTodoFilterView(masterStore).getItems()[0].sort).toBe('priority');
+
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Sort by' }), 'manual');
+      expect(visibleTexts()).toEqual(['First', 'Second', 'Third']);
+    });
+
+    test('drag handles are only offered while sorting by hand', () => {
+      setTodoSort(getTodoFilterView(masterStore), 'priority');
+      renderApp();
+
+      expect(screen.queryByRole('button', { name: /^Reorder/ })).not.toBeInTheDocument();
+    });
+
+    test('priority is set when adding and editing a todo', async () => {
+      const user = userEvent.setup();
+      renderApp();
+
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Urgent');
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Priority' }), 'high');
+      await user.click(screen.getByRole('button', { name: 'Add Todo' }));
+
+      const urgent = todoView.getItems().find((todo) => todo.text === 'Urgent')!;
+      expect(urgent.priority).toBe('high');
+      expect(screen.getByText('Urgent').closest('.todo-item')).toHaveClass('priority-high');
+      expect(screen.getByRole('combobox', { name: 'Priority' })).toHaveValue('normal');
+
+      const second = screen.getByText('Second').closest<HTMLElement>('.todo-item')!;
+      await user.click(within(second).getByRole('button', { name: 'Edit details' }));
+      await user.selectOptions(within(second).getByRole('combobox', { name: 'Priority' }), 'low');
+
+      expect(todoView.getById(todos[1].id)?.priority).toBe('low');
+      expect(second).toHaveClass('priority-low');
+    });
+  });
+});
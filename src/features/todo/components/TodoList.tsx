@@ -1,39 +1,242 @@
-import React from 'react';
-import { useTodoData } from '../hooks/useTodoData';
+import React, { useMemo, useRef, useState } from 'react';
+import { useFilteredTodoIds } from '../hooks/useFilteredTodoIds';
+import { useTodoDueSections } from '../hooks/useTodoDueSections';
+import { useTodoFilter } from '../hooks/useTodoFilter';
+import { useTodoSelector } from '../hooks/useTodoSelector';
+import { useTodoService } from '../hooks/useTodoService';
+import { useTodoItemServices } from '../hooks/useTodoItemServices';
+import { TodoReorderContext, type TodoReorderControls } from '../hooks/useTodoReorder';
+import { TodoSearchContext } from '../hooks/useTodoSearchHighlights';
+import { TODO_DUE_GROUP_LABELS } from '../config/todo.due';
+import { hasSearchTerms } from '../config/todo.search';
+import type { TodoFilter } from '../types/Todo';
 import { TodoItem } from './TodoItem';
 
+/**
+ * Empty state message for each filter.
+ */
+const EMPTY_MESSAGES: Record<TodoFilter, string> = {
+  all: 'No todos yet. Add one above to get started!',
+  active: 'Nothing left to do. Nice work!',
+  completed: 'No completed todos yet.',
+};
+
+/**
+ * Message shown when no todos are visible.
+ */
+const EmptyState: React.FC = () => {
+  const { filter, tag, query } = useTodoFilter();
+  const hasTodos = useTodoSelector(todos => todos.length > 0);
+
+  let message = EMPTY_MESSAGES.all;
+  if (hasTodos && hasSearchTerms(query)) {
+    message = `No todos match "${query.trim()}".`;
+  } else if (hasTodos) {
+    message = tag === undefined ? EMPTY_MESSAGES[filter] : `No ${filter === 'all' ? '' : `${filter} `}todos tagged #${tag}.`;
+  }
+
+  return (
+    <div className="empty-state">
+      <p>{message}</p>
+    </div>
+  );
+};
+
+/**
+ * Highlight the todo a dragged todo would be dropped next to.
+ */
+const markDropTarget = (
+  current: React.MutableRefObject<HTMLElement | null>,
+  target: HTMLElement | null,
+  position?: 'before' | 'after'
+) => {
+  if (current.current && current.current !== target) {
+    delete current.current.dataset.drop;
+  }
+  current.current = target;
+  if (target && position) {
+    target.dataset.drop = position;
+  }
+};
+
+/**
+ * Visible todos in list order.
+ *
+ * While the list is sorted manually, todos can be dragged onto each other
+ * or moved with the keyboard through their drag handles. Search results
+ * are ranked, so they cannot be reordered.
+ */
+const FlatTodoList: React.FC = () => {
+  const todoIds = useFilteredTodoIds();
+  const { sort, query } = useTodoFilter();
+  const todoService = useTodoService();
+  const services = useTodoItemServices();
+  const [announcement, setAnnouncement] = useState('');
+  const draggedId = useRef<string | null>(null);
+  const dropTarget = useRef<HTMLElement | null>(null);
+
+  // Read by the reorder actions, which stay stable while the list changes
+  const idsRef = useRef(todoIds);
+  idsRef.current = todoIds;
+
+  const manual = sort === 'manual' && !hasSearchTerms(query);
+
+  const reorder = useMemo<TodoReorderControls | null>(() => {
+    if (!manual) {
+      return null;
+    }
+    const positionOf = (id: string) => {
+      const index = idsRef.current.indexOf(id);
+      return index === -1 ? null : { index, count: idsRef.current.length };
+    };
+    return {
+      positionOf,
+      nextId: (id) => {
+        const ids = idsRef.current;
+        const index = ids.indexOf(id);
+        return index === -1 ? null : ids[index + 1] ?? null;
+      },
+      moveBy: (id, offset) => {
+        const ids = idsRef.current;
+        const index = ids.indexOf(id);
+        const target = Math.min(Math.max(index + offset, 0), ids.length - 1);
+        if (index === -1 || target === index) {
+          return null;
+        }
+        todoService.moveTodo(id, offset < 0 ? ids[target] : ids[target + 1] ?? null);
+        return { index: target, count: ids.length };
+      },
+      moveBefore: (id, beforeId) => todoService.moveTodo(id, beforeId),
+      startDrag: (id) => {
+        draggedId.current = id;
+      },
+      endDrag: () => {
+        draggedId.current = null;
+        markDropTarget(dropTarget, null);
+      },
+      announce: setAnnouncement,
+    };
+  }, [manual, todoService]);
+
+  // Find the todo under the pointer and which half of it the pointer is in
+  const locateDrop = (e: React.DragEvent) => {
+    const target = (e.target as Element).closest<HTMLElement>('[data-todo-id]');
+    if (!target) {
+      return null;
+    }
+    const rect = target.getBoundingClientRect();
+    const position: 'before' | 'after' = e.clientY > rect.top + rect.height / 2 ? 'after' : 'before';
+    return { target, id: target.dataset.todoId!, position };
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!draggedId.current) {
+      return;
+    }
+    e.preventDefault();
+    if (e.dataTransfer) {
+      e.dataTransfer.dropEffect = 'move';
+    }
+    const drop = locateDrop(e);
+    markDropTarget(dropTarget, drop?.target ?? null, drop?.position);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const id = draggedId.current;
+    if (!id || !reorder) {
+      return;
+    }
+    e.preventDefault();
+    const drop = locateDrop(e);
+    reorder.endDrag();
+    if (!drop || drop.id === id) {
+      return;
+    }
+    const beforeId = drop.position === 'before' ? drop.id : reorder.nextId(drop.id);
+    if (beforeId === id) {
+      return;
+    }
+    todoService.moveTodo(id, beforeId);
+    const others = idsRef.current.filter(other => other !== id);
+    const index = beforeId === null ? others.length : others.indexOf(beforeId);
+    setAnnouncement(`Moved to position ${index + 1} of ${idsRef.current.length}.`);
+  };
+
+  if (todoIds.length === 0) {
+    return <EmptyState />;
+  }
+
+  return (
+    <TodoReorderContext.Provider value={reorder}>
+      <div
+        className={`todo-list ${manual ? 'reorderable' : ''}`}
+        onDragOver={manual ? handleDragOver : undefined}
+        onDrop={manual ? handleDrop : undefined}
+      >
+        {todoIds.map(id => (
+          <TodoItem key={id} id={id} services={services} />
+        ))}
+      </div>
+      {manual && (
+        <div className="visually-hidden" role="status">
+          {announcement}
+        </div>
+      )}
+    </TodoReorderContext.Provider>
+  );
+};
+
+/**
+ * Visible todos in Overdue/Today/This week/Later sections.
+ */
+const GroupedTodoList: React.FC = () => {
+  const sections = useTodoDueSections();
+  const services = useTodoItemServices();
+
+  if (sections.length === 0) {
+    return <EmptyState />;
+  }
+
+  return (
+    <div className="todo-list grouped">
+      {sections.map(({ group, ids }) => (
+        <section key={group} className={`todo-section ${group}`} aria-label={TODO_DUE_GROUP_LABELS[group]}>
+          <h2 className="todo-section-title">{TODO_DUE_GROUP_LABELS[group]}</h2>
+          {ids.map(id => (
+            <TodoItem key={id} id={id} services={services} />
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+};
+
 /**
  * Component that renders the list of todos.
  *
- * Displays all todos in a scrollable list with:
- * - Empty state message when no todos exist
+ * Displays the todos matching the selected filter in a scrollable list with:
+ * - Empty state message when no todos exist or none match the filter
+ * - Sorting by hand (drag and drop or keyboard), priority, creation date or due date
+ * - Search results ranked by relevance while a search query is entered
+ * - Optional Overdue/Today/This week/Later sections
  * - Efficient rendering with React keys for performance
  * - Automatic updates via reactive data subscription
  * - Individual TodoItem components for each todo
  *
  * Performance optimized through:
- * - Structural sharing from Immer (prevents unnecessary re-renders)
+ * - Subscribing only to the list of visible IDs (changes inside a todo don't re-render the list)
  * - Proper React key usage for efficient list updates
- * - Memoized child components (TodoItem)
+ * - Memoized child components (TodoItem) that subscribe to their own todo
+ * - Resolving the services of the items once for the whole list
  *
  * @returns JSX element containing the todo list or empty state
  */
 export const TodoList: React.FC = () => {
-  const todos = useTodoData();
-
-  if (todos.length === 0) {
-    return (
-      <div className="empty-state">
-        <p>No todos yet. Add one above to get started!</p>
-      </div>
-    );
-  }
+  const { groupByDue, query } = useTodoFilter();
 
   return (
-    <div className="todo-list">
-      {todos.map(todo => (
-        <TodoItem key={todo.id} todo={todo} />
-      ))}
-    </div>
+    <TodoSearchContext.Provider value={hasSearchTerms(query) ? query : ''}>
+      {groupByDue ? <GroupedTodoList /> : <FlatTodoList />}
+    </TodoSearchContext.Provider>
   );
 };
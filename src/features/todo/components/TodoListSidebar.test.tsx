@@ -0,0 +1,146 @@
+import React from 'react';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+  TodoApp,
+  TodoFeatureProvider,
+  TodoWorkspace,
+  TODO_TYPES,
+  configureTodoContainer,
+  getTodoFilterView,
+  setTodoFilter,
+} from '../index';
+import type { ITodoListService, ITodoService } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+describe('Todo lists UI', () => {
+  let masterStore: MasterStore;
+  let listService: ITodoListService;
+  let inbox: ITodoService;
+
+  const sidebar = () => within(screen.getByRole('navigation', { name: 'Lists' }));
+  const todoTexts = (container: HTMLElement = document.body) =>
+    Array.from(container.querySelectorAll('.todo-text')).map((text) => text.textContent);
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    listService = container.get<ITodoListService>(TODO_TYPES.TodoListService);
+    inbox = container.get<ITodoService>(TODO_TYPES.TodoService);
+    inbox.addTodo({ text: 'Buy milk' });
+  });
+
+  const renderWorkspace = () =>
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        <TodoWorkspace />
+      </TodoFeatureProvider>
+    );
+
+  test('apps scoped to different lists share a store but not their todos or filters', async () => {
+    const user = userEvent.setup();
+    const work = listService.createList('Work');
+    const workTodos = configureTodoContainer(masterStore, { listId: work.id }).get<ITodoService>(
+      TODO_TYPES.TodoService
+    );
+    workTodos.toggleTodo(workTodos.addTodo({ text: 'Write report' }).id);
+    workTodos.addTodo({ text: 'Slides' });
+
+    const { container } = render(
+      <>
+        <TodoFeatureProvider masterStore={masterStore}>
+          <TodoApp />
+        </TodoFeatureProvider>
+        <TodoFeatureProvider masterStore={masterStore} listId={work.id}>
+          <TodoApp />
+        </TodoFeatureProvider>
+      </>
+    );
+    const [inboxApp, workApp] = Array.from(container.querySelectorAll<HTMLElement>('.todo-app'));
+
+    expect(todoTexts(inboxApp)).toEqual(['Buy milk']);
+    expect(todoTexts(workApp)).toEqual(['Write report', 'Slides']);
+    expect(within(workApp).getByText('1 of 2 completed')).toBeInTheDocument();
+
+    await user.type(within(workApp).getByPlaceholderText('Add a new todo...'), 'Call client{Enter}');
+    expect(todoTexts(inboxApp)).toEqual(['Buy milk']);
+    expect(todoTexts(workApp)).toHaveLength(3);
+
+    act(() => {
+      setTodoFilter(getTodoFilterView(masterStore, work.id), 'completed');
+    });
+    expect(todoTexts(workApp)).toEqual(['Write report']);
+    expect(todoTexts(inboxApp)).toEqual(['Buy milk']);
+  });
+
+  test('creating a list selects it and new todos go into it', async () => {
+    const user = userEvent.setup();
+    renderWorkspace();
+
+    expect(sidebar().getByRole('button', { name: 'Inbox' })).toHaveAttribute('aria-current', 'page');
+    await user.type(sidebar().getByRole('textbox', { name: 'New list name' }), 'Work{Enter}');
+
+    const [work] = listService.getLists();
+    expect(work.name).toBe('Work');
+    expect(sidebar().getByRole('button', { name: 'Work' })).toHaveAttribute('aria-current', 'page');
+    expect(todoTexts()).toEqual([]);
+
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Write report{Enter}');
+    expect(todoTexts()).toEqual(['Write report']);
+    expect(inbox.getAllTodos().map((todo) => todo.text)).toEqual(['Buy milk']);
+
+    await user.click(sidebar().getByRole('button', { name: 'Inbox' }));
+    expect(todoTexts()).toEqual(['Buy milk']);
+  });
+
+  test('empty list names are reported', async () => {
+    const user = userEvent.setup();
+    renderWorkspace();
+
+    await user.click(sidebar().getByRole('button', { name: 'Add list' }));
+
+    expect(sidebar().getByRole('alert')).toHaveTextContent('name');
+    expect(listService.getLists()).toEqual([]);
+  });
+
+  test('lists can be renamed, archived, restored and deleted', async () => {
+    const user = userEvent.setup();
+    const work = listService.createList('Work');
+    renderWorkspace();
+
+    await user.click(sidebar().getByRole('button', { name: 'Rename Work' }));
+    const input = sidebar().getByRole('textbox', { name: 'List name' });
+    await user.clear(input);
+    await user.type(input, 'Office{Enter}');
+    expect(listService.getList(work.id)?.name).toBe('Office');
+
+    await user.click(sidebar().getByRole('button', { name: 'Rename Office' }));
+    await user.type(sidebar().getByRole('textbox', { name: 'List name' }), 'ignored{Escape}');
+    expect(sidebar().getByRole('button', { name: 'Office' })).toBeInTheDocument();
+
+    await user.click(sidebar().getByRole('button', { name: 'Archive Office' }));
+    expect(sidebar().getByText('Archived (1)')).toBeInTheDocument();
+    await user.click(sidebar().getByRole('button', { name: 'Restore Office' }));
+    expect(sidebar().queryByText(/Archived/)).not.toBeInTheDocument();
+
+    await user.click(sidebar().getByRole('button', { name: 'Office' }));
+    await user.click(sidebar().getByRole('button', { name: 'Delete Office' }));
+    expect(listService.getLists()).toEqual([]);
+    expect(sidebar().getByRole('button', { name: 'Inbox' })).toHaveAttribute('aria-current', 'page');
+    expect(todoTexts()).toEqual(['Buy milk']);
+  });
+
+  test('the list picker moves a todo to another list', async () => {
+    const user = userEvent.setup();
+    listService.createList('Work');
+    renderWorkspace();
+
+    await user.click(screen.getByRole('button', { name: 'Edit details' }));
+    await user.selectOptions(screen.getByRole('combobox', { name: 'List' }), 'Work');
+    expect(todoTexts()).toEqual([]);
+
+    await user.click(sidebar().getByRole('button', { name: 'Work' }));
+    expect(todoTexts()).toEqual(['Buy milk']);
+  });
+});
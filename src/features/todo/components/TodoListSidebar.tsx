@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { ValidationError } from '@/store/schema';
+import { DEFAULT_TODO_LIST_NAME } from '../config/todo.lists';
+import { useTodoLists } from '../hooks/useTodoLists';
+import { useTodoListService } from '../hooks/useTodoListService';
+import type { TodoListInfo } from '../types/Todo';
+
+/**
+ * Props for the TodoListSidebar component.
+ */
+interface TodoListSidebarProps {
+  /** ID of the list shown; the default list when undefined */
+  selectedListId?: string;
+  /** Called with the ID of the list to show, or undefined for the default list */
+  onSelect: (listId: string | undefined) => void;
+}
+
+/**
+ * Message for a list name the schema rejected.
+ */
+function nameError(caught: unknown): string {
+  if (caught instanceof ValidationError) {
+    return caught.issues.map((issue) => `${issue.path} ${issue.message}`).join(', ');
+  }
+  throw caught;
+}
+
+/**
+ * One list in the sidebar, with its rename, archive and delete buttons.
+ */
+const TodoListEntry: React.FC<{
+  list: TodoListInfo;
+  selected: boolean;
+  onSelect: TodoListSidebarProps['onSelect'];
+}> = ({ list, selected, onSelect }) => {
+  const listService = useTodoListService();
+  const [name, setName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopRenaming = () => {
+    setName(null);
+    setError(null);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      listService.renameList(list.id, name ?? list.name);
+    } catch (caught) {
+      setError(nameError(caught));
+      return;
+    }
+    stopRenaming();
+  };
+
+  const handleDelete = () => {
+    listService.deleteList(list.id);
+    if (selected) {
+      onSelect(undefined);
+    }
+  };
+
+  if (name !== null) {
+    return (
+      <li className="todo-list-entry">
+        <form onSubmit={handleRename} className="todo-list-rename">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && stopRenaming()}
+            aria-label="List name"
+            aria-invalid={error !== null}
+            autoFocus
+          />
+          <button type="submit">Save</button>
+          {error && (
+            <span className="field-errors" role="alert">
+              {error}
+            </span>
+          )}
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li className={`todo-list-entry ${selected ? 'selected' : ''}`}>
+      <button
+        className="todo-list-select"
+        onClick={() => onSelect(list.id)}
+        aria-current={selected ? 'page' : undefined}
+      >
+        {list.name}
+      </button>
+      <button onClick={() => setName(list.name)} aria-label={`Rename ${list.name}`}>
+        ✎
+      </button>
+      <button
+        onClick={() => listService.setListArchived(list.id, !list.archived)}
+        aria-label={`${list.archived ? 'Restore' : 'Archive'} ${list.name}`}
+      >
+        {list.archived ? '↩' : '🗄'}
+      </button>
+      <button onClick={handleDelete} className="remove-button" aria-label={`Delete ${list.name}`}>
+        ×
+      </button>
+    </li>
+  );
+};
+
+/**
+ * Sidebar for choosing, creating and managing todo lists.
+ *
+ * Features:
+ * - The default list first, then every other list in creation order
+ * - Creating a list selects it
+ * - Inline renaming: Enter saves, Escape cancels
+ * - Archiving, which moves a list and its todos to the "Archived" section
+ * - Deleting a list and its todos; the default list is shown instead if it was selected
+ *
+ * The selection is owned by the caller, which typically scopes a
+ * `TodoFeatureProvider` to it (see `TodoWorkspace`).
+ *
+ * @param props - The selected list and the selection callback
+ * @returns JSX element with the sidebar
+ */
+export const TodoListSidebar: React.FC<TodoListSidebarProps> = ({ selectedListId, onSelect }) => {
+  const listService = useTodoListService();
+  const lists = useTodoLists();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const open = lists.filter((list) => !list.archived);
+  const archived = lists.filter((list) => list.archived);
+  const selectedExists = selectedListId === undefined || lists.some((list) => list.id === selectedListId);
+
+  // The selected list was deleted elsewhere, e.g. in another tab
+  useEffect(() => {
+    if (!selectedExists) {
+      onSelect(undefined);
+    }
+  }, [selectedExists, onSelect]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    let list: TodoListInfo;
+    try {
+      list = listService.createList(name);
+    } catch (caught) {
+      setError(nameError(caught));
+      return;
+    }
+    setName('');
+    setError(null);
+    onSelect(list.id);
+  };
+
+  const renderEntry = (list: TodoListInfo) => (
+    <TodoListEntry key={list.id} list={list} selected={list.id === selectedListId} onSelect={onSelect} />
+  );
+
+  return (
+    <nav className="todo-list-sidebar" aria-label="Lists">
+      <ul>
+        <li className={`todo-list-entry ${selectedListId === undefined ? 'selected' : ''}`}>
+          <button
+            className="todo-list-select"
+            onClick={() => onSelect(undefined)}
+            aria-current={selectedListId === undefined ? 'page' : undefined}
+          >
+            {DEFAULT_TODO_LIST_NAME}
+          </button>
+        </li>
+        {open.map(renderEntry)}
+      </ul>
+      <form onSubmit={handleCreate} className="add-list-form" noValidate>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New list..."
+          aria-label="New list name"
+          aria-invalid={error !== null}
+        />
+        <button type="submit">Add list</button>
+        {error && (
+          <span className="field-errors" role="alert">
+            {error}
+          </span>
+        )}
+      </form>
+      {archived.length > 0 && (
+        <details className="todo-list-archive">
+          <summary>Archived ({archived.length})</summary>
+          <ul>{archived.map(renderEntry)}</ul>
+        </details>
+      )}
+    </nav>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoApp, TodoFeatureProvider, TODO_TYPES, configureTodoContainer } from '../index';
+import type { ITodoService } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2024-03-04T09:00:00').getTime();
+
+describe('Todo Due Dates and Reminders UI', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+
+  const renderApp = () =>
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        <TodoApp />
+      </TodoFeatureProvider>
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    window.history.replaceState(null, '', '/');
+    masterStore = new MasterStore();
+    todoService = configureTodoContainer(masterStore).get<ITodoService>(TODO_TYPES.TodoService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('AddTodo stores the picked due date and reminder', async () => {
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    renderApp();
+
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Pay rent');
+    fireEvent.change(screen.getByLabelText('Due'), { target: { value: '2024-03-05T12:00' } });
+    fireEvent.change(screen.getByLabelText('Remind me'), { target: { value: '2024-03-05T10:00' } });
+    await user.click(screen.getByRole('button', { name: 'Add Todo' }));
+
+    expect(todoService.getAllTodos()[0]).toMatchObject({
+      text: 'Pay rent',
+      dueAt: new Date('2024-03-05T12:00'),
+      remindAt: new Date('2024-03-05T10:00'),
+    });
+    expect(screen.getByLabelText('Due')).toHaveValue('');
+  });
+
+  test('TodoItem edits the due date and highlights overdue todos', async () => {
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    const todo = todoService.addTodo({ text: 'Report' });
+    renderApp();
+
+    await user.click(screen.getByRole('button', { name: 'Edit details' }));
+    const item = screen.getByText('Report').closest('.todo-item') as HTMLElement;
+    fireEvent.change(within(item).getByLabelText('Due'), { target: { value: '2024-03-04T08:00' } });
+
+    expect(todoService.getAllTodos()[0].dueAt).toEqual(new Date('2024-03-04T08:00'));
+    expect(item).toHaveClass('overdue');
+
+    fireEvent.change(within(item).getByLabelText('Due'), { target: { value: '' } });
+    expect(todoService.getAllTodos()[0]).not.toHaveProperty('dueAt');
+    expect(todoService.getAllTodos()[0].id).toBe(todo.id);
+  });
+
+  test('the list can be grouped by due date', async () => {
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    todoService.addTodo({ text: 'Someday' });
+    todoService.addTodo({ text: 'Tonight', dueAt: new Date('2024-03-04T20:00') });
+    todoService.addTodo({ text: 'Late', dueAt: new Date('2024-03-01T12:00') });
+    renderApp();
+
+    await user.click(screen.getByRole('button', { name: 'Group by due date' }));
+
+    const sections = screen.getAllByRole('region');
+    expect(sections.map((section) => section.getAttribute('aria-label'))).toEqual([
+      'Overdue',
+      'Today',
+      'Later',
+    ]);
+    expect(within(sections[0]).getByText('Late')).toBeInTheDocument();
+  });
+
+  test('reminders appear as notifications and can be dismissed', async () => {
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    todoService.addTodo({ text: 'Stand-up', remindAt: new Date(START + 15 * MINUTE) });
+    renderApp();
+
+    expect(screen.queryByText(/Reminder:/)).not.toBeInTheDocument();
+    act(() => {
+      jest.advanceTimersByTime(15 * MINUTE);
+    });
+    expect(screen.getByText(/Reminder: Stand-up/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Dismiss reminder for Stand-up' }));
+
+    expect(screen.queryByText(/Reminder:/)).not.toBeInTheDocument();
+    expect(todoService.getAllTodos()[0]).not.toHaveProperty('remindAt');
+  });
+});
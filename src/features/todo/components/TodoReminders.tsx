@@ -0,0 +1,39 @@
+import React from 'react';
+import { useTodoReminders } from '../hooks/useTodoReminders';
+import { formatTodoDate } from '../config/todo.due';
+
+/**
+ * In-app notifications for todos whose reminder time has been reached.
+ *
+ * Mounting this component keeps the ReminderScheduler running. Each
+ * notification shows the todo text (and due date, if any) with a Dismiss
+ * button that clears the todo's reminder. Announced politely to screen
+ * readers as new reminders arrive.
+ *
+ * @returns JSX element with the reminder notifications
+ */
+export const TodoReminders: React.FC = () => {
+  const { reminders, dismiss } = useTodoReminders();
+
+  return (
+    <div className="todo-reminders" role="status" aria-live="polite">
+      {reminders.map((reminder) => (
+        <div key={reminder.id} className="todo-reminder">
+          <span className="todo-reminder-text">
+            Reminder: {reminder.text}
+            {reminder.dueAt && (
+              <span className="todo-reminder-due"> (due {formatTodoDate(reminder.dueAt)})</span>
+            )}
+          </span>
+          <button
+            onClick={() => dismiss(reminder.id)}
+            className="dismiss-button"
+            aria-label={`Dismiss reminder for ${reminder.text}`}
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
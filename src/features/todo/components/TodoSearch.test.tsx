@@ -0,0 +1,96 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoApp, TodoFeatureProvider, TODO_TYPES, configureTodoContainer, getTodoFilterView } from '../index';
+import type { ITodoService } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+describe('Todo search', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+
+  const todoTexts = () => Array.from(document.querySelectorAll('.todo-text')).map((text) => text.textContent);
+  const marks = () => Array.from(document.querySelectorAll('.todo-text mark')).map((mark) => mark.textContent);
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    masterStore = new MasterStore();
+    todoService = configureTodoContainer(masterStore).get<ITodoService>(TODO_TYPES.TodoService);
+    todoService.addTodo({ text: 'Repaint the fence' });
+    todoService.addTodo({ text: 'Write quarterly report' });
+    todoService.addTodo({ text: 'Report' });
+    todoService.addTodo({ text: 'Buy milk' });
+  });
+
+  const renderApp = () =>
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        <TodoApp />
+      </TodoFeatureProvider>
+    );
+
+  test('shows matching todos, best match first, with the matches highlighted', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    const search = screen.getByRole('searchbox', { name: 'Search todos' });
+
+    await user.type(search, 'rep');
+    expect(todoTexts()).toEqual(['Write quarterly report', 'Report', 'Repaint the fence']);
+    expect(marks()).toEqual(['rep', 'Rep', 'Rep']);
+
+    await user.type(search, 'ort');
+    expect(todoTexts()).toEqual(['Write quarterly report', 'Report']);
+    expect(marks()).toEqual(['report', 'Report']);
+  });
+
+  test('the query is kept with the filter, which still applies', async () => {
+    const user = userEvent.setup();
+    const milk = todoService.getAllTodos().find((todo) => todo.text === 'Buy milk')!;
+    todoService.addTodo({ text: 'Buy bread' });
+    todoService.toggleTodo(milk.id);
+    renderApp();
+
+    await user.type(screen.getByRole('searchbox', { name: 'Search todos' }), 'buy');
+    expect(getTodoFilterView(masterStore).getItem()?.query).toBe('buy');
+
+    await user.click(screen.getByRole('link', { name: 'Active' }));
+    expect(todoTexts()).toEqual(['Buy bread']);
+  });
+
+  test('results follow edits to the todos', async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.type(screen.getByRole('searchbox', { name: 'Search todos' }), 'milk');
+    expect(todoTexts()).toEqual(['Buy milk']);
+
+    act(() => {
+      todoService.addTodo({ text: 'Buy oat milk' });
+    });
+    expect(todoTexts()).toEqual(['Buy milk', 'Buy oat milk']);
+  });
+
+  test('reports when nothing matches and clears with Escape', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    const search = screen.getByRole('searchbox', { name: 'Search todos' });
+
+    await user.type(search, 'invoice');
+    expect(screen.getByText('No todos match "invoice".')).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+    expect(search).toHaveValue('');
+    expect(todoTexts()).toHaveLength(4);
+    expect(marks()).toEqual([]);
+  });
+
+  test('search results cannot be reordered by hand', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    expect(screen.getAllByRole('button', { name: /^Reorder/ })).toHaveLength(4);
+
+    await user.type(screen.getByRole('searchbox', { name: 'Search todos' }), 'rep');
+
+    expect(screen.queryAllByRole('button', { name: /^Reorder/ })).toEqual([]);
+  });
+});
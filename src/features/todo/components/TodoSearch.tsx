@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { useTodoFilter } from '../hooks/useTodoFilter';
+import { useTodoSearchService } from '../hooks/useTodoSearchService';
+
+/**
+ * Search box for finding todos by their text, tags and subtasks.
+ *
+ * Features:
+ * - Matches whole words, the start of words and words with a typo or two
+ * - The list shows matching todos only, best match first, with the matches highlighted
+ * - Escape clears the search
+ *
+ * Keeps the search index following the todos while mounted, so typing a
+ * query only has to look words up.
+ *
+ * @returns JSX element with the search box
+ */
+export const TodoSearch: React.FC = () => {
+  const searchService = useTodoSearchService();
+  const { query, setQuery } = useTodoFilter();
+
+  useEffect(() => searchService.start(), [searchService]);
+
+  return (
+    <div className="todo-search" role="search">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+        placeholder="Search todos..."
+        aria-label="Search todos"
+        className="todo-search-input"
+      />
+    </div>
+  );
+};
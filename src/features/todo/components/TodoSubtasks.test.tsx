@@ -0,0 +1,107 @@
+import React, { Profiler } from 'react';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoFeatureProvider, TodoItem, TODO_TYPES, configureTodoContainer } from '../index';
+import type { ITodoService, Todo } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+describe('Todo subtask checklist', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let todo: Todo;
+
+  const checklist = () => within(screen.getByRole('list', { name: 'Subtasks of Pack for trip' }));
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    todo = todoService.addTodo({ text: 'Pack for trip' });
+  });
+
+  const renderItem = () =>
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        <TodoItem id={todo.id} />
+      </TodoFeatureProvider>
+    );
+
+  test('shows progress and is collapsed by default', () => {
+    const socks = todoService.addSubtask(todo.id, 'Socks')!;
+    todoService.addSubtask(todo.id, 'Shirts');
+    todoService.toggleSubtask(todo.id, socks.id);
+    renderItem();
+
+    const toggle = screen.getByRole('button', { name: 'Subtasks, 1 of 2 done' });
+    expect(toggle).toHaveTextContent('1/2');
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText('Socks')).not.toBeInTheDocument();
+  });
+
+  test('subtasks can be added, checked off, reordered and removed', async () => {
+    const user = userEvent.setup();
+    renderItem();
+
+    await user.click(screen.getByRole('button', { name: 'Subtasks' }));
+    const input = screen.getByPlaceholderText('Add a subtask...');
+    await user.type(input, 'Socks{Enter}');
+    await user.type(input, 'Shirts{Enter}');
+    expect(input).toHaveValue('');
+    expect(screen.getByRole('button', { name: 'Subtasks, 0 of 2 done' })).toHaveTextContent('0/2');
+
+    await user.click(checklist().getByRole('checkbox', { name: 'Socks' }));
+    expect(screen.getByRole('button', { name: /Subtasks, 1 of 2 done/ })).toHaveTextContent('1/2');
+
+    await user.click(checklist().getByRole('button', { name: 'Move Shirts up' }));
+    expect(todoService.getAllTodos()[0].subtasks!.map((subtask) => subtask.text)).toEqual(['Shirts', 'Socks']);
+
+    await user.click(checklist().getByRole('button', { name: 'Remove subtask Socks' }));
+    expect(checklist().getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByRole('button', { name: /Subtasks, 0 of 1 done/ })).toHaveTextContent('0/1');
+  });
+
+  test('checking off the last subtask completes the todo', async () => {
+    const user = userEvent.setup();
+    todoService.addSubtask(todo.id, 'Socks');
+    renderItem();
+
+    await user.click(screen.getByRole('button', { name: /Subtasks/ }));
+    await user.click(checklist().getByRole('checkbox', { name: 'Socks' }));
+
+    expect(document.querySelector('.todo-checkbox')).toBeChecked();
+    expect(screen.getByText('Pack for trip').closest('.todo-item')).toHaveClass('completed');
+  });
+
+  test('empty subtasks are rejected with an error', async () => {
+    const user = userEvent.setup();
+    renderItem();
+
+    await user.click(screen.getByRole('button', { name: 'Subtasks' }));
+    await user.type(screen.getByPlaceholderText('Add a subtask...'), '   {Enter}');
+
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+    expect(todoService.getAllTodos()[0]).not.toHaveProperty('subtasks');
+  });
+
+  test('changing a subtask re-renders only its todo', () => {
+    const other = todoService.addTodo({ text: 'Other' });
+    const socks = todoService.addSubtask(todo.id, 'Socks')!;
+    const renderCounts = new Map<string, number>();
+    const countRender = (id: string) => renderCounts.set(id, (renderCounts.get(id) ?? 0) + 1);
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        {[todo, other].map(({ id }) => (
+          <Profiler key={id} id={id} onRender={countRender}>
+            <TodoItem id={id} />
+          </Profiler>
+        ))}
+      </TodoFeatureProvider>
+    );
+    renderCounts.clear();
+
+    act(() => todoService.toggleSubtask(todo.id, socks.id));
+
+    expect(renderCounts.get(todo.id)).toBe(1);
+    expect(renderCounts.has(other.id)).toBe(false);
+  });
+});
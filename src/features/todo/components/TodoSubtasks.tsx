@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ValidationError } from '@/store/schema';
+import { useTodoService } from '../hooks/useTodoService';
+import type { Todo } from '../types/Todo';
+
+/**
+ * Props for the TodoSubtasks component.
+ */
+interface TodoSubtasksProps {
+  /** Todo whose checklist to show */
+  todo: Todo;
+}
+
+/**
+ * Checklist of a todo's subtasks.
+ *
+ * Features:
+ * - Checkbox per subtask; finishing the last one may complete the todo
+ *   (see `TodoSubtaskOptions`)
+ * - Move up/down buttons for reordering
+ * - Remove button per subtask
+ * - Form for adding subtasks, with inline validation errors
+ *
+ * @param props - The todo whose subtasks to show
+ * @returns JSX element with the checklist
+ */
+export const TodoSubtasks: React.FC<TodoSubtasksProps> = ({ todo }) => {
+  const todoService = useTodoService();
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const subtasks = todo.subtasks ?? [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      todoService.addSubtask(todo.id, text);
+    } catch (caught) {
+      if (caught instanceof ValidationError) {
+        setError(caught.issues.map((issue) => `${issue.path} ${issue.message}`).join(', '));
+        return;
+      }
+      throw caught;
+    }
+    setText('');
+    setError(null);
+  };
+
+  return (
+    <div className="todo-subtasks">
+      {subtasks.length > 0 && (
+        <ul aria-label={`Subtasks of ${todo.text}`}>
+          {subtasks.map((subtask, index) => (
+            <li key={subtask.id} className={`todo-subtask ${subtask.completed ? 'completed' : ''}`}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={subtask.completed}
+                  onChange={() => todoService.toggleSubtask(todo.id, subtask.id)}
+                />
+                {subtask.text}
+              </label>
+              <button
+                onClick={() => todoService.moveSubtask(todo.id, subtask.id, index - 1)}
+                disabled={index === 0}
+                aria-label={`Move ${subtask.text} up`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => todoService.moveSubtask(todo.id, subtask.id, index + 1)}
+                disabled={index === subtasks.length - 1}
+                aria-label={`Move ${subtask.text} down`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => todoService.removeSubtask(todo.id, subtask.id)}
+                className="remove-button"
+                aria-label={`Remove subtask ${subtask.text}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} className="add-subtask-form" noValidate>
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Add a subtask..."
+          aria-label="New subtask"
+          aria-invalid={error !== null}
+          className="todo-subtask-input"
+        />
+        <button type="submit">Add</button>
+        {error && (
+          <span className="field-errors" role="alert">
+            {error}
+          </span>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+  TodoConflicts,
+  TodoFeatureProvider,
+  TodoItem,
+  TodoSync,
+  RestTodoRepository,
+  TODO_TYPES,
+  configureTodoContainer,
+} from '../index';
+import type { ITodoService } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+import { FakeTodoServer } from '@/test/fakeTodoServer';
+
+describe('Todo sync status', () => {
+  let server: FakeTodoServer;
+  let todoService: ITodoService;
+
+  const renderSync = (withRepository = true, prepare: (service: ITodoService) => string[] = () => []) => {
+    const masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    if (withRepository) {
+      container.bind(TODO_TYPES.RestRepositoryOptions).toConstantValue({ baseUrl: server.baseUrl, fetch: server.fetch });
+      container.bind(TODO_TYPES.TodoRepository).to(RestTodoRepository).inSingletonScope();
+    }
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    const ids = prepare(todoService);
+
+    return render(
+      <TodoFeatureProvider masterStore={masterStore} container={container}>
+        <TodoSync />
+        <TodoConflicts />
+        {ids.map((id) => (
+          <TodoItem key={id} id={id} />
+        ))}
+      </TodoFeatureProvider>
+    );
+  };
+
+  beforeEach(() => {
+    server = new FakeTodoServer();
+    server.seed({ id: 'milk', text: 'Buy milk', completed: false, createdAt: new Date() });
+  });
+
+  test('renders nothing while sync is off', () => {
+    const { container } = renderSync(false);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  test('loads the todos from the server and shows them synced', async () => {
+    renderSync(true, () => ['milk']);
+
+    expect(await screen.findByRole('img', { name: 'Synced' })).toBeInTheDocument();
+    expect(screen.getByText('Buy milk')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('All todos synced.');
+  });
+
+  test('failed todos can be retried', async () => {
+    const user = userEvent.setup();
+    renderSync();
+    await screen.findByText('All todos synced.');
+
+    server.failNext(1, 400);
+    let id = '';
+    // Marked pending after the change has been notified, then failed right away
+    await act(async () => {
+      id = todoService.addTodo({ text: 'Call Alex' }).id;
+    });
+    expect(await screen.findByText('1 todo could not be synced.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Retry failed' }));
+
+    expect(await screen.findByText('All todos synced.')).toBeInTheDocument();
+    expect(server.get(id)).toEqual(expect.objectContaining({ text: 'Call Alex' }));
+  });
+
+  test('reports todos and pulls that failed, and retries them', async () => {
+    const user = userEvent.setup();
+    // The pull and the first todo sent are rejected
+    server.failNext(2, 400);
+    renderSync(true, (service) => [service.addTodo({ text: 'Call Alex' }).id]);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Todos could not be loaded from the server. GET /todos failed with 400 Bad Request'
+    );
+    expect(await screen.findByRole('img', { name: 'Sync failed' })).toHaveAttribute(
+      'title',
+      'Sync failed: POST /todos failed with 400 Bad Request'
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByRole('img', { name: 'Synced' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Try again' }));
+    await waitFor(() => expect(screen.queryByRole('alert')).not.toBeInTheDocument());
+    expect(todoService.getAllTodos().map((todo) => todo.text)).toEqual(['Call Alex', 'Buy milk']);
+  });
+
+  test('shows conflicting changes and resolves them with the chosen version', async () => {
+    const user = userEvent.setup();
+    renderSync(true, () => ['milk']);
+    await screen.findByText('All todos synced.');
+
+    server.seed({ ...server.get('milk'), text: 'Buy soy milk', versions: { text: { clock: 100, replica: 'other' } } });
+    act(() => {
+      todoService.updateTodo('milk', { text: 'Buy oat milk' });
+    });
+
+    const conflict = await screen.findByRole('region', { name: 'Sync conflicts' });
+    expect(screen.getByRole('status')).toHaveTextContent('1 todo changed elsewhere too.');
+    expect(screen.getByRole('img', { name: 'Changed elsewhere too' })).toBeInTheDocument();
+    expect(within(conflict).getByRole('row', { name: 'Text Buy oat milk Buy soy milk' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Use their version of Buy oat milk' }));
+
+    expect(await screen.findByText('All todos synced.')).toBeInTheDocument();
+    expect(screen.queryByRole('region', { name: 'Sync conflicts' })).not.toBeInTheDocument();
+    expect(todoService.getAllTodos().map((todo) => todo.text)).toEqual(['Buy soy milk']);
+    expect(server.get('milk')).toEqual(expect.objectContaining({ text: 'Buy soy milk' }));
+  });
+});
@@ -0,0 +1,69 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTodoSyncService } from '../hooks/useTodoSyncService';
+import { useTodoSyncCounts } from '../hooks/useTodoSyncState';
+
+const plural = (count: number) => (count === 1 ? 'todo' : 'todos');
+
+/**
+ * Status of the sync with the server, for the todos of every list.
+ *
+ * Mounting this component loads the todos from the server and keeps
+ * TodoSyncService sending changes. Shows how many todos are waiting to be
+ * sent or could not be sent, with a button retrying the failed ones, and
+ * how many wait for a conflict to be resolved in TodoConflicts. Reports
+ * when the todos could not be loaded.
+ *
+ * Renders nothing unless a TodoRepository is bound in the container.
+ *
+ * @returns JSX element with the sync status
+ */
+export const TodoSync: React.FC = () => {
+  const syncService = useTodoSyncService();
+  const { pending, failed, conflict } = useTodoSyncCounts();
+  const [pullError, setPullError] = useState('');
+  const enabled = syncService.isEnabled();
+
+  const pull = useCallback(() => {
+    setPullError('');
+    syncService.pull().catch((error: unknown) => {
+      setPullError(`Todos could not be loaded from the server. ${error instanceof Error ? error.message : ''}`.trim());
+    });
+  }, [syncService]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return undefined;
+    }
+    const stop = syncService.start();
+    pull();
+    return stop;
+  }, [syncService, enabled, pull]);
+
+  if (!enabled) {
+    return null;
+  }
+
+  return (
+    <div className="todo-sync">
+      <p className="todo-sync-summary" role="status">
+        {pending > 0 && `${pending} ${plural(pending)} not synced yet. `}
+        {failed > 0 && `${failed} ${plural(failed)} could not be synced. `}
+        {conflict > 0 && `${conflict} ${plural(conflict)} changed elsewhere too.`}
+        {pending === 0 && failed === 0 && conflict === 0 && 'All todos synced.'}
+      </p>
+      {failed > 0 && (
+        <button type="button" onClick={() => syncService.retry()} className="todo-sync-button">
+          Retry failed
+        </button>
+      )}
+      {pullError && (
+        <p className="field-errors" role="alert">
+          {pullError}{' '}
+          <button type="button" onClick={pull} className="todo-sync-button">
+            Try again
+          </button>
+        </p>
+      )}
+    </div>
+  );
+};
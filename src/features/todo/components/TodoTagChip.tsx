@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useTodoItemServices } from '../hooks/useTodoItemServices';
+import type { TodoItemServices } from '../hooks/useTodoItemServices';
+import { getTodoFilterView, setTodoTag } from '../config/todo.filters';
+import { getTodoTagView, tagColorFor } from '../config/todo.tags';
+
+/**
+ * Props for the TodoTagChip component.
+ */
+interface TodoTagChipProps {
+  /** Tag name */
+  name: string;
+  /** Services of the todo item; resolved from the provider when omitted */
+  services?: TodoItemServices;
+}
+
+/**
+ * A tag on a todo, in the tag's colour. Clicking it shows only the todos
+ * with that tag.
+ *
+ * Subscribes to the tag's colour only, so todo items re-render when one of
+ * their tags is recoloured but not when the filter changes. Uses the
+ * services of its todo item, so chips add no container lookups.
+ *
+ * @returns JSX element with the tag
+ */
+export const TodoTagChip: React.FC<TodoTagChipProps> = ({ name, services }) => {
+  const {
+    masterStore,
+    listScope: { listId },
+  } = useTodoItemServices(services);
+  const tagView = useMemo(() => getTodoTagView(masterStore), [masterStore]);
+  const color = useStoreSelector(
+    tagView,
+    (tags) => tags.find((tag) => tag.name === name)?.color ?? tagColorFor(name)
+  );
+
+  return (
+    <button
+      className="todo-tag"
+      style={{ backgroundColor: color }}
+      aria-label={`Show todos tagged ${name}`}
+      onClick={() => setTodoTag(getTodoFilterView(masterStore, listId), name)}
+    >
+      #{name}
+    </button>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoApp, TodoFeatureProvider, TODO_TYPES, configureTodoContainer } from '../index';
+import type { ITodoService, ITodoTagService } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+describe('Todo tag filter', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let tagService: ITodoTagService;
+
+  const visibleTexts = () =>
+    Array.from(document.querySelectorAll('.todo-item .todo-text')).map((text) => text.textContent);
+
+  const tagFilter = () => within(screen.getByRole('list', { name: 'Filter by tag' }));
+
+  const renderApp = () =>
+    render(
+      <TodoFeatureProvider masterStore={masterStore}>
+        <TodoApp />
+      </TodoFeatureProvider>
+    );
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    tagService = container.get<ITodoTagService>(TODO_TYPES.TodoTagService);
+  });
+
+  test('is hidden while there are no tags', () => {
+    todoService.addTodo({ text: 'Untagged' });
+    renderApp();
+
+    expect(screen.queryByRole('list', { name: 'Filter by tag' })).not.toBeInTheDocument();
+  });
+
+  test('#tag words typed into the add form become tags', async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Buy milk #errands #Home{Enter}');
+
+    expect(todoService.getAllTodos()[0]).toMatchObject({ text: 'Buy milk', tags: ['errands', 'home'] });
+    expect(screen.getByRole('button', { name: 'Show todos tagged errands' })).toHaveTextContent('#errands');
+    expect(tagFilter().getByRole('button', { name: /#home/ })).toBeInTheDocument();
+  });
+
+  test('selecting a tag shows only the todos with it', async () => {
+    const user = userEvent.setup();
+    todoService.addTodo({ text: 'Buy milk', tags: ['errands'] });
+    todoService.addTodo({ text: 'Write report', tags: ['work'] });
+    todoService.addTodo({ text: 'Post letter', tags: ['errands', 'work'] });
+    renderApp();
+
+    await user.click(tagFilter().getByRole('button', { name: '#errands 2' }));
+    expect(visibleTexts()).toEqual(['Buy milk', 'Post letter']);
+    expect(tagFilter().getByRole('button', { name: '#errands 2' })).toHaveAttribute('aria-pressed', 'true');
+
+    // Tags on a todo select their tag too
+    await user.click(screen.getByRole('button', { name: 'Show todos tagged work' }));
+    expect(visibleTexts()).toEqual(['Write report', 'Post letter']);
+
+    await user.click(tagFilter().getByRole('button', { name: 'All tags' }));
+    expect(visibleTexts()).toEqual(['Buy milk', 'Write report', 'Post letter']);
+  });
+
+  test('the empty state names the selected tag', async () => {
+    const user = userEvent.setup();
+    const todo = todoService.addTodo({ text: 'Buy milk', tags: ['errands'] });
+    renderApp();
+
+    await user.click(tagFilter().getByRole('button', { name: /#errands/ }));
+    await user.click(screen.getByRole('link', { name: 'Completed' }));
+
+    expect(screen.getByText('No completed todos tagged #errands.')).toBeInTheDocument();
+    expect(todoService.getAllTodos()).toEqual([todo]);
+  });
+
+  test('the selected tag can be renamed, recoloured and deleted', async () => {
+    const user = userEvent.setup();
+    todoService.addTodo({ text: 'Buy milk', tags: ['errands'] });
+    todoService.addTodo({ text: 'Fix sink', tags: ['home'] });
+    renderApp();
+
+    await user.click(tagFilter().getByRole('button', { name: /#errands/ }));
+    const name = screen.getByRole('textbox', { name: 'Tag name' });
+    await user.clear(name);
+    await user.type(name, 'two words{Enter}');
+    expect(screen.getByRole('alert')).toHaveTextContent('Tag names may only contain');
+
+    await user.clear(name);
+    await user.type(name, 'Chores{Enter}');
+    expect(todoService.getAllTodos()[0].tags).toEqual(['chores']);
+    expect(tagFilter().getByRole('button', { name: /#chores/ })).toHaveAttribute('aria-pressed', 'true');
+    expect(visibleTexts()).toEqual(['Buy milk']);
+
+    fireEvent.change(screen.getByLabelText('Tag colour'), { target: { value: '#123456' } });
+    expect(tagService.getTag('chores')?.color).toBe('#123456');
+    expect(screen.getByRole('button', { name: 'Show todos tagged chores' })).toHaveStyle({ backgroundColor: '#123456' });
+
+    await user.click(screen.getByRole('button', { name: 'Delete tag' }));
+    expect(todoService.getAllTodos()[0]).not.toHaveProperty('tags');
+    expect(tagService.getTag('chores')).toBeUndefined();
+    expect(visibleTexts()).toEqual(['Buy milk', 'Fix sink']);
+  });
+
+  test('editing a todo shows its tags and changes them', async () => {
+    const user = userEvent.setup();
+    const todo = todoService.addTodo({ text: 'Buy milk', tags: ['errands', 'home'] });
+    renderApp();
+
+    await user.dblClick(screen.getByText('Buy milk'));
+    const input = screen.getByLabelText('Edit todo');
+    expect(input).toHaveValue('Buy milk #errands #home');
+
+    await user.clear(input);
+    await user.type(input, 'Buy oat milk #shopping{Enter}');
+
+    expect(todoService.getAllTodos()[0]).toMatchObject({ id: todo.id, text: 'Buy oat milk', tags: ['shopping'] });
+    expect(tagService.getTag('shopping')).toBeDefined();
+  });
+});
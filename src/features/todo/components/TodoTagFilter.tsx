@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ValidationError } from '@/store/schema';
+import { useTodoFilter } from '../hooks/useTodoFilter';
+import { useTodoTags, type TodoTagSummary } from '../hooks/useTodoTags';
+import { useTodoTagService } from '../hooks/useTodoTagService';
+
+/**
+ * Rename, recolour or delete the selected tag.
+ */
+const TagEditor: React.FC<{ tag: TodoTagSummary }> = ({ tag }) => {
+  const tagService = useTodoTagService();
+  const [name, setName] = useState(tag.name);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      tagService.renameTag(tag.name, name);
+      setError(null);
+    } catch (caught) {
+      if (caught instanceof ValidationError) {
+        setError('Tag names may only contain letters, digits, "-" and "_"');
+        return;
+      }
+      throw caught;
+    }
+  };
+
+  return (
+    <form className="todo-tag-editor" onSubmit={handleRename}>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        aria-label="Tag name"
+        aria-invalid={error !== null}
+        title="Renaming to an existing tag merges the two"
+        className="todo-tag-name-input"
+      />
+      <button type="submit">Rename</button>
+      <input
+        type="color"
+        value={tag.color}
+        onChange={(e) => tagService.setTagColor(tag.name, e.target.value)}
+        aria-label="Tag colour"
+      />
+      <button type="button" className="delete-tag" onClick={() => tagService.deleteTag(tag.name)}>
+        Delete tag
+      </button>
+      {error && (
+        <p className="field-errors" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+};
+
+/**
+ * Tag bar for showing only the todos with one tag.
+ *
+ * Features:
+ * - One button per tag, in its colour, with the number of todos using it
+ * - "All tags" to stop filtering by tag
+ * - Rename (merging into an existing tag of that name), recolour and delete
+ *   the selected tag; every todo using it is updated in one write
+ *
+ * Renders nothing while no tags exist.
+ *
+ * @returns JSX element with the tag filter, or null
+ */
+export const TodoTagFilter: React.FC = () => {
+  const tags = useTodoTags();
+  const { tag: selected, setTag } = useTodoFilter();
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const selectedTag = tags.find((tag) => tag.name === selected);
+
+  return (
+    <div className="todo-tag-filter">
+      <ul className="todo-tag-list" aria-label="Filter by tag">
+        <li>
+          <button
+            className={`all-tags ${selected === undefined ? 'selected' : ''}`}
+            aria-pressed={selected === undefined}
+            onClick={() => setTag(undefined)}
+          >
+            All tags
+          </button>
+        </li>
+        {tags.map((tag) => (
+          <li key={tag.name}>
+            <button
+              className={`todo-tag ${tag.name === selected ? 'selected' : ''}`}
+              style={{ backgroundColor: tag.color }}
+              aria-pressed={tag.name === selected}
+              onClick={() => setTag(tag.name === selected ? undefined : tag.name)}
+            >
+              #{tag.name} <span className="todo-tag-count">{tag.count}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {selectedTag && <TagEditor key={selectedTag.name} tag={selectedTag} />}
+    </div>
+  );
+};
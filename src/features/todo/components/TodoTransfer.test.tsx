@@ -0,0 +1,107 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoFeatureProvider, TodoTransfer, TODO_TYPES, configureTodoContainer } from '../index';
+import type { Clock, ITodoService } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+/** Contents of a downloaded file; jsdom's Blob has no `text()` */
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+describe('Todo import and export', () => {
+  const NOW = new Date(2024, 2, 10, 9, 30);
+  const clock: Clock = {
+    now: () => NOW.getTime(),
+    setTimeout: () => undefined,
+    clearTimeout: () => undefined,
+  };
+
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let downloads: { name: string; blob: Blob }[];
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    container.rebind(TODO_TYPES.Clock).toConstantValue(clock);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+
+    // jsdom has no object URLs and does not follow download links
+    downloads = [];
+    const blobs = new Map<string, Blob>();
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      const url = `blob:${blobs.size}`;
+      blobs.set(url, blob);
+      return url;
+    });
+    URL.revokeObjectURL = jest.fn();
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push({ name: this.download, blob: blobs.get(this.href)! });
+    });
+
+    render(
+      <TodoFeatureProvider masterStore={masterStore} container={container}>
+        <TodoTransfer />
+      </TodoFeatureProvider>
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('downloads the todos in the selected format', async () => {
+    const user = userEvent.setup();
+    const todo = todoService.addTodo({ text: 'Buy milk' });
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'File format' }), 'Markdown');
+    await user.click(screen.getByRole('button', { name: 'Export' }));
+
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].name).toBe('todos-2024-03-10.md');
+    expect(downloads[0].blob.type).toBe('text/markdown');
+    expect(await readBlob(downloads[0].blob)).toBe(`- [ ] Buy milk <!-- id:${todo.id} -->\n`);
+    expect(URL.revokeObjectURL).toHaveBeenCalled();
+  });
+
+  test('imports a file in the format of its extension and reports the outcome', async () => {
+    const user = userEvent.setup();
+    const existing = todoService.addTodo({ text: 'Call mom' });
+    const file = new File([`id,text\n${existing.id},Call dad\n,Buy milk\n`], 'todos.csv', { type: 'text/csv' });
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Existing todos' }), 'Merge');
+    await user.upload(screen.getByLabelText('Import'), file);
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Imported 2 todos: 1 added, 1 updated.');
+    expect(todoService.getAllTodos().map((todo) => todo.text)).toEqual(['Call dad', 'Buy milk']);
+  });
+
+  test('explains why a file could not be imported', async () => {
+    const user = userEvent.setup();
+    const file = new File(['{"todos": []}'], 'backup.json', { type: 'application/json' });
+
+    await user.upload(screen.getByLabelText('Import'), file);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'backup.json could not be imported. The file is not a todo export'
+    );
+    expect(todoService.getAllTodos()).toEqual([]);
+  });
+
+  test('reports files that cannot be read', async () => {
+    const user = userEvent.setup();
+    jest.spyOn(FileReader.prototype, 'readAsText').mockImplementation(function (this: FileReader) {
+      this.onerror?.(new ProgressEvent('error') as ProgressEvent<FileReader>);
+    });
+
+    await user.upload(screen.getByLabelText('Import'), new File(['- [ ] Buy milk'], 'todos.md'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('todos.md could not be imported.');
+    expect(todoService.getAllTodos()).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react';
+import { ValidationError } from '@/store/schema';
+import { useTodoTransferService } from '../hooks/useTodoTransferService';
+import { useDIClock } from '../config/todo.provider';
+import {
+  TODO_TRANSFER_FORMATS,
+  TODO_TRANSFER_FORMAT_INFO,
+  TodoImportError,
+  formatLocalDay,
+  transferFormatOfFile,
+} from '../config/transfer';
+import type { TodoDuplicatePolicy, TodoImportResult, TodoTransferFormat } from '../types/Todo';
+
+/**
+ * Display names of the duplicate policies, in the order they are offered.
+ */
+const DUPLICATE_POLICY_LABELS: Record<TodoDuplicatePolicy, string> = {
+  skip: 'Keep existing',
+  merge: 'Merge',
+  replace: 'Replace',
+};
+
+/**
+ * Extensions of the files the import accepts.
+ */
+const ACCEPTED_FILES = [
+  ...TODO_TRANSFER_FORMATS.map((format) => `.${TODO_TRANSFER_FORMAT_INFO[format].extension}`),
+  '.markdown',
+].join(',');
+
+const plural = (count: number) => (count === 1 ? 'todo' : 'todos');
+
+function describeImport({ added, updated, skipped }: TodoImportResult): string {
+  const parts = [`${added} added`];
+  if (updated > 0) {
+    parts.push(`${updated} updated`);
+  }
+  if (skipped > 0) {
+    parts.push(`${skipped} already existed`);
+  }
+  const total = added + updated + skipped;
+  return `Imported ${total} ${plural(total)}: ${parts.join(', ')}.`;
+}
+
+/**
+ * Read a file chosen by the user as text.
+ */
+function readFileText(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Start a download of text as a file.
+ */
+function downloadFile(contents: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export and import controls for the todos of the list.
+ *
+ * Features:
+ * - Exports as JSON, CSV, Markdown or todo.txt, downloaded as `todos-<day>.<ext>`
+ * - Imports a file in any of these formats, recognised by its extension
+ *   (otherwise read in the selected format)
+ * - Todos that already exist are kept, merged or replaced, as selected
+ * - Reports how many todos were imported, or why a file could not be read
+ *
+ * An import is one undo step.
+ *
+ * @returns JSX element with the export and import controls
+ */
+export const TodoTransfer: React.FC = () => {
+  const transferService = useTodoTransferService();
+  const clock = useDIClock();
+  const [format, setFormat] = useState<TodoTransferFormat>('json');
+  const [duplicates, setDuplicates] = useState<TodoDuplicatePolicy>('skip');
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const info = TODO_TRANSFER_FORMAT_INFO[format];
+    const day = formatLocalDay(new Date(clock.now()));
+    downloadFile(transferService.exportTodos(format), `todos-${day}.${info.extension}`, info.mimeType);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setStatus('');
+    setError('');
+    try {
+      const text = await readFileText(file);
+      const result = transferService.importTodos(text, transferFormatOfFile(file.name) ?? format, duplicates);
+      setStatus(describeImport(result));
+    } catch (caught) {
+      if (caught instanceof TodoImportError) {
+        setError(`${file.name} could not be imported. ${caught.message}`);
+      } else if (caught instanceof ValidationError) {
+        const issues = caught.issues.map((issue) => `${issue.path} ${issue.message}`).join(', ');
+        setError(`${file.name} could not be imported. ${issues}`);
+      } else {
+        // E.g. the file could not be read
+        setError(`${file.name} could not be imported.`);
+      }
+    } finally {
+      // Choosing the same file again imports it again
+      if (fileInput.current) {
+        fileInput.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="todo-transfer">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as TodoTransferFormat)}
+        aria-label="File format"
+        className="todo-transfer-format"
+      >
+        {TODO_TRANSFER_FORMATS.map((option) => (
+          <option key={option} value={option}>
+            {TODO_TRANSFER_FORMAT_INFO[option].label}
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={handleExport} className="todo-transfer-button">
+        Export
+      </button>
+      <label className="todo-transfer-button">
+        Import
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPTED_FILES}
+          onChange={handleImport}
+          className="visually-hidden"
+        />
+      </label>
+      <select
+        value={duplicates}
+        onChange={(e) => setDuplicates(e.target.value as TodoDuplicatePolicy)}
+        aria-label="Existing todos"
+        className="todo-transfer-duplicates"
+      >
+        {(Object.keys(DUPLICATE_POLICY_LABELS) as TodoDuplicatePolicy[]).map((option) => (
+          <option key={option} value={option}>
+            {DUPLICATE_POLICY_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      <p className="todo-transfer-status" role="status">
+        {status}
+      </p>
+      {error && (
+        <p className="field-errors" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { TodoFeatureProvider } from '../config/todo.provider';
+import { TodoListSidebar } from './TodoListSidebar';
+import { TodoApp } from './TodoApp';
+import { TodoSync } from './TodoSync';
+import { TodoConflicts } from './TodoConflicts';
+
+/**
+ * Todo app with a sidebar of lists.
+ *
+ * Shows the list selected in the sidebar in a `TodoApp` whose provider is
+ * scoped to that list. The nested provider works on a child container of
+ * the surrounding one, so bindings of the surrounding container, such as
+ * a TodoRepository, apply to the list shown. Sync with a server is run by
+ * the surrounding container, for every list.
+ *
+ * @example
+ * ```tsx
+ * <TodoFeatureProvider masterStore={masterStore}>
+ *   <TodoWorkspace />
+ * </TodoFeatureProvider>
+ * ```
+ *
+ * @returns JSX element with the sidebar and the selected list
+ */
+export const TodoWorkspace: React.FC = () => {
+  const [listId, setListId] = useState<string | undefined>(undefined);
+
+  return (
+    <div className="todo-workspace">
+      <div className="todo-workspace-side">
+        <TodoListSidebar selectedListId={listId} onSelect={setListId} />
+        <TodoSync />
+        <TodoConflicts />
+      </div>
+      <TodoFeatureProvider listId={listId}>
+        <TodoApp />
+      </TodoFeatureProvider>
+    </div>
+  );
+};
@@ -1,21 +1,25 @@
-import { Container } from 'inversify';
-import { MasterStore } from '@/store/MasterStore';
-import { TodoService } from '../services/TodoService';
+import { ContainerModule } from 'inversify';
+import type { Container, interfaces } from 'inversify';
+import { AppContainer } from '@/container';
+import type { MasterStore } from '@/store/MasterStore';
+import { TODO_FEATURE_INFO, bindTodoListServices } from './todo.module';
 import { TODO_TYPES } from './todo.types';
-import type { Todo } from '../types/Todo';
+import type { TodoListScope } from './todo.lists';
 
 /**
  * Configure a complete DI container for the Todo feature.
  * 
- * Creates a self-contained container with all dependencies needed
- * for the Todo feature to function independently.
+ * Creates a self-contained AppContainer with only the Todo feature
+ * module loaded, so the feature can function independently.
  * 
  * This function can be used to:
  * - Create a standalone Todo feature
  * - Integrate Todo into existing apps
  * - Test the Todo feature in isolation
+ * - Work on one list of a store shared with other containers
  * 
  * @param existingMasterStore - Optional existing MasterStore to reuse
+ * @param scope - Optional list to work on; the default list when omitted
  * @returns Configured Container with all Todo dependencies
  * 
  * @example
@@ -25,28 +29,51 @@ import type { Todo } from '../types/Todo';
  * 
  * // Integration with existing store
  * const container = configureTodoContainer(myExistingStore);
+ *
+ * // The todos of one list
+ * const container = configureTodoContainer(myExistingStore, { listId: work.id });
  * ```
  */
-export function configureTodoContainer(existingMasterStore?: MasterStore): Container {
-  const container = new Container();
-  
-  // Use existing store or create new one
-  const masterStore = existingMasterStore || new MasterStore();
-  
-  // Bind core dependencies
-  container.bind(TODO_TYPES.MasterStore).toConstantValue(masterStore);
-  
-  // Bind TodoView as a dynamic value from MasterStore
-  container.bind(TODO_TYPES.TodoView).toDynamicValue(() => 
-    masterStore.getView<Todo>('todos')
-  ).inSingletonScope();
-  
-  // Bind TodoService
-  container.bind(TODO_TYPES.TodoService).to(TodoService).inSingletonScope();
-  
+export function configureTodoContainer(existingMasterStore?: MasterStore, scope: TodoListScope = {}): Container {
+  const { container } = new AppContainer({ masterStore: existingMasterStore }).load(TODO_FEATURE_INFO);
+  container.rebind(TODO_TYPES.ListScope).toConstantValue(scope);
   return container;
 }
 
+/**
+ * Create a child container of a Todo container, e.g. for a subtree that
+ * shows another list or overrides some bindings.
+ *
+ * The child has its own TodoService, search, transfer and reminder
+ * services, created with the child's bindings. Everything else, including
+ * tags, lists, sync and bindings added to the parent such as a
+ * TodoRepository, is inherited.
+ *
+ * @param parent - Container with the Todo module loaded
+ * @param scope - List to work on; the parent's list when omitted
+ * @param bindings - Bindings overriding the parent's or the child's own services
+ * @returns The child container
+ *
+ * @example
+ * ```typescript
+ * const preview = createTodoChildContainer(container, undefined, (child) => {
+ *   child.bind(TODO_TYPES.TodoService).to(ReadOnlyTodoService).inSingletonScope();
+ * });
+ * ```
+ */
+export function createTodoChildContainer(
+  parent: interfaces.Container,
+  scope?: TodoListScope,
+  bindings?: (container: interfaces.Container) => void
+): interfaces.Container {
+  const child = parent.createChild();
+  bindings?.(child);
+  child.load(new ContainerModule((bind) =>
+    bindTodoListServices(bind, scope, (identifier) => child.isCurrentBound(identifier))
+  ));
+  return child;
+}
+
 /**
  * Create a minimal container for testing purposes.
  * 
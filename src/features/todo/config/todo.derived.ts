@@ -0,0 +1,78 @@
+import type { MasterStore, ReadonlyStoreView } from '@/store/MasterStore';
+import { TODOS_KEY } from './todo.types';
+import { belongsToList } from './todo.lists';
+import type { Todo, TodoStats } from '../types/Todo';
+
+/**
+ * MasterStore keys of the derived views of a list.
+ * @param listId - ID of the list, or undefined for the default list
+ */
+export function todoDerivedKeys(listId?: string) {
+  const suffix = listId === undefined ? '' : `@${listId}`;
+  return {
+    /** Todos that are not yet completed */
+    active: `${TODOS_KEY}.active${suffix}`,
+    /** Completed todos */
+    completed: `${TODOS_KEY}.completed${suffix}`,
+    /** Single-item view holding the todo statistics */
+    stats: `${TODOS_KEY}.stats${suffix}`,
+  } as const;
+}
+
+/**
+ * MasterStore keys of the derived views of the default list.
+ */
+export const TODO_DERIVED_KEYS = todoDerivedKeys();
+
+/**
+ * ID of the single item in the statistics view.
+ */
+export const TODO_STATS_ID = 'stats';
+
+/**
+ * Derived read-only views over the todo collection.
+ */
+export interface TodoDerivedViews {
+  active: ReadonlyStoreView<Todo>;
+  completed: ReadonlyStoreView<Todo>;
+  stats: ReadonlyStoreView<TodoStats>;
+}
+
+/**
+ * Register (or look up) the derived views of a list on a MasterStore.
+ *
+ * Safe to call repeatedly: MasterStore returns the already registered
+ * views for known keys, so every caller shares the same memoized results.
+ *
+ * @param masterStore - MasterStore holding the todos
+ * @param listId - ID of the list, or undefined for the default list
+ * @returns The active, completed and statistics views
+ *
+ * @example
+ * ```typescript
+ * const { stats } = deriveTodoViews(masterStore);
+ * console.log(stats.getItem()?.completed);
+ * ```
+ */
+export function deriveTodoViews(masterStore: MasterStore, listId?: string): TodoDerivedViews {
+  const keys = todoDerivedKeys(listId);
+  return {
+    active: masterStore.derive<Todo>(keys.active, [TODOS_KEY], (todos: Todo[]) =>
+      todos.filter((todo) => belongsToList(todo, listId) && !todo.completed)
+    ),
+    completed: masterStore.derive<Todo>(keys.completed, [TODOS_KEY], (todos: Todo[]) =>
+      todos.filter((todo) => belongsToList(todo, listId) && todo.completed)
+    ),
+    stats: masterStore.derive<TodoStats>(keys.stats, [TODOS_KEY], (todos: Todo[]) => {
+      let total = 0;
+      let completed = 0;
+      todos.forEach((todo) => {
+        if (belongsToList(todo, listId)) {
+          total++;
+          completed += todo.completed ? 1 : 0;
+        }
+      });
+      return [{ id: TODO_STATS_ID, total, completed, active: total - completed }];
+    }),
+  };
+}
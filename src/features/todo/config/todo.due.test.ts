@@ -0,0 +1,70 @@
+import {
+  fromDateTimeInputValue,
+  groupTodosByDue,
+  isTodoOverdue,
+  todoDueGroupOf,
+  toDateTimeInputValue,
+} from './todo.due';
+import type { Todo } from '../types/Todo';
+
+// Monday morning, local time
+const NOW = new Date('2024-03-04T09:00:00').getTime();
+
+const todo = (text: string, dueAt?: string, completed = false): Todo => ({
+  id: text,
+  text,
+  completed,
+  createdAt: new Date(NOW),
+  ...(dueAt && { dueAt: new Date(dueAt) }),
+});
+
+describe('Todo Due Dates', () => {
+  describe('Grouping', () => {
+    test('places todos in Overdue/Today/This week/Later', () => {
+      expect(todoDueGroupOf(todo('Past', '2024-03-04T08:00'), NOW)).toBe('overdue');
+      expect(todoDueGroupOf(todo('Tonight', '2024-03-04T23:59'), NOW)).toBe('today');
+      expect(todoDueGroupOf(todo('Sunday', '2024-03-10T12:00'), NOW)).toBe('thisWeek');
+      expect(todoDueGroupOf(todo('Next Monday', '2024-03-11T12:00'), NOW)).toBe('later');
+      expect(todoDueGroupOf(todo('Someday'), NOW)).toBe('later');
+    });
+
+    test('completed todos are never overdue', () => {
+      const done = todo('Done', '2024-03-01T12:00', true);
+
+      expect(isTodoOverdue(done, NOW)).toBe(false);
+      expect(todoDueGroupOf(done, NOW)).toBe('today');
+    });
+
+    test('sections are sorted by due date and empty ones are left out', () => {
+      const sections = groupTodosByDue(
+        [
+          todo('Someday'),
+          todo('Friday', '2024-03-08T12:00'),
+          todo('Late', '2024-03-03T12:00'),
+          todo('Wednesday', '2024-03-06T12:00'),
+        ],
+        NOW
+      );
+
+      expect(sections.map(({ group, todos }) => [group, todos.map((t) => t.text)])).toEqual([
+        ['overdue', ['Late']],
+        ['thisWeek', ['Wednesday', 'Friday']],
+        ['later', ['Someday']],
+      ]);
+    });
+  });
+
+  describe('Date Inputs', () => {
+    test('round-trips local times through datetime-local values', () => {
+      const date = new Date(2024, 2, 4, 14, 30);
+
+      expect(toDateTimeInputValue(date)).toBe('2024-03-04T14:30');
+      expect(fromDateTimeInputValue('2024-03-04T14:30')).toEqual(date);
+    });
+
+    test('empty inputs mean no date', () => {
+      expect(toDateTimeInputValue(undefined)).toBe('');
+      expect(fromDateTimeInputValue('')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import type { Todo, TodoDueGroup } from '../types/Todo';
+
+/**
+ * Due date sections, in display order.
+ */
+export const TODO_DUE_GROUPS: readonly TodoDueGroup[] = ['overdue', 'today', 'thisWeek', 'later'];
+
+/**
+ * Display names of the due date sections.
+ */
+export const TODO_DUE_GROUP_LABELS: Record<TodoDueGroup, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  thisWeek: 'This week',
+  later: 'Later',
+};
+
+/**
+ * Todos of one due date section.
+ */
+export interface TodoDueSection {
+  group: TodoDueGroup;
+  todos: Todo[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the local calendar day after `now`.
+ */
+function endOfToday(now: number): number {
+  const date = new Date(now);
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Check whether an open todo is past its due date.
+ * Completed todos are never overdue.
+ * @param todo - Todo to check
+ * @param now - Current time in milliseconds
+ */
+export function isTodoOverdue(todo: Todo, now: number): boolean {
+  return !todo.completed && todo.dueAt !== undefined && todo.dueAt.getTime() < now;
+}
+
+/**
+ * Get the due date section a todo belongs in.
+ *
+ * - Overdue: open todos whose due date has passed
+ * - Today: due before the end of the current local day
+ * - This week: due within the next seven days
+ * - Later: due after that, or without a due date
+ *
+ * @param todo - Todo to place
+ * @param now - Current time in milliseconds
+ */
+export function todoDueGroupOf(todo: Todo, now: number): TodoDueGroup {
+  if (!todo.dueAt) {
+    return 'later';
+  }
+  if (isTodoOverdue(todo, now)) {
+    return 'overdue';
+  }
+  const dueAt = todo.dueAt.getTime();
+  const todayEnd = endOfToday(now);
+  if (dueAt < todayEnd) {
+    return 'today';
+  }
+  return dueAt < todayEnd + 6 * DAY_MS ? 'thisWeek' : 'later';
+}
+
+/**
+ * Order todos by due date, earliest first. Todos without a due date come
+ * last; ties keep their list order.
+ */
+export function compareTodosByDue(a: Todo, b: Todo): number {
+  const aDue = a.dueAt?.getTime() ?? Infinity;
+  const bDue = b.dueAt?.getTime() ?? Infinity;
+  return aDue === bDue ? 0 : aDue < bDue ? -1 : 1;
+}
+
+/**
+ * Split todos into due date sections, each sorted by due date unless
+ * another comparator is given. Empty sections are left out.
+ * @param todos - Todos to group, in list order
+ * @param now - Current time in milliseconds
+ * @param compare - Order of the todos within a section
+ * @returns Non-empty sections in display order
+ */
+export function groupTodosByDue(
+  todos: readonly Todo[],
+  now: number,
+  compare: (a: Todo, b: Todo) => number = compareTodosByDue
+): TodoDueSection[] {
+  const groups = new Map<TodoDueGroup, Todo[]>(TODO_DUE_GROUPS.map((group) => [group, []]));
+  todos.forEach((todo) => groups.get(todoDueGroupOf(todo, now))!.push(todo));
+
+  return TODO_DUE_GROUPS.filter((group) => groups.get(group)!.length > 0).map((group) => ({
+    group,
+    todos: groups.get(group)!.sort(compare),
+  }));
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a date for a `datetime-local` input, in local time.
+ * @param date - Date to show, or undefined for an empty input
+ */
+export function toDateTimeInputValue(date: Date | undefined): string {
+  if (!date) {
+    return '';
+  }
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Read the value of a `datetime-local` input as a local time.
+ * @param value - Input value (`YYYY-MM-DDTHH:mm`)
+ * @returns The date, or undefined if the input is empty
+ */
+export function fromDateTimeInputValue(value: string): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Short human-readable form of a due date, e.g. "Mar 4, 14:30".
+ * @param date - Date to format
+ */
+export function formatTodoDate(date: Date): string {
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
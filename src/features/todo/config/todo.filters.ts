@@ -0,0 +1,165 @@
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { TODO_FILTER_KEY } from './todo.types';
+import { DEFAULT_TODO_SORT } from './todo.sort';
+import type { Todo, TodoFilter, TodoFilterState, TodoSortMode } from '../types/Todo';
+
+/**
+ * ID of the single item in the filter view.
+ */
+export const TODO_FILTER_ID = 'filter';
+
+/**
+ * Filter used when none has been selected.
+ */
+export const DEFAULT_TODO_FILTER: TodoFilter = 'all';
+
+/**
+ * Every filter, in the order they are offered to users.
+ */
+export const TODO_FILTERS: readonly TodoFilter[] = ['all', 'active', 'completed'];
+
+/**
+ * Check whether a todo is shown by a filter.
+ * @param todo - Todo to check
+ * @param filter - Selected filter
+ */
+export function matchesTodoFilter(todo: Todo, filter: TodoFilter): boolean {
+  switch (filter) {
+    case 'active':
+      return !todo.completed;
+    case 'completed':
+      return todo.completed;
+    default:
+      return true;
+  }
+}
+
+/**
+ * URL hash that links to a filter (`#/`, `#/active`, `#/completed`).
+ * @param filter - Filter to link to
+ */
+export function todoFilterHash(filter: TodoFilter): string {
+  return filter === DEFAULT_TODO_FILTER ? '#/' : `#/${filter}`;
+}
+
+/**
+ * Read the filter a URL hash links to.
+ * @param hash - Hash including the leading `#` (e.g. `window.location.hash`)
+ * @returns The linked filter, or undefined if the hash is empty or not a filter link
+ */
+export function todoFilterFromHash(hash: string): TodoFilter | undefined {
+  return TODO_FILTERS.find((filter) => todoFilterHash(filter) === hash);
+}
+
+/**
+ * Get the MasterStore view holding the selected filter.
+ * Each list has its own, so lists shown side by side are filtered separately.
+ * @param masterStore - MasterStore used by the Todo feature
+ * @param listId - ID of the list, or undefined for the default list
+ */
+export function getTodoFilterView(masterStore: MasterStore, listId?: string): StoreView<TodoFilterState> {
+  return masterStore.getView<TodoFilterState>(listId === undefined ? TODO_FILTER_KEY : `${TODO_FILTER_KEY}.${listId}`);
+}
+
+/**
+ * Read the selected filter.
+ * @param filterView - View returned by `getTodoFilterView`
+ */
+export function getTodoFilter(filterView: StoreView<TodoFilterState>): TodoFilter {
+  return filterView.getItem()?.filter ?? DEFAULT_TODO_FILTER;
+}
+
+/**
+ * Select a filter. Selecting the current filter does not write to the store.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @param filter - Filter to select
+ */
+export function setTodoFilter(filterView: StoreView<TodoFilterState>, filter: TodoFilter): void {
+  if (getTodoFilter(filterView) !== filter) {
+    filterView.setItem({ ...filterView.getItem(), id: TODO_FILTER_ID, filter });
+  }
+}
+
+/**
+ * Turn grouping of the list by due date on or off.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @param groupByDue - Whether to show Overdue/Today/This week/Later sections
+ */
+export function setTodoGroupByDue(filterView: StoreView<TodoFilterState>, groupByDue: boolean): void {
+  if ((filterView.getItem()?.groupByDue ?? false) !== groupByDue) {
+    filterView.setItem({ ...filterView.getItem(), id: TODO_FILTER_ID, filter: getTodoFilter(filterView), groupByDue });
+  }
+}
+
+/**
+ * Read the selected sort mode.
+ * @param filterView - View returned by `getTodoFilterView`
+ */
+export function getTodoSort(filterView: StoreView<TodoFilterState>): TodoSortMode {
+  return filterView.getItem()?.sort ?? DEFAULT_TODO_SORT;
+}
+
+/**
+ * Select a sort mode. Selecting the current mode does not write to the store.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @param sort - Sort mode to select
+ */
+export function setTodoSort(filterView: StoreView<TodoFilterState>, sort: TodoSortMode): void {
+  if (getTodoSort(filterView) !== sort) {
+    filterView.setItem({ ...filterView.getItem(), id: TODO_FILTER_ID, filter: getTodoFilter(filterView), sort });
+  }
+}
+
+/**
+ * Read the selected tag.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @returns The tag name, or undefined when todos are not filtered by tag
+ */
+export function getTodoTag(filterView: StoreView<TodoFilterState>): string | undefined {
+  return filterView.getItem()?.tag;
+}
+
+/**
+ * Only show todos with a tag. Selecting the current tag does not write to the store.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @param tag - Tag name, or undefined to show todos with any tags
+ */
+export function setTodoTag(filterView: StoreView<TodoFilterState>, tag: string | undefined): void {
+  if (getTodoTag(filterView) === tag) {
+    return;
+  }
+  const state: TodoFilterState = { ...filterView.getItem(), id: TODO_FILTER_ID, filter: getTodoFilter(filterView) };
+  if (tag === undefined) {
+    delete state.tag;
+  } else {
+    state.tag = tag;
+  }
+  filterView.setItem(state);
+}
+
+/**
+ * Read the search query.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @returns The query as typed, or an empty string when not searching
+ */
+export function getTodoQuery(filterView: StoreView<TodoFilterState>): string {
+  return filterView.getItem()?.query ?? '';
+}
+
+/**
+ * Search the todos. Setting the current query does not write to the store.
+ * @param filterView - View returned by `getTodoFilterView`
+ * @param query - Query as typed; an empty string stops searching
+ */
+export function setTodoQuery(filterView: StoreView<TodoFilterState>, query: string): void {
+  if (getTodoQuery(filterView) === query) {
+    return;
+  }
+  const state: TodoFilterState = { ...filterView.getItem(), id: TODO_FILTER_ID, filter: getTodoFilter(filterView) };
+  if (query === '') {
+    delete state.query;
+  } else {
+    state.query = query;
+  }
+  filterView.setItem(state);
+}
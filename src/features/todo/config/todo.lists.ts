@@ -0,0 +1,57 @@
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { TODO_LISTS_KEY } from './todo.types';
+import type { Todo, TodoListInfo } from '../types/Todo';
+
+/**
+ * The list a container works on.
+ *
+ * Bound under `TODO_TYPES.ListScope` by `configureTodoContainer`. Services,
+ * hooks and components resolved from the container only see and create
+ * todos of this list, so several containers - one per list - can share a
+ * MasterStore:
+ *
+ * ```tsx
+ * <TodoFeatureProvider masterStore={masterStore} listId={work.id}>
+ *   <TodoApp />
+ * </TodoFeatureProvider>
+ * ```
+ */
+export interface TodoListScope {
+  /** ID of the list; the default list when absent */
+  listId?: string;
+}
+
+/**
+ * Display name of the default list, which holds todos without a `listId`.
+ */
+export const DEFAULT_TODO_LIST_NAME = 'Inbox';
+
+/**
+ * Check whether a todo belongs to a list.
+ * @param todo - Todo to check
+ * @param listId - ID of the list, or undefined for the default list
+ */
+export function belongsToList(todo: Todo, listId: string | undefined): boolean {
+  return todo.listId === listId;
+}
+
+/**
+ * Narrow todos down to one list.
+ * Returns the same array when every todo belongs to the list, so callers
+ * with a single list keep referential equality.
+ * @param todos - Todos to narrow down
+ * @param listId - ID of the list, or undefined for the default list
+ */
+export function scopeTodos(todos: Todo[], listId: string | undefined): Todo[] {
+  return todos.every((todo) => belongsToList(todo, listId))
+    ? todos
+    : todos.filter((todo) => belongsToList(todo, listId));
+}
+
+/**
+ * Get the view holding the lists.
+ * @param masterStore - MasterStore used by the Todo feature
+ */
+export function getTodoListView(masterStore: MasterStore): StoreView<TodoListInfo> {
+  return masterStore.getView<TodoListInfo>(TODO_LISTS_KEY);
+}
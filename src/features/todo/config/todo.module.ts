@@ -0,0 +1,131 @@
+import { ContainerModule } from 'inversify';
+import type { interfaces } from 'inversify';
+import { TYPES } from '@/constants/types';
+import type { FeatureModule } from '@/container';
+import type { MasterStore } from '@/store/MasterStore';
+import { TodoService } from '../services/TodoService';
+import { ReminderScheduler } from '../services/ReminderScheduler';
+import { TodoTagService } from '../services/TodoTagService';
+import { TodoListService } from '../services/TodoListService';
+import { TodoSearchService } from '../services/TodoSearchService';
+import { TodoTransferService } from '../services/TodoTransferService';
+import { TodoSyncService } from '../services/TodoSyncService';
+import { systemClock } from '../services/Clock';
+import { browserConnectivity } from '../services/Connectivity';
+import {
+  TODO_TYPES,
+  TODOS_KEY,
+  TODO_FILTER_KEY,
+  TODO_TAGS_KEY,
+  TODO_LISTS_KEY,
+  TODO_SYNC_KEY,
+  TODO_CONFLICTS_KEY
+} from './todo.types';
+import { todoSchema, todoTagSchema, todoListSchema, todoSyncStateSchema, todoConflictSchema } from './todo.schema';
+import { DEFAULT_TODO_SUBTASK_OPTIONS } from './todo.subtasks';
+import { DEFAULT_TODO_SYNC_OPTIONS } from './todo.sync';
+import type { TodoListScope } from './todo.lists';
+import type { TodoListInfo, TodoTag, Todo } from '../types/Todo';
+
+const storeOf = (context: interfaces.Context): MasterStore =>
+  context.container.get<MasterStore>(TODO_TYPES.MasterStore);
+
+/**
+ * Bind the services working on one list of todos.
+ * @param scope - List to work on; inherited from a parent container when omitted
+ * @param isBound - Whether a service is bound already, so it is left as is
+ */
+export function bindTodoListServices(
+  bind: interfaces.Bind,
+  scope?: TodoListScope,
+  isBound: (identifier: symbol) => boolean = () => false
+): void {
+  if (scope && !isBound(TODO_TYPES.ListScope)) {
+    bind<TodoListScope>(TODO_TYPES.ListScope).toConstantValue(scope);
+  }
+  const services: Array<[symbol, interfaces.Newable<unknown>]> = [
+    [TODO_TYPES.TodoService, TodoService],
+    // Full-text search index over the todos of the container's list
+    [TODO_TYPES.TodoSearchService, TodoSearchService],
+    // Import and export of the container's list
+    [TODO_TYPES.TodoTransferService, TodoTransferService],
+    // Reminders of the container's list
+    [TODO_TYPES.ReminderScheduler, ReminderScheduler],
+  ];
+  services.forEach(([identifier, service]) => {
+    if (!isBound(identifier)) {
+      bind(identifier).to(service).inSingletonScope();
+    }
+  });
+}
+
+/**
+ * Bindings of the Todo feature.
+ *
+ * Expects the MasterStore at `TYPES.MasterStore`, as bound by AppContainer.
+ * Works on the default list; rebind ListScope to work on another.
+ */
+export const todoContainerModule = new ContainerModule((bind) => {
+  // Bind core dependencies
+  bind(TODO_TYPES.MasterStore).toService(TYPES.MasterStore);
+
+  // Bind TodoView as a dynamic value from MasterStore
+  bind(TODO_TYPES.TodoView).toDynamicValue((context) =>
+    storeOf(context).getView<Todo>(TODOS_KEY)
+  ).inSingletonScope();
+
+  // Rebind SubtaskOptions before resolving TodoService to change subtask behaviour
+  bind(TODO_TYPES.SubtaskOptions).toConstantValue(DEFAULT_TODO_SUBTASK_OPTIONS);
+
+  // Tag metadata and the service keeping it in step with the todos
+  bind(TODO_TYPES.TagView).toDynamicValue((context) =>
+    storeOf(context).getView<TodoTag>(TODO_TAGS_KEY)
+  ).inSingletonScope();
+  bind(TODO_TYPES.TodoTagService).to(TodoTagService).inSingletonScope();
+
+  // Lists, shared by every container on the store
+  bind(TODO_TYPES.ListView).toDynamicValue((context) =>
+    storeOf(context).getView<TodoListInfo>(TODO_LISTS_KEY)
+  ).inSingletonScope();
+  bind(TODO_TYPES.TodoListService).to(TodoListService).inSingletonScope();
+
+  // Time source; rebind Clock before resolving anything to control time in tests
+  bind(TODO_TYPES.Clock).toConstantValue(systemClock);
+
+  // Remote sync, off until a TodoRepository is bound (e.g. RestTodoRepository)
+  bind(TODO_TYPES.SyncOptions).toConstantValue(DEFAULT_TODO_SYNC_OPTIONS);
+  bind(TODO_TYPES.Connectivity).toConstantValue(browserConnectivity);
+  bind(TODO_TYPES.TodoSyncService).to(TodoSyncService).inSingletonScope();
+
+  bindTodoListServices(bind, {});
+});
+
+/**
+ * Module manifest of the Todo feature, for AppContainer.
+ *
+ * Todos and lists are undoable; todos, tags and lists are shared with
+ * other tabs. The filter, sync state and conflicts stay local.
+ *
+ * @example
+ * ```typescript
+ * const features = [TODO_FEATURE_INFO];
+ * const masterStore = new MasterStore({ history: { keys: featureStoreKeys(features, 'undoable') } });
+ * const app = new AppContainer({ masterStore }).load(...features);
+ * ```
+ */
+export const TODO_FEATURE_INFO: FeatureModule = {
+  name: 'todo',
+  version: '1.0.0',
+  description: 'Complete Todo management feature with components, services, and DI configuration',
+  containerModule: todoContainerModule,
+  dependencies: [],
+  // Schemas reject invalid todos no matter which caller writes them
+  storeKeys: [
+    { key: TODOS_KEY, schema: todoSchema, undoable: true, synced: true },
+    { key: TODO_FILTER_KEY },
+    { key: TODO_TAGS_KEY, schema: todoTagSchema, synced: true },
+    { key: TODO_LISTS_KEY, schema: todoListSchema, undoable: true, synced: true },
+    { key: TODO_SYNC_KEY, schema: todoSyncStateSchema },
+    { key: TODO_CONFLICTS_KEY, schema: todoConflictSchema },
+  ],
+};
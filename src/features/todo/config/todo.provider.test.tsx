@@ -0,0 +1,115 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import type { Container, interfaces } from 'inversify';
+import {
+  TodoFeatureProvider,
+  TODO_TYPES,
+  TODOS_KEY,
+  configureTodoContainer,
+  useDIListScope,
+  useDITodoService,
+} from '../index';
+import type { Clock, ITodoListService, ITodoService, TodoListScope } from '../index';
+import { useDIContainer } from '@/providers/DIProvider';
+import { MasterStore } from '@/store/MasterStore';
+
+describe('Nested TodoFeatureProvider', () => {
+  const NOW = new Date('2024-03-01T12:00:00Z').getTime();
+
+  let masterStore: MasterStore;
+  let parent: Container;
+  let seen: { container: interfaces.Container | null; todoService: ITodoService; scope: TodoListScope };
+
+  const Probe: React.FC = () => {
+    seen = { container: useDIContainer(), todoService: useDITodoService(), scope: useDIListScope() };
+    return null;
+  };
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    parent = configureTodoContainer(masterStore);
+    const clock: Clock = { now: () => NOW, setTimeout: () => 0, clearTimeout: () => undefined };
+    parent.rebind(TODO_TYPES.Clock).toConstantValue(clock);
+  });
+
+  test('a nested provider works on another list with the bindings of its ancestors', () => {
+    const work = parent.get<ITodoListService>(TODO_TYPES.TodoListService).createList('Work');
+    render(
+      <TodoFeatureProvider container={parent}>
+        <TodoFeatureProvider listId={work.id}>
+          <Probe />
+        </TodoFeatureProvider>
+      </TodoFeatureProvider>
+    );
+
+    expect(seen.scope).toEqual({ listId: work.id });
+    expect(seen.todoService).not.toBe(parent.get(TODO_TYPES.TodoService));
+    const todo = seen.todoService.addTodo({ text: 'Write report' });
+    expect(todo).toEqual(expect.objectContaining({ listId: work.id, createdAt: new Date(NOW) }));
+    expect(parent.get<ITodoService>(TODO_TYPES.TodoService).getAllTodos()).toEqual([]);
+  });
+
+  test('a nested provider without a list shows the list of its parent', () => {
+    const work = parent.get<ITodoListService>(TODO_TYPES.TodoListService).createList('Work');
+    render(
+      <TodoFeatureProvider masterStore={masterStore} listId={work.id}>
+        <TodoFeatureProvider>
+          <Probe />
+        </TodoFeatureProvider>
+      </TodoFeatureProvider>
+    );
+
+    expect(seen.scope).toEqual({ listId: work.id });
+  });
+
+  test('bindings override services within the subtree', () => {
+    const preview = { getAllTodos: () => [] } as unknown as ITodoService;
+    render(
+      <TodoFeatureProvider container={parent}>
+        <TodoFeatureProvider bindings={(container) => container.bind(TODO_TYPES.TodoService).toConstantValue(preview)}>
+          <Probe />
+        </TodoFeatureProvider>
+      </TodoFeatureProvider>
+    );
+
+    expect(seen.todoService).toBe(preview);
+  });
+
+  test('containers created by a provider are disposed when it unmounts', () => {
+    const tree = (nested: boolean) => (
+      <TodoFeatureProvider container={parent}>
+        {nested && (
+          <TodoFeatureProvider>
+            <Probe />
+          </TodoFeatureProvider>
+        )}
+      </TodoFeatureProvider>
+    );
+    const { rerender } = render(tree(true));
+    const child = seen.container;
+    expect(child?.isCurrentBound(TODO_TYPES.TodoService)).toBe(true);
+
+    rerender(tree(false));
+
+    expect(child?.isCurrentBound(TODO_TYPES.TodoService)).toBe(false);
+    expect(parent.isCurrentBound(TODO_TYPES.TodoService)).toBe(true);
+  });
+
+  test('providers keep their containers under StrictMode', () => {
+    render(
+      <React.StrictMode>
+        <TodoFeatureProvider masterStore={masterStore}>
+          <TodoFeatureProvider>
+            <Probe />
+          </TodoFeatureProvider>
+        </TodoFeatureProvider>
+      </React.StrictMode>
+    );
+
+    // StrictMode disposes the first containers; the providers render again with new ones
+    expect(seen.container?.isCurrentBound(TODO_TYPES.TodoService)).toBe(true);
+    expect(seen.container?.isBound(TODO_TYPES.MasterStore)).toBe(true);
+    seen.todoService.addTodo({ text: 'Write report' });
+    expect(masterStore.getView(TODOS_KEY).getItems()).toHaveLength(1);
+  });
+});
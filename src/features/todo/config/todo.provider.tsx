@@ -1,24 +1,18 @@
-import React, { createContext, useContext, useMemo, ReactNode } from 'react';
-import type { Container } from 'inversify';
-import type { MasterStore } from '@/store/MasterStore';
+import React, { useRef, ReactNode } from 'react';
+import type { Container, interfaces } from 'inversify';
+import { DIProvider, useDIContainer, useInjection, useOwnedContainer } from '@/providers/DIProvider';
+import { MasterStore } from '@/store/MasterStore';
 import type { ITodoService } from '../services/ITodoService';
-import { configureTodoContainer } from './todo.container';
+import type { IReminderScheduler } from '../services/IReminderScheduler';
+import type { ITodoTagService } from '../services/ITodoTagService';
+import type { ITodoListService } from '../services/ITodoListService';
+import type { ITodoSearchService } from '../services/ITodoSearchService';
+import type { ITodoTransferService } from '../services/ITodoTransferService';
+import type { ITodoSyncService } from '../services/ITodoSyncService';
+import type { Clock } from '../services/Clock';
+import { configureTodoContainer, createTodoChildContainer } from './todo.container';
 import { TODO_TYPES } from './todo.types';
-
-/**
- * Context value interface for Todo feature dependency injection.
- */
-interface TodoDIContextValue {
-  /** Factory function to get TodoService instance */
-  getTodoService: () => ITodoService;
-  /** Factory function to get MasterStore instance */
-  getMasterStore: () => MasterStore;
-}
-
-/**
- * React context for Todo feature dependency injection.
- */
-const TodoDIContext = createContext<TodoDIContextValue | null>(null);
+import type { TodoListScope } from './todo.lists';
 
 /**
  * Props for the TodoFeatureProvider component.
@@ -26,10 +20,18 @@ const TodoDIContext = createContext<TodoDIContextValue | null>(null);
 interface TodoFeatureProviderProps {
   /** Child components that will have access to Todo DI services */
   children: ReactNode;
-  /** Optional existing container to use instead of creating new one */
+  /** Optional existing container to use instead of creating new one, e.g. `AppContainer.container` */
   container?: Container;
-  /** Optional existing MasterStore to reuse */
+  /** Optional existing MasterStore to reuse; a new container is configured on it */
   masterStore?: MasterStore;
+  /** Optional ID of the list to show; the list of the parent provider, or the default list, when omitted. Ignored with `container`. */
+  listId?: string;
+  /**
+   * Optional bindings overriding the inherited ones within the subtree, e.g. a
+   * read-only TodoService. Called when the provider's container is created.
+   * Ignored with `container`.
+   */
+  bindings?: (container: interfaces.Container) => void;
 }
 
 /**
@@ -42,7 +44,21 @@ interface TodoFeatureProviderProps {
  * - Automatic container configuration
  * - Optional integration with existing stores/containers
  * - Complete isolation from other features
+ * - Scoping to one list, so several lists of a store can be shown side by side
+ * - Nesting, with bindings overridden per subtree
  * - Ready for npm package extraction
+ *
+ * Unless given a `container`, the provider works on a child container of
+ * the nearest provider's container with the Todo module loaded, or of a
+ * new container on `masterStore` when there is none or a store is given.
+ * The child has its own TodoService and other services working on its
+ * list, and inherits everything else, so a nested provider shows another
+ * list, or the same one with some bindings overridden, and keeps the
+ * repository and other bindings of its ancestors. Containers the provider
+ * creates are disposed when it unmounts.
+ *
+ * It is a DIProvider of the feature container, so the hooks below also work
+ * under a DIProvider of any container with `TODO_FEATURE_INFO` loaded.
  * 
  * @example
  * ```tsx
@@ -55,26 +71,62 @@ interface TodoFeatureProviderProps {
  * <TodoFeatureProvider masterStore={myExistingStore}>
  *   <TodoApp />
  * </TodoFeatureProvider>
+ *
+ * // Two lists of one store side by side
+ * <TodoFeatureProvider masterStore={myExistingStore} listId={work.id}>
+ *   <TodoApp />
+ * </TodoFeatureProvider>
+ * <TodoFeatureProvider masterStore={myExistingStore} listId={home.id}>
+ *   <TodoApp />
+ * </TodoFeatureProvider>
+ *
+ * // A read-only preview of the list of the surrounding provider
+ * <TodoFeatureProvider
+ *   bindings={(container) => container.bind(TODO_TYPES.TodoService).to(ReadOnlyTodoService).inSingletonScope()}
+ * >
+ *   <TodoList />
+ * </TodoFeatureProvider>
  * ```
  */
 export const TodoFeatureProvider: React.FC<TodoFeatureProviderProps> = ({
   children,
   container: existingContainer,
-  masterStore
+  masterStore,
+  listId,
+  bindings
 }) => {
-  const container = useMemo(() => {
-    return existingContainer || configureTodoContainer(masterStore);
-  }, [existingContainer, masterStore]);
+  const ancestor = useDIContainer();
+  const parent = !masterStore && ancestor?.isBound(TODO_TYPES.TodoService) ? ancestor : null;
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  // Kept when the container is created again, so the todos survive it
+  const ownStore = useRef<MasterStore | null>(null);
+
+  // Switching lists keeps the store and container this provider created
+  const ownBase = useOwnedContainer(() => {
+    if (existingContainer || parent) {
+      return null;
+    }
+    if (!masterStore && !ownStore.current) {
+      ownStore.current = new MasterStore();
+    }
+    return configureTodoContainer(masterStore || ownStore.current!);
+  }, [existingContainer, parent, masterStore]);
+  const base = existingContainer || parent || ownBase!;
+
+  const scope = useOwnedContainer(() => {
+    if (existingContainer) {
+      return null;
+    }
+    return createTodoChildContainer(base, listId === undefined ? undefined : { listId }, bindingsRef.current);
+  }, [existingContainer, base, listId]);
 
-  const contextValue = useMemo<TodoDIContextValue>(() => ({
-    getTodoService: () => container.get<ITodoService>(TODO_TYPES.TodoService),
-    getMasterStore: () => container.get<MasterStore>(TODO_TYPES.MasterStore),
-  }), [container]);
+  const container = scope || base;
 
   return (
-    <TodoDIContext.Provider value={contextValue}>
+    <DIProvider container={container}>
       {children}
-    </TodoDIContext.Provider>
+    </DIProvider>
   );
 };
 
@@ -84,13 +136,7 @@ export const TodoFeatureProvider: React.FC<TodoFeatureProviderProps> = ({
  * @returns TodoService instance from the feature container
  * @throws Error if used outside TodoFeatureProvider
  */
-export const useDITodoService = (): ITodoService => {
-  const context = useContext(TodoDIContext);
-  if (!context) {
-    throw new Error('useDITodoService must be used within a TodoFeatureProvider');
-  }
-  return context.getTodoService();
-};
+export const useDITodoService = (): ITodoService => useInjection<ITodoService>(TODO_TYPES.TodoService);
 
 /**
  * Hook to access MasterStore from Todo feature DI context.
@@ -98,10 +144,68 @@ export const useDITodoService = (): ITodoService => {
  * @returns MasterStore instance from the feature container
  * @throws Error if used outside TodoFeatureProvider
  */
-export const useDIMasterStore = (): MasterStore => {
-  const context = useContext(TodoDIContext);
-  if (!context) {
-    throw new Error('useDIMasterStore must be used within a TodoFeatureProvider');
-  }
-  return context.getMasterStore();
-};
+export const useDIMasterStore = (): MasterStore => useInjection<MasterStore>(TODO_TYPES.MasterStore);
+
+/**
+ * Hook to access ReminderScheduler from Todo feature DI context.
+ * 
+ * @returns ReminderScheduler instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDIReminderScheduler = (): IReminderScheduler => useInjection<IReminderScheduler>(TODO_TYPES.ReminderScheduler);
+
+/**
+ * Hook to access the Clock from Todo feature DI context.
+ * 
+ * @returns Clock instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDIClock = (): Clock => useInjection<Clock>(TODO_TYPES.Clock);
+
+/**
+ * Hook to access TodoTagService from Todo feature DI context.
+ * 
+ * @returns TodoTagService instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDITodoTagService = (): ITodoTagService => useInjection<ITodoTagService>(TODO_TYPES.TodoTagService);
+
+/**
+ * Hook to access TodoListService from Todo feature DI context.
+ * 
+ * @returns TodoListService instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDITodoListService = (): ITodoListService => useInjection<ITodoListService>(TODO_TYPES.TodoListService);
+
+/**
+ * Hook to access TodoSearchService from Todo feature DI context.
+ * 
+ * @returns TodoSearchService instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDITodoSearchService = (): ITodoSearchService => useInjection<ITodoSearchService>(TODO_TYPES.TodoSearchService);
+
+/**
+ * Hook to access TodoTransferService from Todo feature DI context.
+ * 
+ * @returns TodoTransferService instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDITodoTransferService = (): ITodoTransferService => useInjection<ITodoTransferService>(TODO_TYPES.TodoTransferService);
+
+/**
+ * Hook to access TodoSyncService from Todo feature DI context.
+ * 
+ * @returns TodoSyncService instance from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDITodoSyncService = (): ITodoSyncService => useInjection<ITodoSyncService>(TODO_TYPES.TodoSyncService);
+
+/**
+ * Hook to access the list the Todo feature DI context works on.
+ * 
+ * @returns List scope from the feature container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useDIListScope = (): TodoListScope => useInjection<TodoListScope>(TODO_TYPES.ListScope);
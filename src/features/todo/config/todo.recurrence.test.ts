@@ -0,0 +1,132 @@
+import { describeRecurrence, nextOccurrence } from './todo.recurrence';
+import type { TodoRecurrence } from '../types/Todo';
+
+// Monday morning, local time
+const MONDAY = new Date('2024-03-04T09:00:00');
+
+const local = (value: string) => new Date(value);
+
+/** Dates of the occurrences following `from`, as long as the series runs */
+const series = (recurrence: TodoRecurrence, from: Date, limit = 10): Date[] => {
+  const dates: Date[] = [];
+  let rule = recurrence;
+  let date = from;
+  for (let next = nextOccurrence(rule, date); next && dates.length < limit; next = nextOccurrence(rule, date)) {
+    dates.push(next.date);
+    rule = { ...rule, occurrence: next.occurrence };
+    date = next.date;
+  }
+  return dates;
+};
+
+describe('Todo Recurrence', () => {
+  describe('Frequencies', () => {
+    test('daily, weekly, monthly and yearly keep the time of day', () => {
+      expect(nextOccurrence({ frequency: 'daily' }, MONDAY)?.date).toEqual(local('2024-03-05T09:00'));
+      expect(nextOccurrence({ frequency: 'weekly' }, MONDAY)?.date).toEqual(local('2024-03-11T09:00'));
+      expect(nextOccurrence({ frequency: 'monthly' }, MONDAY)?.date).toEqual(local('2024-04-04T09:00'));
+      expect(nextOccurrence({ frequency: 'yearly' }, MONDAY)?.date).toEqual(local('2025-03-04T09:00'));
+    });
+
+    test('intervals skip units', () => {
+      expect(series({ frequency: 'daily', interval: 3 }, MONDAY, 2)).toEqual([
+        local('2024-03-07T09:00'),
+        local('2024-03-10T09:00'),
+      ]);
+      expect(nextOccurrence({ frequency: 'weekly', interval: 2 }, MONDAY)?.date).toEqual(local('2024-03-18T09:00'));
+      expect(nextOccurrence({ frequency: 'monthly', interval: 6 }, MONDAY)?.date).toEqual(local('2024-09-04T09:00'));
+    });
+
+    test('monthly recurrences skip months without the day', () => {
+      expect(series({ frequency: 'monthly' }, local('2024-01-31T18:00'), 3)).toEqual([
+        local('2024-03-31T18:00'),
+        local('2024-05-31T18:00'),
+        local('2024-07-31T18:00'),
+      ]);
+    });
+
+    test('yearly recurrences on Feb 29 fall in leap years', () => {
+      expect(series({ frequency: 'yearly' }, local('2024-02-29T12:00'), 2)).toEqual([
+        local('2028-02-29T12:00'),
+        local('2032-02-29T12:00'),
+      ]);
+    });
+
+    test('crossing a daylight saving change keeps the local time', () => {
+      // Every day for a month covers the spring change in most time zones
+      const dates = series({ frequency: 'daily' }, local('2024-03-20T09:00'), 30);
+      expect(dates.every((date) => date.getHours() === 9 && date.getMinutes() === 0)).toBe(true);
+    });
+  });
+
+  describe('Weekdays', () => {
+    test('weekly recurrences visit each weekday in turn', () => {
+      // Monday and Thursday
+      expect(series({ frequency: 'weekly', byWeekday: [4, 1] }, MONDAY, 4)).toEqual([
+        local('2024-03-07T09:00'),
+        local('2024-03-11T09:00'),
+        local('2024-03-14T09:00'),
+        local('2024-03-18T09:00'),
+      ]);
+    });
+
+    test('the interval applies to whole weeks starting on Monday', () => {
+      // Every other week on Sunday and Tuesday, from a Monday
+      expect(series({ frequency: 'weekly', interval: 2, byWeekday: [0, 2] }, MONDAY, 3)).toEqual([
+        local('2024-03-05T09:00'),
+        local('2024-03-10T09:00'),
+        local('2024-03-19T09:00'),
+      ]);
+    });
+
+    test('daily recurrences only land on the listed weekdays', () => {
+      const weekdays = series({ frequency: 'daily', byWeekday: [1, 2, 3, 4, 5] }, local('2024-03-07T09:00'), 3);
+      expect(weekdays).toEqual([local('2024-03-08T09:00'), local('2024-03-11T09:00'), local('2024-03-12T09:00')]);
+    });
+
+    test('a daily interval that never reaches a listed weekday ends the series', () => {
+      expect(nextOccurrence({ frequency: 'daily', interval: 7, byWeekday: [2] }, MONDAY)).toBeUndefined();
+    });
+  });
+
+  describe('Ending', () => {
+    test('count limits the number of occurrences, including the first', () => {
+      expect(series({ frequency: 'daily', count: 3 }, MONDAY)).toHaveLength(2);
+      expect(nextOccurrence({ frequency: 'daily', count: 3, occurrence: 3 }, MONDAY)).toBeUndefined();
+      expect(nextOccurrence({ frequency: 'daily', count: 3 }, MONDAY)?.occurrence).toBe(2);
+    });
+
+    test('until is the last time an occurrence may fall on', () => {
+      const until = local('2024-03-18T09:00');
+      expect(series({ frequency: 'weekly', until }, MONDAY)).toEqual([local('2024-03-11T09:00'), until]);
+    });
+  });
+
+  describe('Catching up', () => {
+    test('notBefore skips past occurrences, which still count', () => {
+      const now = local('2024-03-20T12:00').getTime();
+
+      expect(nextOccurrence({ frequency: 'weekly' }, MONDAY, now)).toEqual({
+        date: local('2024-03-25T09:00'),
+        occurrence: 4,
+      });
+      expect(nextOccurrence({ frequency: 'weekly', count: 3 }, MONDAY, now)).toBeUndefined();
+    });
+
+    test('an occurrence due exactly at notBefore is skipped', () => {
+      const now = local('2024-03-05T09:00').getTime();
+      expect(nextOccurrence({ frequency: 'daily' }, MONDAY, now)?.date).toEqual(local('2024-03-06T09:00'));
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    test('describes the frequency, weekdays and end', () => {
+      expect(describeRecurrence({ frequency: 'daily' })).toBe('Every day');
+      expect(describeRecurrence({ frequency: 'weekly', interval: 2, byWeekday: [4, 1], count: 10 })).toBe(
+        'Every 2 weeks on Mon, Thu, 10 times'
+      );
+      expect(describeRecurrence({ frequency: 'yearly', count: 1 })).toBe('Every year, once');
+      expect(describeRecurrence({ frequency: 'monthly', until: local('2024-12-31T00:00') })).toMatch(/^Every month, until /);
+    });
+  });
+});
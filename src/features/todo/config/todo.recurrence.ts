@@ -0,0 +1,185 @@
+import type { TodoRecurrence, TodoRecurrenceFrequency, TodoWeekday } from '../types/Todo';
+
+/**
+ * Repeat options offered in the UI, in display order.
+ */
+export const TODO_RECURRENCE_FREQUENCIES: readonly TodoRecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+/**
+ * Display names of the repeat options.
+ */
+export const TODO_RECURRENCE_FREQUENCY_LABELS: Record<TodoRecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const UNIT_NAMES: Record<TodoRecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Give up looking for a month that has the day after this many intervals.
+ * Every month-based rule finds one well before, e.g. Feb 29 every 100 years
+ * within 4.
+ */
+const MAX_MONTH_STEPS = 1000;
+
+/**
+ * Next occurrence of a recurring todo.
+ */
+export interface TodoOccurrence {
+  /** When the occurrence falls */
+  date: Date;
+  /** Its position in the series, starting at 1 */
+  occurrence: number;
+}
+
+/**
+ * Position of a weekday in a week starting on Monday.
+ */
+function mondayIndex(weekday: number): number {
+  return (weekday + 6) % 7;
+}
+
+/**
+ * Same local time of day, `days` calendar days later.
+ */
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/**
+ * Same local day of the month and time, `months` months later.
+ * @returns The date, or undefined if that month is too short
+ */
+function addMonths(date: Date, months: number): Date | undefined {
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  const daysInMonth = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  if (date.getDate() > daysInMonth) {
+    return undefined;
+  }
+  next.setDate(date.getDate());
+  return next;
+}
+
+/**
+ * The first date after `date` matching the rule's frequency, interval and
+ * weekdays, ignoring `count` and `until`.
+ * @returns The date, or undefined if the rule never matches again
+ */
+function step(recurrence: TodoRecurrence, date: Date): Date | undefined {
+  const interval = recurrence.interval ?? 1;
+  const weekdays = recurrence.byWeekday?.length ? recurrence.byWeekday : undefined;
+
+  switch (recurrence.frequency) {
+    case 'daily': {
+      // The weekday cycles within 7 steps; none matching means it never will
+      let next = date;
+      for (let i = 0; i < 7; i++) {
+        next = addDays(next, interval);
+        if (!weekdays || weekdays.includes(next.getDay() as TodoWeekday)) {
+          return next;
+        }
+      }
+      return undefined;
+    }
+    case 'weekly': {
+      if (!weekdays) {
+        return addDays(date, 7 * interval);
+      }
+      const current = mondayIndex(date.getDay());
+      const days = weekdays.map(mondayIndex).sort((a, b) => a - b);
+      const later = days.find((day) => day > current);
+      return later !== undefined ? addDays(date, later - current) : addDays(date, 7 * interval - current + days[0]);
+    }
+    case 'monthly':
+    case 'yearly': {
+      const months = recurrence.frequency === 'monthly' ? interval : 12 * interval;
+      for (let i = 1; i <= MAX_MONTH_STEPS; i++) {
+        const next = addMonths(date, i * months);
+        if (next) {
+          return next;
+        }
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Work out the occurrence following one of a recurring todo.
+ *
+ * Pure: the current time is passed in, so callers decide which clock to use.
+ * With `notBefore`, occurrences up to that time are skipped - they still
+ * count towards `count` - so completing an overdue todo does not add
+ * another overdue one.
+ *
+ * @param recurrence - Repetition rule
+ * @param from - When the current occurrence falls
+ * @param notBefore - Optional time in milliseconds the next occurrence must be after
+ * @returns The next occurrence, or undefined once the series has ended
+ *
+ * @example
+ * ```typescript
+ * nextOccurrence({ frequency: 'weekly', byWeekday: [1, 4] }, monday);
+ * // → { date: thursday, occurrence: 2 }
+ * ```
+ */
+export function nextOccurrence(
+  recurrence: TodoRecurrence,
+  from: Date,
+  notBefore?: number
+): TodoOccurrence | undefined {
+  let date: Date | undefined = from;
+  let occurrence = recurrence.occurrence ?? 1;
+
+  // Every step moves forward, so catching up ends once past `notBefore`
+  for (;;) {
+    date = step(recurrence, date);
+    occurrence++;
+    if (
+      !date ||
+      (recurrence.count !== undefined && occurrence > recurrence.count) ||
+      (recurrence.until !== undefined && date > recurrence.until)
+    ) {
+      return undefined;
+    }
+    if (notBefore === undefined || date.getTime() > notBefore) {
+      return { date, occurrence };
+    }
+  }
+}
+
+/**
+ * Short human-readable form of a repetition rule, e.g.
+ * "Every 2 weeks on Mon, Thu, 10 times".
+ * @param recurrence - Rule to describe
+ */
+export function describeRecurrence(recurrence: TodoRecurrence): string {
+  const interval = recurrence.interval ?? 1;
+  const unit = UNIT_NAMES[recurrence.frequency];
+  const parts = [interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`];
+
+  if (recurrence.byWeekday?.length && (recurrence.frequency === 'daily' || recurrence.frequency === 'weekly')) {
+    const days = [...recurrence.byWeekday].sort((a, b) => mondayIndex(a) - mondayIndex(b));
+    parts[0] += ` on ${days.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (recurrence.count !== undefined) {
+    parts.push(recurrence.count === 1 ? 'once' : `${recurrence.count} times`);
+  }
+  if (recurrence.until) {
+    parts.push(`until ${recurrence.until.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,136 @@
+import { object, string, boolean, date, literal, array, number } from '@/store/schema';
+import { TODO_TAG_COLOR_PATTERN, TODO_TAG_NAME_PATTERN } from './todo.tags';
+import type { SyncVersion } from '@/store/sync';
+import type {
+  Todo,
+  TodoConflict,
+  TodoFieldVersions,
+  TodoListInfo,
+  TodoRecurrence,
+  TodoSubtask,
+  TodoSyncState,
+  TodoTag,
+} from '../types/Todo';
+
+/**
+ * Maximum length of a todo's text.
+ */
+export const TODO_TEXT_MAX_LENGTH = 500;
+
+/**
+ * Maximum length of a list's name.
+ */
+export const TODO_LIST_NAME_MAX_LENGTH = 100;
+
+/**
+ * Schema of a checklist item within a todo.
+ */
+export const todoSubtaskSchema = object<TodoSubtask>({
+  id: string({ minLength: 1 }),
+  text: string({ minLength: 1, maxLength: TODO_TEXT_MAX_LENGTH }),
+  completed: boolean(),
+});
+
+/**
+ * Schema of a recurring todo's repetition rule.
+ */
+export const todoRecurrenceSchema = object<TodoRecurrence>({
+  frequency: literal('daily', 'weekly', 'monthly', 'yearly'),
+  interval: number({ min: 1, integer: true }).optional(),
+  byWeekday: array(literal(0, 1, 2, 3, 4, 5, 6), { minLength: 1, maxLength: 7 }).optional(),
+  count: number({ min: 1, integer: true }).optional(),
+  until: date().optional(),
+  occurrence: number({ min: 1, integer: true }).optional(),
+});
+
+/**
+ * Schema of the Lamport version of a todo field.
+ */
+export const todoFieldVersionSchema = object<SyncVersion>({
+  clock: number({ min: 0, integer: true }),
+  replica: string({ minLength: 1 }),
+});
+
+/**
+ * Schema of the field versions of a synced todo.
+ */
+export const todoFieldVersionsSchema = object<TodoFieldVersions>({
+  text: todoFieldVersionSchema.optional(),
+  completed: todoFieldVersionSchema.optional(),
+  dueAt: todoFieldVersionSchema.optional(),
+  remindAt: todoFieldVersionSchema.optional(),
+  priority: todoFieldVersionSchema.optional(),
+  order: todoFieldVersionSchema.optional(),
+  tags: todoFieldVersionSchema.optional(),
+  subtasks: todoFieldVersionSchema.optional(),
+  recurrence: todoFieldVersionSchema.optional(),
+  listId: todoFieldVersionSchema.optional(),
+});
+
+/**
+ * Schema every todo written to the MasterStore must match.
+ * Registered by `configureTodoContainer`.
+ */
+export const todoSchema = object<Todo>({
+  id: string({ minLength: 1 }),
+  text: string({ minLength: 1, maxLength: TODO_TEXT_MAX_LENGTH }),
+  completed: boolean(),
+  createdAt: date(),
+  dueAt: date().optional(),
+  remindAt: date().optional(),
+  priority: literal('low', 'normal', 'high').optional(),
+  order: string({ minLength: 1 }).optional(),
+  tags: array(string({ pattern: TODO_TAG_NAME_PATTERN })).optional(),
+  subtasks: array(todoSubtaskSchema).optional(),
+  recurrence: todoRecurrenceSchema.optional(),
+  listId: string({ minLength: 1 }).optional(),
+  versions: todoFieldVersionsSchema.optional(),
+});
+
+/**
+ * Schema every tag written to the MasterStore must match.
+ * Registered by `configureTodoContainer`.
+ */
+export const todoTagSchema = object<TodoTag>({
+  id: string({ minLength: 1 }),
+  name: string({ pattern: TODO_TAG_NAME_PATTERN }),
+  color: string({ pattern: TODO_TAG_COLOR_PATTERN }),
+});
+
+/**
+ * Schema every list written to the MasterStore must match.
+ * Registered by `configureTodoContainer`.
+ */
+export const todoListSchema = object<TodoListInfo>({
+  id: string({ minLength: 1 }),
+  name: string({ minLength: 1, maxLength: TODO_LIST_NAME_MAX_LENGTH }),
+  createdAt: date(),
+  archived: boolean().optional(),
+});
+
+/**
+ * Schema every todo sync state written to the MasterStore must match.
+ * Registered by `configureTodoContainer`.
+ */
+export const todoSyncStateSchema = object<TodoSyncState>({
+  id: string({ minLength: 1 }),
+  status: literal('pending', 'synced', 'failed', 'conflict'),
+  remote: boolean().optional(),
+  error: string().optional(),
+  base: todoFieldVersionsSchema.optional(),
+});
+
+/**
+ * Schema every todo conflict written to the MasterStore must match.
+ * Registered by `configureTodoContainer`.
+ */
+export const todoConflictSchema = object<TodoConflict>({
+  id: string({ minLength: 1 }),
+  fields: array(
+    literal('text', 'completed', 'dueAt', 'remindAt', 'priority', 'order', 'tags', 'subtasks', 'recurrence', 'listId'),
+    { minLength: 1 }
+  ),
+  local: todoSchema,
+  remote: todoSchema,
+  detectedAt: number({ min: 0 }),
+});
@@ -0,0 +1,86 @@
+import {
+  hasSearchTerms,
+  highlightSearchMatches,
+  matchSearchTerm,
+  parseSearchQuery,
+  searchEditDistance,
+  tokenizeSearchText,
+} from './todo.search';
+
+describe('Todo Search', () => {
+  describe('Tokenizing', () => {
+    test('splits text into lowercase words without accents, keeping their positions', () => {
+      expect(tokenizeSearchText('Call Zoë re: #taxes')).toEqual([
+        { term: 'call', start: 0, end: 4 },
+        { term: 'zoe', start: 5, end: 8 },
+        { term: 're', start: 9, end: 11 },
+        { term: 'taxes', start: 14, end: 19 },
+      ]);
+      expect(tokenizeSearchText('Réunion 2024 – 東京')).toEqual([
+        { term: 'reunion', start: 0, end: 7 },
+        { term: '2024', start: 8, end: 12 },
+        { term: '東京', start: 15, end: 17 },
+      ]);
+    });
+
+    test('queries are split into distinct terms', () => {
+      expect(parseSearchQuery('  Buy MILK, buy eggs ')).toEqual(['buy', 'milk', 'eggs']);
+      expect(parseSearchQuery(' -- ')).toEqual([]);
+      expect(hasSearchTerms(' -- ')).toBe(false);
+      expect(hasSearchTerms('#a')).toBe(true);
+    });
+  });
+
+  describe('Matching', () => {
+    test('edit distance counts swapped neighbours as one edit and stops at the maximum', () => {
+      expect(searchEditDistance('report', 'report', 2)).toBe(0);
+      expect(searchEditDistance('reprot', 'report', 2)).toBe(1);
+      expect(searchEditDistance('raport', 'report', 2)).toBe(1);
+      expect(searchEditDistance('repor', 'report', 2)).toBe(1);
+      expect(searchEditDistance('invoice', 'report', 2)).toBe(3);
+      expect(searchEditDistance('a', 'abcdef', 2)).toBe(3);
+    });
+
+    test('exact matches beat prefixes, which beat typos', () => {
+      const exact = matchSearchTerm('report', 'report');
+      const prefix = matchSearchTerm('rep', 'report');
+      const typo = matchSearchTerm('reprot', 'report');
+
+      expect(exact).toBe(1);
+      expect(prefix).toBeGreaterThan(typo);
+      expect(typo).toBeGreaterThan(0);
+      expect(matchSearchTerm('repor', 'report')).toBeGreaterThan(matchSearchTerm('rep', 'report'));
+    });
+
+    test('typos are tolerated in the part of a word typed so far', () => {
+      expect(matchSearchTerm('rpeo', 'report')).toBeGreaterThan(0);
+      expect(matchSearchTerm('quartely', 'quarterly')).toBeGreaterThan(0);
+    });
+
+    test('short terms must match exactly or by prefix', () => {
+      expect(matchSearchTerm('cat', 'cat')).toBe(1);
+      expect(matchSearchTerm('ca', 'cat')).toBeGreaterThan(0);
+      expect(matchSearchTerm('cta', 'cat')).toBe(0);
+      expect(matchSearchTerm('car', 'cat')).toBe(0);
+    });
+  });
+
+  describe('Highlighting', () => {
+    test('marks the typed part of prefix matches and whole words otherwise', () => {
+      expect(highlightSearchMatches('Write report', 'rep')).toEqual([{ start: 6, end: 9 }]);
+      expect(highlightSearchMatches('Write report', 'reprot write')).toEqual([
+        { start: 0, end: 5 },
+        { start: 6, end: 12 },
+      ]);
+    });
+
+    test('marks words with accents found by unaccented queries', () => {
+      expect(highlightSearchMatches('Book café', 'cafe')).toEqual([{ start: 5, end: 9 }]);
+    });
+
+    test('marks nothing for an empty query or text without matches', () => {
+      expect(highlightSearchMatches('Write report', '')).toEqual([]);
+      expect(highlightSearchMatches('Write report', 'invoice')).toEqual([]);
+    });
+  });
+});
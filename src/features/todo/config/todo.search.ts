@@ -0,0 +1,222 @@
+import type { TodoSearchRange } from '../types/Todo';
+
+/**
+ * A word of searchable text.
+ */
+export interface TodoSearchToken {
+  /** The word, normalized with `normalizeSearchTerm` */
+  term: string;
+  /** Position of the word in the text */
+  start: number;
+  /** Position after the word in the text */
+  end: number;
+}
+
+/**
+ * Weight of a match in each searchable part of a todo. A word found in the
+ * text counts more than the same word in a tag or a subtask.
+ */
+export const TODO_SEARCH_FIELD_WEIGHTS = {
+  text: 1,
+  tags: 0.8,
+  subtasks: 0.5,
+} as const;
+
+/**
+ * Searchable part of a todo.
+ */
+export type TodoSearchField = keyof typeof TODO_SEARCH_FIELD_WEIGHTS;
+
+/**
+ * Letters and digits, in any script.
+ */
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Combining marks left over after decomposing accented letters.
+ */
+const COMBINING_MARKS = /\p{M}/gu;
+
+/**
+ * Normalize a word for searching: lowercase and without accents, so
+ * "Café" is found by "cafe".
+ * @param word - Word as written
+ */
+export function normalizeSearchTerm(word: string): string {
+  return word.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+}
+
+/**
+ * Split text into normalized words, remembering where each word is so
+ * matches can be highlighted. Punctuation, `#` and whitespace separate words.
+ *
+ * @example
+ * ```typescript
+ * tokenizeSearchText('Call Zoë re: #taxes');
+ * // [{ term: 'call', start: 0, end: 4 }, { term: 'zoe', start: 5, end: 8 },
+ * //  { term: 're', start: 9, end: 11 }, { term: 'taxes', start: 14, end: 19 }]
+ * ```
+ */
+export function tokenizeSearchText(text: string): TodoSearchToken[] {
+  const tokens: TodoSearchToken[] = [];
+  const words = new RegExp(WORD);
+  let match: RegExpExecArray | null;
+  while ((match = words.exec(text)) !== null) {
+    tokens.push({ term: normalizeSearchTerm(match[0]), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Split a search query into distinct normalized terms. Every term must
+ * match for a todo to be found.
+ * @param query - Query as typed
+ */
+export function parseSearchQuery(query: string): string[] {
+  return [...new Set(tokenizeSearchText(query).map((token) => token.term))];
+}
+
+/**
+ * Check whether a query has anything to search for. Queries of only
+ * punctuation or whitespace do not filter the todos.
+ * @param query - Query as typed
+ */
+export function hasSearchTerms(query: string): boolean {
+  return new RegExp(WORD.source, 'u').test(query);
+}
+
+/**
+ * Number of typos tolerated in a query term: none for short terms, where
+ * a single typo already matches too much, one from 4 letters and two from 8.
+ * @param length - Length of the query term
+ */
+export function maxSearchTypos(length: number): number {
+  if (length >= 8) {
+    return 2;
+  }
+  return length >= 4 ? 1 : 0;
+}
+
+/**
+ * Rows of the edit distance table, reused across calls: searching compares
+ * the query with every word of the index, so allocating per call adds up.
+ */
+let distanceRows: Int32Array[] = [];
+
+/**
+ * Edit distance between two words, counting insertions, deletions,
+ * substitutions and swaps of neighbouring letters as one edit each.
+ * Stops early once the distance exceeds `max`.
+ * @param a - First word
+ * @param b - Second word
+ * @param max - Largest distance of interest
+ * @returns The distance, or `max + 1` if it is larger than `max`
+ */
+export function searchEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  // Every letter of `a` that `b` lacks takes an edit; most words fail this cheap check
+  let missing = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (b.indexOf(a[i]) === -1 && ++missing > max) {
+      return max + 1;
+    }
+  }
+  if (distanceRows.length === 0 || distanceRows[0].length <= b.length) {
+    distanceRows = [0, 1, 2].map(() => new Int32Array(b.length + 1));
+  }
+  // Three rows of the dynamic programming table: two rows back, previous and current
+  let before = distanceRows[0];
+  let previous = distanceRows[1];
+  let current = distanceRows[2];
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, before[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    const reused = before;
+    before = previous;
+    previous = current;
+    current = reused;
+  }
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * How well a query term matches a word of a todo.
+ *
+ * - Exact match: 1
+ * - Prefix ("rep" for "report"): between 0.5 and 0.9, higher when more of the word is typed
+ * - Typos, in the whole word or in the part typed so far ("reprot", "rpoe"): 0.2 for one, 0.13 for two.
+ *   Typos in the part typed so far are only looked for after a correct first letter.
+ *
+ * @param queryTerm - Normalized query term
+ * @param term - Normalized word of the todo
+ * @returns The score, or 0 if the term does not match
+ */
+export function matchSearchTerm(queryTerm: string, term: string): number {
+  if (term === queryTerm) {
+    return 1;
+  }
+  if (term.startsWith(queryTerm)) {
+    return 0.5 + 0.4 * (queryTerm.length / term.length);
+  }
+  const max = maxSearchTypos(queryTerm.length);
+  if (max === 0) {
+    return 0;
+  }
+  let distance = searchEditDistance(queryTerm, term, max);
+  if (distance > max && term.length > queryTerm.length && term[0] === queryTerm[0]) {
+    distance = searchEditDistance(queryTerm, term.slice(0, queryTerm.length), max);
+  }
+  return distance > max ? 0 : 0.4 / (1 + distance);
+}
+
+/**
+ * Find the parts of a text a search matches, for highlighting.
+ *
+ * Exact and typo matches cover the whole word; prefix matches cover the
+ * part typed. Ranges are in text order and do not overlap.
+ *
+ * @example
+ * ```typescript
+ * highlightSearchMatches('Write report', 'rep');
+ * // [{ start: 6, end: 9 }]
+ * ```
+ */
+export function highlightSearchMatches(text: string, query: string): TodoSearchRange[] {
+  const queryTerms = parseSearchQuery(query);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const ranges: TodoSearchRange[] = [];
+  tokenizeSearchText(text).forEach((token) => {
+    let end = 0;
+    queryTerms.forEach((queryTerm) => {
+      if (matchSearchTerm(queryTerm, token.term) === 0) {
+        return;
+      }
+      const prefix = token.term !== queryTerm && token.term.startsWith(queryTerm);
+      end = Math.max(end, prefix ? Math.min(token.start + queryTerm.length, token.end) : token.end);
+    });
+    if (end > 0) {
+      ranges.push({ start: token.start, end });
+    }
+  });
+  return ranges;
+}
@@ -0,0 +1,90 @@
+import { compareKeys } from '@/store/ordering/fractionalIndex';
+import { compareTodosByDue } from './todo.due';
+import type { Todo, TodoPriority, TodoSortMode } from '../types/Todo';
+
+/**
+ * Sort mode used when none has been selected.
+ */
+export const DEFAULT_TODO_SORT: TodoSortMode = 'manual';
+
+/**
+ * Every sort mode, in the order they are offered to users.
+ */
+export const TODO_SORT_MODES: readonly TodoSortMode[] = ['manual', 'priority', 'created', 'due'];
+
+/**
+ * Display names of the sort modes.
+ */
+export const TODO_SORT_LABELS: Record<TodoSortMode, string> = {
+  manual: 'Manual',
+  priority: 'Priority',
+  created: 'Newest',
+  due: 'Due date',
+};
+
+/**
+ * Every priority, lowest first.
+ */
+export const TODO_PRIORITIES: readonly TodoPriority[] = ['low', 'normal', 'high'];
+
+/**
+ * Display names of the priorities.
+ */
+export const TODO_PRIORITY_LABELS: Record<TodoPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+};
+
+const PRIORITY_RANK: Record<TodoPriority, number> = { low: 0, normal: 1, high: 2 };
+
+/**
+ * Order todos as arranged by the user. Todos without an order key (created
+ * before ordering existed) come first; ties keep their list order.
+ */
+export function compareTodosByOrder(a: Todo, b: Todo): number {
+  if (a.order === undefined || b.order === undefined) {
+    return (a.order === undefined ? 0 : 1) - (b.order === undefined ? 0 : 1);
+  }
+  return compareKeys(a.order, b.order);
+}
+
+/**
+ * Order todos by priority, highest first, then by manual order.
+ */
+export function compareTodosByPriority(a: Todo, b: Todo): number {
+  const rank = PRIORITY_RANK[b.priority ?? 'normal'] - PRIORITY_RANK[a.priority ?? 'normal'];
+  return rank !== 0 ? rank : compareTodosByOrder(a, b);
+}
+
+/**
+ * Order todos by creation time, newest first.
+ */
+export function compareTodosByCreated(a: Todo, b: Todo): number {
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+const COMPARATORS: Record<TodoSortMode, (a: Todo, b: Todo) => number> = {
+  manual: compareTodosByOrder,
+  priority: compareTodosByPriority,
+  created: compareTodosByCreated,
+  due: (a, b) => compareTodosByDue(a, b) || compareTodosByOrder(a, b),
+};
+
+/**
+ * Get the comparator for a sort mode.
+ * @param mode - Sort mode
+ */
+export function todoComparator(mode: TodoSortMode): (a: Todo, b: Todo) => number {
+  return COMPARATORS[mode];
+}
+
+/**
+ * Sort todos without changing the input array.
+ * @param todos - Todos in list order
+ * @param mode - Sort mode
+ * @returns A new, sorted array (the sort is stable)
+ */
+export function sortTodos(todos: readonly Todo[], mode: TodoSortMode): Todo[] {
+  return [...todos].sort(COMPARATORS[mode]);
+}
@@ -0,0 +1,46 @@
+import type { Todo } from '../types/Todo';
+
+/**
+ * How subtasks affect their todo.
+ *
+ * Bound under `TODO_TYPES.SubtaskOptions`; rebind it before resolving
+ * TodoService to change the behaviour:
+ *
+ * ```typescript
+ * const container = configureTodoContainer(masterStore);
+ * container.rebind(TODO_TYPES.SubtaskOptions).toConstantValue({ autoCompleteParent: false });
+ * ```
+ */
+export interface TodoSubtaskOptions {
+  /**
+   * Complete a todo when its last open subtask is done, and reopen it when
+   * one of its subtasks is reopened or a new one is added.
+   */
+  autoCompleteParent: boolean;
+}
+
+/**
+ * Subtask behaviour used unless another is bound.
+ */
+export const DEFAULT_TODO_SUBTASK_OPTIONS: TodoSubtaskOptions = {
+  autoCompleteParent: true,
+};
+
+/**
+ * Progress of a todo's checklist.
+ */
+export interface TodoSubtaskProgress {
+  /** Number of subtasks done */
+  done: number;
+  /** Number of subtasks */
+  total: number;
+}
+
+/**
+ * Count the done and total subtasks of a todo.
+ * @param todo - Todo to check
+ */
+export function subtaskProgress(todo: Todo): TodoSubtaskProgress {
+  const subtasks = todo.subtasks ?? [];
+  return { done: subtasks.filter((subtask) => subtask.completed).length, total: subtasks.length };
+}
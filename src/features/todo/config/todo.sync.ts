@@ -0,0 +1,68 @@
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { TODO_SYNC_KEY } from './todo.types';
+import type { TodoSyncState, TodoSyncStatus } from '../types/Todo';
+
+/**
+ * How TodoSyncService retries changes the server could not take.
+ *
+ * Bound under `TODO_TYPES.SyncOptions`; rebind it before resolving
+ * TodoSyncService to change the behaviour:
+ *
+ * ```typescript
+ * const container = configureTodoContainer(masterStore);
+ * container.rebind(TODO_TYPES.SyncOptions).toConstantValue({ maxAttempts: 3, retryDelayMs: 500, maxRetryDelayMs: 5000 });
+ * ```
+ */
+export interface TodoSyncOptions {
+  /** Attempts at sending a change, including the first, before it is marked failed */
+  maxAttempts: number;
+  /** Wait before the first retry; doubled for every further retry */
+  retryDelayMs: number;
+  /** Longest wait between retries */
+  maxRetryDelayMs: number;
+  /** ID of this replica in field versions, breaking ties between concurrent edits (random by default) */
+  replicaId?: string;
+}
+
+/**
+ * Retry behaviour used unless another is bound.
+ */
+export const DEFAULT_TODO_SYNC_OPTIONS: TodoSyncOptions = {
+  maxAttempts: 5,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+};
+
+/**
+ * Short descriptions of the sync statuses, for display.
+ */
+export const TODO_SYNC_STATUS_LABELS: Record<TodoSyncStatus, string> = {
+  pending: 'Not synced yet',
+  synced: 'Synced',
+  failed: 'Sync failed',
+  conflict: 'Changed elsewhere too',
+};
+
+/**
+ * Wait before retrying a change, doubling with every failed attempt.
+ *
+ * @example
+ * ```typescript
+ * // 1s, 2s, 4s, 8s, ... up to 30s
+ * syncRetryDelay(3, DEFAULT_TODO_SYNC_OPTIONS); // 4000
+ * ```
+ *
+ * @param attempt - Number of failed attempts so far, starting at 1
+ * @param options - Retry behaviour
+ */
+export function syncRetryDelay(attempt: number, options: TodoSyncOptions): number {
+  return Math.min(options.retryDelayMs * 2 ** (attempt - 1), options.maxRetryDelayMs);
+}
+
+/**
+ * Get the view holding the sync state of every todo.
+ * @param masterStore - MasterStore used by the Todo feature
+ */
+export function getTodoSyncView(masterStore: MasterStore): StoreView<TodoSyncState> {
+  return masterStore.getView<TodoSyncState>(TODO_SYNC_KEY);
+}
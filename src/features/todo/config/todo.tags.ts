@@ -0,0 +1,114 @@
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { TODO_TAGS_KEY } from './todo.types';
+import type { Todo, TodoTag } from '../types/Todo';
+
+/**
+ * Valid tag names: lowercase letters, digits, `-` and `_`, in any script.
+ * Modifier letters count as lowercase, e.g. the long vowel mark in `コーヒー`.
+ */
+export const TODO_TAG_NAME_PATTERN = /^[\p{Ll}\p{Lm}\p{Lo}\p{N}_-]+$/u;
+
+/**
+ * Valid tag colours (`#rrggbb`).
+ */
+export const TODO_TAG_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Colours given to new tags, picked by the tag name so a tag keeps its
+ * colour when it is deleted and used again.
+ */
+export const TODO_TAG_COLORS: readonly string[] = [
+  '#667eea',
+  '#e8590c',
+  '#2b8a3e',
+  '#c2255c',
+  '#1971c2',
+  '#5f3dc4',
+  '#087f5b',
+  '#495057',
+];
+
+/**
+ * A `#tag` at the start of the text or after whitespace. Only a name that is
+ * valid once normalized is a tag (see `TODO_TAG_NAME_PATTERN`).
+ */
+const TAG_SYNTAX = /(^|\s)#([\p{L}\p{N}_-]+)(?=\s|$)/gu;
+
+/**
+ * Turn user input into a tag name: without `#`, trimmed and lowercase.
+ * @param name - Tag name as typed, with or without `#`
+ * @returns The tag name, or an empty string if nothing is left
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Normalize tag names and drop empty names and duplicates, keeping the
+ * order in which they first appear.
+ * @param names - Tag names as typed
+ */
+export function normalizeTagNames(names: readonly string[]): string[] {
+  return [...new Set(names.map(normalizeTagName).filter((name) => name !== ''))];
+}
+
+/**
+ * Split `#tag` words out of todo text.
+ *
+ * @example
+ * ```typescript
+ * parseTodoTags('Buy milk #errands #Home');
+ * // { text: 'Buy milk', tags: ['errands', 'home'] }
+ * ```
+ *
+ * @param input - Text as typed by the user
+ * @returns The text without tags, and the tags in order of appearance
+ */
+export function parseTodoTags(input: string): { text: string; tags: string[] } {
+  const tags: string[] = [];
+  const text = input.replace(TAG_SYNTAX, (match, space: string, name: string) => {
+    if (!TODO_TAG_NAME_PATTERN.test(normalizeTagName(name))) {
+      return match;
+    }
+    tags.push(name);
+    return space;
+  });
+  return { text: text.replace(/\s+/g, ' ').trim(), tags: normalizeTagNames(tags) };
+}
+
+/**
+ * Text and tags of a todo in the `#tag` syntax, for editing.
+ * @param todo - Todo to format
+ */
+export function formatTodoTags(todo: Todo): string {
+  return [todo.text, ...(todo.tags ?? []).map((name) => `#${name}`)].join(' ');
+}
+
+/**
+ * Check whether a todo has a tag.
+ * @param todo - Todo to check
+ * @param tag - Tag name, or undefined to match every todo
+ */
+export function matchesTodoTag(todo: Todo, tag: string | undefined): boolean {
+  return tag === undefined || (todo.tags?.includes(tag) ?? false);
+}
+
+/**
+ * Default colour of a tag.
+ * @param name - Tag name
+ */
+export function tagColorFor(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return TODO_TAG_COLORS[Math.abs(hash) % TODO_TAG_COLORS.length];
+}
+
+/**
+ * Get the view holding tag metadata.
+ * @param masterStore - MasterStore used by the Todo feature
+ */
+export function getTodoTagView(masterStore: MasterStore): StoreView<TodoTag> {
+  return masterStore.getView<TodoTag>(TODO_TAGS_KEY);
+}
@@ -20,8 +20,72 @@ export const TODO_TYPES = {
   MasterStore: Symbol.for('Todo.MasterStore'),
   /** Symbol for TodoView (StoreView<Todo>) dependency injection */
   TodoView: Symbol.for('Todo.TodoView'),
+  /** Symbol for the Clock used for due dates and reminders */
+  Clock: Symbol.for('Todo.Clock'),
+  /** Symbol for ReminderScheduler dependency injection */
+  ReminderScheduler: Symbol.for('Todo.ReminderScheduler'),
+  /** Symbol for TagView (StoreView<TodoTag>) dependency injection */
+  TagView: Symbol.for('Todo.TagView'),
+  /** Symbol for TodoTagService dependency injection */
+  TodoTagService: Symbol.for('Todo.TodoTagService'),
+  /** Symbol for the TodoSubtaskOptions used by TodoService */
+  SubtaskOptions: Symbol.for('Todo.SubtaskOptions'),
+  /** Symbol for the TodoListScope selecting the list a container works on */
+  ListScope: Symbol.for('Todo.ListScope'),
+  /** Symbol for ListView (StoreView<TodoListInfo>) dependency injection */
+  ListView: Symbol.for('Todo.ListView'),
+  /** Symbol for TodoListService dependency injection */
+  TodoListService: Symbol.for('Todo.TodoListService'),
+  /** Symbol for TodoSearchService dependency injection */
+  TodoSearchService: Symbol.for('Todo.TodoSearchService'),
+  /** Symbol for TodoTransferService dependency injection */
+  TodoTransferService: Symbol.for('Todo.TodoTransferService'),
+  /** Symbol for the ITodoRepository todos are synced with; sync is off while unbound */
+  TodoRepository: Symbol.for('Todo.TodoRepository'),
+  /** Symbol for the RestTodoRepositoryOptions used by RestTodoRepository */
+  RestRepositoryOptions: Symbol.for('Todo.RestRepositoryOptions'),
+  /** Symbol for the TodoSyncOptions used by TodoSyncService */
+  SyncOptions: Symbol.for('Todo.SyncOptions'),
+  /** Symbol for the Connectivity telling TodoSyncService whether it is online */
+  Connectivity: Symbol.for('Todo.Connectivity'),
+  /** Symbol for TodoSyncService dependency injection */
+  TodoSyncService: Symbol.for('Todo.TodoSyncService'),
 } as const;
 
+/**
+ * MasterStore key under which the Todo feature keeps its todos.
+ */
+export const TODOS_KEY = 'todos';
+
+/**
+ * MasterStore key under which the Todo feature keeps the selected filter.
+ */
+export const TODO_FILTER_KEY = 'todoFilter';
+
+/**
+ * MasterStore key under which the Todo feature keeps tag metadata.
+ */
+export const TODO_TAGS_KEY = 'todoTags';
+
+/**
+ * MasterStore key under which the Todo feature keeps its lists.
+ */
+export const TODO_LISTS_KEY = 'todoLists';
+
+/**
+ * MasterStore key under which the Todo feature keeps the sync state of
+ * every todo. Like the filter, it is local: keep it out of undo history
+ * and cross-tab sync, but persist it so unsent changes survive a reload.
+ */
+export const TODO_SYNC_KEY = 'todoSync';
+
+/**
+ * MasterStore key under which the Todo feature keeps the conflicts between
+ * local and remote changes awaiting resolution. Keep it out of undo history
+ * and cross-tab sync like `TODO_SYNC_KEY`, and persist it with it.
+ */
+export const TODO_CONFLICTS_KEY = 'todoConflicts';
+
 /**
  * Type definition for TODO_TYPES to ensure type safety.
  */
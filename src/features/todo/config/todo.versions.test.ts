@@ -0,0 +1,109 @@
+import { compareTodoVersions, mergeTodos, resolveTodoConflict, sameFieldValue, stampTodoVersions } from './todo.versions';
+import type { Todo, TodoConflict } from '../types/Todo';
+
+const v = (clock: number, replica = 'a') => ({ clock, replica });
+
+const BASE: Todo = {
+  id: 'milk',
+  text: 'Buy milk',
+  completed: false,
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  order: 'a0',
+  versions: { text: v(1), completed: v(1), order: v(1) },
+};
+
+/** Edit a todo as a replica would, stamping the changed fields */
+const edit = (todo: Todo, patch: Partial<Todo>, version: { clock: number; replica: string }) =>
+  stampTodoVersions(todo, { ...todo, ...patch }, version);
+
+describe('Todo Versions', () => {
+  test('later clocks win, ties go to the higher replica and missing versions are oldest', () => {
+    expect(compareTodoVersions(v(2), v(1, 'z'))).toBeGreaterThan(0);
+    expect(compareTodoVersions(v(2, 'a'), v(2, 'b'))).toBeLessThan(0);
+    expect(compareTodoVersions(undefined, v(0))).toBeLessThan(0);
+    expect(compareTodoVersions(undefined, undefined)).toBe(0);
+  });
+
+  test('stamping versions only the fields that changed', () => {
+    const stamped = edit(BASE, { completed: true }, v(5));
+
+    expect(stamped.versions).toEqual({ text: v(1), completed: v(5), order: v(1) });
+    expect(edit(BASE, { text: 'Buy milk' }, v(5))).toEqual({ ...BASE });
+  });
+
+  test('field values are compared by content, whatever the order of their keys', () => {
+    expect(sameFieldValue(new Date('2024-05-02T09:00:00Z'), new Date('2024-05-02T09:00:00Z'))).toBe(true);
+    expect(sameFieldValue({ frequency: 'weekly', interval: 2 }, { interval: 2, frequency: 'weekly' })).toBe(true);
+    expect(sameFieldValue([{ id: 's1', done: true, text: 'Socks' }], [{ text: 'Socks', id: 's1', done: true }])).toBe(true);
+    expect(sameFieldValue({ frequency: 'weekly', interval: undefined }, { frequency: 'weekly' })).toBe(true);
+    expect(sameFieldValue({ frequency: 'weekly' }, { frequency: 'daily' })).toBe(false);
+    expect(sameFieldValue(['a', 'b'], ['b', 'a'])).toBe(false);
+    expect(sameFieldValue(new Date(0), 0)).toBe(false);
+  });
+
+  test('reordering the keys of a field does not stamp it', () => {
+    const todo: Todo = { ...BASE, recurrence: { frequency: 'weekly', interval: 2 } };
+    const reordered: Todo = { ...todo, recurrence: { interval: 2, frequency: 'weekly' } };
+
+    expect(stampTodoVersions(todo, reordered, v(5))).toBe(reordered);
+  });
+
+  test('changes to different fields are both kept', () => {
+    const local = edit(BASE, { text: 'Buy oat milk' }, v(2, 'a'));
+    const remote = edit(BASE, { completed: true }, v(2, 'b'));
+
+    const { todo, conflicts } = mergeTodos(local, remote, BASE.versions);
+
+    expect(conflicts).toEqual([]);
+    expect(todo).toEqual(expect.objectContaining({ text: 'Buy oat milk', completed: true }));
+    expect(todo.versions).toEqual({ text: v(2, 'a'), completed: v(2, 'b'), order: v(1) });
+  });
+
+  test('the same field changed to different values conflicts and keeps the local value', () => {
+    const local = edit(BASE, { text: 'Buy oat milk' }, v(2, 'a'));
+    const remote = edit(BASE, { text: 'Buy soy milk' }, v(3, 'b'));
+
+    const { todo, conflicts } = mergeTodos(local, remote, BASE.versions);
+
+    expect(conflicts).toEqual(['text']);
+    expect(todo.text).toBe('Buy oat milk');
+  });
+
+  test('the same change on both sides does not conflict', () => {
+    const local = edit(BASE, { text: 'Buy oat milk' }, v(2, 'a'));
+    const remote = edit(BASE, { text: 'Buy oat milk' }, v(2, 'b'));
+
+    const { todo, conflicts } = mergeTodos(local, remote, BASE.versions);
+
+    expect(conflicts).toEqual([]);
+    expect(todo.versions?.text).toEqual(v(2, 'b'));
+  });
+
+  test('concurrent moves go to the later one', () => {
+    const local = edit(BASE, { order: 'b0' }, v(4, 'a'));
+    const remote = edit(BASE, { order: 'c0' }, v(3, 'b'));
+
+    expect(mergeTodos(local, remote, BASE.versions)).toEqual({ todo: local, conflicts: [] });
+  });
+
+  test('without a base, every differing field conflicts', () => {
+    const remote = { ...BASE, text: 'Buy soy milk', completed: true };
+
+    expect(mergeTodos(BASE, remote, undefined).conflicts).toEqual(['text', 'completed']);
+  });
+
+  test('resolving takes the chosen values, giving kept local values a new version', () => {
+    const local = edit(BASE, { text: 'Buy oat milk' }, v(2, 'a'));
+    const remote = edit(BASE, { text: 'Buy soy milk' }, v(3, 'b'));
+    const conflict: TodoConflict = { id: 'milk', fields: ['text'], local, remote, detectedAt: 0 };
+    const current = edit(local, { completed: true }, v(4, 'a'));
+
+    const mine = resolveTodoConflict(current, conflict, 'local', v(5, 'a'));
+    const theirs = resolveTodoConflict(current, conflict, 'remote', v(5, 'a'));
+
+    expect(mine).toEqual(expect.objectContaining({ text: 'Buy oat milk', completed: true }));
+    expect(mine.versions?.text).toEqual(v(5, 'a'));
+    expect(theirs).toEqual(expect.objectContaining({ text: 'Buy soy milk', completed: true }));
+    expect(theirs.versions?.text).toEqual(v(3, 'b'));
+  });
+});
@@ -0,0 +1,251 @@
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import type { SyncVersion } from '@/store/sync';
+import { TODO_CONFLICTS_KEY } from './todo.types';
+import type {
+  Todo,
+  TodoConflict,
+  TodoConflictChoice,
+  TodoFieldVersions,
+  TodoMergeResult,
+  TodoVersionedField,
+} from '../types/Todo';
+
+/**
+ * Fields of a todo that are versioned and merged one by one, in display order.
+ * The ID and creation time never change, so they are not versioned.
+ */
+export const TODO_VERSIONED_FIELDS: readonly TodoVersionedField[] = [
+  'text',
+  'completed',
+  'dueAt',
+  'remindAt',
+  'priority',
+  'tags',
+  'subtasks',
+  'recurrence',
+  'listId',
+  'order',
+];
+
+/**
+ * Fields whose concurrent changes are resolved automatically, the later
+ * change winning. Choosing between two positions by hand is not useful.
+ */
+const LAST_WRITER_WINS_FIELDS: readonly TodoVersionedField[] = ['order'];
+
+/**
+ * Display names of the versioned fields.
+ */
+export const TODO_VERSIONED_FIELD_LABELS: Record<TodoVersionedField, string> = {
+  text: 'Text',
+  completed: 'Done',
+  dueAt: 'Due',
+  remindAt: 'Reminder',
+  priority: 'Priority',
+  tags: 'Tags',
+  subtasks: 'Subtasks',
+  recurrence: 'Repeat',
+  listId: 'List',
+  order: 'Position',
+};
+
+/**
+ * Compare two versions; later clocks win, ties go to the higher replica ID.
+ * A missing version is older than any other.
+ */
+export function compareTodoVersions(a: SyncVersion | undefined, b: SyncVersion | undefined): number {
+  if (!a || !b) {
+    return (a ? 1 : 0) - (b ? 1 : 0);
+  }
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/** Keys of an object with a value, so a key set to undefined counts as missing */
+const definedKeys = (value: Record<string, unknown>): string[] =>
+  Object.keys(value).filter((key) => value[key] !== undefined);
+
+/**
+ * Check whether two values of a field are the same. Dates, arrays and
+ * plain objects are compared by content, whatever the order of their keys.
+ */
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => sameFieldValue(item, b[index]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = definedKeys(a);
+    return keys.length === definedKeys(b).length && keys.every((key) => sameFieldValue(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Highest Lamport clock in the field versions of some todos, so a replica
+ * can continue counting after them.
+ */
+export function maxTodoClock(todos: readonly Todo[]): number {
+  let max = 0;
+  todos.forEach((todo) => {
+    TODO_VERSIONED_FIELDS.forEach((field) => {
+      max = Math.max(max, todo.versions?.[field]?.clock ?? 0);
+    });
+  });
+  return max;
+}
+
+/**
+ * Give the fields changed by a local write a new version.
+ *
+ * @example
+ * ```typescript
+ * const stamped = stampTodoVersions(before, { ...before, completed: true }, { clock: 8, replica: 'a' });
+ * stamped.versions.completed; // { clock: 8, replica: 'a' }
+ * ```
+ *
+ * @param previous - The todo before the write; undefined for a new todo, whose set fields all get the version
+ * @param next - The todo after the write
+ * @param version - Version of the write
+ * @returns `next` with the versions of its changed fields replaced, or `next` itself if no versioned field changed
+ */
+export function stampTodoVersions(previous: Todo | undefined, next: Todo, version: SyncVersion): Todo {
+  const changed = TODO_VERSIONED_FIELDS.filter((field) =>
+    previous ? !sameFieldValue(previous[field], next[field]) : next[field] !== undefined
+  );
+  if (changed.length === 0) {
+    return next;
+  }
+  const versions: TodoFieldVersions = { ...next.versions };
+  changed.forEach((field) => {
+    versions[field] = version;
+  });
+  return { ...next, versions };
+}
+
+/**
+ * Merge concurrent versions of a todo field by field.
+ *
+ * Each field is compared with the version both sides last agreed on (the
+ * base): a field changed on one side only takes that side's value, so a
+ * todo completed on one device and reworded on another keeps both changes.
+ * Fields changed on both sides to the same value are not in conflict. A
+ * field changed on both sides to different values is a conflict; it keeps
+ * its local value in the merged todo. Only the position is not: the later
+ * change, by Lamport version, wins.
+ *
+ * @example
+ * ```typescript
+ * const { todo, conflicts } = mergeTodos(local, remote, syncState.base);
+ * if (conflicts.length === 0) {
+ *   await repository.update(todo);
+ * }
+ * ```
+ *
+ * @param local - Local version of the todo
+ * @param remote - Version of the todo on the server
+ * @param base - Field versions when the two last agreed; without one, every differing field changed on both sides
+ * @returns The merged todo and the fields in conflict
+ */
+export function mergeTodos(local: Todo, remote: Todo, base: TodoFieldVersions | undefined): TodoMergeResult {
+  const merged: Record<string, unknown> = { ...local };
+  const versions: TodoFieldVersions = {};
+  const conflicts: TodoVersionedField[] = [];
+
+  TODO_VERSIONED_FIELDS.forEach((field) => {
+    const localVersion = local.versions?.[field];
+    const remoteVersion = remote.versions?.[field];
+    const localChanged = !base || compareTodoVersions(localVersion, base[field]) !== 0;
+    const remoteChanged = !base || compareTodoVersions(remoteVersion, base[field]) !== 0;
+
+    let takeRemote: boolean;
+    if (sameFieldValue(local[field], remote[field])) {
+      // Keep the later version so both sides settle on the same one
+      takeRemote = compareTodoVersions(remoteVersion, localVersion) > 0;
+    } else if (localChanged && remoteChanged && LAST_WRITER_WINS_FIELDS.includes(field)) {
+      takeRemote = compareTodoVersions(remoteVersion, localVersion) > 0;
+    } else if (localChanged && remoteChanged) {
+      conflicts.push(field);
+      takeRemote = false;
+    } else {
+      // Neither side changing a differing field means the versions predate syncing; the server wins
+      takeRemote = !localChanged;
+    }
+
+    const value = takeRemote ? remote[field] : local[field];
+    const version = takeRemote ? remoteVersion : localVersion;
+    if (value === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = value;
+    }
+    if (version) {
+      versions[field] = version;
+    }
+  });
+
+  if (Object.keys(versions).length > 0) {
+    merged.versions = versions;
+  } else {
+    delete merged.versions;
+  }
+  return { todo: merged as unknown as Todo, conflicts };
+}
+
+/**
+ * Resolve a conflict by choosing one side for the conflicting fields.
+ *
+ * @param todo - The todo as it is now, including any changes made since the conflict was found
+ * @param conflict - The conflict to resolve
+ * @param choice - Side whose values to keep
+ * @param version - New version for the kept local values, so they replace the server's
+ * @returns The resolved todo
+ */
+export function resolveTodoConflict(
+  todo: Todo,
+  conflict: TodoConflict,
+  choice: TodoConflictChoice,
+  version: SyncVersion
+): Todo {
+  const resolved: Record<string, unknown> = { ...todo };
+  const versions: TodoFieldVersions = { ...todo.versions };
+  conflict.fields.forEach((field) => {
+    const value = choice === 'local' ? conflict.local[field] : conflict.remote[field];
+    if (value === undefined) {
+      delete resolved[field];
+    } else {
+      resolved[field] = value;
+    }
+    const fieldVersion = choice === 'local' ? version : conflict.remote.versions?.[field];
+    if (fieldVersion) {
+      versions[field] = fieldVersion;
+    } else {
+      delete versions[field];
+    }
+  });
+  resolved.versions = versions;
+  return resolved as unknown as Todo;
+}
+
+/**
+ * Get the view holding the unresolved conflicts, one per todo.
+ * @param masterStore - MasterStore used by the Todo feature
+ */
+export function getTodoConflictView(masterStore: MasterStore): StoreView<TodoConflict> {
+  return masterStore.getView<TodoConflict>(TODO_CONFLICTS_KEY);
+}
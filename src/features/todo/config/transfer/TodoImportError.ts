@@ -0,0 +1,30 @@
+/**
+ * Error thrown when an imported file cannot be read as todos, e.g. because
+ * it is in another format or a date cannot be parsed. Nothing is imported.
+ *
+ * Todos that can be read but do not match the todo schema are rejected by
+ * the store with a `ValidationError` instead.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   transferService.importTodos(text, 'csv');
+ * } catch (error) {
+ *   if (error instanceof TodoImportError) {
+ *     console.log(error.message); // 'Line 3: createdAt is not a valid date: "yesterday"'
+ *   }
+ * }
+ * ```
+ */
+export class TodoImportError extends Error {
+  constructor(
+    message: string,
+    /** Line of the file the problem was found on, when known */
+    readonly line?: number
+  ) {
+    super(line === undefined ? message : `Line ${line}: ${message}`);
+    this.name = 'TodoImportError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, TodoImportError.prototype);
+  }
+}
@@ -0,0 +1,216 @@
+import { normalizeTagNames } from '../todo.tags';
+import { TodoImportError } from './TodoImportError';
+import { parseIsoDate, parsePriority } from './values';
+import type { Todo, TodoImportRecord } from '../../types/Todo';
+
+/**
+ * Columns of a CSV export, in order. Imports find columns by their header
+ * in any order and case; only `text` is required.
+ */
+export const TODO_CSV_COLUMNS = [
+  'id',
+  'text',
+  'completed',
+  'priority',
+  'tags',
+  'createdAt',
+  'dueAt',
+  'remindAt',
+] as const;
+
+type TodoCsvColumn = (typeof TODO_CSV_COLUMNS)[number];
+
+/**
+ * Values read as `completed: true` or `false`, lowercase.
+ */
+const COMPLETED_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  x: true,
+  '1': true,
+  false: false,
+  no: false,
+  '': false,
+  '0': false,
+};
+
+/**
+ * Characters that make spreadsheets treat a cell as a formula.
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a cell if it needs it (RFC 4180), and keep spreadsheets from
+ * running text as a formula by prefixing `'`, which imports strip again.
+ */
+function formatCell(value: string): string {
+  const cell = FORMULA_START.test(value) || value.startsWith("'") ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Write todos as CSV (RFC 4180) with a header row and CRLF line endings.
+ *
+ * Subtasks and recurrence have no column; tags are separated by spaces and
+ * dates written as ISO 8601.
+ *
+ * @param todos - Todos to export, in list order
+ */
+export function serializeTodosCsv(todos: readonly Todo[]): string {
+  const cells = (todo: Todo): Record<TodoCsvColumn, string> => ({
+    id: todo.id,
+    text: todo.text,
+    completed: String(todo.completed),
+    priority: todo.priority ?? '',
+    tags: (todo.tags ?? []).join(' '),
+    createdAt: todo.createdAt.toISOString(),
+    dueAt: todo.dueAt?.toISOString() ?? '',
+    remindAt: todo.remindAt?.toISOString() ?? '',
+  });
+  const rows = [
+    TODO_CSV_COLUMNS.join(','),
+    ...todos.map((todo) => {
+      const row = cells(todo);
+      return TODO_CSV_COLUMNS.map((column) => formatCell(row[column])).join(',');
+    }),
+  ];
+  return rows.join('\r\n') + '\r\n';
+}
+
+/**
+ * A row of cells and the line it starts on.
+ */
+interface CsvRow {
+  cells: string[];
+  line: number;
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain commas,
+ * doubled quotes and line breaks.
+ * @throws TodoImportError if a quoted cell is not closed
+ */
+function readCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    cells.push(cell);
+    // Blank lines separate nothing
+    if (cells.length > 1 || cells[0] !== '') {
+      rows.push({ cells, line: rowLine });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new TodoImportError('A quoted cell is not closed', rowLine);
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Undo the formula guard added by `formatCell`.
+ */
+const unguardCell = (cell: string) => (cell.startsWith("'") ? cell.slice(1) : cell);
+
+/**
+ * Read todos from CSV with a header row, such as a CSV export.
+ *
+ * Columns are found by their header; unknown columns are ignored and empty
+ * cells leave their field unset.
+ *
+ * @param text - Contents of the file
+ * @throws TodoImportError if there is no `text` column or a cell cannot be read
+ */
+export function parseTodosCsv(text: string): TodoImportRecord[] {
+  const [header, ...rows] = readCsvRows(text);
+  if (!header) {
+    throw new TodoImportError('The file is empty');
+  }
+  const columns = new Map<TodoCsvColumn, number>();
+  header.cells.forEach((name, index) => {
+    const column = TODO_CSV_COLUMNS.find((known) => known.toLowerCase() === name.trim().toLowerCase());
+    if (column && !columns.has(column)) {
+      columns.set(column, index);
+    }
+  });
+  if (!columns.has('text')) {
+    throw new TodoImportError('The file has no "text" column', header.line);
+  }
+
+  return rows.map(({ cells, line }) => {
+    const cell = (column: TodoCsvColumn): string => {
+      const index = columns.get(column);
+      return index === undefined ? '' : unguardCell(cells[index] ?? '');
+    };
+    const record: TodoImportRecord = { text: cell('text').trim() };
+    if (record.text === '') {
+      throw new TodoImportError('text is empty', line);
+    }
+
+    const id = cell('id').trim();
+    if (id !== '') {
+      record.id = id;
+    }
+    if (columns.has('completed')) {
+      const completed = COMPLETED_VALUES[cell('completed').trim().toLowerCase()];
+      if (completed === undefined) {
+        throw new TodoImportError(`completed must be true or false: "${cell('completed')}"`, line);
+      }
+      record.completed = completed;
+    }
+    if (cell('priority').trim() !== '') {
+      record.priority = parsePriority(cell('priority'), line);
+    }
+    if (columns.has('tags')) {
+      record.tags = normalizeTagNames(cell('tags').split(/[\s,]+/));
+    }
+    (['createdAt', 'dueAt', 'remindAt'] as const).forEach((field) => {
+      const value = cell(field).trim();
+      if (value !== '') {
+        record[field] = parseIsoDate(value, field, line);
+      }
+    });
+    return record;
+  });
+}
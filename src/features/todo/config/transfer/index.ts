@@ -0,0 +1,91 @@
+import { parseTodosCsv, serializeTodosCsv } from './csv';
+import { parseTodosJson, serializeTodosJson } from './json';
+import { parseTodosMarkdown, serializeTodosMarkdown } from './markdown';
+import { parseTodosTodoTxt, serializeTodosTodoTxt } from './todoTxt';
+import type { Todo, TodoImportRecord, TodoTransferFormat } from '../../types/Todo';
+
+export { TodoImportError } from './TodoImportError';
+export { formatLocalDay } from './values';
+export { TODO_JSON_FORMAT, TODO_JSON_VERSION } from './json';
+export type { TodoJsonExport } from './json';
+export { TODO_CSV_COLUMNS } from './csv';
+
+/**
+ * Description of a file format.
+ */
+export interface TodoTransferFormatInfo {
+  /** Display name */
+  label: string;
+  /** File name extension, without the dot */
+  extension: string;
+  /** Media type of exported files */
+  mimeType: string;
+}
+
+/**
+ * Every file format, in the order they are offered to users.
+ */
+export const TODO_TRANSFER_FORMATS: readonly TodoTransferFormat[] = ['json', 'csv', 'markdown', 'todotxt'];
+
+/**
+ * Display names, file name extensions and media types of the formats.
+ */
+export const TODO_TRANSFER_FORMAT_INFO: Record<TodoTransferFormat, TodoTransferFormatInfo> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  todotxt: { label: 'todo.txt', extension: 'txt', mimeType: 'text/plain' },
+};
+
+/**
+ * Write todos in a file format.
+ * @param todos - Todos to export, in list order
+ * @param format - Format to write
+ * @param exportedAt - Time of the export
+ * @returns Contents of the file
+ */
+export function serializeTodos(todos: readonly Todo[], format: TodoTransferFormat, exportedAt: Date): string {
+  switch (format) {
+    case 'json':
+      return serializeTodosJson(todos, exportedAt);
+    case 'csv':
+      return serializeTodosCsv(todos);
+    case 'markdown':
+      return serializeTodosMarkdown(todos);
+    case 'todotxt':
+      return serializeTodosTodoTxt(todos, exportedAt);
+  }
+}
+
+/**
+ * Read todos from a file.
+ * @param text - Contents of the file
+ * @param format - Format of the file
+ * @returns The todos, in file order
+ * @throws TodoImportError if the file cannot be read in the format
+ */
+export function parseTodos(text: string, format: TodoTransferFormat): TodoImportRecord[] {
+  switch (format) {
+    case 'json':
+      return parseTodosJson(text);
+    case 'csv':
+      return parseTodosCsv(text);
+    case 'markdown':
+      return parseTodosMarkdown(text);
+    case 'todotxt':
+      return parseTodosTodoTxt(text);
+  }
+}
+
+/**
+ * Guess the format of a file from its name.
+ * @param fileName - Name of the file
+ * @returns The format its extension belongs to, or undefined if none does
+ */
+export function transferFormatOfFile(fileName: string): TodoTransferFormat | undefined {
+  const extension = /\.([^.]+)$/.exec(fileName)?.[1].toLowerCase();
+  if (extension === 'markdown') {
+    return 'markdown';
+  }
+  return TODO_TRANSFER_FORMATS.find((format) => TODO_TRANSFER_FORMAT_INFO[format].extension === extension);
+}
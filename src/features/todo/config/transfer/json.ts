@@ -0,0 +1,131 @@
+import { TodoImportError } from './TodoImportError';
+import { parseIsoDate } from './values';
+import type { Todo, TodoImportRecord } from '../../types/Todo';
+
+/**
+ * Value of the `format` field identifying a todo export.
+ */
+export const TODO_JSON_FORMAT = 'todo-export';
+
+/**
+ * Version of the JSON export written by this app. Raise it, and migrate
+ * older versions in `parseTodosJson`, whenever the layout of an exported
+ * todo changes incompatibly.
+ */
+export const TODO_JSON_VERSION = 1;
+
+/**
+ * Layout of a JSON export. Dates are ISO 8601 strings.
+ */
+export interface TodoJsonExport {
+  format: typeof TODO_JSON_FORMAT;
+  version: number;
+  /** When the export was made */
+  exportedAt: string;
+  todos: Record<string, unknown>[];
+}
+
+/**
+ * Fields written to and read from a JSON export. The position in the list
+ * and the list itself are not exported: imported todos go to the end of
+ * the list they are imported into.
+ */
+const EXPORTED_FIELDS = [
+  'id',
+  'text',
+  'completed',
+  'createdAt',
+  'dueAt',
+  'remindAt',
+  'priority',
+  'tags',
+  'subtasks',
+  'recurrence',
+] as const;
+
+/**
+ * Fields holding dates, written as ISO 8601 strings.
+ */
+const DATE_FIELDS = ['createdAt', 'dueAt', 'remindAt'] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Write todos as a versioned JSON export that keeps every field.
+ * @param todos - Todos to export, in list order
+ * @param exportedAt - Time of the export
+ */
+export function serializeTodosJson(todos: readonly Todo[], exportedAt: Date): string {
+  const data: TodoJsonExport = {
+    format: TODO_JSON_FORMAT,
+    version: TODO_JSON_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    todos: todos.map((todo) => {
+      const record: Record<string, unknown> = {};
+      EXPORTED_FIELDS.forEach((field) => {
+        if (todo[field] !== undefined) {
+          record[field] = todo[field];
+        }
+      });
+      return record;
+    }),
+  };
+  // Dates are turned into ISO strings by Date#toJSON
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Read todos from a JSON export.
+ *
+ * Dates are turned back into Date instances. Other fields are taken as
+ * they are and checked by the todo schema when the todos are stored.
+ *
+ * @param text - Contents of the file
+ * @throws TodoImportError if the file is not a JSON export of a supported version
+ */
+export function parseTodosJson(text: string): TodoImportRecord[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TodoImportError('The file is not valid JSON');
+  }
+  if (!isObject(data) || data.format !== TODO_JSON_FORMAT) {
+    throw new TodoImportError('The file is not a todo export');
+  }
+  const { version } = data;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > TODO_JSON_VERSION) {
+    throw new TodoImportError(
+      `Export version ${JSON.stringify(version)} is not supported; versions up to ${TODO_JSON_VERSION} can be imported`
+    );
+  }
+  if (!Array.isArray(data.todos)) {
+    throw new TodoImportError('The export has no todos');
+  }
+
+  return data.todos.map((raw: unknown, i) => {
+    const path = `todos[${i}]`;
+    if (!isObject(raw) || typeof raw.text !== 'string') {
+      throw new TodoImportError(`${path} is not a todo with text`);
+    }
+    const record: Record<string, unknown> = {};
+    EXPORTED_FIELDS.forEach((field) => {
+      if (raw[field] !== undefined) {
+        record[field] = raw[field];
+      }
+    });
+    DATE_FIELDS.forEach((field) => {
+      if (record[field] !== undefined) {
+        record[field] = parseIsoDate(record[field], `${path}.${field}`);
+      }
+    });
+    if (isObject(record.recurrence) && record.recurrence.until !== undefined) {
+      record.recurrence = {
+        ...record.recurrence,
+        until: parseIsoDate(record.recurrence.until, `${path}.recurrence.until`),
+      };
+    }
+    return record as unknown as TodoImportRecord;
+  });
+}
@@ -0,0 +1,88 @@
+import { formatTodoTags, parseTodoTags } from '../todo.tags';
+import { TodoImportError } from './TodoImportError';
+import type { Todo, TodoImportRecord, TodoSubtask } from '../../types/Todo';
+
+/**
+ * A task list item: indentation, bullet, checkbox and text.
+ */
+const TASK_LINE = /^([ \t]*)[-*+][ \t]+\[([ xX])\][ \t]+(.*)$/;
+
+/**
+ * ID of the todo, kept in a comment so it does not show when rendered.
+ */
+const ID_COMMENT = /[ \t]*<!--[ \t]*id:[ \t]*(\S+?)[ \t]*-->[ \t]*$/;
+
+const checkbox = (completed: boolean) => (completed ? '[x]' : '[ ]');
+
+/**
+ * Write todos as a Markdown task list, with each todo's subtasks nested
+ * below it and tags in the `#tag` syntax.
+ *
+ * @example
+ * ```markdown
+ * - [ ] Plan trip #travel <!-- id:k3x9 -->
+ *   - [x] Book flights
+ *   - [ ] Book hotel
+ * ```
+ *
+ * @param todos - Todos to export, in list order
+ */
+export function serializeTodosMarkdown(todos: readonly Todo[]): string {
+  const lines: string[] = [];
+  todos.forEach((todo) => {
+    lines.push(`- ${checkbox(todo.completed)} ${formatTodoTags(todo)} <!-- id:${todo.id} -->`);
+    todo.subtasks?.forEach((subtask) => {
+      lines.push(`  - ${checkbox(subtask.completed)} ${subtask.text}`);
+    });
+  });
+  return lines.map((line) => line + '\n').join('');
+}
+
+/**
+ * Read todos from a Markdown task list.
+ *
+ * Every unindented task item (`- [ ] text` or `- [x] text`) is a todo and
+ * indented task items below it are its subtasks. Other lines, such as
+ * headings and notes, are ignored.
+ *
+ * @param text - Contents of the file
+ * @throws TodoImportError if the file has no task items
+ */
+export function parseTodosMarkdown(text: string): TodoImportRecord[] {
+  const records: TodoImportRecord[] = [];
+  let current: TodoImportRecord | undefined;
+
+  text.split(/\r\n|\r|\n/).forEach((line, index) => {
+    const match = TASK_LINE.exec(line);
+    if (!match) {
+      return;
+    }
+    const [, indent, mark, content] = match;
+    const completed = mark !== ' ';
+
+    if (indent !== '' && current) {
+      const subtasks: TodoSubtask[] = (current.subtasks ??= []);
+      const subtaskText = content.replace(ID_COMMENT, '').trim();
+      if (subtaskText !== '') {
+        subtasks.push({ id: `s${subtasks.length + 1}`, text: subtaskText, completed });
+      }
+      return;
+    }
+
+    const idMatch = ID_COMMENT.exec(content);
+    const { text: todoText, tags } = parseTodoTags(idMatch ? content.slice(0, idMatch.index) : content);
+    if (todoText === '') {
+      throw new TodoImportError('The task has no text', index + 1);
+    }
+    current = { text: todoText, completed, tags };
+    if (idMatch) {
+      current.id = idMatch[1];
+    }
+    records.push(current);
+  });
+
+  if (records.length === 0) {
+    throw new TodoImportError('The file has no task list items such as "- [ ] Buy milk"');
+  }
+  return records;
+}
@@ -0,0 +1,221 @@
+import { toDateTimeInputValue } from '../todo.due';
+import { TODO_TAG_NAME_PATTERN, normalizeTagName, normalizeTagNames } from '../todo.tags';
+import { TodoImportError } from './TodoImportError';
+import { formatLocalDay } from './values';
+import type { Todo, TodoImportRecord, TodoPriority, TodoRecurrence, TodoRecurrenceFrequency } from '../../types/Todo';
+
+/**
+ * todo.txt priority letter of each priority. Imports read letters after
+ * `C` as low.
+ */
+const PRIORITY_LETTERS: Record<TodoPriority, string> = {
+  high: 'A',
+  normal: 'B',
+  low: 'C',
+};
+
+/**
+ * Unit letter of each recurrence frequency in `rec:` values, e.g. `rec:2w`.
+ */
+const RECURRENCE_UNITS: Record<TodoRecurrenceFrequency, string> = {
+  daily: 'd',
+  weekly: 'w',
+  monthly: 'm',
+  yearly: 'y',
+};
+
+/**
+ * Recurrence frequency of each `rec:` unit letter.
+ */
+const RECURRENCE_FREQUENCIES: Record<string, TodoRecurrenceFrequency | undefined> = {
+  d: 'daily',
+  w: 'weekly',
+  m: 'monthly',
+  y: 'yearly',
+};
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_OR_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/;
+const PRIORITY = /^\(([A-Z])\)$/;
+const RECURRENCE = /^\+?(\d*)([dwmy])$/;
+const KEY_VALUE = /^([a-z]+):(\S+)$/;
+
+/**
+ * Format a date as a day, or as a day and time when it is not at midnight.
+ */
+function formatDayOrTime(date: Date): string {
+  const day = formatLocalDay(date);
+  return date.getHours() === 0 && date.getMinutes() === 0 ? day : toDateTimeInputValue(date);
+}
+
+/**
+ * Read a day (`YYYY-MM-DD`) or day and time (`YYYY-MM-DDTHH:mm`) in local time.
+ * @throws TodoImportError if the value is not a valid date
+ */
+function parseDayOrTime(value: string, field: string, line: number): Date {
+  const match = DAY_OR_TIME.exec(value);
+  if (match) {
+    const [, year, month, day, hours = '0', minutes = '0'] = match;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+    // Reject days that roll over into the next month, like 2024-02-30
+    if (date.getDate() === Number(day) && date.getMonth() === Number(month) - 1) {
+      return date;
+    }
+  }
+  throw new TodoImportError(`${field} is not a valid date: "${value}"`, line);
+}
+
+/**
+ * `rec:` value of a recurrence. Only the frequency and interval can be
+ * written; weekdays, counts and end dates are left out.
+ */
+function formatRecurrence(recurrence: TodoRecurrence): string {
+  return `${recurrence.interval ?? 1}${RECURRENCE_UNITS[recurrence.frequency]}`;
+}
+
+/**
+ * Write todos in the todo.txt format (https://github.com/todotxt/todo.txt).
+ *
+ * High, normal and low priority become `(A)`, `(B)` and `(C)`; completed
+ * todos are marked `x` with the day of the export and keep their priority
+ * as `pri:`. Tags become `+tag` projects and the due date, reminder,
+ * recurrence and ID are written as `due:`, `remind:`, `rec:` and `id:`.
+ * Subtasks, times of creation and recurrence details beyond the interval
+ * cannot be written.
+ *
+ * @example
+ * ```text
+ * (A) 2024-03-01 Call mom +family due:2024-03-04 id:k3x9
+ * x 2024-03-05 2024-02-20 File taxes +finance pri:B id:p2m1
+ * ```
+ *
+ * @param todos - Todos to export, in list order
+ * @param exportedAt - Time of the export, used as the completion day
+ */
+export function serializeTodosTodoTxt(todos: readonly Todo[], exportedAt: Date): string {
+  return todos
+    .map((todo) => {
+      const priority = todo.priority && PRIORITY_LETTERS[todo.priority];
+      const parts: string[] = [];
+      if (todo.completed) {
+        parts.push('x', formatLocalDay(exportedAt));
+      } else if (priority) {
+        parts.push(`(${priority})`);
+      }
+      parts.push(formatLocalDay(todo.createdAt), todo.text);
+      todo.tags?.forEach((tag) => parts.push(`+${tag}`));
+      if (todo.dueAt) {
+        parts.push(`due:${formatDayOrTime(todo.dueAt)}`);
+      }
+      if (todo.remindAt) {
+        parts.push(`remind:${formatDayOrTime(todo.remindAt)}`);
+      }
+      if (todo.recurrence) {
+        parts.push(`rec:${formatRecurrence(todo.recurrence)}`);
+      }
+      if (todo.completed && priority) {
+        parts.push(`pri:${priority}`);
+      }
+      parts.push(`id:${todo.id}`);
+      return parts.join(' ') + '\n';
+    })
+    .join('');
+}
+
+/**
+ * Priority of a todo.txt priority letter.
+ */
+function priorityOf(letter: string): TodoPriority {
+  return letter === 'A' ? 'high' : letter === 'B' ? 'normal' : 'low';
+}
+
+/**
+ * Read todos in the todo.txt format.
+ *
+ * Both `+project` and `@context` words become tags. The keys written by
+ * `serializeTodosTodoTxt` are read back; other `key:value` words stay in
+ * the text. Blank lines are skipped.
+ *
+ * @param text - Contents of the file
+ * @throws TodoImportError if a line has no text or a date or recurrence cannot be read
+ */
+export function parseTodosTodoTxt(text: string): TodoImportRecord[] {
+  const records: TodoImportRecord[] = [];
+
+  text.split(/\r\n|\r|\n/).forEach((source, index) => {
+    const line = index + 1;
+    const words = source.trim().split(/\s+/).filter((word) => word !== '');
+    if (words.length === 0) {
+      return;
+    }
+    const record: TodoImportRecord = { text: '', completed: false };
+
+    if (words[0] === 'x') {
+      record.completed = true;
+      words.shift();
+      // The completion day, followed by the creation day
+      if (DAY.test(words[0] ?? '') && DAY.test(words[1] ?? '')) {
+        words.shift();
+      }
+    } else {
+      const priority = PRIORITY.exec(words[0]);
+      if (priority) {
+        record.priority = priorityOf(priority[1]);
+        words.shift();
+      }
+    }
+    if (DAY.test(words[0] ?? '')) {
+      record.createdAt = parseDayOrTime(words.shift()!, 'creation date', line);
+    }
+
+    const textWords: string[] = [];
+    const tags: string[] = [];
+    words.forEach((word) => {
+      const tag = /^[+@](.+)$/.exec(word);
+      if (tag && TODO_TAG_NAME_PATTERN.test(normalizeTagName(tag[1]))) {
+        tags.push(tag[1]);
+        return;
+      }
+      const [, key, value] = KEY_VALUE.exec(word) ?? [];
+      switch (key) {
+        case 'due':
+          record.dueAt = parseDayOrTime(value, 'due', line);
+          return;
+        case 'remind':
+          record.remindAt = parseDayOrTime(value, 'remind', line);
+          return;
+        case 'pri':
+          if (/^[A-Z]$/.test(value)) {
+            record.priority = priorityOf(value);
+            return;
+          }
+          break;
+        case 'id':
+          record.id = value;
+          return;
+        case 'rec': {
+          const recurrence = RECURRENCE.exec(value);
+          const frequency = recurrence && RECURRENCE_FREQUENCIES[recurrence[2]];
+          if (!recurrence || !frequency) {
+            throw new TodoImportError(`rec must be a number of days, weeks, months or years like "2w": "${value}"`, line);
+          }
+          const interval = recurrence[1] === '' ? 1 : Number(recurrence[1]);
+          record.recurrence = interval === 1 ? { frequency } : { frequency, interval };
+          return;
+        }
+      }
+      textWords.push(word);
+    });
+
+    record.text = textWords.join(' ');
+    if (record.text === '') {
+      throw new TodoImportError('The todo has no text', line);
+    }
+    if (tags.length > 0) {
+      record.tags = normalizeTagNames(tags);
+    }
+    records.push(record);
+  });
+
+  return records;
+}
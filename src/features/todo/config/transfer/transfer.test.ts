@@ -0,0 +1,219 @@
+import {
+  TODO_TRANSFER_FORMATS,
+  TodoImportError,
+  parseTodos,
+  serializeTodos,
+  transferFormatOfFile,
+} from './index';
+import type { Todo } from '../../types/Todo';
+
+describe('Todo import and export formats', () => {
+  const exportedAt = new Date(2024, 2, 10, 9, 30);
+
+  const todos: Todo[] = [
+    {
+      id: 'k3x9',
+      text: 'Plan trip, "Lisbon"',
+      completed: false,
+      createdAt: new Date(2024, 2, 1, 8, 15, 30, 250),
+      dueAt: new Date(2024, 2, 4),
+      remindAt: new Date(2024, 2, 3, 18, 0),
+      priority: 'high',
+      tags: ['travel', 'family'],
+      subtasks: [
+        { id: 'a', text: 'Book flights', completed: true },
+        { id: 'b', text: 'Book hotel', completed: false },
+      ],
+      recurrence: { frequency: 'yearly', until: new Date(2030, 0, 1) },
+      order: 'a0',
+    },
+    {
+      id: 'p2m1',
+      text: '=SUM(A1:A2) is not a formula',
+      completed: true,
+      createdAt: new Date(2024, 1, 20, 12, 0),
+      priority: 'low',
+      recurrence: { frequency: 'weekly', interval: 2 },
+      order: 'a1',
+    },
+    { id: 'q7', text: 'Call mom', completed: false, createdAt: new Date(2024, 2, 5), order: 'a2' },
+  ];
+
+  const roundTrip = (format: (typeof TODO_TRANSFER_FORMATS)[number]) =>
+    parseTodos(serializeTodos(todos, format, exportedAt), format);
+
+  describe('JSON', () => {
+    test('keeps every field, with dates as Date instances', () => {
+      const [trip, formula, call] = roundTrip('json');
+
+      // Order keys are not exported; the file keeps the todos in list order
+      expect(trip).toEqual({ ...todos[0], order: undefined });
+      expect(trip.createdAt).toBeInstanceOf(Date);
+      expect(trip.recurrence?.until).toBeInstanceOf(Date);
+      expect(formula.text).toBe(todos[1].text);
+      expect(call).toEqual({ id: 'q7', text: 'Call mom', completed: false, createdAt: new Date(2024, 2, 5) });
+    });
+
+    test('is versioned', () => {
+      const data = JSON.parse(serializeTodos(todos, 'json', exportedAt));
+      expect(data).toMatchObject({ format: 'todo-export', version: 1, exportedAt: exportedAt.toISOString() });
+    });
+
+    test('rejects other files and newer versions', () => {
+      expect(() => parseTodos('{', 'json')).toThrow('The file is not valid JSON');
+      expect(() => parseTodos('[]', 'json')).toThrow('The file is not a todo export');
+      expect(() => parseTodos('{"format":"todo-export","version":2,"todos":[]}', 'json')).toThrow(
+        'Export version 2 is not supported'
+      );
+      expect(() =>
+        parseTodos('{"format":"todo-export","version":1,"todos":[{"text":"a","createdAt":"soon"}]}', 'json')
+      ).toThrow('todos[0].createdAt is not a valid date: "soon"');
+    });
+  });
+
+  describe('CSV', () => {
+    test('keeps the fields it has columns for', () => {
+      const [trip, formula, call] = roundTrip('csv');
+
+      expect(trip).toEqual({
+        id: 'k3x9',
+        text: 'Plan trip, "Lisbon"',
+        completed: false,
+        createdAt: todos[0].createdAt,
+        dueAt: todos[0].dueAt,
+        remindAt: todos[0].remindAt,
+        priority: 'high',
+        tags: ['travel', 'family'],
+      });
+      expect(formula).toMatchObject({ text: todos[1].text, completed: true, priority: 'low', tags: [] });
+      expect(call).toEqual({ id: 'q7', text: 'Call mom', completed: false, createdAt: todos[2].createdAt, tags: [] });
+    });
+
+    test('quotes cells and keeps spreadsheets from running formulas', () => {
+      const lines = serializeTodos(todos, 'csv', exportedAt).split('\r\n');
+
+      expect(lines[0]).toBe('id,text,completed,priority,tags,createdAt,dueAt,remindAt');
+      expect(lines[1]).toMatch(/^k3x9,"Plan trip, ""Lisbon""",false,high,travel family,/);
+      expect(lines[2]).toMatch(/^p2m1,'=SUM\(A1:A2\) is not a formula,true,/);
+    });
+
+    test('reads columns in any order, quoted line breaks and a byte order mark', () => {
+      const csv = '\ufeffText,Completed,Tags\r\n"Two\nlines",yes,#Home\r\n\r\nSecond,,\r\n';
+
+      expect(parseTodos(csv, 'csv')).toEqual([
+        { text: 'Two\nlines', completed: true, tags: ['home'] },
+        { text: 'Second', completed: false, tags: [] },
+      ]);
+    });
+
+    test('reports the line of a cell it cannot read', () => {
+      expect(() => parseTodos('id,name\n1,a\n', 'csv')).toThrow('The file has no "text" column');
+      expect(() => parseTodos('text,priority\na,low\n"b\nc",urgent\n', 'csv')).toThrow(
+        new TodoImportError('priority must be one of low, normal, high: "urgent"', 3)
+      );
+      expect(() => parseTodos('text,dueAt\na,tomorrow\n', 'csv')).toThrow('Line 2: dueAt is not a valid date');
+    });
+  });
+
+  describe('Markdown', () => {
+    test('writes a task list with subtasks nested below their todo', () => {
+      expect(serializeTodos(todos.slice(0, 1), 'markdown', exportedAt)).toBe(
+        '- [ ] Plan trip, "Lisbon" #travel #family <!-- id:k3x9 -->\n' +
+          '  - [x] Book flights\n' +
+          '  - [ ] Book hotel\n'
+      );
+    });
+
+    test('keeps text, completion, tags, subtasks and IDs', () => {
+      const [trip, formula] = roundTrip('markdown');
+
+      expect(trip).toEqual({
+        id: 'k3x9',
+        text: 'Plan trip, "Lisbon"',
+        completed: false,
+        tags: ['travel', 'family'],
+        subtasks: [
+          { id: 's1', text: 'Book flights', completed: true },
+          { id: 's2', text: 'Book hotel', completed: false },
+        ],
+      });
+      expect(formula).toEqual({ id: 'p2m1', text: todos[1].text, completed: true, tags: [] });
+    });
+
+    test('reads task lists written by hand, ignoring other lines', () => {
+      const markdown = '# Groceries\n\n* [X] Milk\n+ [ ] Eggs #shop\n    - [ ] Free range\nSome notes\n';
+
+      expect(parseTodos(markdown, 'markdown')).toEqual([
+        { text: 'Milk', completed: true, tags: [] },
+        {
+          text: 'Eggs',
+          completed: false,
+          tags: ['shop'],
+          subtasks: [{ id: 's1', text: 'Free range', completed: false }],
+        },
+      ]);
+      expect(() => parseTodos('# Just a heading\n', 'markdown')).toThrow(TodoImportError);
+    });
+  });
+
+  describe('todo.txt', () => {
+    test('writes priorities, days, projects and keys', () => {
+      expect(serializeTodos(todos, 'todotxt', exportedAt)).toBe(
+        '(A) 2024-03-01 Plan trip, "Lisbon" +travel +family due:2024-03-04 remind:2024-03-03T18:00 rec:1y id:k3x9\n' +
+          'x 2024-03-10 2024-02-20 =SUM(A1:A2) is not a formula rec:2w pri:C id:p2m1\n' +
+          '2024-03-05 Call mom id:q7\n'
+      );
+    });
+
+    test('keeps what the format can hold, with creation times rounded to the day', () => {
+      const [trip, formula, call] = roundTrip('todotxt');
+
+      expect(trip).toEqual({
+        id: 'k3x9',
+        text: 'Plan trip, "Lisbon"',
+        completed: false,
+        createdAt: new Date(2024, 2, 1),
+        dueAt: todos[0].dueAt,
+        remindAt: todos[0].remindAt,
+        priority: 'high',
+        tags: ['travel', 'family'],
+        recurrence: { frequency: 'yearly' },
+      });
+      expect(formula).toEqual({
+        id: 'p2m1',
+        text: todos[1].text,
+        completed: true,
+        createdAt: new Date(2024, 1, 20),
+        priority: 'low',
+        recurrence: { frequency: 'weekly', interval: 2 },
+      });
+      expect(call).toEqual({ id: 'q7', text: 'Call mom', completed: false, createdAt: todos[2].createdAt });
+    });
+
+    test('reads files written by other todo.txt apps', () => {
+      const text = '(D) Pay rent @home +bills url:https://bank.example\n\nx Old task\n';
+
+      expect(parseTodos(text, 'todotxt')).toEqual([
+        { text: 'Pay rent url:https://bank.example', completed: false, priority: 'low', tags: ['home', 'bills'] },
+        { text: 'Old task', completed: true },
+      ]);
+    });
+
+    test('reports the line of a value it cannot read', () => {
+      expect(() => parseTodos('Fine\nTax due:2024-02-30\n', 'todotxt')).toThrow(
+        'Line 2: due is not a valid date: "2024-02-30"'
+      );
+      expect(() => parseTodos('Run rec:often\n', 'todotxt')).toThrow('Line 1: rec must be');
+      expect(() => parseTodos('(A) +tag\n', 'todotxt')).toThrow('Line 1: The todo has no text');
+    });
+  });
+
+  test('formats are recognised by file name extension', () => {
+    expect(transferFormatOfFile('todos-2024-03-10.JSON')).toBe('json');
+    expect(transferFormatOfFile('export.csv')).toBe('csv');
+    expect(transferFormatOfFile('notes.md')).toBe('markdown');
+    expect(transferFormatOfFile('notes.markdown')).toBe('markdown');
+    expect(transferFormatOfFile('todo.txt')).toBe('todotxt');
+    expect(transferFormatOfFile('todos')).toBeUndefined();
+  });
+});
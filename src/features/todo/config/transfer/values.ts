@@ -0,0 +1,42 @@
+import { TODO_PRIORITIES } from '../todo.sort';
+import { TodoImportError } from './TodoImportError';
+import type { TodoPriority } from '../../types/Todo';
+
+/**
+ * Read a date written as an ISO 8601 string.
+ * @param value - Value from the file
+ * @param field - Name of the field, for error messages
+ * @param line - Line of the file, for error messages
+ * @throws TodoImportError if the value is not a valid date
+ */
+export function parseIsoDate(value: unknown, field: string, line?: number): Date {
+  const date = typeof value === 'string' && value.trim() !== '' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new TodoImportError(`${field} is not a valid date: ${JSON.stringify(value)}`, line);
+  }
+  return date;
+}
+
+/**
+ * Read a priority name.
+ * @param value - Value from the file
+ * @param line - Line of the file, for error messages
+ * @throws TodoImportError if the value is not a priority
+ */
+export function parsePriority(value: string, line?: number): TodoPriority {
+  const priority = TODO_PRIORITIES.find((name) => name === value.trim().toLowerCase());
+  if (!priority) {
+    throw new TodoImportError(`priority must be one of ${TODO_PRIORITIES.join(', ')}: "${value}"`, line);
+  }
+  return priority;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format the calendar day of a date in local time, as `YYYY-MM-DD`.
+ * @param date - Date to format
+ */
+export function formatLocalDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
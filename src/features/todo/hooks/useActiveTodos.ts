@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import { deriveTodoViews } from '../config/todo.derived';
+import type { Todo } from '../types/Todo';
+
+/**
+ * Custom hook for reading the todos that are not yet completed.
+ *
+ * Backed by the memoized `todos.active` derived view: the filter only runs
+ * when the todo collection changes, and the component only re-renders when
+ * the set of active todos changes.
+ *
+ * @example
+ * ```tsx
+ * function ActiveList() {
+ *   const active = useActiveTodos();
+ *   return <ul>{active.map((todo) => <li key={todo.id}>{todo.text}</li>)}</ul>;
+ * }
+ * ```
+ *
+ * @returns Active todos in collection order
+ */
+export const useActiveTodos = (): Todo[] => {
+  const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
+  const { active } = useMemo(() => deriveTodoViews(masterStore, listId), [masterStore, listId]);
+
+  return useStoreSelector(active, (todos) => todos);
+};
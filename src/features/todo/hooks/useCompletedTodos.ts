@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import { deriveTodoViews } from '../config/todo.derived';
+import type { Todo } from '../types/Todo';
+
+/**
+ * Custom hook for reading the completed todos.
+ *
+ * Backed by the memoized `todos.completed` derived view: the filter only runs
+ * when the todo collection changes, and the component only re-renders when
+ * the set of completed todos changes.
+ *
+ * @example
+ * ```tsx
+ * function CompletedList() {
+ *   const completed = useCompletedTodos();
+ *   return <ul>{completed.map((todo) => <li key={todo.id}>{todo.text}</li>)}</ul>;
+ * }
+ * ```
+ *
+ * @returns Completed todos in collection order
+ */
+export const useCompletedTodos = (): Todo[] => {
+  const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
+  const { completed } = useMemo(() => deriveTodoViews(masterStore, listId), [masterStore, listId]);
+
+  return useStoreSelector(completed, (todos) => todos);
+};
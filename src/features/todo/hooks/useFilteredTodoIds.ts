@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { shallow } from 'zustand/shallow';
+import { matchesTodoFilter } from '../config/todo.filters';
+import { matchesTodoTag } from '../config/todo.tags';
+import { sortTodos } from '../config/todo.sort';
+import { hasSearchTerms } from '../config/todo.search';
+import { useTodoFilter } from './useTodoFilter';
+import { useTodoSelector } from './useTodoSelector';
+import { useTodoSearchService } from './useTodoSearchService';
+import type { Todo } from '../types/Todo';
+
+/**
+ * Custom hook for the IDs of the todos shown by the selected filter and tag, in the
+ * selected sort order. While searching, only matching todos are shown, best match first.
+ *
+ * The IDs are compared shallowly, so the caller only re-renders when a todo
+ * enters, leaves or moves within the visible list - not when a visible todo
+ * is edited in place.
+ *
+ * @example
+ * ```tsx
+ * const ids = useFilteredTodoIds();
+ * return <>{ids.map((id) => <TodoItem key={id} id={id} />)}</>;
+ * ```
+ *
+ * @returns IDs of the visible todos, sorted
+ */
+export const useFilteredTodoIds = (): string[] => {
+  const { filter, sort, tag, query } = useTodoFilter();
+  const searchService = useTodoSearchService();
+
+  const selectIds = useCallback(
+    (todos: Todo[]) => {
+      const visible = (todo: Todo) => matchesTodoFilter(todo, filter) && matchesTodoTag(todo, tag);
+      if (hasSearchTerms(query)) {
+        return searchService
+          .search(query)
+          .filter((result) => visible(result.todo))
+          .map((result) => result.todo.id);
+      }
+      return sortTodos(todos.filter(visible), sort).map((todo) => todo.id);
+    },
+    [filter, sort, tag, query, searchService]
+  );
+
+  return useTodoSelector(selectIds, shallow);
+};
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIMasterStore } from '../config/todo.provider';
+import { TODOS_KEY } from '../config/todo.types';
+import type { Todo } from '../types/Todo';
+
+/**
+ * Custom hook for subscribing to a single todo by ID.
+ *
+ * Thanks to structural sharing, the component re-renders only when this
+ * particular todo changes - updates to other todos leave its reference intact.
+ * Lookups go through the view's ID index, so each subscriber costs O(1) per change.
+ *
+ * @example
+ * ```tsx
+ * function TodoTitle({ id }: { id: string }) {
+ *   const todo = useTodo(id);
+ *   return <span>{todo?.text}</span>;
+ * }
+ * ```
+ *
+ * @param id - ID of the todo to subscribe to
+ * @returns The todo, or undefined if it does not exist
+ */
+export const useTodo = (id: string): Todo | undefined => {
+  const masterStore = useDIMasterStore();
+
+  const todoView = useMemo(() => {
+    return masterStore.getView<Todo>(TODOS_KEY);
+  }, [masterStore]);
+
+  const selectTodo = useCallback(() => todoView.getById(id), [todoView, id]);
+
+  return useStoreSelector(todoView, selectTodo);
+};
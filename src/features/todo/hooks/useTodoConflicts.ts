@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIMasterStore } from '../config/todo.provider';
+import { getTodoConflictView } from '../config/todo.versions';
+import type { TodoConflict } from '../types/Todo';
+
+const selectConflicts = (conflicts: TodoConflict[]) => conflicts;
+
+/**
+ * Custom hook for the todos changed both here and on the server, in the
+ * order their conflicts were found.
+ *
+ * Reads the conflicts shared by all containers on the store, for the todos
+ * of every list. Only re-renders when a conflict is found or resolved.
+ *
+ * @example
+ * ```tsx
+ * const conflicts = useTodoConflicts();
+ * return conflicts.length > 0 ? <span>{conflicts.length} to review</span> : null;
+ * ```
+ *
+ * @returns The unresolved conflicts
+ */
+export const useTodoConflicts = (): TodoConflict[] => {
+  const masterStore = useDIMasterStore();
+  const conflictView = useMemo(() => getTodoConflictView(masterStore), [masterStore]);
+
+  return useStoreSelector(conflictView, selectConflicts);
+};
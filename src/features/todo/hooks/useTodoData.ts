@@ -1,11 +1,13 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useDIMasterStore } from '../config/todo.provider';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import { TODOS_KEY } from '../config/todo.types';
+import { scopeTodos } from '../config/todo.lists';
 import type { Todo } from '../types/Todo';
 
 /**
  * Custom hook for accessing todo data with reactive updates.
  *
- * Provides read-only access to the todo collection with automatic re-rendering
+ * Provides read-only access to the todos of the provider's list with automatic re-rendering
  * when the underlying data changes. Uses subscription-based updates for efficiency.
  *
  * Features:
@@ -14,6 +16,7 @@ import type { Todo } from '../types/Todo';
  * - Read-only interface to prevent accidental mutations
  * - Memoized store view for performance
  * - Proper cleanup of subscriptions
+ * - Picks up persisted todos once the store has finished hydrating
  *
  * @example
  * ```tsx
@@ -34,17 +37,30 @@ import type { Todo } from '../types/Todo';
  */
 export const useTodoData = (): readonly Todo[] => {
   const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
 
   const todoView = useMemo(() => {
-    return masterStore.getView<Todo>('todos');
+    return masterStore.getView<Todo>(TODOS_KEY);
   }, [masterStore]);
 
   const [todos, setTodos] = useState<Todo[]>(() => todoView.getItems());
 
   useEffect(() => {
+    let active = true;
     const unsubscribe = todoView.subscribe(setTodos);
-    return unsubscribe;
-  }, [todoView]);
 
-  return todos;
+    // Hydration may have completed between the initial render and subscribing
+    masterStore.whenHydrated().then(() => {
+      if (active) {
+        setTodos(todoView.getItems());
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [masterStore, todoView]);
+
+  return useMemo(() => scopeTodos(todos, listId), [todos, listId]);
 };
@@ -0,0 +1,72 @@
+import { useCallback } from 'react';
+import { useDIClock } from '../config/todo.provider';
+import { groupTodosByDue } from '../config/todo.due';
+import { matchesTodoFilter } from '../config/todo.filters';
+import { matchesTodoTag } from '../config/todo.tags';
+import { todoComparator } from '../config/todo.sort';
+import { hasSearchTerms } from '../config/todo.search';
+import { useTodoFilter } from './useTodoFilter';
+import { useTodoSelector } from './useTodoSelector';
+import { useTodoSearchService } from './useTodoSearchService';
+import type { Todo, TodoDueGroup } from '../types/Todo';
+
+/**
+ * IDs of the visible todos in one due date section.
+ */
+export interface TodoDueSectionIds {
+  group: TodoDueGroup;
+  ids: string[];
+}
+
+/**
+ * Compare sections by group and IDs, so editing a todo's text does not
+ * produce a "new" grouping.
+ */
+const sameSections = (a: TodoDueSectionIds[], b: TodoDueSectionIds[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (section, i) =>
+      section.group === b[i].group &&
+      section.ids.length === b[i].ids.length &&
+      section.ids.every((id, j) => id === b[i].ids[j])
+  );
+
+/**
+ * Custom hook for the visible todos split into due date sections
+ * (Overdue, Today, This week, Later). Sections are sorted by the selected
+ * sort mode, or by due date when the list is sorted manually. While
+ * searching, sections only hold matching todos, best match first.
+ *
+ * Sections are computed against the injected Clock whenever the todos or
+ * the filter change. The caller only re-renders when a todo moves between
+ * sections or changes position.
+ *
+ * @example
+ * ```tsx
+ * const sections = useTodoDueSections();
+ * return sections.map(({ group, ids }) => <Section key={group} ids={ids} />);
+ * ```
+ *
+ * @returns Non-empty sections in display order
+ */
+export const useTodoDueSections = (): TodoDueSectionIds[] => {
+  const clock = useDIClock();
+  const { filter, sort, tag, query } = useTodoFilter();
+  const searchService = useTodoSearchService();
+
+  const selectSections = useCallback(
+    (todos: Todo[]) => {
+      const searching = hasSearchTerms(query);
+      const candidates = searching ? searchService.search(query).map((result) => result.todo) : todos;
+      return groupTodosByDue(
+        candidates.filter((todo) => matchesTodoFilter(todo, filter) && matchesTodoTag(todo, tag)),
+        clock.now(),
+        // Sorting is stable, so search results keep their ranking within each section
+        searching ? () => 0 : todoComparator(sort === 'manual' ? 'due' : sort)
+      ).map(({ group, todos: sectionTodos }) => ({ group, ids: sectionTodos.map((todo) => todo.id) }));
+    },
+    [clock, filter, sort, tag, query, searchService]
+  );
+
+  return useTodoSelector(selectSections, sameSections);
+};
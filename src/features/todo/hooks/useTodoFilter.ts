@@ -0,0 +1,106 @@
+import { useCallback, useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import {
+  DEFAULT_TODO_FILTER,
+  getTodoFilterView,
+  setTodoFilter,
+  setTodoGroupByDue,
+  setTodoQuery,
+  setTodoSort,
+  setTodoTag,
+} from '../config/todo.filters';
+import { DEFAULT_TODO_SORT } from '../config/todo.sort';
+import type { TodoFilter, TodoSortMode } from '../types/Todo';
+
+/**
+ * Selected todo filter, tag, sort mode, list grouping and search query, and the actions to change them.
+ */
+export interface TodoFilterControls {
+  /** The selected filter */
+  filter: TodoFilter;
+  /** Select another filter */
+  setFilter: (filter: TodoFilter) => void;
+  /** Whether the list is grouped into due date sections */
+  groupByDue: boolean;
+  /** Turn grouping by due date on or off */
+  setGroupByDue: (groupByDue: boolean) => void;
+  /** The selected sort mode */
+  sort: TodoSortMode;
+  /** Select another sort mode */
+  setSort: (sort: TodoSortMode) => void;
+  /** Tag the visible todos must have; undefined shows todos with any tags */
+  tag: string | undefined;
+  /** Select a tag, or undefined to stop filtering by tag */
+  setTag: (tag: string | undefined) => void;
+  /** Search query as typed; empty when not searching */
+  query: string;
+  /** Search the todos, or stop searching with an empty query */
+  setQuery: (query: string) => void;
+}
+
+/**
+ * Custom hook for reading and changing the selected todo filter, tag, sort mode, grouping
+ * and search query.
+ *
+ * The selection lives in MasterStore, so every component using this hook
+ * (filter bar, list, ...) sees the same filter. Each list has its own.
+ *
+ * @example
+ * ```tsx
+ * function ShowActive() {
+ *   const { filter, setFilter } = useTodoFilter();
+ *   return <button disabled={filter === 'active'} onClick={() => setFilter('active')}>Active</button>;
+ * }
+ * ```
+ *
+ * @returns The selected filter, tag, sort mode, grouping and query, and their setters
+ */
+export const useTodoFilter = (): TodoFilterControls => {
+  const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
+  const filterView = useMemo(() => getTodoFilterView(masterStore, listId), [masterStore, listId]);
+
+  const filter = useStoreSelector(filterView, (items) => items[0]?.filter ?? DEFAULT_TODO_FILTER);
+  const groupByDue = useStoreSelector(filterView, (items) => items[0]?.groupByDue ?? false);
+  const sort = useStoreSelector(filterView, (items) => items[0]?.sort ?? DEFAULT_TODO_SORT);
+  const tag = useStoreSelector(filterView, (items) => items[0]?.tag);
+  const query = useStoreSelector(filterView, (items) => items[0]?.query ?? '');
+
+  const setFilter = useCallback(
+    (next: TodoFilter) => {
+      setTodoFilter(filterView, next);
+    },
+    [filterView]
+  );
+
+  const setGroupByDue = useCallback(
+    (next: boolean) => {
+      setTodoGroupByDue(filterView, next);
+    },
+    [filterView]
+  );
+
+  const setSort = useCallback(
+    (next: TodoSortMode) => {
+      setTodoSort(filterView, next);
+    },
+    [filterView]
+  );
+
+  const setTag = useCallback(
+    (next: string | undefined) => {
+      setTodoTag(filterView, next);
+    },
+    [filterView]
+  );
+
+  const setQuery = useCallback(
+    (next: string) => {
+      setTodoQuery(filterView, next);
+    },
+    [filterView]
+  );
+
+  return { filter, setFilter, groupByDue, setGroupByDue, sort, setSort, tag, setTag, query, setQuery };
+};
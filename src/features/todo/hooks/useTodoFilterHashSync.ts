@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import {
+  getTodoFilter,
+  getTodoFilterView,
+  setTodoFilter,
+  todoFilterFromHash,
+  todoFilterHash,
+} from '../config/todo.filters';
+
+/**
+ * Custom hook that keeps the selected todo filter in sync with the URL hash.
+ *
+ * - A filter link in the URL (`#/`, `#/active`, `#/completed`) selects that
+ *   filter on mount and whenever the hash changes (links, back/forward)
+ * - Selecting a filter updates the hash, so the current view can be bookmarked
+ *   and survives a reload
+ * - Without a filter link in the URL, the stored filter is written to the
+ *   hash, replacing the current history entry
+ *
+ * Call it once, from the component that owns the page (TodoApp does).
+ */
+export const useTodoFilterHashSync = (): void => {
+  const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
+
+  useEffect(() => {
+    const filterView = getTodoFilterView(masterStore, listId);
+
+    const linked = todoFilterFromHash(window.location.hash);
+    if (linked) {
+      setTodoFilter(filterView, linked);
+    } else {
+      window.history.replaceState(window.history.state, '', todoFilterHash(getTodoFilter(filterView)));
+    }
+
+    const onHashChange = () => {
+      const filter = todoFilterFromHash(window.location.hash);
+      if (filter) {
+        setTodoFilter(filterView, filter);
+      }
+    };
+
+    const unsubscribe = filterView.subscribe(() => {
+      const hash = todoFilterHash(getTodoFilter(filterView));
+      if (window.location.hash !== hash) {
+        window.location.hash = hash;
+      }
+    });
+    window.addEventListener('hashchange', onHashChange);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('hashchange', onHashChange);
+    };
+  }, [masterStore, listId]);
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useDIMasterStore } from '../config/todo.provider';
+import { useTodoService } from './useTodoService';
+
+/**
+ * Undo/redo state and actions for the todo collection.
+ */
+export interface TodoHistory {
+  /** Whether the MasterStore records history at all */
+  enabled: boolean;
+  /** Whether there is a todo change that can be undone */
+  canUndo: boolean;
+  /** Whether there is an undone todo change that can be redone */
+  canRedo: boolean;
+  /** Revert the most recent todo change */
+  undo: () => void;
+  /** Re-apply the most recently undone todo change */
+  redo: () => void;
+}
+
+/**
+ * Custom hook for undoing and redoing todo changes.
+ *
+ * Re-renders only when undo/redo availability changes, so it can be used
+ * next to the todo list without causing extra renders of the list itself.
+ * History must be enabled on the MasterStore (`history` config option);
+ * otherwise `enabled` is false and the actions do nothing.
+ *
+ * @example
+ * ```tsx
+ * function UndoButton() {
+ *   const { canUndo, undo } = useTodoHistory();
+ *   return <button onClick={undo} disabled={!canUndo}>Undo</button>;
+ * }
+ * ```
+ *
+ * @returns Current undo/redo availability and actions
+ */
+export const useTodoHistory = (): TodoHistory => {
+  const masterStore = useDIMasterStore();
+  const todoService = useTodoService();
+
+  const [state, setState] = useState(() => ({
+    canUndo: todoService.canUndo(),
+    canRedo: todoService.canRedo(),
+  }));
+
+  useEffect(() => {
+    const sync = () => {
+      const canUndo = todoService.canUndo();
+      const canRedo = todoService.canRedo();
+      setState((current) =>
+        current.canUndo === canUndo && current.canRedo === canRedo ? current : { canUndo, canRedo }
+      );
+    };
+    sync();
+    return masterStore.subscribeHistory(sync);
+  }, [masterStore, todoService]);
+
+  const undo = useCallback(() => {
+    todoService.undo();
+  }, [todoService]);
+
+  const redo = useCallback(() => {
+    todoService.redo();
+  }, [todoService]);
+
+  return {
+    enabled: masterStore.isHistoryEnabled(),
+    canUndo: state.canUndo,
+    canRedo: state.canRedo,
+    undo,
+    redo,
+  };
+};
@@ -0,0 +1,63 @@
+import type { interfaces } from 'inversify';
+import { useDIContainer } from '@/providers/DIProvider';
+import type { MasterStore } from '@/store/MasterStore';
+import { TODO_TYPES } from '../config/todo.types';
+import type { ITodoService } from '../services/ITodoService';
+import type { ITodoSyncService } from '../services/ITodoSyncService';
+import type { Clock } from '../services/Clock';
+import type { TodoListScope } from '../config/todo.lists';
+
+/**
+ * Services every todo item uses, resolved once per container.
+ */
+export interface TodoItemServices {
+  todoService: ITodoService;
+  syncService: ITodoSyncService;
+  masterStore: MasterStore;
+  clock: Clock;
+  listScope: TodoListScope;
+}
+
+const resolvedServices = new WeakMap<interfaces.Container, TodoItemServices>();
+
+/**
+ * Custom hook for the services of todo items.
+ *
+ * Lists call it once and pass the result to each item, so rendering a long
+ * list does not resolve the same services from the container for every row.
+ * Items rendered on their own call it too; the services are cached per
+ * container, so they share a single lookup as well. As with `useInjection`,
+ * rebinding a service after the first item rendered has no effect.
+ *
+ * @example
+ * ```tsx
+ * const services = useTodoItemServices();
+ * return ids.map((id) => <TodoItem key={id} id={id} services={services} />);
+ * ```
+ *
+ * @param services - Services passed down by the list, returned as they are
+ * @returns Services of the nearest TodoFeatureProvider
+ * @throws Error if used outside TodoFeatureProvider without services
+ */
+export const useTodoItemServices = (services?: TodoItemServices): TodoItemServices => {
+  const container = useDIContainer();
+  if (services) {
+    return services;
+  }
+  if (!container) {
+    throw new Error('useTodoItemServices must be used within a TodoFeatureProvider');
+  }
+
+  let resolved = resolvedServices.get(container);
+  if (!resolved) {
+    resolved = {
+      todoService: container.get<ITodoService>(TODO_TYPES.TodoService),
+      syncService: container.get<ITodoSyncService>(TODO_TYPES.TodoSyncService),
+      masterStore: container.get<MasterStore>(TODO_TYPES.MasterStore),
+      clock: container.get<Clock>(TODO_TYPES.Clock),
+      listScope: container.get<TodoListScope>(TODO_TYPES.ListScope),
+    };
+    resolvedServices.set(container, resolved);
+  }
+  return resolved;
+};
@@ -0,0 +1,20 @@
+import { useDITodoListService } from '../config/todo.provider';
+import type { ITodoListService } from '../services/ITodoListService';
+
+/**
+ * Custom hook for accessing the TodoListService via dependency injection.
+ *
+ * @example
+ * ```tsx
+ * function NewListButton() {
+ *   const listService = useTodoListService();
+ *   return <button onClick={() => listService.createList('Untitled')}>New list</button>;
+ * }
+ * ```
+ *
+ * @returns TodoListService instance from the DI container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useTodoListService = (): ITodoListService => {
+  return useDITodoListService();
+};
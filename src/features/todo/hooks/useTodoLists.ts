@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIMasterStore } from '../config/todo.provider';
+import { getTodoListView } from '../config/todo.lists';
+import type { TodoListInfo } from '../types/Todo';
+
+const selectLists = (lists: TodoListInfo[]) => lists;
+
+/**
+ * Custom hook for every list, archived or not, in creation order.
+ *
+ * Reads the lists shared by all containers on the store, whichever list
+ * the provider is scoped to. Only re-renders when a list changes.
+ *
+ * @example
+ * ```tsx
+ * const lists = useTodoLists();
+ * return <ul>{lists.map((list) => <li key={list.id}>{list.name}</li>)}</ul>;
+ * ```
+ *
+ * @returns The lists
+ */
+export const useTodoLists = (): TodoListInfo[] => {
+  const masterStore = useDIMasterStore();
+  const listView = useMemo(() => getTodoListView(masterStore), [masterStore]);
+
+  return useStoreSelector(listView, selectLists);
+};
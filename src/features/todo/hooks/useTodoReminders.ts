@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useDIReminderScheduler } from '../config/todo.provider';
+import type { TodoReminder } from '../types/Todo';
+
+/**
+ * Fired reminders and the action to dismiss them.
+ */
+export interface TodoReminderControls {
+  /** Reminders that have fired and not been dismissed, oldest first */
+  reminders: readonly TodoReminder[];
+  /** Dismiss the reminder for a todo */
+  dismiss: (todoId: string) => void;
+}
+
+/**
+ * Custom hook for showing todo reminders as in-app notifications.
+ *
+ * Keeps the ReminderScheduler running while the component is mounted and
+ * re-renders whenever a reminder fires or is dismissed.
+ *
+ * @example
+ * ```tsx
+ * function ReminderCount() {
+ *   const { reminders } = useTodoReminders();
+ *   return <span>{reminders.length}</span>;
+ * }
+ * ```
+ *
+ * @returns Current reminders and a dismiss action
+ */
+export const useTodoReminders = (): TodoReminderControls => {
+  const scheduler = useDIReminderScheduler();
+
+  useEffect(() => scheduler.start(), [scheduler]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => scheduler.subscribe(() => onChange()),
+    [scheduler]
+  );
+  const reminders = useSyncExternalStore(subscribe, () => scheduler.getReminders());
+
+  const dismiss = useCallback(
+    (todoId: string) => {
+      scheduler.dismiss(todoId);
+    },
+    [scheduler]
+  );
+
+  return { reminders, dismiss };
+};
@@ -0,0 +1,57 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Position of a todo in the visible list.
+ */
+export interface TodoListPosition {
+  /** Zero-based index */
+  index: number;
+  /** Number of visible todos */
+  count: number;
+}
+
+/**
+ * Reordering actions offered by a list that can be rearranged by hand.
+ *
+ * The functions are stable for the lifetime of the list, so consuming them
+ * does not re-render todo items when the list changes.
+ */
+export interface TodoReorderControls {
+  /**
+   * Move a todo up (negative) or down (positive) in the visible list.
+   * @returns The new position, or null if the todo did not move
+   */
+  moveBy: (id: string, offset: number) => TodoListPosition | null;
+  /** Move a todo in front of another one, or to the end with null */
+  moveBefore: (id: string, beforeId: string | null) => void;
+  /** ID of the todo shown after the given one, or null for the last */
+  nextId: (id: string) => string | null;
+  /** Position of a todo in the visible list */
+  positionOf: (id: string) => TodoListPosition | null;
+  /** Mark a todo as being dragged with the mouse */
+  startDrag: (id: string) => void;
+  /** End a mouse drag */
+  endDrag: () => void;
+  /** Announce a message to screen reader users */
+  announce: (message: string) => void;
+}
+
+/**
+ * Provided by TodoList while the list is sorted manually.
+ */
+export const TodoReorderContext = createContext<TodoReorderControls | null>(null);
+
+/**
+ * Custom hook for reordering todos from inside a todo list.
+ *
+ * @example
+ * ```tsx
+ * function MoveUp({ id }: { id: string }) {
+ *   const reorder = useTodoReorder();
+ *   return reorder && <button onClick={() => reorder.moveBy(id, -1)}>Up</button>;
+ * }
+ * ```
+ *
+ * @returns The list's reordering actions, or null when the list cannot be reordered
+ */
+export const useTodoReorder = (): TodoReorderControls | null => useContext(TodoReorderContext);
@@ -0,0 +1,35 @@
+import { createContext, useContext, useMemo } from 'react';
+import { highlightSearchMatches } from '../config/todo.search';
+import type { TodoSearchRange } from '../types/Todo';
+
+const NO_HIGHLIGHTS: TodoSearchRange[] = [];
+
+/**
+ * Search query of the surrounding list, provided by TodoList.
+ * Empty when not searching.
+ */
+export const TodoSearchContext = createContext('');
+
+/**
+ * Custom hook for the parts of a todo's text matched by the search query.
+ *
+ * Reads the query from the surrounding TodoList rather than the store, so
+ * todo items do not each subscribe to the filter. Items rendered outside a
+ * TodoList are not highlighted.
+ *
+ * @example
+ * ```tsx
+ * function Title({ text }: { text: string }) {
+ *   const ranges = useTodoSearchHighlights(text);
+ *   return <span data-matches={ranges.length}>{text}</span>;
+ * }
+ * ```
+ *
+ * @param text - Text of the todo
+ * @returns Matched ranges in text order; empty when not searching
+ */
+export const useTodoSearchHighlights = (text: string): TodoSearchRange[] => {
+  const query = useContext(TodoSearchContext);
+
+  return useMemo(() => (query === '' ? NO_HIGHLIGHTS : highlightSearchMatches(text, query)), [text, query]);
+};
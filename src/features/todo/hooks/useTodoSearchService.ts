@@ -0,0 +1,20 @@
+import { useDITodoSearchService } from '../config/todo.provider';
+import type { ITodoSearchService } from '../services/ITodoSearchService';
+
+/**
+ * Custom hook for accessing the TodoSearchService via dependency injection.
+ *
+ * @example
+ * ```tsx
+ * function MatchCount({ query }: { query: string }) {
+ *   const searchService = useTodoSearchService();
+ *   return <span>{searchService.search(query).length} matches</span>;
+ * }
+ * ```
+ *
+ * @returns TodoSearchService instance from the DI container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useTodoSearchService = (): ITodoSearchService => {
+  return useDITodoSearchService();
+};
@@ -0,0 +1,44 @@
+import { useCallback, useMemo } from 'react';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import { TODOS_KEY } from '../config/todo.types';
+import { scopeTodos } from '../config/todo.lists';
+import type { Todo } from '../types/Todo';
+
+/**
+ * Custom hook for subscribing to a value derived from the todo collection.
+ *
+ * Components using this hook only re-render when the selected value changes,
+ * making it the preferred way to read todo data for components that only
+ * need part of it (counts, a single todo, the list of IDs, ...).
+ * The selector only sees the todos of the provider's list.
+ *
+ * @example
+ * ```tsx
+ * function CompletedCount() {
+ *   const completed = useTodoSelector(
+ *     (todos) => todos.filter((todo) => todo.completed).length
+ *   );
+ *   return <span>{completed}</span>;
+ * }
+ * ```
+ *
+ * @param selector - Function deriving the value of interest from the todos
+ * @param equalityFn - Decides whether two selections are equal (defaults to `Object.is`)
+ * @returns The current selection
+ */
+export const useTodoSelector = <S>(
+  selector: (todos: Todo[]) => S,
+  equalityFn?: (a: S, b: S) => boolean
+): S => {
+  const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
+
+  const todoView = useMemo(() => {
+    return masterStore.getView<Todo>(TODOS_KEY);
+  }, [masterStore]);
+
+  const scopedSelector = useCallback((todos: Todo[]) => selector(scopeTodos(todos, listId)), [selector, listId]);
+
+  return useStoreSelector(todoView, scopedSelector, equalityFn);
+};
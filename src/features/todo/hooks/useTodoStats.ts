@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { shallow } from 'zustand/shallow';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIListScope, useDIMasterStore } from '../config/todo.provider';
+import { deriveTodoViews, TODO_STATS_ID } from '../config/todo.derived';
+import type { TodoStats } from '../types/Todo';
+
+/**
+ * Custom hook for reading aggregate todo statistics.
+ *
+ * Backed by the memoized `todos.stats` derived view. The counts are compared
+ * shallowly, so editing a todo's text does not re-render the component.
+ *
+ * @example
+ * ```tsx
+ * function Summary() {
+ *   const { completed, total } = useTodoStats();
+ *   return <p>{completed} of {total} completed</p>;
+ * }
+ * ```
+ *
+ * @returns Total, completed and active counts
+ */
+export const useTodoStats = (): TodoStats => {
+  const masterStore = useDIMasterStore();
+  const { listId } = useDIListScope();
+  const { stats } = useMemo(() => deriveTodoViews(masterStore, listId), [masterStore, listId]);
+
+  return useStoreSelector(
+    stats,
+    (items) => items[0] ?? { id: TODO_STATS_ID, total: 0, completed: 0, active: 0 },
+    shallow
+  );
+};
@@ -0,0 +1,20 @@
+import { useDITodoSyncService } from '../config/todo.provider';
+import type { ITodoSyncService } from '../services/ITodoSyncService';
+
+/**
+ * Custom hook for accessing the TodoSyncService via dependency injection.
+ *
+ * @example
+ * ```tsx
+ * function RetrySync() {
+ *   const syncService = useTodoSyncService();
+ *   return <button onClick={() => syncService.retry()}>Retry</button>;
+ * }
+ * ```
+ *
+ * @returns TodoSyncService instance from the DI container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useTodoSyncService = (): ITodoSyncService => {
+  return useDITodoSyncService();
+};
@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from 'react';
+import { shallow } from 'zustand/shallow';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIMasterStore } from '../config/todo.provider';
+import { getTodoSyncView } from '../config/todo.sync';
+import type { TodoSyncState, TodoSyncStatus } from '../types/Todo';
+
+/**
+ * Custom hook for subscribing to the sync state of a single todo.
+ *
+ * Re-renders only when this todo's state changes. The state is read from
+ * the MasterStore, so it is shown whichever container's TodoSyncService
+ * is sending the todos.
+ *
+ * @example
+ * ```tsx
+ * function SyncBadge({ id }: { id: string }) {
+ *   const state = useTodoSyncState(id);
+ *   return state ? <span>{state.status}</span> : null;
+ * }
+ * ```
+ *
+ * @param id - ID of the todo
+ * @returns Its sync state, or undefined if it has never been synced
+ */
+export const useTodoSyncState = (id: string): TodoSyncState | undefined => {
+  const masterStore = useDIMasterStore();
+  const syncView = useMemo(() => getTodoSyncView(masterStore), [masterStore]);
+
+  const selectState = useCallback(() => syncView.getById(id), [syncView, id]);
+
+  return useStoreSelector(syncView, selectState);
+};
+
+/**
+ * Count the todos with each sync status.
+ */
+const countStatuses = (states: TodoSyncState[]): Record<TodoSyncStatus, number> => {
+  const counts: Record<TodoSyncStatus, number> = { pending: 0, synced: 0, failed: 0, conflict: 0 };
+  states.forEach((state) => {
+    counts[state.status]++;
+  });
+  return counts;
+};
+
+/**
+ * Custom hook for the number of todos with each sync status.
+ * Only re-renders when a count changes.
+ *
+ * @example
+ * ```tsx
+ * const { pending } = useTodoSyncCounts();
+ * return pending > 0 ? <span>{pending} changes not synced yet</span> : null;
+ * ```
+ *
+ * @returns Number of todos per status
+ */
+export const useTodoSyncCounts = (): Record<TodoSyncStatus, number> => {
+  const masterStore = useDIMasterStore();
+  const syncView = useMemo(() => getTodoSyncView(masterStore), [masterStore]);
+
+  return useStoreSelector(syncView, countStatuses, shallow);
+};
@@ -0,0 +1,20 @@
+import { useDITodoTagService } from '../config/todo.provider';
+import type { ITodoTagService } from '../services/ITodoTagService';
+
+/**
+ * Custom hook for accessing the TodoTagService via dependency injection.
+ *
+ * @example
+ * ```tsx
+ * function DeleteTag({ name }: { name: string }) {
+ *   const tagService = useTodoTagService();
+ *   return <button onClick={() => tagService.deleteTag(name)}>Delete #{name}</button>;
+ * }
+ * ```
+ *
+ * @returns TodoTagService instance from the DI container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useTodoTagService = (): ITodoTagService => {
+  return useDITodoTagService();
+};
@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { shallow } from 'zustand/shallow';
+import { useStoreSelector } from '@/store/useStoreSelector';
+import { useDIMasterStore } from '../config/todo.provider';
+import { getTodoTagView, tagColorFor } from '../config/todo.tags';
+import { useTodoSelector } from './useTodoSelector';
+import type { Todo, TodoTag } from '../types/Todo';
+
+/**
+ * A tag with the number of todos using it.
+ */
+export interface TodoTagSummary {
+  /** Tag name */
+  name: string;
+  /** Colour of the tag, as `#rrggbb` */
+  color: string;
+  /** Number of todos of the list with the tag */
+  count: number;
+}
+
+/**
+ * Count the todos using each tag.
+ */
+const countTags = (todos: Todo[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  todos.forEach((todo) => todo.tags?.forEach((tag) => {
+    counts[tag] = (counts[tag] ?? 0) + 1;
+  }));
+  return counts;
+};
+
+const selectTags = (tags: TodoTag[]) => tags;
+
+/**
+ * Custom hook for every tag, with its colour and usage count.
+ *
+ * Lists the tags in the tag metadata view in creation order, followed by
+ * tags used by todos without metadata (e.g. synced from an older version),
+ * alphabetically with their default colour. Only re-renders when the tag
+ * metadata or a count changes, not when todos are edited otherwise.
+ *
+ * @example
+ * ```tsx
+ * const tags = useTodoTags();
+ * return <>{tags.map((tag) => <span key={tag.name}>#{tag.name} ({tag.count})</span>)}</>;
+ * ```
+ *
+ * @returns Tag summaries
+ */
+export const useTodoTags = (): TodoTagSummary[] => {
+  const masterStore = useDIMasterStore();
+  const tagView = useMemo(() => getTodoTagView(masterStore), [masterStore]);
+
+  const tags = useStoreSelector(tagView, selectTags);
+  const counts = useTodoSelector(countTags, shallow);
+
+  return useMemo(() => {
+    const known = new Set(tags.map((tag) => tag.name));
+    const unknown = Object.keys(counts)
+      .filter((name) => !known.has(name))
+      .sort()
+      .map((name) => ({ name, color: tagColorFor(name), count: counts[name] }));
+    return [
+      ...tags.map(({ name, color }) => ({ name, color, count: counts[name] ?? 0 })),
+      ...unknown,
+    ];
+  }, [tags, counts]);
+};
@@ -0,0 +1,24 @@
+import { useDITodoTransferService } from '../config/todo.provider';
+import type { ITodoTransferService } from '../services/ITodoTransferService';
+
+/**
+ * Custom hook for accessing the TodoTransferService via dependency injection.
+ *
+ * @example
+ * ```tsx
+ * function CopyAsMarkdown() {
+ *   const transferService = useTodoTransferService();
+ *   return (
+ *     <button onClick={() => navigator.clipboard.writeText(transferService.exportTodos('markdown'))}>
+ *       Copy as Markdown
+ *     </button>
+ *   );
+ * }
+ * ```
+ *
+ * @returns TodoTransferService instance from the DI container
+ * @throws Error if used outside TodoFeatureProvider
+ */
+export const useTodoTransferService = (): ITodoTransferService => {
+  return useDITodoTransferService();
+};
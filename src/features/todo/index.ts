@@ -32,51 +32,272 @@ export { TodoApp } from './components/TodoApp';
 export { TodoList } from './components/TodoList';
 export { TodoItem } from './components/TodoItem';
 export { AddTodo } from './components/AddTodo';
+export { TodoHistoryControls } from './components/TodoHistoryControls';
+export { TodoFilterBar } from './components/TodoFilterBar';
+export { TodoReminders } from './components/TodoReminders';
+export { TodoDragHandle } from './components/TodoDragHandle';
+export { TodoTagChip } from './components/TodoTagChip';
+export { TodoTagFilter } from './components/TodoTagFilter';
+export { TodoSubtasks } from './components/TodoSubtasks';
+export { TodoListSidebar } from './components/TodoListSidebar';
+export { TodoWorkspace } from './components/TodoWorkspace';
+export { TodoSearch } from './components/TodoSearch';
+export { TodoTransfer } from './components/TodoTransfer';
+export { TodoSync } from './components/TodoSync';
+export { TodoConflicts } from './components/TodoConflicts';
 
 // === SERVICES ===
 // Business logic and service interfaces
 export { TodoService } from './services/TodoService';
 export type { ITodoService } from './services/ITodoService';
+export { ReminderScheduler } from './services/ReminderScheduler';
+export type { IReminderScheduler } from './services/IReminderScheduler';
+export { TodoTagService } from './services/TodoTagService';
+export type { ITodoTagService } from './services/ITodoTagService';
+export { TodoListService } from './services/TodoListService';
+export type { ITodoListService } from './services/ITodoListService';
+export { TodoSearchService } from './services/TodoSearchService';
+export type { ITodoSearchService } from './services/ITodoSearchService';
+export { TodoTransferService } from './services/TodoTransferService';
+export type { ITodoTransferService } from './services/ITodoTransferService';
+export { TodoSyncService } from './services/TodoSyncService';
+export type { ITodoSyncService } from './services/ITodoSyncService';
+export type { ITodoRepository } from './services/ITodoRepository';
+export { RestTodoRepository } from './services/RestTodoRepository';
+export type { RestTodoRepositoryOptions, TodoFetch } from './services/RestTodoRepository';
+export { TodoRepositoryError } from './services/TodoRepositoryError';
+export { browserConnectivity } from './services/Connectivity';
+export type { Connectivity } from './services/Connectivity';
+export { systemClock } from './services/Clock';
+export type { Clock } from './services/Clock';
 
 // === HOOKS ===
 // Custom React hooks for Todo functionality
 export { useTodoData } from './hooks/useTodoData';
 export { useTodoService } from './hooks/useTodoService';
+export { useTodoHistory } from './hooks/useTodoHistory';
+export { useTodoSelector } from './hooks/useTodoSelector';
+export { useTodo } from './hooks/useTodo';
+export { useTodoItemServices } from './hooks/useTodoItemServices';
+export { useActiveTodos } from './hooks/useActiveTodos';
+export { useCompletedTodos } from './hooks/useCompletedTodos';
+export { useTodoStats } from './hooks/useTodoStats';
+export { useTodoFilter } from './hooks/useTodoFilter';
+export { useFilteredTodoIds } from './hooks/useFilteredTodoIds';
+export { useTodoFilterHashSync } from './hooks/useTodoFilterHashSync';
+export { useTodoDueSections } from './hooks/useTodoDueSections';
+export { useTodoReminders } from './hooks/useTodoReminders';
+export { useTodoReorder, TodoReorderContext } from './hooks/useTodoReorder';
+export { useTodoTags } from './hooks/useTodoTags';
+export { useTodoTagService } from './hooks/useTodoTagService';
+export { useTodoLists } from './hooks/useTodoLists';
+export { useTodoListService } from './hooks/useTodoListService';
+export { useTodoSearchService } from './hooks/useTodoSearchService';
+export { useTodoSearchHighlights, TodoSearchContext } from './hooks/useTodoSearchHighlights';
+export { useTodoTransferService } from './hooks/useTodoTransferService';
+export { useTodoSyncService } from './hooks/useTodoSyncService';
+export { useTodoSyncState, useTodoSyncCounts } from './hooks/useTodoSyncState';
+export { useTodoConflicts } from './hooks/useTodoConflicts';
+export type { TodoHistory } from './hooks/useTodoHistory';
+export type { TodoItemServices } from './hooks/useTodoItemServices';
+export type { TodoFilterControls } from './hooks/useTodoFilter';
+export type { TodoDueSectionIds } from './hooks/useTodoDueSections';
+export type { TodoReminderControls } from './hooks/useTodoReminders';
+export type { TodoReorderControls, TodoListPosition } from './hooks/useTodoReorder';
+export type { TodoTagSummary } from './hooks/useTodoTags';
 
 // === TYPES ===
 // TypeScript type definitions
-export type { Todo, CreateTodoRequest } from './types/Todo';
+export type {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  TodoStats,
+  TodoFilter,
+  TodoFilterState,
+  TodoDueGroup,
+  TodoReminder,
+  TodoPriority,
+  TodoSortMode,
+  TodoTag,
+  TodoSubtask,
+  TodoRecurrence,
+  TodoRecurrenceFrequency,
+  TodoWeekday,
+  TodoListInfo,
+  TodoSearchRange,
+  TodoSearchResult,
+  TodoTransferFormat,
+  TodoDuplicatePolicy,
+  TodoImportRecord,
+  TodoImportResult,
+  TodoSyncStatus,
+  TodoSyncState,
+  TodoVersionedField,
+  TodoFieldVersions,
+  TodoMergeResult,
+  TodoConflict,
+  TodoConflictChoice
+} from './types/Todo';
 
 // === CONFIGURATION ===
 // Dependency injection and feature setup
 export { 
   TodoFeatureProvider,
   useDITodoService,
-  useDIMasterStore 
+  useDIMasterStore,
+  useDIReminderScheduler,
+  useDIClock,
+  useDITodoTagService,
+  useDITodoListService,
+  useDITodoSearchService,
+  useDITodoTransferService,
+  useDITodoSyncService,
+  useDIListScope
 } from './config/todo.provider';
 
 export { 
   configureTodoContainer,
+  createTodoChildContainer,
   createTestTodoContainer 
 } from './config/todo.container';
 
-export { TODO_TYPES } from './config/todo.types';
+export { TODO_TYPES, TODOS_KEY, TODO_FILTER_KEY, TODO_TAGS_KEY, TODO_LISTS_KEY, TODO_SYNC_KEY, TODO_CONFLICTS_KEY } from './config/todo.types';
 export type { TodoTypes } from './config/todo.types';
 
+export {
+  todoSchema,
+  todoTagSchema,
+  todoSubtaskSchema,
+  todoRecurrenceSchema,
+  todoListSchema,
+  todoSyncStateSchema,
+  todoFieldVersionsSchema,
+  todoConflictSchema,
+  TODO_TEXT_MAX_LENGTH,
+  TODO_LIST_NAME_MAX_LENGTH
+} from './config/todo.schema';
+
+export { deriveTodoViews, todoDerivedKeys, TODO_DERIVED_KEYS, TODO_STATS_ID } from './config/todo.derived';
+export type { TodoDerivedViews } from './config/todo.derived';
+
+export {
+  TODO_FILTERS,
+  TODO_FILTER_ID,
+  DEFAULT_TODO_FILTER,
+  matchesTodoFilter,
+  todoFilterHash,
+  todoFilterFromHash,
+  getTodoFilterView,
+  getTodoFilter,
+  setTodoFilter,
+  setTodoGroupByDue,
+  getTodoSort,
+  setTodoSort,
+  getTodoTag,
+  setTodoTag,
+  getTodoQuery,
+  setTodoQuery
+} from './config/todo.filters';
+
+export {
+  TODO_DUE_GROUPS,
+  TODO_DUE_GROUP_LABELS,
+  isTodoOverdue,
+  todoDueGroupOf,
+  compareTodosByDue,
+  groupTodosByDue,
+  toDateTimeInputValue,
+  fromDateTimeInputValue,
+  formatTodoDate
+} from './config/todo.due';
+export type { TodoDueSection } from './config/todo.due';
+
+export {
+  DEFAULT_TODO_SORT,
+  TODO_SORT_MODES,
+  TODO_SORT_LABELS,
+  TODO_PRIORITIES,
+  TODO_PRIORITY_LABELS,
+  compareTodosByOrder,
+  compareTodosByPriority,
+  compareTodosByCreated,
+  todoComparator,
+  sortTodos
+} from './config/todo.sort';
+
+export {
+  TODO_TAG_NAME_PATTERN,
+  TODO_TAG_COLOR_PATTERN,
+  TODO_TAG_COLORS,
+  normalizeTagName,
+  normalizeTagNames,
+  parseTodoTags,
+  formatTodoTags,
+  matchesTodoTag,
+  tagColorFor,
+  getTodoTagView
+} from './config/todo.tags';
+
+export { DEFAULT_TODO_SUBTASK_OPTIONS, subtaskProgress } from './config/todo.subtasks';
+export type { TodoSubtaskOptions, TodoSubtaskProgress } from './config/todo.subtasks';
+
+export {
+  TODO_RECURRENCE_FREQUENCIES,
+  TODO_RECURRENCE_FREQUENCY_LABELS,
+  nextOccurrence,
+  describeRecurrence
+} from './config/todo.recurrence';
+export type { TodoOccurrence } from './config/todo.recurrence';
+
+export { DEFAULT_TODO_LIST_NAME, belongsToList, scopeTodos, getTodoListView } from './config/todo.lists';
+export type { TodoListScope } from './config/todo.lists';
+
+export {
+  TODO_SEARCH_FIELD_WEIGHTS,
+  normalizeSearchTerm,
+  tokenizeSearchText,
+  parseSearchQuery,
+  hasSearchTerms,
+  maxSearchTypos,
+  searchEditDistance,
+  matchSearchTerm,
+  highlightSearchMatches
+} from './config/todo.search';
+export type { TodoSearchToken, TodoSearchField } from './config/todo.search';
+
+export {
+  TODO_TRANSFER_FORMATS,
+  TODO_TRANSFER_FORMAT_INFO,
+  TODO_JSON_FORMAT,
+  TODO_JSON_VERSION,
+  TODO_CSV_COLUMNS,
+  TodoImportError,
+  serializeTodos,
+  parseTodos,
+  transferFormatOfFile
+} from './config/transfer';
+export type { TodoTransferFormatInfo, TodoJsonExport } from './config/transfer';
+
+export {
+  DEFAULT_TODO_SYNC_OPTIONS,
+  TODO_SYNC_STATUS_LABELS,
+  syncRetryDelay,
+  getTodoSyncView
+} from './config/todo.sync';
+export type { TodoSyncOptions } from './config/todo.sync';
+
+export {
+  TODO_VERSIONED_FIELDS,
+  TODO_VERSIONED_FIELD_LABELS,
+  compareTodoVersions,
+  sameFieldValue,
+  maxTodoClock,
+  stampTodoVersions,
+  mergeTodos,
+  resolveTodoConflict,
+  getTodoConflictView
+} from './config/todo.versions';
+
 // === FEATURE METADATA ===
-/**
- * Feature metadata for tooling and documentation.
- */
-export const TODO_FEATURE_INFO = {
-  name: 'todo',
-  version: '1.0.0',
-  description: 'Complete Todo management feature with components, services, and DI configuration',
-  dependencies: [
-    'react',
-    'inversify', 
-    'immer'
-  ],
-  peerDependencies: [
-    '@/store/MasterStore' // Will become peer dependency in npm package
-  ]
-} as const;
+export { TODO_FEATURE_INFO, todoContainerModule } from './config/todo.module';
@@ -0,0 +1,28 @@
+/**
+ * Source of the current time and timers.
+ *
+ * Injected (under `TODO_TYPES.Clock`) wherever the Todo feature depends on
+ * time, so tests can control it - either with Jest fake timers, which the
+ * default `systemClock` follows, or with a hand-written clock.
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /**
+   * Run a callback after a delay.
+   * @returns Handle for `clearTimeout`
+   */
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  /** Cancel a callback scheduled with `setTimeout` */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by `Date.now` and the global timer functions.
+ * Looks them up on every call so Jest fake timers installed later still apply.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
@@ -0,0 +1,38 @@
+/**
+ * Source of the network connection state.
+ *
+ * Injected (under `TODO_TYPES.Connectivity`) into TodoSyncService, which
+ * holds changes back while offline and sends them on reconnecting, so
+ * tests can go offline without touching the browser.
+ */
+export interface Connectivity {
+  /** Whether the device has a network connection */
+  isOnline(): boolean;
+  /**
+   * Follow changes to the connection state.
+   * @param listener - Called with the new state
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * Connectivity backed by `navigator.onLine` and the window's `online` and
+ * `offline` events. Always online where there is no browser.
+ */
+export const browserConnectivity: Connectivity = {
+  isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false,
+  subscribe: (listener) => {
+    if (typeof window === 'undefined') {
+      return () => undefined;
+    }
+    const online = () => listener(true);
+    const offline = () => listener(false);
+    window.addEventListener('online', online);
+    window.addEventListener('offline', offline);
+    return () => {
+      window.removeEventListener('online', online);
+      window.removeEventListener('offline', offline);
+    };
+  },
+};
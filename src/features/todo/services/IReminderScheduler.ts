@@ -0,0 +1,49 @@
+import type { TodoReminder } from '../types/Todo';
+
+/**
+ * Service that watches todo reminder times and raises in-app notifications.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = container.get<IReminderScheduler>(TODO_TYPES.ReminderScheduler);
+ * const release = scheduler.start();
+ * scheduler.subscribe((reminders) => console.log(reminders.map((r) => r.text)));
+ *
+ * // Later, when the reminders are no longer shown
+ * release();
+ * ```
+ */
+export interface IReminderScheduler {
+  /**
+   * Start watching reminders. Reminders whose time has already passed fire
+   * immediately.
+   * @returns Function releasing this start; the scheduler stops once every
+   * caller has released it
+   */
+  start(): () => void;
+
+  /**
+   * Check whether the scheduler is running.
+   */
+  isRunning(): boolean;
+
+  /**
+   * Reminders that have fired and not been dismissed, oldest first.
+   * The array is replaced, never mutated, when reminders change.
+   */
+  getReminders(): readonly TodoReminder[];
+
+  /**
+   * Dismiss a reminder. This removes the reminder time from the todo, so it
+   * does not fire again (also after a reload or in another tab).
+   * @param todoId - ID of the todo the reminder is for
+   */
+  dismiss(todoId: string): void;
+
+  /**
+   * Subscribe to changes of the fired reminders.
+   * @param listener - Called with the new reminders
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (reminders: readonly TodoReminder[]) => void): () => void;
+}
@@ -0,0 +1,59 @@
+import type { TodoListInfo } from '../types/Todo';
+
+/**
+ * Service interface for managing todo lists (projects).
+ *
+ * Lists are shared by every container on a MasterStore, whichever list the
+ * container is scoped to.
+ *
+ * @example
+ * ```typescript
+ * const listService = useTodoListService();
+ *
+ * const work = listService.createList('Work');
+ * listService.renameList(work.id, 'Office');
+ * listService.setListArchived(work.id, true);
+ * ```
+ */
+export interface ITodoListService {
+  /**
+   * Retrieve every list, archived or not, in creation order.
+   */
+  getLists(): TodoListInfo[];
+
+  /**
+   * Look up a list by ID.
+   * @param id - ID of the list
+   */
+  getList(id: string): TodoListInfo | undefined;
+
+  /**
+   * Create a list.
+   * @param name - Name of the list; trimmed
+   * @returns The created list
+   * @throws ValidationError if the name is empty or too long
+   */
+  createList(name: string): TodoListInfo;
+
+  /**
+   * Rename a list.
+   * @param id - ID of the list
+   * @param name - New name; trimmed
+   * @throws ValidationError if the name is empty or too long
+   */
+  renameList(id: string, name: string): void;
+
+  /**
+   * Archive a list or bring it back. Archiving keeps the list's todos.
+   * @param id - ID of the list
+   * @param archived - Whether the list is archived
+   */
+  setListArchived(id: string, archived: boolean): void;
+
+  /**
+   * Delete a list together with its todos and filter selection.
+   * @param id - ID of the list
+   * @returns Number of todos removed
+   */
+  deleteList(id: string): number;
+}
@@ -0,0 +1,53 @@
+import type { Todo } from '../types/Todo';
+
+/**
+ * Remote storage the todos are synced with.
+ *
+ * Bind an implementation under `TODO_TYPES.TodoRepository` to turn sync on;
+ * TodoSyncService then sends every local change to it. IDs are made by the
+ * client, so creating a todo that the repository already has may fail
+ * with a conflict.
+ *
+ * @example
+ * ```typescript
+ * const container = configureTodoContainer(masterStore);
+ * container.bind(TODO_TYPES.RestRepositoryOptions).toConstantValue({ baseUrl: 'https://example.com/api' });
+ * container.bind(TODO_TYPES.TodoRepository).to(RestTodoRepository).inSingletonScope();
+ * ```
+ */
+export interface ITodoRepository {
+  /**
+   * Load every todo.
+   * @throws TodoRepositoryError if the todos cannot be loaded
+   */
+  list(): Promise<Todo[]>;
+
+  /**
+   * Load a single todo.
+   * @param id - ID of the todo
+   * @returns The todo, or undefined if there is none with the ID
+   * @throws TodoRepositoryError if the todo cannot be loaded
+   */
+  get(id: string): Promise<Todo | undefined>;
+
+  /**
+   * Store a new todo.
+   * @param todo - Todo with the ID made by the client
+   * @throws TodoRepositoryError with status 409 if a todo with the ID exists
+   */
+  create(todo: Todo): Promise<void>;
+
+  /**
+   * Replace a stored todo.
+   * @param todo - New version of the todo
+   * @throws TodoRepositoryError if the todo cannot be stored
+   */
+  update(todo: Todo): Promise<void>;
+
+  /**
+   * Remove a todo. Removing a todo that does not exist succeeds.
+   * @param id - ID of the todo
+   * @throws TodoRepositoryError if the todo cannot be removed
+   */
+  remove(id: string): Promise<void>;
+}
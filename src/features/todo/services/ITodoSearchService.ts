@@ -0,0 +1,38 @@
+import type { TodoSearchResult } from '../types/Todo';
+
+/**
+ * Service for full-text search across todos.
+ *
+ * Searches the text, tags and subtasks of the todos of the container's
+ * list. Words match exactly, by prefix or with a typo or two, and results
+ * are ranked by how well they match.
+ *
+ * @example
+ * ```typescript
+ * const searchService = container.get<ITodoSearchService>(TODO_TYPES.TodoSearchService);
+ * const release = searchService.start();
+ *
+ * searchService.search('rep').map((result) => result.todo.text);
+ * // ['Write report', 'Repaint fence']
+ *
+ * // Later, when nothing searches anymore
+ * release();
+ * ```
+ */
+export interface ITodoSearchService {
+  /**
+   * Keep the search index in step with the todos as they change, rather
+   * than catching up on the next search.
+   * @returns Function releasing this start; the index stops following the
+   * todos once every caller has released it
+   */
+  start(): () => void;
+
+  /**
+   * Find the todos matching every word of a query, best match first.
+   * Equally good matches keep their order in the store.
+   * @param query - Query as typed
+   * @returns Matching todos; none for an empty query
+   */
+  search(query: string): TodoSearchResult[];
+}
@@ -1,4 +1,4 @@
-import { Todo, CreateTodoRequest } from '../types/Todo';
+import { Todo, CreateTodoRequest, UpdateTodoRequest, TodoSubtask } from '../types/Todo';
 
 /**
  * Service interface for todo operations.
@@ -33,20 +33,108 @@ export interface ITodoService {
 
   /**
    * Create and add a new todo item.
-   * @param request - Todo creation request with text content
+   * New tags get metadata in the same write.
+   * @param request - Todo creation request with text content and optional due/reminder dates, priority and tags
    * @returns The created todo with generated ID and metadata
+   * @throws ValidationError if the request produces an invalid todo; nothing is stored
    */
   addTodo(request: CreateTodoRequest): Todo;
 
+  /**
+   * Change fields of an existing todo item.
+   * Text is trimmed; tags are normalized and new ones get metadata; fields
+   * passed as undefined (or an empty tag list) are cleared; unknown IDs are ignored.
+   * @param id - Unique identifier of the todo to update
+   * @param patch - Fields to change
+   * @throws ValidationError if the result is an invalid todo (e.g. empty text); nothing is stored
+   */
+  updateTodo(id: string, patch: UpdateTodoRequest): void;
+
   /**
    * Toggle the completion status of a todo item.
+   * Completing a recurring todo adds its next occurrence, unless the series
+   * has ended.
    * @param id - Unique identifier of the todo to toggle
+   * @returns The next occurrence, if one was added
+   */
+  toggleTodo(id: string): Todo | undefined;
+
+  /**
+   * Move a todo to another position in the manually arranged list.
+   * Only the moved todo is rewritten; every other todo keeps its object.
+   * Unknown IDs are ignored.
+   * @param id - Unique identifier of the todo to move
+   * @param beforeId - ID of the todo to place it in front of, or null to move it to the end
+   */
+  moveTodo(id: string, beforeId: string | null): void;
+
+  /**
+   * Add a checklist item to the end of a todo's subtasks.
+   * With `autoCompleteParent`, adding to a completed todo reopens it.
+   * @param todoId - Unique identifier of the todo
+   * @param text - Text of the subtask; trimmed
+   * @returns The created subtask, or undefined if the todo does not exist
+   * @throws ValidationError if the text is empty or too long; nothing is stored
    */
-  toggleTodo(id: string): void;
+  addSubtask(todoId: string, text: string): TodoSubtask | undefined;
+
+  /**
+   * Toggle the completion status of a subtask.
+   * With `autoCompleteParent`, finishing the last open subtask completes the
+   * todo and reopening a subtask reopens it.
+   * @param todoId - Unique identifier of the todo
+   * @param subtaskId - Unique identifier of the subtask within the todo
+   */
+  toggleSubtask(todoId: string, subtaskId: string): void;
+
+  /**
+   * Remove a subtask. With `autoCompleteParent`, removing the last open
+   * subtask completes the todo.
+   * @param todoId - Unique identifier of the todo
+   * @param subtaskId - Unique identifier of the subtask within the todo
+   */
+  removeSubtask(todoId: string, subtaskId: string): void;
+
+  /**
+   * Move a subtask to another position in its todo's checklist.
+   * @param todoId - Unique identifier of the todo
+   * @param subtaskId - Unique identifier of the subtask within the todo
+   * @param toIndex - New zero-based position; clamped to the checklist
+   */
+  moveSubtask(todoId: string, subtaskId: string, toIndex: number): void;
 
   /**
    * Remove a todo item from the data store.
    * @param id - Unique identifier of the todo to remove
    */
   removeTodo(id: string): void;
+
+  /**
+   * Remove every completed todo in a single store update.
+   * @returns Number of todos removed
+   */
+  clearCompleted(): number;
+
+  /**
+   * Revert the most recent change to the todos.
+   * Does nothing unless history is enabled on the MasterStore.
+   * @returns True if a change was undone
+   */
+  undo(): boolean;
+
+  /**
+   * Re-apply the most recently undone change to the todos.
+   * @returns True if a change was redone
+   */
+  redo(): boolean;
+
+  /**
+   * Check whether there is a todo change that can be undone.
+   */
+  canUndo(): boolean;
+
+  /**
+   * Check whether there is an undone todo change that can be redone.
+   */
+  canRedo(): boolean;
 }
@@ -0,0 +1,77 @@
+import type { TodoConflictChoice, TodoSyncState } from '../types/Todo';
+
+/**
+ * Service keeping the todos in step with a remote ITodoRepository.
+ *
+ * Changes are optimistic: they land in the MasterStore straight away and
+ * are sent to the repository afterwards, one at a time and in order. While
+ * offline they wait in a queue - the todos marked `pending` - which is
+ * replayed on reconnecting. Changes that fail are retried with exponential
+ * backoff; if the server rejects a change or it keeps failing, its todo is
+ * marked `failed` until it changes again or is retried.
+ *
+ * Todos changed both locally and remotely are merged field by field.
+ * Changes to the same field that cannot be merged are kept as a conflict
+ * (a TodoConflict under `TODO_CONFLICTS_KEY`) until one side is chosen.
+ *
+ * Syncs the todos of every list. Sync is off, and the service does
+ * nothing, unless an ITodoRepository is bound under `TODO_TYPES.TodoRepository`.
+ *
+ * @example
+ * ```typescript
+ * const syncService = container.get<ITodoSyncService>(TODO_TYPES.TodoSyncService);
+ * const stop = syncService.start();
+ * await syncService.pull();
+ *
+ * todoService.addTodo({ text: 'Buy milk' }); // Shown at once, then sent to the server
+ * ```
+ */
+export interface ITodoSyncService {
+  /**
+   * Check whether a repository is bound, so that starting the service syncs.
+   */
+  isEnabled(): boolean;
+
+  /**
+   * Send local changes to the repository as they are made, starting with
+   * changes left unsent, e.g. from before a reload. Todos that have never
+   * been synced are sent as well.
+   * @returns Function releasing this start; sending stops once every caller has released it
+   */
+  start(): () => void;
+
+  /**
+   * Load the todos from the repository into the store. Todos with unsent
+   * changes are merged with the repository's version, keeping the local
+   * changes; synced todos the repository no longer has are removed.
+   * @throws TodoRepositoryError if the todos cannot be loaded
+   */
+  pull(): Promise<void>;
+
+  /**
+   * Send failed changes again.
+   * @param id - ID of the todo to retry; every failed todo when omitted
+   */
+  retry(id?: string): void;
+
+  /**
+   * Resolve the conflict of a todo by choosing the local or remote values
+   * of the conflicting fields, then send the result.
+   * @param id - ID of the todo
+   * @param choice - Side whose values to keep
+   */
+  resolveConflict(id: string, choice: TodoConflictChoice): void;
+
+  /**
+   * Wait until every change that can be sent now has been sent. Changes
+   * waiting to be retried or for the connection to return are not waited for.
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Look up the sync state of a todo.
+   * @param id - ID of the todo
+   * @returns Its state, or undefined if it has never been synced
+   */
+  getSyncState(id: string): TodoSyncState | undefined;
+}
@@ -0,0 +1,66 @@
+import type { TodoTag } from '../types/Todo';
+
+/**
+ * Service interface for managing todo tags.
+ *
+ * Todos refer to tags by name; this service keeps the tag metadata
+ * (name, colour) and the tags on every todo in step.
+ *
+ * @example
+ * ```typescript
+ * const tagService = useTodoTagService();
+ *
+ * tagService.renameTag('errands', 'shopping');
+ * tagService.mergeTags(['home', 'house'], 'home');
+ * ```
+ */
+export interface ITodoTagService {
+  /**
+   * Retrieve the metadata of every tag, in creation order.
+   */
+  getTags(): TodoTag[];
+
+  /**
+   * Look up a tag by name.
+   * @param name - Tag name, with or without `#`
+   */
+  getTag(name: string): TodoTag | undefined;
+
+  /**
+   * Create metadata for tags that do not have any yet.
+   * @param names - Tag names, with or without `#`
+   */
+  ensureTags(names: readonly string[]): void;
+
+  /**
+   * Change the colour of a tag, creating its metadata if needed.
+   * @param name - Tag name
+   * @param color - Colour as `#rrggbb`
+   * @throws ValidationError if the colour is invalid
+   */
+  setTagColor(name: string, color: string): void;
+
+  /**
+   * Rename a tag on every todo. Renaming to the name of another tag merges
+   * the two.
+   * @param from - Current tag name
+   * @param to - New tag name, with or without `#`
+   * @throws ValidationError if the new name is invalid; nothing is changed
+   */
+  renameTag(from: string, to: string): void;
+
+  /**
+   * Replace several tags with one on every todo. The merged tags' metadata
+   * is removed; the target keeps or receives its own.
+   * @param sources - Tags to merge away
+   * @param target - Tag they become, with or without `#`
+   * @throws ValidationError if the target name is invalid; nothing is changed
+   */
+  mergeTags(sources: readonly string[], target: string): void;
+
+  /**
+   * Remove a tag from every todo and delete its metadata.
+   * @param name - Tag name
+   */
+  deleteTag(name: string): void;
+}
@@ -0,0 +1,41 @@
+import type { TodoDuplicatePolicy, TodoImportResult, TodoTransferFormat } from '../types/Todo';
+
+/**
+ * Service for exporting todos to files and importing them back.
+ *
+ * Works on the todos of the container's list: exports contain them in
+ * their manual order and imported todos are added to the end of the list.
+ *
+ * @example
+ * ```typescript
+ * const transferService = container.get<ITodoTransferService>(TODO_TYPES.TodoTransferService);
+ *
+ * const csv = transferService.exportTodos('csv');
+ * transferService.importTodos(csv, 'csv', 'merge');
+ * // { added: 0, updated: 3, skipped: 0 }
+ * ```
+ */
+export interface ITodoTransferService {
+  /**
+   * Write the todos of the list in a file format.
+   * @param format - Format to write
+   * @returns Contents of the file
+   */
+  exportTodos(format: TodoTransferFormat): string;
+
+  /**
+   * Add the todos of a file to the list, in one undoable step.
+   *
+   * Todos whose ID already exists are handled according to `duplicates`;
+   * merged and replaced todos stay in their list and position. Tags get
+   * metadata if they are new.
+   *
+   * @param text - Contents of the file
+   * @param format - Format of the file
+   * @param duplicates - What to do with todos that already exist; skipped by default
+   * @returns How many todos were added, updated and skipped
+   * @throws TodoImportError if the file cannot be read; nothing is imported
+   * @throws ValidationError if an imported todo does not match the todo schema; nothing is imported
+   */
+  importTodos(text: string, format: TodoTransferFormat, duplicates?: TodoDuplicatePolicy): TodoImportResult;
+}
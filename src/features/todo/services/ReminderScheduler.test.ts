@@ -0,0 +1,161 @@
+import { configureTodoContainer, TODO_TYPES } from '../index';
+import type { Clock, IReminderScheduler, ITodoService, TodoReminder } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2024-03-04T09:00:00').getTime();
+
+describe('ReminderScheduler', () => {
+  let todoService: ITodoService;
+  let scheduler: IReminderScheduler;
+  let release: () => void;
+
+  const at = (minutes: number) => new Date(START + minutes * MINUTE);
+  const texts = (reminders: readonly TodoReminder[]) => reminders.map((reminder) => reminder.text);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    const container = configureTodoContainer(new MasterStore());
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    scheduler = container.get<IReminderScheduler>(TODO_TYPES.ReminderScheduler);
+    release = scheduler.start();
+  });
+
+  afterEach(() => {
+    release();
+    jest.useRealTimers();
+  });
+
+  describe('Firing', () => {
+    test('fires when the reminder time is reached', () => {
+      todoService.addTodo({ text: 'Call Alex', remindAt: at(10) });
+
+      jest.advanceTimersByTime(10 * MINUTE - 1);
+      expect(scheduler.getReminders()).toEqual([]);
+
+      jest.advanceTimersByTime(1);
+      expect(scheduler.getReminders()).toEqual([
+        expect.objectContaining({ text: 'Call Alex', remindAt: at(10) }),
+      ]);
+    });
+
+    test('fires reminders in time order and notifies subscribers', () => {
+      const listener = jest.fn();
+      scheduler.subscribe(listener);
+      todoService.addTodo({ text: 'Second', remindAt: at(20) });
+      todoService.addTodo({ text: 'First', remindAt: at(5) });
+
+      jest.advanceTimersByTime(30 * MINUTE);
+
+      expect(texts(scheduler.getReminders())).toEqual(['First', 'Second']);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    test('reminders in the past fire immediately', () => {
+      todoService.addTodo({ text: 'Missed', remindAt: at(-60) });
+      expect(texts(scheduler.getReminders())).toEqual(['Missed']);
+    });
+
+    test('each reminder time fires once', () => {
+      todoService.addTodo({ text: 'Once', remindAt: at(1) });
+      jest.advanceTimersByTime(MINUTE);
+      const reminders = scheduler.getReminders();
+
+      todoService.addTodo({ text: 'Unrelated' });
+      jest.advanceTimersByTime(60 * MINUTE);
+
+      expect(scheduler.getReminders()).toBe(reminders);
+    });
+
+    test('reminders weeks away are reached despite timer limits', () => {
+      todoService.addTodo({ text: 'Renew passport', remindAt: at(60 * 24 * 40) });
+
+      jest.advanceTimersByTime(60 * 24 * 40 * MINUTE);
+
+      expect(texts(scheduler.getReminders())).toEqual(['Renew passport']);
+    });
+  });
+
+  describe('Rescheduling', () => {
+    test('moving a reminder reschedules it', () => {
+      const todo = todoService.addTodo({ text: 'Moved', remindAt: at(5) });
+      todoService.updateTodo(todo.id, { remindAt: at(15) });
+
+      jest.advanceTimersByTime(10 * MINUTE);
+      expect(scheduler.getReminders()).toEqual([]);
+
+      jest.advanceTimersByTime(5 * MINUTE);
+      expect(texts(scheduler.getReminders())).toEqual(['Moved']);
+    });
+
+    test('completing or removing a todo withdraws its reminder', () => {
+      const done = todoService.addTodo({ text: 'Done', remindAt: at(1) });
+      const removed = todoService.addTodo({ text: 'Removed', remindAt: at(1) });
+      jest.advanceTimersByTime(MINUTE);
+      expect(scheduler.getReminders()).toHaveLength(2);
+
+      todoService.toggleTodo(done.id);
+      todoService.removeTodo(removed.id);
+
+      expect(scheduler.getReminders()).toEqual([]);
+    });
+
+    test('completed todos do not fire', () => {
+      const todo = todoService.addTodo({ text: 'Already done', remindAt: at(1) });
+      todoService.toggleTodo(todo.id);
+
+      jest.advanceTimersByTime(MINUTE);
+
+      expect(scheduler.getReminders()).toEqual([]);
+    });
+  });
+
+  describe('Dismissing', () => {
+    test('dismissing clears the reminder from the todo', () => {
+      const todo = todoService.addTodo({ text: 'Dismissed', remindAt: at(1) });
+      jest.advanceTimersByTime(MINUTE);
+
+      scheduler.dismiss(todo.id);
+
+      expect(scheduler.getReminders()).toEqual([]);
+      expect(todoService.getAllTodos()[0]).not.toHaveProperty('remindAt');
+    });
+  });
+
+  describe('Lifecycle', () => {
+    test('stops once every start has been released', () => {
+      const second = scheduler.start();
+      release();
+      expect(scheduler.isRunning()).toBe(true);
+
+      second();
+      release = () => {};
+      expect(scheduler.isRunning()).toBe(false);
+
+      todoService.addTodo({ text: 'Ignored', remindAt: at(1) });
+      jest.advanceTimersByTime(MINUTE);
+      expect(scheduler.getReminders()).toEqual([]);
+    });
+
+    test('uses the Clock bound in the container', () => {
+      let now = START;
+      const timers: Array<() => void> = [];
+      const manualClock: Clock = {
+        now: () => now,
+        setTimeout: (callback) => timers.push(callback),
+        clearTimeout: () => {},
+      };
+      const container = configureTodoContainer(new MasterStore());
+      container.rebind<Clock>(TODO_TYPES.Clock).toConstantValue(manualClock);
+      const manualScheduler = container.get<IReminderScheduler>(TODO_TYPES.ReminderScheduler);
+      const stop = manualScheduler.start();
+
+      container.get<ITodoService>(TODO_TYPES.TodoService).addTodo({ text: 'Manual', remindAt: at(5) });
+      now = at(5).getTime();
+      timers[timers.length - 1]();
+
+      expect(texts(manualScheduler.getReminders())).toEqual(['Manual']);
+      stop();
+    });
+  });
+});
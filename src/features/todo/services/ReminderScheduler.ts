@@ -0,0 +1,168 @@
+import { injectable, inject } from 'inversify';
+import type { StoreView } from '@/store/MasterStore';
+import { TODO_TYPES } from '../config/todo.types';
+import { belongsToList } from '../config/todo.lists';
+import type { TodoListScope } from '../config/todo.lists';
+import type { Todo, TodoReminder } from '../types/Todo';
+import type { Clock } from './Clock';
+import type { IReminderScheduler } from './IReminderScheduler';
+
+/**
+ * Longest delay passed to a single timer. Browsers overflow above 2^31-1 ms
+ * (about 24.8 days), so reminders further away are reached in steps.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const NO_REMINDERS: readonly TodoReminder[] = Object.freeze([]);
+
+/**
+ * Fires in-app notifications when todo reminder times are reached.
+ *
+ * Keeps a single timer for the earliest pending reminder and reschedules it
+ * whenever the todos change, so adding, editing, completing or removing a
+ * todo is reflected immediately. A reminder fires once per reminder time:
+ * moving `remindAt` schedules it again, while completing or removing the
+ * todo withdraws its notification.
+ *
+ * All time handling goes through the injected Clock. Only todos of the
+ * injected list raise reminders, so each list shown has its own.
+ */
+@injectable()
+export class ReminderScheduler implements IReminderScheduler {
+  private reminders = NO_REMINDERS;
+  /** Reminder time (ms) that has already fired, by todo ID */
+  private fired = new Map<string, number>();
+  private listeners = new Set<(reminders: readonly TodoReminder[]) => void>();
+  private starts = 0;
+  private timer: unknown = null;
+  private unsubscribeTodos: (() => void) | null = null;
+
+  /**
+   * Initialize ReminderScheduler with injected dependencies.
+   * @param todoView - Injected StoreView holding the todos
+   * @param clock - Injected time source
+   * @param scope - Injected list whose reminders to fire
+   */
+  constructor(
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.Clock) private clock: Clock,
+    @inject(TODO_TYPES.ListScope) private scope: TodoListScope
+  ) {}
+
+  start(): () => void {
+    this.starts++;
+    if (this.starts === 1) {
+      this.unsubscribeTodos = this.todoView.subscribe(() => this.check());
+      this.check();
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.starts--;
+      if (this.starts === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  isRunning(): boolean {
+    return this.starts > 0;
+  }
+
+  getReminders(): readonly TodoReminder[] {
+    return this.reminders;
+  }
+
+  dismiss(todoId: string): void {
+    const todo = this.todoView.getById(todoId);
+    if (todo?.remindAt) {
+      // Triggers check(), which withdraws the notification
+      this.todoView.updateItem(todoId, (draft) => {
+        delete draft.remindAt;
+      });
+    }
+    this.setReminders(this.reminders.filter((reminder) => reminder.id !== todoId));
+  }
+
+  subscribe(listener: (reminders: readonly TodoReminder[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private stop(): void {
+    this.unsubscribeTodos?.();
+    this.unsubscribeTodos = null;
+    this.clearTimer();
+  }
+
+  /**
+   * Fire every reminder whose time has come and schedule the next one.
+   */
+  private check(): void {
+    this.clearTimer();
+    const now = this.clock.now();
+    const todos = this.todoView.getItems();
+    /** Reminder time (ms) of every open todo that has one */
+    const pending = new Map<string, number>();
+    let next = Infinity;
+
+    const fired: TodoReminder[] = [];
+    todos.forEach((todo) => {
+      if (!todo.remindAt || todo.completed || !belongsToList(todo, this.scope.listId)) {
+        return;
+      }
+      const remindAt = todo.remindAt.getTime();
+      pending.set(todo.id, remindAt);
+      if (this.fired.get(todo.id) === remindAt) {
+        return;
+      }
+      if (remindAt <= now) {
+        this.fired.set(todo.id, remindAt);
+        fired.push({ id: todo.id, text: todo.text, remindAt: todo.remindAt, dueAt: todo.dueAt });
+      } else {
+        next = Math.min(next, remindAt);
+      }
+    });
+
+    // Forget reminders that were removed, moved or whose todo is done
+    this.fired.forEach((remindAt, id) => {
+      if (pending.get(id) !== remindAt) {
+        this.fired.delete(id);
+      }
+    });
+
+    // Withdraw notifications whose todo was completed, removed or given another reminder time
+    const kept = this.reminders.filter(
+      (reminder) => pending.get(reminder.id) === reminder.remindAt.getTime()
+    );
+    this.setReminders([...kept, ...fired]);
+
+    if (next !== Infinity) {
+      this.timer = this.clock.setTimeout(() => {
+        this.timer = null;
+        this.check();
+      }, Math.min(next - now, MAX_TIMER_DELAY));
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setReminders(reminders: TodoReminder[]): void {
+    if (reminders.length === this.reminders.length && reminders.every((r, i) => r === this.reminders[i])) {
+      return;
+    }
+    this.reminders = reminders.length === 0 ? NO_REMINDERS : Object.freeze(reminders);
+    this.listeners.forEach((listener) => listener(this.reminders));
+  }
+}
@@ -0,0 +1,63 @@
+import { RestTodoRepository, TodoRepositoryError } from '../index';
+import type { Todo } from '../index';
+import { FakeTodoServer } from '@/test/fakeTodoServer';
+
+describe('RestTodoRepository', () => {
+  let server: FakeTodoServer;
+  let repository: RestTodoRepository;
+
+  const todo: Todo = {
+    id: 'milk',
+    text: 'Buy milk',
+    completed: false,
+    createdAt: new Date('2024-05-01T10:00:00Z'),
+    dueAt: new Date('2024-05-02T18:00:00Z'),
+    tags: ['shopping'],
+  };
+
+  beforeEach(() => {
+    server = new FakeTodoServer();
+    repository = new RestTodoRepository({ baseUrl: `${server.baseUrl}/`, fetch: server.fetch });
+  });
+
+  test('round-trips todos, reviving dates and dropping unknown fields', async () => {
+    await repository.create(todo);
+    server.seed({ ...server.get('milk'), etag: 'abc' });
+
+    const [loaded] = await repository.list();
+
+    expect(loaded).toEqual(todo);
+    expect(loaded.dueAt).toBeInstanceOf(Date);
+  });
+
+  test('sends JSON with the configured headers', async () => {
+    const fetch = jest.fn(server.fetch);
+    repository = new RestTodoRepository({ baseUrl: server.baseUrl, fetch, headers: { Authorization: 'Bearer token' } });
+
+    await repository.update(todo);
+
+    expect(fetch).toHaveBeenCalledWith(`${server.baseUrl}/todos/milk`, {
+      method: 'PUT',
+      headers: { Accept: 'application/json', Authorization: 'Bearer token', 'Content-Type': 'application/json' },
+      body: JSON.stringify(todo),
+    });
+  });
+
+  test('removing a todo the server does not have succeeds', async () => {
+    await expect(repository.remove('missing')).resolves.toBeUndefined();
+  });
+
+  test('errors tell whether retrying may help', async () => {
+    await repository.create(todo);
+    const conflict = await repository.create(todo).catch((error: unknown) => error);
+    server.failNext(1, 503);
+    const unavailable = await repository.list().catch((error: unknown) => error);
+    server.online = false;
+    const offline = await repository.list().catch((error: unknown) => error);
+
+    expect(conflict).toEqual(expect.objectContaining({ status: 409, retryable: false }));
+    expect(unavailable).toEqual(expect.objectContaining({ status: 503, retryable: true }));
+    expect(offline).toBeInstanceOf(TodoRepositoryError);
+    expect(offline).toEqual(expect.objectContaining({ status: undefined, retryable: true }));
+  });
+});
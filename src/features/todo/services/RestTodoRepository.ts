@@ -0,0 +1,165 @@
+import { injectable, inject } from 'inversify';
+import { TODO_TYPES } from '../config/todo.types';
+import type { Todo } from '../types/Todo';
+import type { ITodoRepository } from './ITodoRepository';
+import { TodoRepositoryError } from './TodoRepositoryError';
+
+/**
+ * Function making HTTP requests, with the signature of `fetch`.
+ */
+export type TodoFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Where and how RestTodoRepository reaches the server.
+ * Bound under `TODO_TYPES.RestRepositoryOptions`.
+ */
+export interface RestTodoRepositoryOptions {
+  /** URL the `todos` resource is under, e.g. `https://example.com/api` */
+  baseUrl: string;
+  /** Function making the requests; the global `fetch` by default */
+  fetch?: TodoFetch;
+  /** Headers sent with every request, e.g. for authentication */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Fields of a todo sent to and read from the server.
+ */
+const TODO_FIELDS: readonly (keyof Todo)[] = [
+  'id',
+  'text',
+  'completed',
+  'createdAt',
+  'dueAt',
+  'remindAt',
+  'priority',
+  'order',
+  'tags',
+  'subtasks',
+  'recurrence',
+  'listId',
+  'versions',
+];
+
+/**
+ * Read a todo from its JSON form, turning ISO 8601 strings back into dates.
+ * Unknown fields are dropped; the rest is checked by the todo schema when
+ * the todo is stored.
+ */
+function todoFromJson(json: Record<string, unknown>): Todo {
+  const todo: Record<string, unknown> = {};
+  TODO_FIELDS.forEach((field) => {
+    if (json[field] !== undefined && json[field] !== null) {
+      todo[field] = json[field];
+    }
+  });
+  (['createdAt', 'dueAt', 'remindAt'] as const).forEach((field) => {
+    if (typeof todo[field] === 'string') {
+      todo[field] = new Date(todo[field] as string);
+    }
+  });
+  const recurrence = todo.recurrence as Record<string, unknown> | undefined;
+  if (typeof recurrence?.until === 'string') {
+    todo.recurrence = { ...recurrence, until: new Date(recurrence.until) };
+  }
+  return todo as unknown as Todo;
+}
+
+/**
+ * ITodoRepository backed by a REST API:
+ *
+ * - `GET {baseUrl}/todos` returns every todo as a JSON array
+ * - `GET {baseUrl}/todos/{id}` returns the todo, or answers 404
+ * - `POST {baseUrl}/todos` creates the todo in the body, or answers 409 if its ID exists
+ * - `PUT {baseUrl}/todos/{id}` replaces the todo
+ * - `DELETE {baseUrl}/todos/{id}` removes the todo; 404 counts as removed
+ *
+ * Todos are sent as JSON with dates as ISO 8601 strings. Failed requests
+ * throw a TodoRepositoryError: without a status when the server could not
+ * be reached, with the response status otherwise.
+ *
+ * @example
+ * ```typescript
+ * container.bind(TODO_TYPES.RestRepositoryOptions).toConstantValue({
+ *   baseUrl: 'https://example.com/api',
+ *   headers: { Authorization: `Bearer ${token}` },
+ * });
+ * container.bind(TODO_TYPES.TodoRepository).to(RestTodoRepository).inSingletonScope();
+ * ```
+ */
+@injectable()
+export class RestTodoRepository implements ITodoRepository {
+  private readonly baseUrl: string;
+
+  /**
+   * Initialize RestTodoRepository with injected dependencies.
+   * @param options - Injected server URL, fetch function and headers
+   */
+  constructor(@inject(TODO_TYPES.RestRepositoryOptions) private options: RestTodoRepositoryOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async list(): Promise<Todo[]> {
+    const response = await this.request('GET', '/todos');
+    const body: unknown = await response.json();
+    if (!Array.isArray(body)) {
+      throw new TodoRepositoryError('GET /todos did not return a list of todos', response.status);
+    }
+    return body.map((json) => todoFromJson(json as Record<string, unknown>));
+  }
+
+  async get(id: string): Promise<Todo | undefined> {
+    const response = await this.request('GET', `/todos/${encodeURIComponent(id)}`, undefined, [404]);
+    if (response.status === 404) {
+      return undefined;
+    }
+    return todoFromJson((await response.json()) as Record<string, unknown>);
+  }
+
+  async create(todo: Todo): Promise<void> {
+    await this.request('POST', '/todos', todo);
+  }
+
+  async update(todo: Todo): Promise<void> {
+    await this.request('PUT', `/todos/${encodeURIComponent(todo.id)}`, todo);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('DELETE', `/todos/${encodeURIComponent(id)}`, undefined, [404]);
+  }
+
+  /**
+   * Make a request and check its status.
+   * @param method - HTTP method
+   * @param path - Path below the base URL
+   * @param body - Todo to send as JSON
+   * @param accepted - Error statuses treated as success
+   * @throws TodoRepositoryError if the server cannot be reached or answers with an error
+   */
+  private async request(method: string, path: string, body?: Todo, accepted: number[] = []): Promise<Response> {
+    const fetch = this.options.fetch ?? ((url, init) => globalThis.fetch(url, init));
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.options.headers };
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        ...(body && { body: JSON.stringify(body) }),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new TodoRepositoryError(`${method} ${path} could not reach the server: ${reason}`);
+    }
+    if (!response.ok && !accepted.includes(response.status)) {
+      throw new TodoRepositoryError(
+        `${method} ${path} failed with ${response.status} ${response.statusText}`.trim(),
+        response.status
+      );
+    }
+    return response;
+  }
+}
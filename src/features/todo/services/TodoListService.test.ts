@@ -0,0 +1,186 @@
+import {
+  configureTodoContainer,
+  deriveTodoViews,
+  getTodoFilterView,
+  getTodoTag,
+  setTodoFilter,
+  setTodoTag,
+  TODO_TYPES,
+} from '../index';
+import type { ITodoListService, ITodoService, ITodoTagService, Todo, TodoListInfo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+import { ValidationError } from '@/store/schema';
+
+describe('Todo lists', () => {
+  let masterStore: MasterStore;
+  let listService: ITodoListService;
+  let todoView: StoreView<Todo>;
+  let listView: StoreView<TodoListInfo>;
+
+  /** TodoService of a container scoped to a list */
+  const serviceFor = (listId?: string) =>
+    configureTodoContainer(masterStore, { listId }).get<ITodoService>(TODO_TYPES.TodoService);
+
+  const texts = (todos: Todo[]) => todos.map((todo) => todo.text);
+
+  beforeEach(() => {
+    masterStore = new MasterStore({ history: { limit: 10 } });
+    const container = configureTodoContainer(masterStore);
+    listService = container.get<ITodoListService>(TODO_TYPES.TodoListService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+    listView = container.get<StoreView<TodoListInfo>>(TODO_TYPES.ListView);
+  });
+
+  describe('Managing lists', () => {
+    test('createList stores a trimmed name and rejects invalid ones', () => {
+      const work = listService.createList('  Work ');
+
+      expect(listService.getLists()).toEqual([work]);
+      expect(work).toMatchObject({ name: 'Work', createdAt: expect.any(Date) });
+      expect(() => listService.createList('   ')).toThrow(ValidationError);
+      expect(() => listService.createList('x'.repeat(101))).toThrow(ValidationError);
+      expect(listService.getLists()).toHaveLength(1);
+    });
+
+    test('renameList changes the name only when it differs', () => {
+      const work = listService.createList('Work');
+
+      listService.renameList(work.id, 'Office');
+      expect(listService.getList(work.id)?.name).toBe('Office');
+
+      const before = listService.getList(work.id);
+      listService.renameList(work.id, ' Office ');
+      expect(listService.getList(work.id)).toBe(before);
+
+      expect(() => listService.renameList(work.id, '')).toThrow(ValidationError);
+    });
+
+    test('archived lists keep their todos', () => {
+      const work = listService.createList('Work');
+      serviceFor(work.id).addTodo({ text: 'Report' });
+
+      listService.setListArchived(work.id, true);
+      expect(listService.getList(work.id)?.archived).toBe(true);
+      expect(serviceFor(work.id).getAllTodos()).toHaveLength(1);
+
+      listService.setListArchived(work.id, false);
+      expect(listService.getList(work.id)).not.toHaveProperty('archived');
+    });
+
+    test('deleteList removes the list, its todos and its filter in one step', () => {
+      const work = listService.createList('Work');
+      const home = listService.createList('Home');
+      serviceFor(work.id).addTodo({ text: 'Report' });
+      serviceFor(work.id).addTodo({ text: 'Slides' });
+      const kept = [serviceFor(home.id).addTodo({ text: 'Dishes' }), serviceFor().addTodo({ text: 'Inbox item' })];
+      setTodoFilter(getTodoFilterView(masterStore, work.id), 'active');
+      const listener = jest.fn();
+      masterStore.subscribeActions(listener);
+
+      expect(listService.deleteList(work.id)).toBe(2);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listService.getLists()).toEqual([home]);
+      expect(todoView.getItems()).toEqual(kept);
+      expect(getTodoFilterView(masterStore, work.id).getItems()).toEqual([]);
+
+      masterStore.undo();
+      expect(listService.getLists()).toEqual([work, home]);
+      expect(todoView.getItems()).toHaveLength(4);
+    });
+
+    test('unknown lists are ignored', () => {
+      expect(listService.deleteList('missing')).toBe(0);
+      expect(() => listService.setListArchived('missing', true)).not.toThrow();
+      expect(listView.getItems()).toEqual([]);
+    });
+  });
+
+  describe('Scoped containers', () => {
+    let work: TodoListInfo;
+    let inbox: ITodoService;
+    let workTodos: ITodoService;
+
+    beforeEach(() => {
+      work = listService.createList('Work');
+      inbox = serviceFor();
+      workTodos = serviceFor(work.id);
+    });
+
+    test('each container creates and sees only the todos of its list', () => {
+      const milk = inbox.addTodo({ text: 'Buy milk' });
+      const report = workTodos.addTodo({ text: 'Write report' });
+
+      expect(milk).not.toHaveProperty('listId');
+      expect(report.listId).toBe(work.id);
+      expect(texts(inbox.getAllTodos())).toEqual(['Buy milk']);
+      expect(texts(workTodos.getAllTodos())).toEqual(['Write report']);
+      expect(todoView.getItems()).toHaveLength(2);
+    });
+
+    test('the default list keeps its array when no todo is in another list', () => {
+      inbox.addTodo({ text: 'Buy milk' });
+      expect(inbox.getAllTodos()).toBe(todoView.getItems());
+    });
+
+    test('clearCompleted only clears its own list', () => {
+      inbox.toggleTodo(inbox.addTodo({ text: 'Done at home' }).id);
+      workTodos.toggleTodo(workTodos.addTodo({ text: 'Done at work' }).id);
+
+      expect(workTodos.clearCompleted()).toBe(1);
+      expect(texts(todoView.getItems())).toEqual(['Done at home']);
+    });
+
+    test('moveTodo orders within the list and ignores todos of other lists', () => {
+      const [a, b] = [workTodos.addTodo({ text: 'A' }), workTodos.addTodo({ text: 'B' })];
+      const other = inbox.addTodo({ text: 'Other' });
+
+      workTodos.moveTodo(b.id, a.id);
+      expect(texts(workTodos.getAllTodos().slice().sort((x, y) => (x.order! < y.order! ? -1 : 1)))).toEqual(['B', 'A']);
+
+      const before = todoView.getItems();
+      workTodos.moveTodo(a.id, other.id);
+      expect(todoView.getItems()).toBe(before);
+    });
+
+    test('todos move between lists with updateTodo', () => {
+      const todo = inbox.addTodo({ text: 'Call accountant' });
+
+      inbox.updateTodo(todo.id, { listId: work.id });
+      expect(texts(workTodos.getAllTodos())).toEqual(['Call accountant']);
+
+      workTodos.updateTodo(todo.id, { listId: undefined });
+      expect(texts(inbox.getAllTodos())).toEqual(['Call accountant']);
+    });
+
+    test('the next occurrence of a recurring todo stays in its list', () => {
+      const todo = workTodos.addTodo({ text: 'Timesheet', dueAt: new Date(), recurrence: { frequency: 'weekly' } });
+
+      expect(workTodos.toggleTodo(todo.id)?.listId).toBe(work.id);
+    });
+
+    test('derived views count each list separately', () => {
+      inbox.addTodo({ text: 'Buy milk' });
+      workTodos.toggleTodo(workTodos.addTodo({ text: 'Write report' }).id);
+      workTodos.addTodo({ text: 'Slides' });
+
+      expect(deriveTodoViews(masterStore).stats.getItem()).toMatchObject({ total: 1, completed: 0 });
+      expect(deriveTodoViews(masterStore, work.id).stats.getItem()).toMatchObject({ total: 2, completed: 1 });
+      expect(texts(deriveTodoViews(masterStore, work.id).active.getItems())).toEqual(['Slides']);
+    });
+
+    test('tag filters of every list follow renamed and deleted tags', () => {
+      const tags = configureTodoContainer(masterStore).get<ITodoTagService>(TODO_TYPES.TodoTagService);
+      workTodos.addTodo({ text: 'Report', tags: ['urgent'] });
+      setTodoTag(getTodoFilterView(masterStore), 'urgent');
+      setTodoTag(getTodoFilterView(masterStore, work.id), 'urgent');
+
+      tags.renameTag('urgent', 'asap');
+      expect(getTodoTag(getTodoFilterView(masterStore))).toBe('asap');
+      expect(getTodoTag(getTodoFilterView(masterStore, work.id))).toBe('asap');
+
+      tags.deleteTag('asap');
+      expect(getTodoTag(getTodoFilterView(masterStore, work.id))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { injectable, inject } from 'inversify';
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { TODO_TYPES } from '../config/todo.types';
+import { getTodoFilterView } from '../config/todo.filters';
+import { belongsToList } from '../config/todo.lists';
+import type { Todo, TodoListInfo } from '../types/Todo';
+import type { Clock } from './Clock';
+import type { ITodoListService } from './ITodoListService';
+
+/**
+ * Service layer for list management.
+ *
+ * Deleting a list removes its todos in the same MasterStore transaction, so
+ * it is one store update and one undo step and no todo is left pointing at
+ * a missing list.
+ *
+ * @example
+ * ```typescript
+ * const listService = container.get<ITodoListService>(TODO_TYPES.TodoListService);
+ * const work = listService.createList('Work');
+ * ```
+ */
+@injectable()
+export class TodoListService implements ITodoListService {
+  /**
+   * Initialize TodoListService with injected dependencies.
+   * @param listView - Injected StoreView holding the lists
+   * @param todoView - Injected StoreView holding the todos of every list
+   * @param masterStore - Injected MasterStore, used for transactions and filter selections
+   * @param clock - Injected time source for creation times
+   */
+  constructor(
+    @inject(TODO_TYPES.ListView) private listView: StoreView<TodoListInfo>,
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.MasterStore) private masterStore: MasterStore,
+    @inject(TODO_TYPES.Clock) private clock: Clock
+  ) {}
+
+  getLists(): TodoListInfo[] {
+    return this.listView.getItems();
+  }
+
+  getList(id: string): TodoListInfo | undefined {
+    return this.listView.getById(id);
+  }
+
+  createList(name: string): TodoListInfo {
+    return this.listView.addItem({ name: name.trim(), createdAt: new Date(this.clock.now()) });
+  }
+
+  renameList(id: string, name: string): void {
+    const trimmed = name.trim();
+    if (this.listView.getById(id)?.name === trimmed) {
+      return;
+    }
+    this.listView.updateItem(id, (draft) => {
+      draft.name = trimmed;
+    });
+  }
+
+  setListArchived(id: string, archived: boolean): void {
+    if ((this.listView.getById(id)?.archived ?? false) === archived) {
+      return;
+    }
+    this.listView.updateItem(id, (draft) => {
+      if (archived) {
+        draft.archived = true;
+      } else {
+        delete draft.archived;
+      }
+    });
+  }
+
+  deleteList(id: string): number {
+    if (!this.listView.getById(id)) {
+      return 0;
+    }
+    const todos = this.todoView.getItems();
+    let removed = 0;
+
+    this.masterStore.transaction(() => {
+      this.listView.removeItem(id);
+      if (todos.some((todo) => belongsToList(todo, id))) {
+        this.todoView.updateItems((draft) => {
+          // Walk backwards so splicing does not shift the positions still to check
+          for (let i = todos.length - 1; i >= 0; i--) {
+            if (belongsToList(todos[i], id)) {
+              draft.splice(i, 1);
+              removed++;
+            }
+          }
+        });
+      }
+      const filterView = getTodoFilterView(this.masterStore, id);
+      filterView.getItems().forEach((item) => filterView.removeItem(item.id));
+    }, 'deleteList');
+
+    return removed;
+  }
+}
@@ -0,0 +1,163 @@
+import { configureTodoContainer, TODO_TYPES } from '../index';
+import type { Clock, ITodoService, Todo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+import { ValidationError } from '@/store/schema';
+
+const HOUR = 60 * 60 * 1000;
+// Monday morning, local time
+const MONDAY = new Date('2024-03-04T09:00:00');
+
+describe('Recurring todos', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let todoView: StoreView<Todo>;
+  let now: number;
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: () => undefined,
+    clearTimeout: () => undefined,
+  };
+
+  const local = (value: string) => new Date(value);
+
+  beforeEach(() => {
+    now = MONDAY.getTime() - HOUR;
+    masterStore = new MasterStore({ history: { limit: 10 } });
+    const container = configureTodoContainer(masterStore);
+    container.rebind(TODO_TYPES.Clock).toConstantValue(clock);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+  });
+
+  test('completing a recurring todo adds the next occurrence', () => {
+    const todo = todoService.addTodo({
+      text: 'Water plants',
+      dueAt: MONDAY,
+      remindAt: new Date(MONDAY.getTime() - HOUR),
+      priority: 'high',
+      tags: ['home'],
+      recurrence: { frequency: 'weekly', byWeekday: [1, 4] },
+    });
+
+    const next = todoService.toggleTodo(todo.id);
+
+    expect(next).toMatchObject({
+      text: 'Water plants',
+      completed: false,
+      createdAt: new Date(now),
+      dueAt: local('2024-03-07T09:00'),
+      remindAt: local('2024-03-07T08:00'),
+      priority: 'high',
+      tags: ['home'],
+      recurrence: { frequency: 'weekly', byWeekday: [1, 4], occurrence: 2 },
+    });
+    expect(next!.id).not.toBe(todo.id);
+    expect(todoView.getItems().map((item) => item.id)).toEqual([todo.id, next!.id]);
+  });
+
+  test('the completed todo hands the series on and does not repeat again', () => {
+    const todo = todoService.addTodo({ text: 'Water plants', dueAt: MONDAY, recurrence: { frequency: 'daily' } });
+
+    todoService.toggleTodo(todo.id);
+    expect(todoView.getById(todo.id)).toMatchObject({ completed: true });
+    expect(todoView.getById(todo.id)).not.toHaveProperty('recurrence');
+
+    expect(todoService.toggleTodo(todo.id)).toBeUndefined();
+    expect(todoService.toggleTodo(todo.id)).toBeUndefined();
+    expect(todoView.getItems()).toHaveLength(2);
+  });
+
+  test('completing and adding the next occurrence is a single update and undo step', () => {
+    const todo = todoService.addTodo({ text: 'Water plants', dueAt: MONDAY, recurrence: { frequency: 'daily' } });
+    const listener = jest.fn();
+    masterStore.subscribeActions(listener);
+
+    todoService.toggleTodo(todo.id);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    todoService.undo();
+    expect(todoView.getItems()).toEqual([todo]);
+  });
+
+  test('subtasks of the next occurrence start open', () => {
+    const todo = todoService.addTodo({ text: 'Weekly review', dueAt: MONDAY, recurrence: { frequency: 'weekly' } });
+    const inbox = todoService.addSubtask(todo.id, 'Empty inbox')!;
+    todoService.toggleSubtask(todo.id, inbox.id);
+    // Completing the checklist completed the todo; reopen it to complete it by hand
+    todoService.toggleTodo(todo.id);
+
+    const next = todoService.toggleTodo(todo.id);
+
+    expect(next?.subtasks).toEqual([{ id: inbox.id, text: 'Empty inbox', completed: false }]);
+  });
+
+  test('the series ends after count occurrences', () => {
+    let todo: Todo | undefined = todoService.addTodo({
+      text: 'Take medicine',
+      dueAt: MONDAY,
+      recurrence: { frequency: 'daily', count: 3 },
+    });
+    const occurrences: Todo[] = [];
+    while (todo) {
+      occurrences.push(todo);
+      todo = todoService.toggleTodo(todo.id);
+    }
+
+    expect(occurrences.map((occurrence) => occurrence.dueAt)).toEqual([
+      MONDAY,
+      local('2024-03-05T09:00'),
+      local('2024-03-06T09:00'),
+    ]);
+    expect(todoView.getItems().every((item) => item.completed)).toBe(true);
+  });
+
+  test('the series ends at the until date', () => {
+    const todo = todoService.addTodo({
+      text: 'Water plants',
+      dueAt: MONDAY,
+      recurrence: { frequency: 'weekly', until: local('2024-03-10T00:00') },
+    });
+
+    expect(todoService.toggleTodo(todo.id)).toBeUndefined();
+    expect(todoView.getItems()).toHaveLength(1);
+  });
+
+  test('an overdue todo repeats from the next occurrence still to come', () => {
+    const todo = todoService.addTodo({ text: 'Take out bins', dueAt: MONDAY, recurrence: { frequency: 'weekly' } });
+    now = local('2024-03-20T12:00').getTime();
+
+    expect(todoService.toggleTodo(todo.id)).toMatchObject({
+      dueAt: local('2024-03-25T09:00'),
+      recurrence: { occurrence: 4 },
+    });
+  });
+
+  test('a todo without a due date repeats from the time it is completed', () => {
+    const todo = todoService.addTodo({ text: 'Stretch', recurrence: { frequency: 'daily', interval: 2 } });
+    now = local('2024-03-05T14:30').getTime();
+
+    expect(todoService.toggleTodo(todo.id)?.dueAt).toEqual(local('2024-03-07T14:30'));
+  });
+
+  test('invalid recurrences are rejected', () => {
+    expect(() => todoService.addTodo({ text: 'Bad', recurrence: { frequency: 'daily', interval: 0 } })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      todoService.addTodo({ text: 'Bad', recurrence: { frequency: 'weekly', byWeekday: [7 as never] } })
+    ).toThrow(ValidationError);
+    expect(todoView.getItems()).toEqual([]);
+  });
+
+  test('updateTodo sets and clears the recurrence', () => {
+    const todo = todoService.addTodo({ text: 'Water plants', dueAt: MONDAY });
+
+    todoService.updateTodo(todo.id, { recurrence: { frequency: 'monthly' } });
+    expect(todoView.getById(todo.id)?.recurrence).toEqual({ frequency: 'monthly' });
+
+    todoService.updateTodo(todo.id, { recurrence: undefined });
+    expect(todoView.getById(todo.id)).not.toHaveProperty('recurrence');
+    expect(todoService.toggleTodo(todo.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Error thrown by an ITodoRepository when a request fails.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await repository.update(todo);
+ * } catch (error) {
+ *   if (error instanceof TodoRepositoryError && error.retryable) {
+ *     // Try again later
+ *   }
+ * }
+ * ```
+ */
+export class TodoRepositoryError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status of the response; absent when no response arrived */
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'TodoRepositoryError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, TodoRepositoryError.prototype);
+  }
+
+  /**
+   * Whether the same request may succeed later: the server could not be
+   * reached, timed out, was overloaded or failed. Other errors reject the
+   * request itself.
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
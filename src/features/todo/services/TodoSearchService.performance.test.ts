@@ -0,0 +1,109 @@
+import { configureTodoContainer, TODO_TYPES } from '../index';
+import type { ITodoSearchService, Todo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+
+const TODO_COUNT = 10000;
+
+const WORDS = [
+  'write', 'report', 'call', 'client', 'review', 'budget', 'plan', 'meeting', 'update', 'website',
+  'invoice', 'send', 'prepare', 'slides', 'book', 'flight', 'hotel', 'renew', 'passport', 'fix',
+  'bug', 'deploy', 'release', 'notes', 'clean', 'garage', 'water', 'plants', 'buy', 'groceries',
+  'schedule', 'dentist', 'pay', 'rent', 'design', 'logo', 'draft', 'proposal', 'refactor', 'tests',
+];
+
+/**
+ * Deterministic pseudo-random generator, so every run searches the same todos.
+ */
+const random = (() => {
+  let seed = 42;
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+})();
+
+const pick = () => WORDS[Math.floor(random() * WORDS.length)];
+
+describe('TodoSearchService Performance Tests', () => {
+  let todoView: StoreView<Todo>;
+  let searchService: ITodoSearchService;
+
+  const time = (fn: () => void): number => {
+    const start = performance.now();
+    fn();
+    return performance.now() - start;
+  };
+
+  beforeEach(() => {
+    const masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+    searchService = container.get<ITodoSearchService>(TODO_TYPES.TodoSearchService);
+
+    const createdAt = new Date();
+    todoView.updateItems((draft) => {
+      for (let i = 0; i < TODO_COUNT; i++) {
+        draft.push({
+          id: `todo-${i}`,
+          text: `${pick()} ${pick()} ${pick()} ${pick()} ${i}`,
+          completed: random() < 0.3,
+          createdAt,
+          tags: [pick()],
+        });
+      }
+    });
+  });
+
+  test(`indexes ${TODO_COUNT} todos once`, () => {
+    const indexTime = time(() => searchService.start());
+
+    expect(indexTime).toBeLessThan(1000);
+  });
+
+  test(`searches ${TODO_COUNT} todos quickly`, () => {
+    searchService.start();
+    const queries = ['report', 'rep', 'reprot', 'book flight', 'pass', 'refactr tests', '4242'];
+
+    queries.forEach((query) => {
+      let results = 0;
+      const searchTime = time(() => {
+        results = searchService.search(query).length;
+      });
+
+      expect(results).toBeGreaterThan(0);
+      expect(searchTime).toBeLessThan(50);
+    });
+  });
+
+  test('an edit reindexes one todo instead of rebuilding the index', () => {
+    const buildTime = time(() => searchService.search('edited'));
+
+    // Without start(), the index catches up with each edit on the next search
+    const timings: number[] = [];
+    for (let i = 0; i < 20; i++) {
+      todoView.updateItem(`todo-${i * 500}`, (draft) => {
+        draft.text = `${draft.text} edited`;
+      });
+      timings.push(time(() => searchService.search('edited')));
+    }
+    const average = timings.reduce((a, b) => a + b) / timings.length;
+
+    expect(searchService.search('edited')).toHaveLength(20);
+    expect(average).toBeLessThan(buildTime / 4);
+    expect(average).toBeLessThan(20);
+  });
+
+  test('typing a query does not touch the index', () => {
+    searchService.start();
+    const typed = 'schedule dentist';
+
+    const timings: number[] = [];
+    for (let i = 1; i <= typed.length; i++) {
+      timings.push(time(() => searchService.search(typed.slice(0, i))));
+    }
+    const total = timings.reduce((a, b) => a + b);
+
+    // One search per keystroke
+    expect(total).toBeLessThan(typed.length * 50);
+  });
+});
@@ -0,0 +1,148 @@
+import * as todoSearch from '../config/todo.search';
+import { configureTodoContainer, TODO_TYPES } from '../index';
+import type { ITodoListService, ITodoSearchService, ITodoService, Todo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+
+describe('TodoSearchService', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let searchService: ITodoSearchService;
+  let todoView: StoreView<Todo>;
+
+  const found = (query: string) => searchService.search(query).map((result) => result.todo.text);
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    searchService = container.get<ITodoSearchService>(TODO_TYPES.TodoSearchService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Searching', () => {
+    beforeEach(() => {
+      todoService.addTodo({ text: 'Repaint the fence' });
+      todoService.addTodo({ text: 'Write quarterly report' });
+      todoService.addTodo({ text: 'Report' });
+      todoService.addTodo({ text: 'Buy milk' });
+    });
+
+    test('ranks exact matches before prefix and typo matches', () => {
+      expect(found('report')).toEqual(['Write quarterly report', 'Report']);
+      // Equally good matches keep their store order
+      expect(found('rep')).toEqual(['Write quarterly report', 'Report', 'Repaint the fence']);
+      expect(found('reprot')).toEqual(['Write quarterly report', 'Report']);
+    });
+
+    test('scores are higher for better matches', () => {
+      const results = searchService.search('repo');
+      expect(results.map((result) => result.todo.text)).toEqual([
+        'Write quarterly report',
+        'Report',
+        'Repaint the fence',
+      ]);
+      expect(results[0].score).toBe(results[1].score);
+      expect(results[1].score).toBeGreaterThan(results[2].score);
+    });
+
+    test('every query term must match', () => {
+      expect(found('report write')).toEqual(['Write quarterly report']);
+      expect(found('report milk')).toEqual([]);
+    });
+
+    test('empty queries find nothing', () => {
+      expect(found('')).toEqual([]);
+      expect(found('  ?! ')).toEqual([]);
+    });
+
+    test('finds todos by tags and subtasks, ranked below matches in the text', () => {
+      const packing = todoService.addTodo({ text: 'Pack for trip', tags: ['travel'] });
+      todoService.addSubtask(packing.id, 'Passport');
+      todoService.addTodo({ text: 'Renew passport' });
+
+      expect(found('passport')).toEqual(['Renew passport', 'Pack for trip']);
+      expect(found('#travel')).toEqual(['Pack for trip']);
+    });
+  });
+
+  describe('Keeping the index up to date', () => {
+    test('follows todos as they are added, edited and removed', () => {
+      const release = searchService.start();
+      const todo = todoService.addTodo({ text: 'Call the bank' });
+      expect(found('bank')).toEqual(['Call the bank']);
+
+      todoService.updateTodo(todo.id, { text: 'Call the plumber' });
+      expect(found('bank')).toEqual([]);
+      expect(found('plumber')).toEqual(['Call the plumber']);
+
+      todoService.removeTodo(todo.id);
+      expect(found('plumber')).toEqual([]);
+      release();
+    });
+
+    test('results carry the latest version of each todo', () => {
+      const todo = todoService.addTodo({ text: 'Call the bank' });
+      todoService.toggleTodo(todo.id);
+
+      expect(searchService.search('bank')[0].todo).toBe(todoView.getById(todo.id));
+    });
+
+    test('only todos whose searchable content changed are tokenized again', () => {
+      const release = searchService.start();
+      const todos = ['Call the bank', 'Buy milk', 'Water plants'].map((text) => todoService.addTodo({ text }));
+      const tokenize = jest.spyOn(todoSearch, 'tokenizeSearchText');
+
+      todoService.toggleTodo(todos[0].id);
+      todoService.updateTodo(todos[1].id, { priority: 'high' });
+      expect(tokenize).not.toHaveBeenCalled();
+
+      todoService.updateTodo(todos[2].id, { text: 'Water the plants' });
+      expect(tokenize).toHaveBeenCalledTimes(1);
+      expect(tokenize).toHaveBeenCalledWith('Water the plants');
+
+      // Searching does not reindex anything
+      expect(found('plants')).toEqual(['Water the plants']);
+      expect(tokenize).toHaveBeenCalledTimes(1);
+      release();
+    });
+
+    test('stops following the todos once every start is released', () => {
+      const releaseList = searchService.start();
+      const releaseBox = searchService.start();
+      releaseList();
+      releaseList();
+      todoService.addTodo({ text: 'Call the bank' });
+      const tokenize = jest.spyOn(todoSearch, 'tokenizeSearchText');
+
+      releaseBox();
+      todoService.addTodo({ text: 'Buy milk' });
+      expect(tokenize).not.toHaveBeenCalled();
+
+      // The next search catches up
+      expect(found('milk')).toEqual(['Buy milk']);
+    });
+  });
+
+  describe('Lists', () => {
+    test('only searches the todos of the container list', () => {
+      const listService = configureTodoContainer(masterStore).get<ITodoListService>(TODO_TYPES.TodoListService);
+      const work = listService.createList('Work');
+      const container = configureTodoContainer(masterStore, { listId: work.id });
+      const workTodos = container.get<ITodoService>(TODO_TYPES.TodoService);
+      const workSearch = container.get<ITodoSearchService>(TODO_TYPES.TodoSearchService);
+      todoService.addTodo({ text: 'Send invoice to landlord' });
+      const invoice = workTodos.addTodo({ text: 'Send invoice to client' });
+
+      expect(found('invoice')).toEqual(['Send invoice to landlord']);
+      expect(workSearch.search('invoice').map((result) => result.todo.text)).toEqual(['Send invoice to client']);
+
+      workTodos.updateTodo(invoice.id, { listId: undefined });
+      expect(workSearch.search('invoice')).toEqual([]);
+      expect(found('invoice')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { injectable, inject } from 'inversify';
+import type { StoreView } from '@/store/MasterStore';
+import { TODO_TYPES } from '../config/todo.types';
+import { belongsToList } from '../config/todo.lists';
+import type { TodoListScope } from '../config/todo.lists';
+import {
+  TODO_SEARCH_FIELD_WEIGHTS,
+  matchSearchTerm,
+  parseSearchQuery,
+  tokenizeSearchText,
+} from '../config/todo.search';
+import type { TodoSearchField } from '../config/todo.search';
+import type { Todo, TodoSearchResult } from '../types/Todo';
+import type { ITodoSearchService } from './ITodoSearchService';
+
+/**
+ * A todo in the search index.
+ */
+interface IndexedTodo {
+  /** The todo as last seen */
+  todo: Todo;
+  /** Weight of each of its words, from the field weighing most */
+  terms: Map<string, number>;
+  /** Sync in which the todo was last seen */
+  seen: number;
+}
+
+/**
+ * Check whether anything searchable differs between two versions of a todo.
+ * Unchanged fields keep their references, so completing or rescheduling
+ * a todo does not reindex it.
+ */
+const sameSearchableContent = (a: Todo, b: Todo): boolean =>
+  a.text === b.text && a.tags === b.tags && a.subtasks === b.subtasks;
+
+/**
+ * Full-text search over an inverted index of the todos.
+ *
+ * The index maps every word to the todos containing it. It is kept in step
+ * incrementally: while started, it follows the todo view; otherwise it
+ * catches up on the next search. Either way only todos whose text, tags or
+ * subtasks changed are tokenized again - other edits just swap the todo
+ * reference - so typing a query never rebuilds the index.
+ *
+ * A search matches each query term against the distinct words of the
+ * index, so its cost grows with the vocabulary rather than with the
+ * number of todos. Only todos of the injected list are indexed.
+ */
+@injectable()
+export class TodoSearchService implements ITodoSearchService {
+  private indexed = new Map<string, IndexedTodo>();
+  /** Todos containing each word, with the word's weight in the todo */
+  private postings = new Map<string, Map<string, number>>();
+  /** Todo array the index describes */
+  private items: Todo[] = [];
+  private syncs = 0;
+  private starts = 0;
+  private unsubscribeTodos: (() => void) | null = null;
+
+  /**
+   * Initialize TodoSearchService with injected dependencies.
+   * @param todoView - Injected StoreView holding the todos
+   * @param scope - Injected list whose todos to search
+   */
+  constructor(
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.ListScope) private scope: TodoListScope
+  ) {}
+
+  start(): () => void {
+    this.starts++;
+    if (this.starts === 1) {
+      this.unsubscribeTodos = this.todoView.subscribe(() => this.sync());
+      this.sync();
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.starts--;
+      if (this.starts === 0) {
+        this.unsubscribeTodos?.();
+        this.unsubscribeTodos = null;
+      }
+    };
+  }
+
+  search(query: string): TodoSearchResult[] {
+    const queryTerms = parseSearchQuery(query);
+    if (queryTerms.length === 0) {
+      return [];
+    }
+    this.sync();
+
+    // Sum the scores of the query terms over the todos matching all of them
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termScores = this.scoreTerm(queryTerm);
+      if (scores !== null) {
+        const totals: Map<string, number> = scores;
+        termScores.forEach((score, id) => {
+          const total = totals.get(id);
+          if (total === undefined) {
+            termScores.delete(id);
+          } else {
+            termScores.set(id, total + score);
+          }
+        });
+      }
+      scores = termScores;
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    const results: TodoSearchResult[] = [];
+    this.items.forEach((todo) => {
+      const score = scores!.get(todo.id);
+      if (score !== undefined) {
+        results.push({ todo, score });
+      }
+    });
+    // Array.prototype.sort is stable, so ties keep their store order
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Score every todo containing a word the query term matches, by its best matching word.
+   */
+  private scoreTerm(queryTerm: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    this.postings.forEach((todos, term) => {
+      const match = matchSearchTerm(queryTerm, term);
+      if (match === 0) {
+        return;
+      }
+      todos.forEach((weight, id) => {
+        const score = match * weight;
+        if (score > (scores.get(id) ?? 0)) {
+          scores.set(id, score);
+        }
+      });
+    });
+    return scores;
+  }
+
+  /**
+   * Bring the index up to date with the todo view.
+   */
+  private sync(): void {
+    const items = this.todoView.getItems();
+    if (items === this.items) {
+      return;
+    }
+    this.items = items;
+    const sync = ++this.syncs;
+
+    let count = 0;
+    items.forEach((todo) => {
+      if (!belongsToList(todo, this.scope.listId)) {
+        return;
+      }
+      count++;
+      const entry = this.indexed.get(todo.id);
+      if (entry && (entry.todo === todo || sameSearchableContent(entry.todo, todo))) {
+        entry.todo = todo;
+        entry.seen = sync;
+        return;
+      }
+      if (entry) {
+        this.remove(entry);
+      }
+      this.add(todo, sync);
+    });
+
+    // Todos that were removed or moved to another list
+    if (this.indexed.size > count) {
+      this.indexed.forEach((entry) => {
+        if (entry.seen !== sync) {
+          this.remove(entry);
+        }
+      });
+    }
+  }
+
+  private add(todo: Todo, sync: number): void {
+    const terms = new Map<string, number>();
+    const addField = (text: string, field: TodoSearchField) => {
+      const weight = TODO_SEARCH_FIELD_WEIGHTS[field];
+      tokenizeSearchText(text).forEach(({ term }) => {
+        if (weight > (terms.get(term) ?? 0)) {
+          terms.set(term, weight);
+        }
+      });
+    };
+    addField(todo.text, 'text');
+    todo.tags?.forEach((tag) => addField(tag, 'tags'));
+    todo.subtasks?.forEach((subtask) => addField(subtask.text, 'subtasks'));
+
+    terms.forEach((weight, term) => {
+      let todos = this.postings.get(term);
+      if (!todos) {
+        todos = new Map();
+        this.postings.set(term, todos);
+      }
+      todos.set(todo.id, weight);
+    });
+    this.indexed.set(todo.id, { todo, terms, seen: sync });
+  }
+
+  private remove(entry: IndexedTodo): void {
+    const { id } = entry.todo;
+    entry.terms.forEach((_, term) => {
+      const todos = this.postings.get(term);
+      if (todos) {
+        todos.delete(id);
+        if (todos.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+    });
+    this.indexed.delete(id);
+  }
+}
@@ -1,5 +1,5 @@
-import { TodoService, createTestTodoContainer, TODO_TYPES } from '../index';
-import { MasterStore } from '@/store/MasterStore';
+import { TodoService, createTestTodoContainer, TODO_TYPES, Todo, sortTodos } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
 
 describe('TodoService Performance Tests', () => {
   let todoService: TodoService;
@@ -149,6 +149,21 @@ describe('TodoService Performance Tests', () => {
       expect(preservedReferences).toBe(99);
     });
 
+    test('updateTodo only replaces the edited todo', () => {
+      const todos = [];
+      for (let i = 0; i < 100; i++) {
+        todos.push(todoService.addTodo({ text: `Edit Test Todo ${i}` }));
+      }
+      const initialTodos = todoService.getAllTodos();
+
+      todoService.updateTodo(todos[50].id, { text: '  Edited  ' });
+      todoService.updateTodo(todos[60].id, { text: todos[60].text });
+
+      const updatedTodos = todoService.getAllTodos();
+      const changed = updatedTodos.filter((todo, index) => todo !== initialTodos[index]);
+      expect(changed).toEqual([{ ...todos[50], text: 'Edited' }]);
+    });
+
     test('service handles rapid successive operations efficiently', () => {
       const operationStart = performance.now();
       
@@ -321,4 +336,156 @@ describe('TodoService Performance Tests', () => {
       expect(todos.every(t => !t.completed)).toBe(true);
     });
   });
+
+  describe('Manual Ordering', () => {
+    const manualOrder = () => sortTodos(todoService.getAllTodos(), 'manual').map((todo) => todo.text);
+
+    test('moveTodo only replaces the moved todo', () => {
+      const todos = [];
+      for (let i = 0; i < 100; i++) {
+        todos.push(todoService.addTodo({ text: `Move Test Todo ${i}` }));
+      }
+      const initialTodos = todoService.getAllTodos();
+
+      todoService.moveTodo(todos[90].id, todos[10].id);
+
+      const movedTodos = todoService.getAllTodos();
+      const changed = movedTodos.filter((todo, index) => todo !== initialTodos[index]);
+      expect(changed.map((todo) => todo.id)).toEqual([todos[90].id]);
+      // The array keeps insertion order; only the displayed order changes
+      expect(movedTodos.map((todo) => todo.id)).toEqual(initialTodos.map((todo) => todo.id));
+      expect(manualOrder().indexOf('Move Test Todo 90')).toBe(10);
+    });
+
+    test('moveTodo moves before a todo or to the end', () => {
+      const [a, , c] = ['A', 'B', 'C'].map((text) => todoService.addTodo({ text }));
+
+      todoService.moveTodo(c.id, a.id);
+      expect(manualOrder()).toEqual(['C', 'A', 'B']);
+
+      todoService.moveTodo(c.id, null);
+      expect(manualOrder()).toEqual(['A', 'B', 'C']);
+
+      todoService.moveTodo(a.id, c.id);
+      expect(manualOrder()).toEqual(['B', 'A', 'C']);
+    });
+
+    test('moving a todo to where it already is writes nothing', () => {
+      const [a, b] = ['A', 'B'].map((text) => todoService.addTodo({ text }));
+      const before = todoService.getAllTodos();
+
+      todoService.moveTodo(a.id, b.id);
+      todoService.moveTodo(b.id, null);
+
+      expect(todoService.getAllTodos()).toBe(before);
+    });
+
+    test('moveTodo ignores unknown todos', () => {
+      const todo = todoService.addTodo({ text: 'A' });
+      const before = todoService.getAllTodos();
+
+      todoService.moveTodo('missing', null);
+      todoService.moveTodo(todo.id, 'missing');
+
+      expect(todoService.getAllTodos()).toBe(before);
+    });
+
+    test('todos saved before ordering existed keep their place and can be moved', () => {
+      const container = createTestTodoContainer();
+      todoService = container.get(TODO_TYPES.TodoService);
+      const todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+      todoView.updateItems((draft) => {
+        ['Old 1', 'Old 2', 'Old 3'].forEach((text, i) => {
+          draft.push({ id: `legacy-${i}`, text, completed: false, createdAt: new Date() });
+        });
+      });
+      todoService.addTodo({ text: 'New' });
+      expect(manualOrder()).toEqual(['Old 1', 'Old 2', 'Old 3', 'New']);
+
+      todoService.moveTodo('legacy-2', 'legacy-0');
+
+      expect(manualOrder()).toEqual(['Old 3', 'Old 1', 'Old 2', 'New']);
+      expect(todoService.getAllTodos().every((todo) => todo.order !== undefined)).toBe(true);
+    });
+
+    test('priority and creation sorting leave the stored order alone', () => {
+      const low = todoService.addTodo({ text: 'Low', priority: 'low' });
+      todoService.addTodo({ text: 'Plain' });
+      todoService.addTodo({ text: 'High', priority: 'high' });
+      todoService.moveTodo(low.id, null);
+      const todos = todoService.getAllTodos();
+
+      expect(sortTodos(todos, 'priority').map((todo) => todo.text)).toEqual(['High', 'Plain', 'Low']);
+      expect(todoService.getAllTodos()).toBe(todos);
+    });
+  });
+
+  describe('Indexed Lookup Benchmarks', () => {
+    /**
+     * Seed a large collection in a single write; adding items one by one
+     * would copy the array on every call.
+     */
+    const seed = (count: number): StoreView<Todo> => {
+      const container = createTestTodoContainer();
+      todoService = container.get(TODO_TYPES.TodoService);
+      const todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+      todoView.updateItems((draft) => {
+        for (let i = 0; i < count; i++) {
+          draft.push({ id: `todo-${i}`, text: `Todo ${i}`, completed: i % 2 === 0, createdAt: new Date() });
+        }
+      });
+      todoView.defineIndex('completed', (todo) => todo.completed);
+      return todoView;
+    };
+
+    [10_000, 100_000].forEach((count) => {
+      test(`getById is constant time with ${count} items`, () => {
+        const todoView = seed(count);
+        todoView.getById('todo-0'); // Build the index once
+
+        let found = 0;
+        const lookupStart = performance.now();
+        for (let i = 0; i < 1000; i++) {
+          if (todoView.getById(`todo-${(i * 97) % count}`)) {
+            found++;
+          }
+        }
+        const lookupTime = performance.now() - lookupStart;
+
+        expect(found).toBe(1000);
+        // 1000 lookups, independent of collection size
+        expect(lookupTime).toBeLessThan(50);
+      });
+
+      test(`toggleTodo stays fast at the end of ${count} items`, () => {
+        const todoView = seed(count);
+        const lastId = `todo-${count - 1}`;
+        todoService.toggleTodo('todo-0'); // Build the index once
+
+        const toggleStart = performance.now();
+        todoService.toggleTodo(lastId);
+        const toggleTime = performance.now() - toggleStart;
+
+        expect(todoView.getById(lastId)?.completed).toBe(true);
+        // Dominated by Immer copying the array, not by searching it
+        expect(toggleTime).toBeLessThan(count / 500);
+      });
+
+      test(`secondary index stays consistent after updates with ${count} items`, () => {
+        const todoView = seed(count);
+        expect(todoView.getByIndex('completed', true)).toHaveLength(count / 2);
+
+        todoService.toggleTodo('todo-1');
+        todoService.removeTodo('todo-0');
+
+        const lookupStart = performance.now();
+        const completed = todoView.getByIndex('completed', true);
+        const lookupTime = performance.now() - lookupStart;
+
+        expect(completed).toHaveLength(count / 2);
+        expect(completed[0].id).toBe('todo-1');
+        expect(lookupTime).toBeLessThan(count / 100);
+      });
+    });
+  });
 });
@@ -1,14 +1,27 @@
 import { injectable, inject } from 'inversify';
-import { Todo, CreateTodoRequest } from '../types/Todo';
+import type { Draft } from 'immer';
+import { Todo, CreateTodoRequest, UpdateTodoRequest, TodoSubtask } from '../types/Todo';
 import { ITodoService } from './ITodoService';
-import type { StoreView } from '@/store/MasterStore';
-import { TODO_TYPES } from '../config/todo.types';
+import type { ITodoTagService } from './ITodoTagService';
+import type { StoreView, MasterStore } from '@/store/MasterStore';
+import { compareKeys, keyBetween, keysBetween } from '@/store/ordering/fractionalIndex';
+import { TODO_TYPES, TODOS_KEY } from '../config/todo.types';
+import { sortTodos } from '../config/todo.sort';
+import { normalizeTagNames } from '../config/todo.tags';
+import type { TodoSubtaskOptions } from '../config/todo.subtasks';
+import { nextOccurrence } from '../config/todo.recurrence';
+import type { TodoOccurrence } from '../config/todo.recurrence';
+import { belongsToList, scopeTodos } from '../config/todo.lists';
+import type { TodoListScope } from '../config/todo.lists';
+import type { Clock } from './Clock';
 
 /**
  * Service layer for todo operations with dependency injection.
  *
  * Provides business logic for todo management while maintaining separation of concerns.
  * Uses Immer-powered store operations for optimal performance and structural sharing.
+ * Works on the list selected by the injected `TodoListScope`: it lists,
+ * creates, reorders and clears only that list's todos.
  *
  * @example
  * ```typescript
@@ -27,40 +40,225 @@ export class TodoService implements ITodoService {
   /**
    * Initialize TodoService with injected dependencies.
    * @param todoView - Injected StoreView for todo operations
+   * @param masterStore - Injected MasterStore, used for undo/redo history
+   * @param tagService - Injected tag service, which keeps metadata for new tags
+   * @param subtaskOptions - Injected subtask behaviour
+   * @param clock - Injected time source for creation times and recurrences
+   * @param scope - Injected list the service works on
    */
   constructor(
-    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.MasterStore) private masterStore: MasterStore,
+    @inject(TODO_TYPES.TodoTagService) private tagService: ITodoTagService,
+    @inject(TODO_TYPES.SubtaskOptions) private subtaskOptions: TodoSubtaskOptions,
+    @inject(TODO_TYPES.Clock) private clock: Clock,
+    @inject(TODO_TYPES.ListScope) private scope: TodoListScope
   ) {}
 
   /**
-   * Retrieve all todos from the store.
-   * @returns Array of all todos
+   * Retrieve all todos of the list from the store.
+   * @returns Array of all todos in the list
    */
   getAllTodos(): Todo[] {
-    return this.todoView.getItems();
+    return scopeTodos(this.todoView.getItems(), this.scope.listId);
   }
 
   /**
    * Add a new todo to the store.
-   * @param request - Todo creation request with text
+   * The todo is placed at the end of the manually arranged list.
+   * Tags are normalized and get metadata if they are new.
+   * @param request - Todo creation request with text and optional due/reminder dates, priority, tags and recurrence
    * @returns The created todo with generated ID and metadata
+   * @throws ValidationError if the todo does not match the todo schema (e.g. empty text)
    */
   addTodo(request: CreateTodoRequest): Todo {
-    return this.todoView.addItem({
-      text: request.text,
-      completed: false,
-      createdAt: new Date(),
-    });
+    const tags = normalizeTagNames(request.tags ?? []);
+    return this.withTags(tags, () =>
+      this.todoView.addItem({
+        text: request.text,
+        completed: false,
+        createdAt: new Date(this.clock.now()),
+        ...(request.dueAt && { dueAt: request.dueAt }),
+        ...(request.remindAt && { remindAt: request.remindAt }),
+        ...(request.priority && { priority: request.priority }),
+        ...(tags.length > 0 && { tags }),
+        ...(request.recurrence && { recurrence: request.recurrence }),
+        ...(this.scope.listId !== undefined && { listId: this.scope.listId }),
+        order: keyBetween(this.lastOrder(), null),
+      })
+    );
+  }
+
+  /**
+   * Change fields of an existing todo.
+   * Only fields that actually differ produce a new todo object.
+   * @param id - ID of the todo to update
+   * @param patch - Fields to change; text is trimmed, tags are normalized and an empty tag list clears them
+   * @throws ValidationError if the result does not match the todo schema (e.g. empty text)
+   */
+  updateTodo(id: string, patch: UpdateTodoRequest): void {
+    const changes = { ...patch };
+    if (patch.text !== undefined) {
+      changes.text = patch.text.trim();
+    }
+    if (patch.tags !== undefined) {
+      const tags = normalizeTagNames(patch.tags);
+      const current = this.todoView.getById(id)?.tags ?? [];
+      if (tags.length === current.length && tags.every((tag, i) => tag === current[i])) {
+        delete changes.tags;
+      } else {
+        changes.tags = tags.length > 0 ? tags : undefined;
+      }
+    }
+
+    this.withTags(changes.tags ?? [], () =>
+      this.todoView.updateItem(id, (draft) => {
+        const fields = draft as Record<string, unknown>;
+        Object.entries(changes).forEach(([field, value]) => {
+          // Clearing a field removes it rather than storing undefined
+          if (value !== undefined) {
+            fields[field] = value;
+          } else if (field in fields) {
+            delete fields[field];
+          }
+        });
+      })
+    );
   }
 
   /**
    * Toggle the completion status of a todo.
    * Uses Immer draft pattern for optimal performance.
+   *
+   * Completing a recurring todo also adds its next occurrence, in the same
+   * transaction. The series moves on to the new todo: the completed one loses
+   * its recurrence, so reopening it does not add another occurrence.
    * @param id - ID of the todo to toggle
+   * @returns The next occurrence, if one was added
    */
-  toggleTodo(id: string): void {
-    this.todoView.updateItem(id, (draft) => {
-      draft.completed = !draft.completed;
+  toggleTodo(id: string): Todo | undefined {
+    const todo = this.todoView.getById(id);
+    if (!todo?.recurrence || todo.completed) {
+      this.todoView.updateItem(id, (draft) => {
+        draft.completed = !draft.completed;
+      });
+      return undefined;
+    }
+
+    // Without a due date the todo repeats from the time it is completed
+    const now = this.clock.now();
+    const from = todo.dueAt ?? new Date(now);
+    const next = nextOccurrence(todo.recurrence, from, now);
+    return this.masterStore.transaction(() => {
+      this.todoView.updateItem(id, (draft) => {
+        draft.completed = true;
+        delete draft.recurrence;
+      });
+      return next && this.addOccurrence(todo, from, next);
+    }, 'completeRecurringTodo');
+  }
+
+  /**
+   * Move a todo in the manually arranged list.
+   * Gives it a fractional order key between its new neighbours, so only the
+   * moved todo changes. Todos created before ordering existed are given keys
+   * first, in the same transaction.
+   * @param id - ID of the todo to move
+   * @param beforeId - ID of the todo to place it in front of, or null for the end
+   */
+  moveTodo(id: string, beforeId: string | null): void {
+    if (id === beforeId || !this.todoView.getById(id) || (beforeId !== null && !this.todoView.getById(beforeId))) {
+      return;
+    }
+
+    this.masterStore.transaction(() => {
+      this.assignMissingOrder();
+
+      const others = sortTodos(this.getAllTodos(), 'manual').filter((todo) => todo.id !== id);
+      const index = beforeId === null ? others.length : others.findIndex((todo) => todo.id === beforeId);
+      if (index === -1) {
+        return; // In another list
+      }
+      const previous = others[index - 1]?.order ?? null;
+      // Todos ordered at once on different replicas can share a key; go after all of them
+      const next =
+        others.slice(index).find((todo) => previous === null || compareKeys(todo.order!, previous) > 0)?.order ?? null;
+      const current = this.todoView.getById(id)!.order!;
+      const afterPrevious = previous === null || compareKeys(previous, current) < 0;
+      if (afterPrevious && (next === null || compareKeys(current, next) < 0)) {
+        return; // Already in place
+      }
+
+      const order = keyBetween(previous, next);
+      this.todoView.updateItem(id, (draft) => {
+        draft.order = order;
+      });
+    });
+  }
+
+  /**
+   * Add a checklist item to a todo.
+   * Only the todo's object changes; the other todos and subtasks keep theirs.
+   * @param todoId - ID of the todo
+   * @param text - Text of the subtask; trimmed
+   * @returns The created subtask, or undefined if the todo does not exist
+   * @throws ValidationError if the text is empty or too long
+   */
+  addSubtask(todoId: string, text: string): TodoSubtask | undefined {
+    if (!this.todoView.getById(todoId)) {
+      return undefined;
+    }
+    const subtask: TodoSubtask = { id: this.newSubtaskId(), text: text.trim(), completed: false };
+    this.todoView.updateItem(todoId, (draft) => {
+      (draft.subtasks ??= []).push(subtask);
+      this.syncCompletion(draft, true);
+    });
+    return subtask;
+  }
+
+  /**
+   * Toggle the completion status of a subtask.
+   * @param todoId - ID of the todo
+   * @param subtaskId - ID of the subtask
+   */
+  toggleSubtask(todoId: string, subtaskId: string): void {
+    this.updateSubtasks(todoId, subtaskId, (draft, index) => {
+      const subtask = draft.subtasks![index];
+      subtask.completed = !subtask.completed;
+      this.syncCompletion(draft, !subtask.completed);
+    });
+  }
+
+  /**
+   * Remove a subtask. A todo left without subtasks has no `subtasks` field.
+   * @param todoId - ID of the todo
+   * @param subtaskId - ID of the subtask
+   */
+  removeSubtask(todoId: string, subtaskId: string): void {
+    this.updateSubtasks(todoId, subtaskId, (draft, index) => {
+      draft.subtasks!.splice(index, 1);
+      if (draft.subtasks!.length === 0) {
+        delete draft.subtasks;
+      }
+      this.syncCompletion(draft, false);
+    });
+  }
+
+  /**
+   * Move a subtask within its todo's checklist.
+   * @param todoId - ID of the todo
+   * @param subtaskId - ID of the subtask
+   * @param toIndex - New position; clamped to the checklist
+   */
+  moveSubtask(todoId: string, subtaskId: string, toIndex: number): void {
+    const subtasks = this.todoView.getById(todoId)?.subtasks ?? [];
+    const target = Math.min(Math.max(toIndex, 0), subtasks.length - 1);
+    if (subtasks[target]?.id === subtaskId) {
+      return;
+    }
+    this.updateSubtasks(todoId, subtaskId, (draft, index) => {
+      const [subtask] = draft.subtasks!.splice(index, 1);
+      draft.subtasks!.splice(target, 0, subtask);
     });
   }
 
@@ -71,4 +269,174 @@ export class TodoService implements ITodoService {
   removeTodo(id: string): void {
     this.todoView.removeItem(id);
   }
+
+  /**
+   * Remove every completed todo of the list.
+   * Runs as one `updateItems` write, so it is a single undo step and
+   * leaves the remaining todo objects untouched.
+   * @returns Number of todos removed
+   */
+  clearCompleted(): number {
+    const todos = this.todoView.getItems();
+    let removed = 0;
+    this.todoView.updateItems((draft) => {
+      // Walk backwards so splicing does not shift the positions still to check
+      for (let i = todos.length - 1; i >= 0; i--) {
+        if (todos[i].completed && belongsToList(todos[i], this.scope.listId)) {
+          draft.splice(i, 1);
+          removed++;
+        }
+      }
+    });
+    return removed;
+  }
+
+  /**
+   * Revert the most recent change to the todos.
+   * @returns True if a change was undone
+   */
+  undo(): boolean {
+    return this.masterStore.undo(TODOS_KEY);
+  }
+
+  /**
+   * Re-apply the most recently undone change to the todos.
+   * @returns True if a change was redone
+   */
+  redo(): boolean {
+    return this.masterStore.redo(TODOS_KEY);
+  }
+
+  /**
+   * Check whether there is a todo change that can be undone.
+   */
+  canUndo(): boolean {
+    return this.masterStore.canUndo(TODOS_KEY);
+  }
+
+  /**
+   * Check whether there is an undone todo change that can be redone.
+   */
+  canRedo(): boolean {
+    return this.masterStore.canRedo(TODOS_KEY);
+  }
+
+  /**
+   * Update a todo through one of its subtasks. Unknown todos and subtasks
+   * are ignored.
+   * @param todoId - ID of the todo
+   * @param subtaskId - ID of the subtask
+   * @param updater - Receives the todo draft and the subtask's position
+   */
+  private updateSubtasks(
+    todoId: string,
+    subtaskId: string,
+    updater: (draft: Draft<Todo>, index: number) => void
+  ): void {
+    const index = this.todoView.getById(todoId)?.subtasks?.findIndex((subtask) => subtask.id === subtaskId) ?? -1;
+    if (index === -1) {
+      return;
+    }
+    this.todoView.updateItem(todoId, (draft) => updater(draft, index));
+  }
+
+  /**
+   * Apply `autoCompleteParent` after a subtask change: complete the todo
+   * once every subtask is done, or reopen it if the change left an open one.
+   * @param draft - Todo being updated
+   * @param reopened - Whether the change added or reopened a subtask
+   */
+  private syncCompletion(draft: Draft<Todo>, reopened: boolean): void {
+    if (!this.subtaskOptions.autoCompleteParent || !draft.subtasks?.length) {
+      return;
+    }
+    if (draft.subtasks.every((subtask) => subtask.completed)) {
+      draft.completed = true;
+    } else if (reopened) {
+      draft.completed = false;
+    }
+  }
+
+  /**
+   * ID for a new subtask, unique within its todo.
+   */
+  private newSubtaskId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substring(2, 9);
+  }
+
+  /**
+   * Run a write that may introduce new tags, creating their metadata in the
+   * same transaction. Writes without tags run as they are.
+   * @param tags - Normalized tag names used by the write
+   * @param write - Function writing the todo
+   */
+  private withTags<R>(tags: readonly string[], write: () => R): R {
+    if (tags.length === 0) {
+      return write();
+    }
+    return this.masterStore.transaction(() => {
+      const result = write();
+      this.tagService.ensureTags(tags);
+      return result;
+    });
+  }
+
+  /**
+   * Add the next occurrence of a recurring todo: a copy with open subtasks,
+   * due at the occurrence and with its reminder moved along by as much.
+   * @param todo - Todo being completed
+   * @param from - When it was due
+   * @param next - The occurrence to add
+   */
+  private addOccurrence(todo: Todo, from: Date, next: TodoOccurrence): Todo {
+    const shift = next.date.getTime() - from.getTime();
+    return this.todoView.addItem({
+      text: todo.text,
+      completed: false,
+      createdAt: new Date(this.clock.now()),
+      dueAt: next.date,
+      ...(todo.remindAt && { remindAt: new Date(todo.remindAt.getTime() + shift) }),
+      ...(todo.priority && { priority: todo.priority }),
+      ...(todo.tags && { tags: todo.tags }),
+      ...(todo.subtasks && { subtasks: todo.subtasks.map((subtask) => ({ ...subtask, completed: false })) }),
+      recurrence: { ...todo.recurrence!, occurrence: next.occurrence },
+      ...(todo.listId !== undefined && { listId: todo.listId }),
+      order: keyBetween(this.lastOrder(), null),
+    });
+  }
+
+  /**
+   * Highest order key in use, or null if no todo has one.
+   */
+  private lastOrder(): string | null {
+    let last: string | null = null;
+    for (const todo of this.todoView.getItems()) {
+      if (todo.order !== undefined && (last === null || todo.order > last)) {
+        last = todo.order;
+      }
+    }
+    return last;
+  }
+
+  /**
+   * Give todos without an order key (created before ordering existed) keys
+   * in front of all others, keeping their current order.
+   */
+  private assignMissingOrder(): void {
+    const todos = this.todoView.getItems();
+    const unordered = todos.filter((todo) => todo.order === undefined);
+    if (unordered.length === 0) {
+      return;
+    }
+
+    const first = sortTodos(todos, 'manual').find((todo) => todo.order !== undefined)?.order ?? null;
+    const positions = new Map(unordered.map((todo, i) => [todo.id, i]));
+    const orders = keysBetween(null, first, unordered.length);
+    this.todoView.updateItemsWhere(
+      (todo) => todo.order === undefined,
+      (draft) => {
+        draft.order = orders[positions.get(draft.id)!];
+      }
+    );
+  }
 }
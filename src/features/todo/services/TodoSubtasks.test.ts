@@ -0,0 +1,185 @@
+import { configureTodoContainer, subtaskProgress, TODO_TYPES } from '../index';
+import type { ITodoService, Todo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+import { ValidationError } from '@/store/schema';
+
+describe('Todo subtasks', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let todoView: StoreView<Todo>;
+  let todo: Todo;
+
+  const current = () => todoView.getById(todo.id)!;
+  const texts = () => current().subtasks?.map((subtask) => subtask.text);
+
+  const setup = (autoCompleteParent?: boolean) => {
+    masterStore = new MasterStore({ history: { limit: 10 } });
+    const container = configureTodoContainer(masterStore);
+    if (autoCompleteParent !== undefined) {
+      container.rebind(TODO_TYPES.SubtaskOptions).toConstantValue({ autoCompleteParent });
+    }
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+    todo = todoService.addTodo({ text: 'Pack for trip' });
+  };
+
+  describe('Editing the checklist', () => {
+    beforeEach(() => setup());
+
+    test('addSubtask appends trimmed, open subtasks with unique IDs', () => {
+      const socks = todoService.addSubtask(todo.id, '  Socks ');
+      const shirts = todoService.addSubtask(todo.id, 'Shirts');
+
+      expect(current().subtasks).toEqual([
+        { id: socks!.id, text: 'Socks', completed: false },
+        { id: shirts!.id, text: 'Shirts', completed: false },
+      ]);
+      expect(socks!.id).not.toBe(shirts!.id);
+      expect(subtaskProgress(current())).toEqual({ done: 0, total: 2 });
+    });
+
+    test('addSubtask ignores unknown todos and rejects empty text', () => {
+      expect(todoService.addSubtask('missing', 'Socks')).toBeUndefined();
+      expect(() => todoService.addSubtask(todo.id, '   ')).toThrow(ValidationError);
+      expect(current()).not.toHaveProperty('subtasks');
+    });
+
+    test('toggleSubtask flips one subtask', () => {
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      todoService.addSubtask(todo.id, 'Shirts');
+
+      todoService.toggleSubtask(todo.id, socks.id);
+      expect(subtaskProgress(current())).toEqual({ done: 1, total: 2 });
+
+      todoService.toggleSubtask(todo.id, socks.id);
+      expect(subtaskProgress(current())).toEqual({ done: 0, total: 2 });
+    });
+
+    test('removeSubtask drops the subtasks field with the last one', () => {
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      const shirts = todoService.addSubtask(todo.id, 'Shirts')!;
+
+      todoService.removeSubtask(todo.id, socks.id);
+      expect(texts()).toEqual(['Shirts']);
+
+      todoService.removeSubtask(todo.id, shirts.id);
+      expect(current()).not.toHaveProperty('subtasks');
+    });
+
+    test('moveSubtask reorders and clamps the target position', () => {
+      const [a, , c] = ['A', 'B', 'C'].map((text) => todoService.addSubtask(todo.id, text)!);
+
+      todoService.moveSubtask(todo.id, c.id, 0);
+      expect(texts()).toEqual(['C', 'A', 'B']);
+
+      todoService.moveSubtask(todo.id, a.id, 99);
+      expect(texts()).toEqual(['C', 'B', 'A']);
+    });
+
+    test('unknown subtasks and no-op moves leave the todo untouched', () => {
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      const before = current();
+
+      todoService.toggleSubtask(todo.id, 'missing');
+      todoService.removeSubtask(todo.id, 'missing');
+      todoService.moveSubtask(todo.id, socks.id, 0);
+
+      expect(current()).toBe(before);
+    });
+
+    test('each subtask change is a single undo step', () => {
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      todoService.toggleSubtask(todo.id, socks.id);
+
+      todoService.undo();
+      expect(current().subtasks![0].completed).toBe(false);
+
+      todoService.undo();
+      expect(current()).not.toHaveProperty('subtasks');
+    });
+  });
+
+  describe('Structural sharing', () => {
+    beforeEach(() => setup());
+
+    test('changing a subtask only replaces its todo and itself', () => {
+      const other = todoService.addTodo({ text: 'Other' });
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      todoService.addSubtask(todo.id, 'Shirts');
+      const before = current();
+      const otherBefore = todoView.getById(other.id);
+
+      todoService.toggleSubtask(todo.id, socks.id);
+
+      expect(current()).not.toBe(before);
+      expect(current().subtasks![0]).not.toBe(before.subtasks![0]);
+      expect(current().subtasks![1]).toBe(before.subtasks![1]);
+      expect(todoView.getById(other.id)).toBe(otherBefore);
+    });
+
+    test('reordering keeps every subtask object', () => {
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      todoService.addSubtask(todo.id, 'Shirts');
+      const [first, second] = current().subtasks!;
+
+      todoService.moveSubtask(todo.id, socks.id, 1);
+
+      expect(current().subtasks).toEqual([second, first]);
+      expect(current().subtasks![0]).toBe(second);
+      expect(current().subtasks![1]).toBe(first);
+    });
+  });
+
+  describe('Auto-completing the parent', () => {
+    test('finishing every subtask completes the todo; reopening one reopens it', () => {
+      setup();
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      const shirts = todoService.addSubtask(todo.id, 'Shirts')!;
+
+      todoService.toggleSubtask(todo.id, socks.id);
+      expect(current().completed).toBe(false);
+
+      todoService.toggleSubtask(todo.id, shirts.id);
+      expect(current().completed).toBe(true);
+
+      todoService.toggleSubtask(todo.id, shirts.id);
+      expect(current().completed).toBe(false);
+    });
+
+    test('adding a subtask reopens a completed todo; removing the last open one completes it', () => {
+      setup();
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      todoService.toggleSubtask(todo.id, socks.id);
+      expect(current().completed).toBe(true);
+
+      const shirts = todoService.addSubtask(todo.id, 'Shirts')!;
+      expect(current().completed).toBe(false);
+
+      todoService.removeSubtask(todo.id, shirts.id);
+      expect(current().completed).toBe(true);
+    });
+
+    test('a todo completed by hand stays completed when a done subtask is removed', () => {
+      setup();
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+      todoService.addSubtask(todo.id, 'Shirts');
+      todoService.toggleTodo(todo.id);
+
+      todoService.removeSubtask(todo.id, socks.id);
+
+      expect(current().completed).toBe(true);
+    });
+
+    test('can be turned off by rebinding the subtask options', () => {
+      setup(false);
+      const socks = todoService.addSubtask(todo.id, 'Socks')!;
+
+      todoService.toggleSubtask(todo.id, socks.id);
+      expect(current().completed).toBe(false);
+
+      todoService.toggleTodo(todo.id);
+      todoService.addSubtask(todo.id, 'Shirts');
+      expect(current().completed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,569 @@
+import {
+  configureTodoContainer,
+  getTodoConflictView,
+  RestTodoRepository,
+  TODO_TYPES,
+  TODOS_KEY,
+  TODO_SYNC_KEY,
+  TodoRepositoryError,
+} from '../index';
+import type { Clock, Connectivity, ITodoService, ITodoSyncService, Todo, TodoSyncOptions } from '../index';
+import { MasterStore } from '@/store/MasterStore';
+import { MemoryStorageAdapter } from '@/store/persistence';
+import { FakeTodoServer } from '@/test/fakeTodoServer';
+
+/**
+ * Clock whose timers only run when the test advances it.
+ */
+class ManualClock implements Clock {
+  private time = 0;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + delayMs, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+    this.timers.forEach((timer, handle) => {
+      if (timer.at <= this.time) {
+        this.timers.delete(handle);
+        timer.callback();
+      }
+    });
+  }
+}
+
+/**
+ * Connection state following the fake server.
+ */
+class FakeConnectivity implements Connectivity {
+  private listeners = new Set<(online: boolean) => void>();
+
+  constructor(private server: FakeTodoServer) {}
+
+  isOnline(): boolean {
+    return this.server.online;
+  }
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  set(online: boolean): void {
+    this.server.online = online;
+    this.listeners.forEach((listener) => listener(online));
+  }
+}
+
+const OPTIONS: TodoSyncOptions = { maxAttempts: 3, retryDelayMs: 1000, maxRetryDelayMs: 5000 };
+
+const remoteTodo = (id: string, text: string): Todo => ({
+  id,
+  text,
+  completed: false,
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  order: 'a0',
+});
+
+describe('TodoSyncService', () => {
+  let server: FakeTodoServer;
+  let connectivity: FakeConnectivity;
+  let clock: ManualClock;
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let syncService: ITodoSyncService;
+  let stop: () => void;
+
+  const setup = (store = new MasterStore()) => {
+    masterStore = store;
+    const container = configureTodoContainer(masterStore);
+    container.bind(TODO_TYPES.RestRepositoryOptions).toConstantValue({ baseUrl: server.baseUrl, fetch: server.fetch });
+    container.bind(TODO_TYPES.TodoRepository).to(RestTodoRepository).inSingletonScope();
+    container.rebind(TODO_TYPES.Connectivity).toConstantValue(connectivity);
+    container.rebind(TODO_TYPES.SyncOptions).toConstantValue(OPTIONS);
+    container.rebind(TODO_TYPES.Clock).toConstantValue(clock);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    syncService = container.get<ITodoSyncService>(TODO_TYPES.TodoSyncService);
+  };
+
+  /** Run due retries and wait for the requests they make */
+  const advance = async (ms: number) => {
+    clock.advance(ms);
+    await syncService.flush();
+  };
+
+  const requests = () => server.requests.map(({ method, path }) => `${method} ${path}`);
+
+  beforeEach(() => {
+    server = new FakeTodoServer();
+    connectivity = new FakeConnectivity(server);
+    clock = new ManualClock();
+    setup();
+    stop = syncService.start();
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  describe('Sending changes', () => {
+    test('new todos are shown at once and sent afterwards', async () => {
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+
+      expect(todoService.getAllTodos().map(({ text }) => text)).toEqual(['Buy milk']);
+      // Marked pending once the change has been notified to every subscriber
+      expect(syncService.getSyncState(todo.id)).toBeUndefined();
+      await Promise.resolve();
+      expect(syncService.getSyncState(todo.id)).toEqual({ id: todo.id, status: 'pending' });
+
+      await syncService.flush();
+
+      expect(requests()).toEqual(['POST /todos']);
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ text: 'Buy milk', completed: false }));
+      expect(syncService.getSyncState(todo.id)).toEqual(
+        expect.objectContaining({ id: todo.id, status: 'synced', remote: true })
+      );
+    });
+
+    test('listeners are told of a change before its todos are marked pending', async () => {
+      const changedKeys: string[][] = [];
+      masterStore.subscribeActions((action) => changedKeys.push(action.keys));
+
+      todoService.addTodo({ text: 'Buy milk' });
+      await Promise.resolve();
+
+      expect(changedKeys).toEqual([[TODOS_KEY], [TODO_SYNC_KEY]]);
+    });
+
+    test('edits and removals are sent as updates and deletes', async () => {
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+
+      todoService.toggleTodo(todo.id);
+      await syncService.flush();
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ completed: true }));
+
+      todoService.removeTodo(todo.id);
+      await syncService.flush();
+
+      expect(requests()).toEqual([
+        'POST /todos',
+        `GET /todos/${todo.id}`,
+        `PUT /todos/${todo.id}`,
+        `DELETE /todos/${todo.id}`,
+      ]);
+      expect(server.list()).toEqual([]);
+      expect(syncService.getSyncState(todo.id)).toBeUndefined();
+    });
+
+    test('undoing a change sends the restored todo', async () => {
+      stop();
+      setup(new MasterStore({ history: { limit: 10, keys: [TODOS_KEY] } }));
+      stop = syncService.start();
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      todoService.updateTodo(todo.id, { text: 'Buy oat milk' });
+      await syncService.flush();
+
+      masterStore.undo();
+      await syncService.flush();
+
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ text: 'Buy milk' }));
+    });
+
+    test('a todo changed while being sent is sent again', async () => {
+      const todo = todoService.addTodo({ text: 'Draft' });
+      const sending = syncService.flush();
+      // Let the todo be marked pending and sending start
+      await Promise.resolve();
+      todoService.updateTodo(todo.id, { text: 'Final' });
+      await sending;
+      await syncService.flush();
+
+      expect(requests()).toEqual(['POST /todos', `GET /todos/${todo.id}`, `PUT /todos/${todo.id}`]);
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ text: 'Final' }));
+      expect(syncService.getSyncState(todo.id)?.status).toBe('synced');
+    });
+
+    test('todos the server already has are updated instead of created', async () => {
+      server.seed(remoteTodo('shared', 'Sent before'));
+      masterStore.getView<Todo>('todos').setItem(remoteTodo('shared', 'Sent before'));
+      await syncService.flush();
+
+      expect(requests()).toEqual(['POST /todos', 'GET /todos/shared', 'PUT /todos/shared']);
+      expect(syncService.getSyncState('shared')?.status).toBe('synced');
+    });
+  });
+
+  describe('Offline queue', () => {
+    test('changes made offline are sent in order on reconnecting', async () => {
+      connectivity.set(false);
+      const first = todoService.addTodo({ text: 'First' });
+      const second = todoService.addTodo({ text: 'Second' });
+      await syncService.flush();
+
+      expect(requests()).toEqual([]);
+      expect(syncService.getSyncState(first.id)?.status).toBe('pending');
+
+      connectivity.set(true);
+      await syncService.flush();
+
+      expect(requests()).toEqual(['POST /todos', 'POST /todos']);
+      expect(server.list().map((todo) => todo.id)).toEqual([first.id, second.id]);
+    });
+
+    test('several offline edits of a todo become one request', async () => {
+      const todo = todoService.addTodo({ text: 'Draft' });
+      await syncService.flush();
+      connectivity.set(false);
+
+      todoService.updateTodo(todo.id, { text: 'Second draft' });
+      todoService.updateTodo(todo.id, { text: 'Final' });
+      todoService.toggleTodo(todo.id);
+      connectivity.set(true);
+      await syncService.flush();
+
+      expect(requests()).toEqual(['POST /todos', `GET /todos/${todo.id}`, `PUT /todos/${todo.id}`]);
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ text: 'Final', completed: true }));
+    });
+
+    test('todos added and removed offline are never sent', async () => {
+      connectivity.set(false);
+      const todo = todoService.addTodo({ text: 'Typo' });
+      todoService.removeTodo(todo.id);
+      connectivity.set(true);
+      await syncService.flush();
+
+      expect(requests()).toEqual([]);
+      expect(syncService.getSyncState(todo.id)).toBeUndefined();
+    });
+
+    test('a request failing because the connection dropped waits for it to return', async () => {
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      server.online = false;
+      await syncService.flush();
+
+      expect(syncService.getSyncState(todo.id)?.status).toBe('pending');
+
+      connectivity.set(true);
+      await syncService.flush();
+
+      expect(syncService.getSyncState(todo.id)?.status).toBe('synced');
+    });
+
+    test('changes left unsent before a reload are sent after it', async () => {
+      stop();
+      const adapter = new MemoryStorageAdapter({
+        todos: [remoteTodo('edited', 'Edited offline'), remoteTodo('done', 'Synced')],
+        todoSync: [
+          { id: 'edited', status: 'pending', remote: true },
+          { id: 'done', status: 'synced', remote: true },
+          { id: 'removed', status: 'pending', remote: true },
+        ],
+      });
+      server.seed(remoteTodo('edited', 'Edited offline'), remoteTodo('removed', 'Removed offline'));
+      setup(new MasterStore({ persistence: { adapter } }));
+      stop = syncService.start();
+      await syncService.flush();
+
+      expect(requests()).toEqual(['GET /todos/edited', 'PUT /todos/edited', 'DELETE /todos/removed']);
+    });
+  });
+
+  describe('Retries', () => {
+    test('failed requests are retried with growing delays, then marked failed', async () => {
+      server.failNext(3);
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+      expect(requests()).toHaveLength(1);
+
+      await advance(999);
+      expect(requests()).toHaveLength(1);
+      await advance(1);
+      expect(requests()).toHaveLength(2);
+
+      await advance(1999);
+      expect(requests()).toHaveLength(2);
+      await advance(1);
+      expect(requests()).toHaveLength(3);
+
+      expect(syncService.getSyncState(todo.id)).toEqual({
+        id: todo.id,
+        status: 'failed',
+        error: 'POST /todos failed with 500 Internal Server Error',
+      });
+    });
+
+    test('a request that succeeds on retry is synced', async () => {
+      server.failNext(1, 503);
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+      await advance(1000);
+
+      expect(syncService.getSyncState(todo.id)?.status).toBe('synced');
+    });
+
+    test('rejected changes are marked failed without retrying', async () => {
+      server.failNext(1, 400);
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+      await advance(60000);
+
+      expect(requests()).toHaveLength(1);
+      expect(syncService.getSyncState(todo.id)?.status).toBe('failed');
+    });
+
+    test('later changes wait until the change being retried is sent', async () => {
+      server.failNext(1);
+      const first = todoService.addTodo({ text: 'First' });
+      todoService.addTodo({ text: 'Second' });
+      await syncService.flush();
+      expect(requests()).toEqual(['POST /todos']);
+
+      await advance(1000);
+
+      expect(server.list().map((todo) => todo.text)).toEqual(['First', 'Second']);
+      expect(syncService.getSyncState(first.id)?.status).toBe('synced');
+    });
+
+    test('retry sends failed todos again', async () => {
+      server.failNext(1, 400);
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+
+      syncService.retry(todo.id);
+      expect(syncService.getSyncState(todo.id)?.status).toBe('pending');
+      await syncService.flush();
+
+      expect(syncService.getSyncState(todo.id)?.status).toBe('synced');
+    });
+
+    test('changing a failed todo sends it again', async () => {
+      server.failNext(1, 400);
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+
+      todoService.updateTodo(todo.id, { text: 'Buy oat milk' });
+      await syncService.flush();
+
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ text: 'Buy oat milk' }));
+    });
+  });
+
+  describe('Store errors', () => {
+    test('a todo whose sync state the store rejects after sending is marked failed', async () => {
+      masterStore.use((context, next) => {
+        if (context.key === TODO_SYNC_KEY && (context.next as Array<{ status: string }>).some((state) => state.status === 'synced')) {
+          throw new Error('Sync state rejected');
+        }
+        next(context);
+      });
+      const todo = todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+
+      expect(server.get(todo.id)).toEqual(expect.objectContaining({ text: 'Buy milk' }));
+      expect(syncService.getSyncState(todo.id)).toEqual(
+        expect.objectContaining({ status: 'failed', error: 'Sync state rejected' })
+      );
+    });
+
+    test('changes the sync view cannot record are reported instead of rejecting', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const rejected = new Error('Sync view read-only');
+      masterStore.use((context, next) => {
+        if (context.key === TODO_SYNC_KEY) {
+          throw rejected;
+        }
+        next(context);
+      });
+      todoService.addTodo({ text: 'Buy milk' });
+
+      await expect(syncService.flush()).resolves.toBeUndefined();
+      expect(consoleError).toHaveBeenCalledWith(rejected);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Pulling', () => {
+    test('loads todos from the server without sending them back', async () => {
+      server.seed(remoteTodo('remote', 'From the server'));
+
+      await syncService.pull();
+      await syncService.flush();
+
+      const [todo] = todoService.getAllTodos();
+      expect(todo).toEqual(remoteTodo('remote', 'From the server'));
+      expect(todo.createdAt).toBeInstanceOf(Date);
+      expect(syncService.getSyncState('remote')).toEqual({ id: 'remote', status: 'synced', remote: true });
+      expect(requests()).toEqual(['GET /todos']);
+    });
+
+    test('synced todos take the server version; unsent changes are kept', async () => {
+      const synced = todoService.addTodo({ text: 'Synced' });
+      const removed = todoService.addTodo({ text: 'Removed elsewhere' });
+      await syncService.flush();
+      connectivity.set(false);
+      const unsent = todoService.addTodo({ text: 'Unsent' });
+
+      server.seed({ ...server.get(synced.id), text: 'Edited elsewhere' });
+      server.seed({ id: unsent.id, text: 'Conflicting', completed: false, createdAt: new Date() });
+      server.seed(remoteTodo('new', 'New elsewhere'));
+      server.remove(removed.id);
+      server.online = true;
+      server.requests.length = 0;
+      await syncService.pull();
+
+      expect(todoService.getAllTodos().map((todo) => todo.text)).toEqual(['Edited elsewhere', 'Unsent', 'New elsewhere']);
+      expect(syncService.getSyncState(removed.id)).toBeUndefined();
+      // Created on both sides with the same ID
+      expect(syncService.getSyncState(unsent.id)?.status).toBe('conflict');
+    });
+
+    test('keeps unchanged todos', async () => {
+      todoService.addTodo({ text: 'Buy milk' });
+      await syncService.flush();
+      const [todo] = todoService.getAllTodos();
+
+      await syncService.pull();
+
+      expect(todoService.getAllTodos()[0]).toBe(todo);
+    });
+
+    test('keeps todos the server sends with their keys in another order', async () => {
+      todoService.addTodo({ text: 'Buy milk', tags: ['errands'] });
+      await syncService.flush();
+      const [todo] = todoService.getAllTodos();
+      const reversed = (value: Record<string, unknown>) => Object.fromEntries(Object.entries(value).reverse());
+      const stored = server.get(todo.id)!;
+      server.seed(reversed({ ...stored, versions: reversed(stored.versions as Record<string, unknown>) }));
+
+      await syncService.pull();
+
+      expect(todoService.getAllTodos()[0]).toBe(todo);
+    });
+
+    test('rejects when the server cannot be reached', async () => {
+      server.online = false;
+
+      await expect(syncService.pull()).rejects.toBeInstanceOf(TodoRepositoryError);
+    });
+  });
+
+  describe('Merging', () => {
+    /** Change a todo on the server as another replica with a later clock would */
+    const editRemotely = (id: string, patch: Partial<Todo>) => {
+      const remote = server.get(id) as unknown as Todo;
+      const versions = { ...remote.versions };
+      Object.keys(patch).forEach((field) => {
+        versions[field as keyof typeof versions] = { clock: 100, replica: 'other' };
+      });
+      server.seed({ ...remote, ...patch, versions });
+    };
+
+    let id: string;
+    beforeEach(async () => {
+      id = todoService.addTodo({ text: 'Buy milk' }).id;
+      await syncService.flush();
+      server.requests.length = 0;
+    });
+
+    test('local writes give the changed fields a new version', () => {
+      const before = todoService.getAllTodos()[0].versions!;
+      todoService.toggleTodo(id);
+      const after = todoService.getAllTodos()[0].versions!;
+
+      expect(after.text).toEqual(before.text);
+      expect(after.completed!.clock).toBeGreaterThan(before.text!.clock);
+    });
+
+    test('different fields changed on both sides are merged', async () => {
+      editRemotely(id, { completed: true });
+      todoService.updateTodo(id, { text: 'Buy oat milk' });
+      await syncService.flush();
+
+      expect(requests()).toEqual([`GET /todos/${id}`, `PUT /todos/${id}`]);
+      expect(server.get(id)).toEqual(expect.objectContaining({ text: 'Buy oat milk', completed: true }));
+      expect(todoService.getAllTodos()[0]).toEqual(expect.objectContaining({ text: 'Buy oat milk', completed: true }));
+      expect(syncService.getSyncState(id)?.status).toBe('synced');
+    });
+
+    test('the same field changed on both sides is a conflict kept until resolved', async () => {
+      editRemotely(id, { text: 'Buy soy milk', completed: true });
+      todoService.updateTodo(id, { text: 'Buy oat milk' });
+      await syncService.flush();
+
+      expect(requests()).toEqual([`GET /todos/${id}`]);
+      expect(syncService.getSyncState(id)?.status).toBe('conflict');
+      expect(todoService.getAllTodos()[0]).toEqual(expect.objectContaining({ text: 'Buy oat milk', completed: true }));
+      expect(getTodoConflictView(masterStore).getById(id)).toEqual(
+        expect.objectContaining({
+          fields: ['text'],
+          local: expect.objectContaining({ text: 'Buy oat milk' }),
+          remote: expect.objectContaining({ text: 'Buy soy milk' }),
+        })
+      );
+
+      // Pulling neither overwrites the todo nor sends it
+      await syncService.pull();
+      expect(todoService.getAllTodos()[0].text).toBe('Buy oat milk');
+      expect(requests()).toEqual([`GET /todos/${id}`, 'GET /todos']);
+    });
+
+    test.each([
+      ['local', 'Buy oat milk'],
+      ['remote', 'Buy soy milk'],
+    ] as const)('resolving a conflict with the %s text sends it', async (choice, text) => {
+      editRemotely(id, { text: 'Buy soy milk' });
+      todoService.updateTodo(id, { text: 'Buy oat milk' });
+      await syncService.flush();
+
+      syncService.resolveConflict(id, choice);
+      await syncService.flush();
+
+      expect(getTodoConflictView(masterStore).getItems()).toEqual([]);
+      expect(todoService.getAllTodos()[0].text).toBe(text);
+      expect(server.get(id)).toEqual(expect.objectContaining({ text }));
+      expect(syncService.getSyncState(id)?.status).toBe('synced');
+    });
+
+    test('concurrent moves are settled by the later one', async () => {
+      editRemotely(id, { order: 'zz' });
+      connectivity.set(false);
+      todoService.updateTodo(id, { text: 'Buy oat milk' });
+      masterStore.getView<Todo>(TODOS_KEY).updateItem(id, (todo) => {
+        todo.order = 'b0';
+      });
+      connectivity.set(true);
+      await syncService.flush();
+
+      expect(server.get(id)).toEqual(expect.objectContaining({ text: 'Buy oat milk', order: 'zz' }));
+      expect(syncService.getSyncState(id)?.status).toBe('synced');
+    });
+  });
+
+  describe('Without a repository', () => {
+    test('is disabled and leaves the todos alone', async () => {
+      const container = configureTodoContainer(new MasterStore());
+      const service = container.get<ITodoSyncService>(TODO_TYPES.TodoSyncService);
+      const release = service.start();
+      const todo = container.get<ITodoService>(TODO_TYPES.TodoService).addTodo({ text: 'Local only' });
+      await service.pull();
+
+      expect(service.isEnabled()).toBe(false);
+      expect(service.getSyncState(todo.id)).toBeUndefined();
+      release();
+    });
+  });
+});
@@ -0,0 +1,655 @@
+import { injectable, inject, optional } from 'inversify';
+import type { MasterStore, StoreActionListener, StoreView } from '@/store/MasterStore';
+import type { StoreMiddleware } from '@/store/middleware';
+import type { SyncVersion } from '@/store/sync';
+import { TODO_TYPES, TODOS_KEY, TODO_SYNC_KEY } from '../config/todo.types';
+import { getTodoSyncView, syncRetryDelay } from '../config/todo.sync';
+import type { TodoSyncOptions } from '../config/todo.sync';
+import {
+  TODO_VERSIONED_FIELDS,
+  compareTodoVersions,
+  getTodoConflictView,
+  maxTodoClock,
+  mergeTodos,
+  resolveTodoConflict,
+  sameFieldValue,
+  stampTodoVersions,
+} from '../config/todo.versions';
+import type { Todo, TodoConflict, TodoConflictChoice, TodoSyncState, TodoVersionedField } from '../types/Todo';
+import type { Clock } from './Clock';
+import type { Connectivity } from './Connectivity';
+import type { ITodoRepository } from './ITodoRepository';
+import type { ITodoSyncService } from './ITodoSyncService';
+import { TodoRepositoryError } from './TodoRepositoryError';
+
+/**
+ * Check whether two versions of a todo have the same content, so a todo
+ * loaded from the repository can keep its local object.
+ */
+function sameTodo(a: Todo, b: Todo): boolean {
+  return sameFieldValue(a, b);
+}
+
+/**
+ * Check whether a field has the same value and version in two versions of a todo.
+ */
+function sameField(a: Todo, b: Todo, field: TodoVersionedField): boolean {
+  return sameFieldValue(a[field], b[field]) && compareTodoVersions(a.versions?.[field], b.versions?.[field]) === 0;
+}
+
+const isUnsent = (state: TodoSyncState | undefined) => state?.status === 'pending' || state?.status === 'failed';
+
+/**
+ * Service layer for syncing todos with a remote repository.
+ *
+ * Follows the todos through `subscribeActions`: every todo a change adds,
+ * edits or removes - whichever service or undo step made it - is marked
+ * `pending` in the sync view once the change has been notified. Pending todos are sent in the order they
+ * were first changed, as a create, update or delete depending on whether
+ * the repository has the todo yet. Only the latest version is sent, so
+ * several edits made while offline become one request.
+ *
+ * The queue is the sync view itself, so it is persisted along with the
+ * store and replayed after a reload. Changes from other tabs are left to
+ * the tab that made them, and changes loaded by `pull` are not sent back.
+ *
+ * While started, a middleware gives every field a local write changes a
+ * new Lamport version. Before a todo the server has is updated, it is
+ * merged field by field with the server's version (see `mergeTodos`), so
+ * concurrent edits of different fields are all kept; edits of the same
+ * field are recorded as a conflict under `TODO_CONFLICTS_KEY` and the todo
+ * is not sent until `resolveConflict` is called.
+ *
+ * Errors never escape the background work: a todo whose sync state cannot
+ * be stored after sending, e.g. because a middleware rejects it, is marked
+ * `failed` with the error, and errors nothing can be recorded for are
+ * logged with `console.error`.
+ *
+ * @example
+ * ```typescript
+ * const syncService = container.get<ITodoSyncService>(TODO_TYPES.TodoSyncService);
+ * const stop = syncService.start();
+ * ```
+ */
+@injectable()
+export class TodoSyncService implements ITodoSyncService {
+  private syncView: StoreView<TodoSyncState>;
+  private starts = 0;
+  private unsubscribe: (() => void) | null = null;
+  /** Resolves once the first start has queued the todos never synced */
+  private ready: Promise<void> = Promise.resolve();
+  /** Sending loop, while it runs */
+  private draining: Promise<void> | null = null;
+  /** Set when the sending loop should look for pending todos again */
+  private drainRequested = false;
+  /** Todos changed by local actions, in the order they changed, until they are marked pending */
+  private changedIds = new Set<string>();
+  /** Marking the changed todos pending, once scheduled */
+  private marking: Promise<void> | null = null;
+  private retryTimer: unknown = null;
+  /** Failed attempts at sending each todo's latest change */
+  private attempts = new Map<string, number>();
+  /** Set while todos from the repository are stored, so they are neither versioned nor sent back */
+  private applyingRemote = false;
+  private conflictView: StoreView<TodoConflict>;
+  private readonly replicaId: string;
+  /** Lamport clock of the field versions */
+  private clock = 0;
+
+  /**
+   * Initialize TodoSyncService with injected dependencies.
+   * @param todoView - Injected StoreView holding the todos of every list
+   * @param masterStore - Injected MasterStore, followed for changes and holding the sync view
+   * @param options - Injected retry behaviour
+   * @param timeSource - Injected time source for retry delays and conflict times
+   * @param connectivity - Injected network connection state
+   * @param repository - Injected repository to sync with; sync is off without one
+   */
+  constructor(
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.MasterStore) private masterStore: MasterStore,
+    @inject(TODO_TYPES.SyncOptions) private options: TodoSyncOptions,
+    @inject(TODO_TYPES.Clock) private timeSource: Clock,
+    @inject(TODO_TYPES.Connectivity) private connectivity: Connectivity,
+    @inject(TODO_TYPES.TodoRepository) @optional() private repository?: ITodoRepository
+  ) {
+    this.syncView = getTodoSyncView(masterStore);
+    this.conflictView = getTodoConflictView(masterStore);
+    this.replicaId = options.replicaId ?? `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  isEnabled(): boolean {
+    return this.repository !== undefined;
+  }
+
+  start(): () => void {
+    if (!this.repository) {
+      return () => undefined;
+    }
+    this.starts++;
+    if (this.starts === 1) {
+      const unsubscribeStore = this.masterStore.subscribeActions(this.handleAction);
+      const removeMiddleware = this.masterStore.use(this.stampVersions);
+      const unsubscribeConnectivity = this.connectivity.subscribe((online) => {
+        if (online) {
+          void this.drain();
+        }
+      });
+      this.unsubscribe = () => {
+        unsubscribeStore();
+        removeMiddleware();
+        unsubscribeConnectivity();
+      };
+      // Wait for persisted sync state before deciding what was never synced
+      this.ready = this.masterStore.whenHydrated().then(() => {
+        if (this.starts > 0) {
+          this.observe(this.todoView.getItems());
+          this.markPending(this.todoView.getItems().filter((todo) => !this.syncView.getById(todo.id)).map((todo) => todo.id));
+          void this.drain();
+        }
+      }).catch((error) => this.reportError(error));
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.starts--;
+      if (this.starts === 0) {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.cancelRetry();
+      }
+    };
+  }
+
+  async pull(): Promise<void> {
+    if (!this.repository) {
+      return;
+    }
+    const remote = await this.repository.list();
+    await this.masterStore.whenHydrated();
+    this.observe(remote);
+
+    const remoteById = new Map(remote.map((todo) => [todo.id, todo]));
+    const states = new Map(this.syncView.getItems().map((state) => [state.id, state]));
+    // Keeps the order of existing states; states added are queued last
+    const nextStates = new Map(states);
+    const conflicts: TodoConflict[] = [];
+    const todos: Todo[] = [];
+
+    const takeRemote = (todo: Todo | undefined, remoteTodo: Todo) => {
+      todos.push(todo && sameTodo(todo, remoteTodo) ? todo : remoteTodo);
+      const state = states.get(remoteTodo.id);
+      if (!(state?.status === 'synced' && state.remote && sameFieldValue(state.base, remoteTodo.versions))) {
+        nextStates.set(remoteTodo.id, this.syncedState(remoteTodo));
+      }
+    };
+
+    const local = this.todoView.getItems();
+    const localIds = new Set(local.map((todo) => todo.id));
+    local.forEach((todo) => {
+      const state = states.get(todo.id);
+      const remoteTodo = remoteById.get(todo.id);
+      if (!remoteTodo) {
+        // Todos never sent are kept, and so are local changes to todos removed remotely
+        if (isUnsent(state) || state?.status === 'conflict' || !state?.remote) {
+          todos.push(todo);
+        } else {
+          nextStates.delete(todo.id);
+        }
+      } else if (state?.status === 'conflict') {
+        todos.push(todo);
+      } else if (isUnsent(state)) {
+        // Take the remote changes now; the local ones are sent with them
+        const merged = mergeTodos(todo, remoteTodo, state!.base);
+        todos.push(sameTodo(merged.todo, todo) ? todo : merged.todo);
+        if (merged.conflicts.length > 0) {
+          conflicts.push(this.conflictOf(todo, remoteTodo, merged.conflicts));
+          nextStates.set(todo.id, { ...state!, status: 'conflict', remote: true });
+        } else if (!state!.remote) {
+          nextStates.set(todo.id, { ...state!, remote: true });
+        }
+      } else {
+        takeRemote(todo, remoteTodo);
+      }
+    });
+    remote.forEach((remoteTodo) => {
+      const state = states.get(remoteTodo.id);
+      // Todos removed here are still to be removed remotely
+      if (!localIds.has(remoteTodo.id) && (!state || state.status === 'synced')) {
+        takeRemote(undefined, remoteTodo);
+      }
+    });
+
+    this.applyingRemote = true;
+    try {
+      this.masterStore.transaction(() => {
+        this.todoView.updateItems(() => todos);
+        this.syncView.updateItems(() => Array.from(nextStates.values()));
+        conflicts.forEach((conflict) => this.setConflict(conflict));
+      }, 'pullTodos');
+    } finally {
+      this.applyingRemote = false;
+    }
+    // Todos never sent are queued by `start`; send them now if it has run
+    void this.drain();
+  }
+
+  resolveConflict(id: string, choice: TodoConflictChoice): void {
+    const conflict = this.conflictView.getById(id);
+    if (!conflict) {
+      return;
+    }
+    const todo = this.todoView.getById(id);
+    this.applyingRemote = true;
+    try {
+      this.masterStore.transaction(() => {
+        if (todo) {
+          this.replaceTodo(resolveTodoConflict(todo, conflict, choice, this.nextVersion()));
+        }
+        this.conflictView.removeItem(id);
+        // Merged against the server's version next time, which now has nothing in conflict
+        this.setState(id, {
+          id,
+          status: 'pending',
+          remote: true,
+          ...(conflict.remote.versions && { base: conflict.remote.versions }),
+        });
+      }, 'resolveTodoConflict');
+    } finally {
+      this.applyingRemote = false;
+    }
+    void this.drain();
+  }
+
+  retry(id?: string): void {
+    const failed = this.syncView
+      .getItems()
+      .filter((state) => state.status === 'failed' && (id === undefined || state.id === id))
+      .map((state) => state.id);
+    failed.forEach((failedId) => this.attempts.delete(failedId));
+    if (failed.length > 0) {
+      this.markPending(failed);
+    }
+    // Retrying waits for nothing, not even a scheduled retry
+    if (this.retryTimer !== null) {
+      this.cancelRetry();
+    }
+    void this.drain();
+  }
+
+  async flush(): Promise<void> {
+    await this.ready;
+    await this.marking;
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  getSyncState(id: string): TodoSyncState | undefined {
+    return this.syncView.getById(id);
+  }
+
+  /**
+   * Queue the todos a local change touched.
+   */
+  private handleAction: StoreActionListener = (action, data, previousData) => {
+    // Another tab sends its own changes; hydration and pulls load synced state
+    if (this.applyingRemote || action.type === 'sync' || action.type === 'setData') {
+      return;
+    }
+    const next: Todo[] = data[TODOS_KEY] ?? [];
+    const previous: Todo[] = previousData[TODOS_KEY] ?? [];
+    if (next !== previous) {
+      const before = new Map(previous.map((todo) => [todo.id, todo]));
+      const changed: string[] = [];
+      next.forEach((todo) => {
+        if (before.get(todo.id) !== todo) {
+          changed.push(todo.id);
+        }
+        before.delete(todo.id);
+      });
+      before.forEach((_, id) => changed.push(id));
+      changed.forEach((id) => this.changedIds.add(id));
+    }
+    // Also picks up todos retried through another container's service
+    if (next !== previous || action.keys.includes(TODO_SYNC_KEY)) {
+      void this.markChanged();
+    }
+  };
+
+  /**
+   * Mark the changed todos pending and send them once the action being
+   * notified has finished. Writing the sync view from inside an action
+   * listener would notify the store's later subscribers of a newer state
+   * while the action's own notification is still going on.
+   */
+  private markChanged(): Promise<void> {
+    if (!this.marking) {
+      this.marking = Promise.resolve().then(() => {
+        this.marking = null;
+        const ids = Array.from(this.changedIds);
+        this.changedIds.clear();
+        this.markPending(ids);
+        void this.drain();
+      }).catch((error) => this.reportError(error));
+    }
+    return this.marking;
+  }
+
+  /**
+   * Mark todos pending, queueing those that were not after the others.
+   */
+  private markPending(ids: string[]): void {
+    if (ids.length === 0) {
+      return;
+    }
+    this.syncView.updateItems((draft) => {
+      ids.forEach((id) => {
+        const index = draft.findIndex((state) => state.id === id);
+        if (index === -1) {
+          draft.push({ id, status: 'pending' });
+        } else if (draft[index].status !== 'pending') {
+          const [state] = draft.splice(index, 1);
+          state.status = 'pending';
+          delete state.error;
+          draft.push(state);
+        }
+      });
+    });
+  }
+
+  /**
+   * Run the sending loop, or have the running loop look for pending todos again.
+   */
+  private drain(): Promise<void> {
+    this.drainRequested = true;
+    if (!this.draining) {
+      const run = async () => {
+        try {
+          while (this.drainRequested) {
+            this.drainRequested = false;
+            await this.sendPending();
+          }
+        } catch (error) {
+          this.reportError(error);
+        } finally {
+          // Cleared in the same step the loop ends, so no request to drain is missed
+          this.draining = null;
+        }
+      };
+      this.draining = run();
+    }
+    return this.draining;
+  }
+
+  /**
+   * Send pending todos one at a time, until none is left or sending has to wait.
+   */
+  private async sendPending(): Promise<void> {
+    while (this.starts > 0 && this.retryTimer === null && this.connectivity.isOnline()) {
+      const next = this.syncView.getItems().find((state) => state.status === 'pending');
+      if (!next) {
+        return;
+      }
+      try {
+        await this.send(next);
+      } catch (error) {
+        // The store rejected a write, not the repository; retrying would fail the same way
+        this.attempts.delete(next.id);
+        this.setState(next.id, { ...next, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  /**
+   * Send the latest version of a todo, or its removal.
+   */
+  private async send(state: TodoSyncState): Promise<void> {
+    const { id } = state;
+    const todo = this.todoView.getById(id);
+    let sent: Todo | undefined;
+    try {
+      if (todo) {
+        sent = await this.upload(todo, state);
+        if (!sent) {
+          return;
+        }
+      } else if (state.remote) {
+        await this.repository!.remove(id);
+      }
+    } catch (error) {
+      this.handleFailure(id, error);
+      return;
+    }
+
+    this.attempts.delete(id);
+    if (todo && sent) {
+      this.applyRemoteFields(todo, sent);
+    }
+    const current = this.todoView.getById(id);
+    if (!current && !sent) {
+      this.setState(id, undefined);
+    } else if (current && sent && sameTodo(current, sent)) {
+      this.setState(id, this.syncedState(sent));
+    } else {
+      // Changed while the request was on its way; send the new version next
+      this.setState(id, { id, status: 'pending', ...(sent && { remote: true }), ...(sent?.versions && { base: sent.versions }) });
+    }
+  }
+
+  /**
+   * Send a todo, merged with the repository's version if it has one.
+   * @returns The todo as sent, or undefined if it conflicts with the repository's version
+   */
+  private async upload(todo: Todo, state: TodoSyncState): Promise<Todo | undefined> {
+    let remote: Todo | undefined;
+    if (state.remote) {
+      remote = await this.repository!.get(todo.id);
+    } else {
+      try {
+        await this.repository!.create(todo);
+        return todo;
+      } catch (error) {
+        // Already there, e.g. sent before its sync state was lost
+        if (!(error instanceof TodoRepositoryError && error.status === 409)) {
+          throw error;
+        }
+        remote = await this.repository!.get(todo.id);
+      }
+    }
+    if (!remote) {
+      // Removed remotely while changed here; the change brings it back
+      await this.repository!.create(todo);
+      return todo;
+    }
+
+    this.observe([remote]);
+    const merged = mergeTodos(todo, remote, state.base);
+    if (merged.conflicts.length > 0) {
+      this.applyRemoteFields(todo, merged.todo);
+      this.applyingRemote = true;
+      try {
+        this.masterStore.transaction(() => {
+          this.setConflict(this.conflictOf(todo, remote!, merged.conflicts));
+          this.setState(todo.id, { ...state, status: 'conflict', remote: true });
+        }, 'todoConflict');
+      } finally {
+        this.applyingRemote = false;
+      }
+      return undefined;
+    }
+    await this.repository!.update(merged.todo);
+    return merged.todo;
+  }
+
+  /**
+   * Store the fields a merge took from the repository, unless they have
+   * been changed locally since the merged version was read.
+   * @param before - The todo that was merged
+   * @param after - The merged todo
+   */
+  private applyRemoteFields(before: Todo, after: Todo): void {
+    const current = this.todoView.getById(before.id);
+    if (!current) {
+      return;
+    }
+    const fields = TODO_VERSIONED_FIELDS.filter(
+      (field) => !sameField(before, after, field) && sameField(current, before, field)
+    );
+    if (fields.length === 0) {
+      return;
+    }
+    const next: Record<string, unknown> = { ...current };
+    const versions = { ...current.versions };
+    fields.forEach((field) => {
+      if (after[field] === undefined) {
+        delete next[field];
+      } else {
+        next[field] = after[field];
+      }
+      if (after.versions?.[field]) {
+        versions[field] = after.versions[field];
+      } else {
+        delete versions[field];
+      }
+    });
+    next.versions = versions;
+
+    this.applyingRemote = true;
+    try {
+      this.masterStore.transaction(() => this.replaceTodo(next as unknown as Todo), 'mergeRemoteTodo');
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  /**
+   * Retry a failed request later, or mark its todo failed.
+   */
+  private handleFailure(id: string, error: unknown): void {
+    const retryable = error instanceof TodoRepositoryError && error.retryable;
+    // Offline: the change waits for the connection without using up attempts
+    if (retryable && !this.connectivity.isOnline()) {
+      return;
+    }
+
+    const attempts = (this.attempts.get(id) ?? 0) + 1;
+    if (retryable && attempts < this.options.maxAttempts) {
+      this.attempts.set(id, attempts);
+      this.retryTimer = this.timeSource.setTimeout(() => {
+        this.retryTimer = null;
+        void this.drain();
+      }, syncRetryDelay(attempts, this.options));
+      return;
+    }
+
+    this.attempts.delete(id);
+    const state = this.syncView.getById(id);
+    this.setState(id, {
+      id,
+      status: 'failed',
+      ...(state?.remote && { remote: true }),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * Give the fields changed by local writes a new version.
+   */
+  private stampVersions: StoreMiddleware = (context, next) => {
+    if (context.key !== TODOS_KEY || this.applyingRemote) {
+      next(context);
+      return;
+    }
+    const previous = new Map((context.previous as Todo[]).map((todo) => [todo.id, todo]));
+    let version: SyncVersion | undefined;
+    const todos = (context.next as Todo[]).map((todo) => {
+      const before = previous.get(todo.id);
+      if (before === todo) {
+        return todo;
+      }
+      version = version ?? this.nextVersion();
+      return stampTodoVersions(before, todo, version);
+    });
+    next({ ...context, next: todos });
+  };
+
+  private nextVersion(): SyncVersion {
+    return { clock: ++this.clock, replica: this.replicaId };
+  }
+
+  /**
+   * Move the Lamport clock past the versions of some todos.
+   */
+  private observe(todos: readonly Todo[]): void {
+    this.clock = Math.max(this.clock, maxTodoClock(todos));
+  }
+
+  private syncedState(todo: Todo): TodoSyncState {
+    return { id: todo.id, status: 'synced', remote: true, ...(todo.versions && { base: todo.versions }) };
+  }
+
+  private conflictOf(local: Todo, remote: Todo, fields: TodoVersionedField[]): TodoConflict {
+    return { id: local.id, fields, local, remote, detectedAt: this.timeSource.now() };
+  }
+
+  /**
+   * Record a conflict, replacing any earlier one of the todo.
+   */
+  private setConflict(conflict: TodoConflict): void {
+    this.conflictView.updateItems((draft) => {
+      const index = draft.findIndex((existing) => existing.id === conflict.id);
+      if (index === -1) {
+        draft.push(conflict);
+      } else {
+        draft[index] = conflict;
+      }
+    });
+  }
+
+  /**
+   * Replace a todo in the store.
+   */
+  private replaceTodo(todo: Todo): void {
+    this.todoView.updateItems((draft) => {
+      const index = draft.findIndex((existing) => existing.id === todo.id);
+      if (index !== -1) {
+        draft[index] = todo;
+      }
+    });
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer !== null) {
+      this.timeSource.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Report an error no sync state could record.
+   */
+  private reportError(error: unknown): void {
+    console.error(error);
+  }
+
+  /**
+   * Replace or remove the sync state of a todo.
+   */
+  private setState(id: string, state: TodoSyncState | undefined): void {
+    this.syncView.updateItems((draft) => {
+      const index = draft.findIndex((existing) => existing.id === id);
+      if (index !== -1 && state) {
+        draft[index] = state;
+      } else if (index !== -1) {
+        draft.splice(index, 1);
+      } else if (state) {
+        draft.push(state);
+      }
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import {
+  configureTodoContainer,
+  getTodoFilterView,
+  getTodoTag,
+  parseTodoTags,
+  setTodoTag,
+  tagColorFor,
+  TODO_TYPES,
+} from '../index';
+import type { ITodoService, ITodoTagService, Todo, TodoTag } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+import { ValidationError } from '@/store/schema';
+
+describe('Todo tags', () => {
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let tagService: ITodoTagService;
+  let todoView: StoreView<Todo>;
+  let tagView: StoreView<TodoTag>;
+
+  const tagsOf = (todo: Todo) => todoView.getById(todo.id)?.tags;
+  const tagNames = () => tagService.getTags().map((tag) => tag.name);
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    const container = configureTodoContainer(masterStore);
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    tagService = container.get<ITodoTagService>(TODO_TYPES.TodoTagService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+    tagView = container.get<StoreView<TodoTag>>(TODO_TYPES.TagView);
+  });
+
+  describe('parseTodoTags', () => {
+    test('splits #tag words out of the text', () => {
+      expect(parseTodoTags('Buy milk #errands')).toEqual({ text: 'Buy milk', tags: ['errands'] });
+      expect(parseTodoTags('#Home fix  the #sink')).toEqual({ text: 'fix the', tags: ['home', 'sink'] });
+    });
+
+    test('normalizes and de-duplicates tags', () => {
+      expect(parseTodoTags('Call #Work #work #été').tags).toEqual(['work', 'été']);
+    });
+
+    test('accepts tags in non-Latin scripts', () => {
+      expect(parseTodoTags('Buy #コーヒー and #чай')).toEqual({ text: 'Buy and', tags: ['コーヒー', 'чай'] });
+      expect(todoService.addTodo({ text: 'Buy', tags: ['コーヒー'] }).tags).toEqual(['コーヒー']);
+    });
+
+    test('leaves words that are no valid tag once normalized alone', () => {
+      // Lowercasing İ adds a combining dot, which tag names cannot contain
+      expect(parseTodoTags('Visit #İzmir')).toEqual({ text: 'Visit #İzmir', tags: [] });
+    });
+
+    test('leaves # inside words and lone # alone', () => {
+      expect(parseTodoTags('Issue C# and a#b, # or #!')).toEqual({ text: 'Issue C# and a#b, # or #!', tags: [] });
+    });
+  });
+
+  describe('Adding and editing', () => {
+    test('addTodo stores normalized tags and creates their metadata', () => {
+      const todo = todoService.addTodo({ text: 'Buy milk', tags: ['#Errands', 'errands', 'home'] });
+
+      expect(todo.tags).toEqual(['errands', 'home']);
+      expect(tagService.getTags()).toEqual([
+        expect.objectContaining({ name: 'errands', color: tagColorFor('errands') }),
+        expect.objectContaining({ name: 'home', color: tagColorFor('home') }),
+      ]);
+    });
+
+    test('todos without tags have no tags field', () => {
+      const todo = todoService.addTodo({ text: 'Plain', tags: [] });
+      expect(todo).not.toHaveProperty('tags');
+      expect(tagService.getTags()).toEqual([]);
+    });
+
+    test('adding a tagged todo is a single store update', () => {
+      const listener = jest.fn();
+      masterStore.subscribeActions(listener);
+
+      todoService.addTodo({ text: 'Buy milk', tags: ['errands'] });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test('invalid tags are rejected without storing anything', () => {
+      expect(() => todoService.addTodo({ text: 'Bad', tags: ['no spaces'] })).toThrow(ValidationError);
+      expect(todoView.getItems()).toEqual([]);
+      expect(tagService.getTags()).toEqual([]);
+    });
+
+    test('updateTodo replaces, keeps or clears tags', () => {
+      const todo = todoService.addTodo({ text: 'Task', tags: ['a'] });
+
+      todoService.updateTodo(todo.id, { tags: ['A', 'b'] });
+      expect(tagsOf(todo)).toEqual(['a', 'b']);
+      expect(tagNames()).toEqual(['a', 'b']);
+
+      const before = todoView.getById(todo.id);
+      todoService.updateTodo(todo.id, { tags: ['a', 'b'] });
+      expect(todoView.getById(todo.id)).toBe(before);
+
+      todoService.updateTodo(todo.id, { tags: [] });
+      expect(todoView.getById(todo.id)).not.toHaveProperty('tags');
+    });
+  });
+
+  describe('Managing tags', () => {
+    let milk: Todo;
+    let bread: Todo;
+    let plain: Todo;
+
+    beforeEach(() => {
+      milk = todoService.addTodo({ text: 'Milk', tags: ['errands', 'home'] });
+      bread = todoService.addTodo({ text: 'Bread', tags: ['shopping', 'errands'] });
+      plain = todoService.addTodo({ text: 'Plain' });
+    });
+
+    test('renameTag updates every todo and keeps the tag colour', () => {
+      tagService.setTagColor('errands', '#123456');
+      const id = tagService.getTag('errands')!.id;
+
+      tagService.renameTag('errands', '#Chores');
+
+      expect(tagsOf(milk)).toEqual(['chores', 'home']);
+      expect(tagsOf(bread)).toEqual(['shopping', 'chores']);
+      expect(tagService.getTag('chores')).toEqual({ id, name: 'chores', color: '#123456' });
+      expect(tagService.getTag('errands')).toBeUndefined();
+    });
+
+    test('tag operations rewrite all todos in one updateItemsWhere call', () => {
+      const updateItemsWhere = jest.spyOn(todoView, 'updateItemsWhere');
+      const updateItem = jest.spyOn(todoView, 'updateItem');
+
+      tagService.renameTag('errands', 'chores');
+      tagService.mergeTags(['home', 'shopping'], 'chores');
+      tagService.deleteTag('chores');
+
+      expect(updateItemsWhere).toHaveBeenCalledTimes(3);
+      expect(updateItem).not.toHaveBeenCalled();
+    });
+
+    test('tag operations leave untagged todos untouched and notify once', () => {
+      const listener = jest.fn();
+      masterStore.subscribeActions(listener);
+      const before = todoView.getById(plain.id);
+
+      tagService.renameTag('errands', 'chores');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(todoView.getById(plain.id)).toBe(before);
+    });
+
+    test('renaming to an existing tag merges the two', () => {
+      tagService.renameTag('home', 'errands');
+
+      expect(tagsOf(milk)).toEqual(['errands']);
+      expect(tagNames()).toEqual(['errands', 'shopping']);
+    });
+
+    test('mergeTags replaces several tags with one', () => {
+      tagService.mergeTags(['home', 'shopping', 'errands'], 'errands');
+
+      expect(tagsOf(milk)).toEqual(['errands']);
+      expect(tagsOf(bread)).toEqual(['errands']);
+      expect(tagNames()).toEqual(['errands']);
+    });
+
+    test('mergeTags creates the target tag when it is new', () => {
+      tagService.mergeTags(['home', 'shopping'], 'house');
+
+      expect(tagsOf(milk)).toEqual(['errands', 'house']);
+      expect(tagsOf(bread)).toEqual(['house', 'errands']);
+      expect(tagNames()).toEqual(['errands', 'house']);
+    });
+
+    test('deleteTag removes the tag from every todo', () => {
+      tagService.deleteTag('errands');
+      tagService.deleteTag('shopping');
+
+      expect(tagsOf(milk)).toEqual(['home']);
+      expect(todoView.getById(bread.id)).not.toHaveProperty('tags');
+      expect(tagNames()).toEqual(['home']);
+    });
+
+    test('invalid names are rejected without changing anything', () => {
+      const todos = todoView.getItems();
+      const tags = tagView.getItems();
+
+      expect(() => tagService.renameTag('errands', 'two words')).toThrow(ValidationError);
+      expect(() => tagService.mergeTags(['home'], '')).toThrow(ValidationError);
+      expect(() => tagService.setTagColor('home', 'red')).toThrow(ValidationError);
+
+      expect(todoView.getItems()).toBe(todos);
+      expect(tagView.getItems()).toBe(tags);
+    });
+
+    test('the tag filter follows renamed, merged and deleted tags', () => {
+      const filterView = getTodoFilterView(masterStore);
+      setTodoTag(filterView, 'errands');
+
+      tagService.renameTag('errands', 'chores');
+      expect(getTodoTag(filterView)).toBe('chores');
+
+      tagService.mergeTags(['chores'], 'home');
+      expect(getTodoTag(filterView)).toBe('home');
+
+      tagService.deleteTag('home');
+      expect(getTodoTag(filterView)).toBeUndefined();
+    });
+
+    test('a tag operation is a single undo step', () => {
+      const store = new MasterStore({ history: { limit: 10 } });
+      const container = configureTodoContainer(store);
+      const service = container.get<ITodoService>(TODO_TYPES.TodoService);
+      const tags = container.get<ITodoTagService>(TODO_TYPES.TodoTagService);
+      service.addTodo({ text: 'Milk', tags: ['errands'] });
+
+      tags.renameTag('errands', 'chores');
+      store.undo();
+
+      expect(service.getAllTodos()[0].tags).toEqual(['errands']);
+      expect(tags.getTag('errands')).toBeDefined();
+      expect(tags.getTag('chores')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { injectable, inject } from 'inversify';
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { TODO_TYPES } from '../config/todo.types';
+import { getTodoFilterView, getTodoTag, setTodoTag } from '../config/todo.filters';
+import { normalizeTagName, normalizeTagNames, tagColorFor } from '../config/todo.tags';
+import { getTodoListView } from '../config/todo.lists';
+import type { Todo, TodoFilterState, TodoTag } from '../types/Todo';
+import type { ITodoTagService } from './ITodoTagService';
+
+/**
+ * Service layer for tag management.
+ *
+ * Each operation runs in one MasterStore transaction and rewrites the
+ * affected todos with a single `updateItemsWhere` call, so renaming a tag
+ * used by thousands of todos is one store update, one notification and one
+ * undo step, and todos without the tag keep their objects.
+ *
+ * Tags are shared by all lists. A tag filter of any list selecting a
+ * renamed, merged or deleted tag follows along.
+ *
+ * @example
+ * ```typescript
+ * const tagService = container.get<ITodoTagService>(TODO_TYPES.TodoTagService);
+ * tagService.renameTag('errands', 'shopping');
+ * ```
+ */
+@injectable()
+export class TodoTagService implements ITodoTagService {
+  /**
+   * Initialize TodoTagService with injected dependencies.
+   * @param tagView - Injected StoreView holding tag metadata
+   * @param todoView - Injected StoreView holding the todos
+   * @param masterStore - Injected MasterStore, used for transactions and the tag filter
+   */
+  constructor(
+    @inject(TODO_TYPES.TagView) private tagView: StoreView<TodoTag>,
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.MasterStore) private masterStore: MasterStore
+  ) {}
+
+  getTags(): TodoTag[] {
+    return this.tagView.getItems();
+  }
+
+  getTag(name: string): TodoTag | undefined {
+    const normalized = normalizeTagName(name);
+    return this.tagView.findItem((tag) => tag.name === normalized);
+  }
+
+  ensureTags(names: readonly string[]): void {
+    const missing = normalizeTagNames(names).filter((name) => !this.getTag(name));
+    if (missing.length === 0) {
+      return;
+    }
+    this.masterStore.transaction(() => {
+      missing.forEach((name) => this.tagView.addItem({ name, color: tagColorFor(name) }));
+    }, 'ensureTags');
+  }
+
+  setTagColor(name: string, color: string): void {
+    this.masterStore.transaction(() => {
+      this.ensureTags([name]);
+      this.tagView.updateItem(this.getTag(name)!.id, (draft) => {
+        draft.color = color;
+      });
+    }, 'setTagColor');
+  }
+
+  renameTag(from: string, to: string): void {
+    const source = normalizeTagName(from);
+    const target = normalizeTagName(to);
+    if (source === target) {
+      return;
+    }
+    const sourceTag = this.getTag(source);
+    if (!sourceTag || this.getTag(target)) {
+      this.mergeTags([source], target);
+      return;
+    }
+
+    this.masterStore.transaction(() => {
+      // Keep the tag's ID and colour; the schema rejects invalid names
+      this.tagView.updateItem(sourceTag.id, (draft) => {
+        draft.name = target;
+      });
+      this.replaceTags(new Set([source]), target);
+    }, 'renameTag');
+  }
+
+  mergeTags(sources: readonly string[], target: string): void {
+    const targetName = normalizeTagName(target);
+    const merged = new Set(normalizeTagNames(sources).filter((name) => name !== targetName));
+
+    this.masterStore.transaction(() => {
+      // Added directly rather than through ensureTags so the schema rejects an empty name
+      if (!this.getTag(targetName)) {
+        this.tagView.addItem({ name: targetName, color: tagColorFor(targetName) });
+      }
+      if (merged.size === 0) {
+        return;
+      }
+      this.removeTagMetadata(merged);
+      this.replaceTags(merged, targetName);
+    }, 'mergeTags');
+  }
+
+  deleteTag(name: string): void {
+    const deleted = normalizeTagName(name);
+
+    this.masterStore.transaction(() => {
+      this.removeTagMetadata(new Set([deleted]));
+      this.todoView.updateItemsWhere(
+        (todo) => todo.tags?.includes(deleted) ?? false,
+        (draft) => {
+          const tags = draft.tags!.filter((tag) => tag !== deleted);
+          if (tags.length > 0) {
+            draft.tags = tags;
+          } else {
+            delete draft.tags;
+          }
+        }
+      );
+
+      this.filterViews().forEach((filterView) => {
+        if (getTodoTag(filterView) === deleted) {
+          setTodoTag(filterView, undefined);
+        }
+      });
+    }, 'deleteTag');
+  }
+
+  /**
+   * Replace tags with another on every todo, dropping duplicates.
+   * @param replaced - Tags to replace
+   * @param target - Tag replacing them
+   */
+  private replaceTags(replaced: ReadonlySet<string>, target: string): void {
+    this.todoView.updateItemsWhere(
+      (todo) => todo.tags?.some((tag) => replaced.has(tag)) ?? false,
+      (draft) => {
+        draft.tags = [...new Set(draft.tags!.map((tag) => (replaced.has(tag) ? target : tag)))];
+      }
+    );
+
+    this.filterViews().forEach((filterView) => {
+      const selected = getTodoTag(filterView);
+      if (selected !== undefined && replaced.has(selected)) {
+        setTodoTag(filterView, target);
+      }
+    });
+  }
+
+  /**
+   * Filter selections of the default list and every other list.
+   */
+  private filterViews(): StoreView<TodoFilterState>[] {
+    return [
+      getTodoFilterView(this.masterStore),
+      ...getTodoListView(this.masterStore)
+        .getItems()
+        .map((list) => getTodoFilterView(this.masterStore, list.id)),
+    ];
+  }
+
+  /**
+   * Delete the metadata of tags.
+   * @param names - Tags whose metadata to delete
+   */
+  private removeTagMetadata(names: ReadonlySet<string>): void {
+    const tags = this.tagView.getItems();
+    if (!tags.some((tag) => names.has(tag.name))) {
+      return;
+    }
+    this.tagView.updateItems((draft) => {
+      for (let i = tags.length - 1; i >= 0; i--) {
+        if (names.has(tags[i].name)) {
+          draft.splice(i, 1);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,163 @@
+import { configureTodoContainer, TodoImportError, TODO_TYPES } from '../index';
+import type { Clock, ITodoService, ITodoTagService, ITodoTransferService, Todo } from '../index';
+import { MasterStore, StoreView } from '@/store/MasterStore';
+import { ValidationError } from '@/store/schema';
+
+describe('TodoTransferService', () => {
+  const NOW = new Date(2024, 2, 10, 9, 30);
+  const clock: Clock = {
+    now: () => NOW.getTime(),
+    setTimeout: () => undefined,
+    clearTimeout: () => undefined,
+  };
+
+  let masterStore: MasterStore;
+  let todoService: ITodoService;
+  let tagService: ITodoTagService;
+  let transferService: ITodoTransferService;
+  let todoView: StoreView<Todo>;
+
+  const containerFor = (listId?: string) => {
+    const container = configureTodoContainer(masterStore, { listId });
+    container.rebind(TODO_TYPES.Clock).toConstantValue(clock);
+    return container;
+  };
+
+  const texts = () => todoService.getAllTodos().map((todo) => todo.text);
+
+  beforeEach(() => {
+    masterStore = new MasterStore({ history: { limit: 10 } });
+    const container = containerFor();
+    todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+    tagService = container.get<ITodoTagService>(TODO_TYPES.TodoTagService);
+    transferService = container.get<ITodoTransferService>(TODO_TYPES.TodoTransferService);
+    todoView = container.get<StoreView<Todo>>(TODO_TYPES.TodoView);
+  });
+
+  describe('Exporting', () => {
+    test('exports the todos of the list in their manual order', () => {
+      const first = todoService.addTodo({ text: 'First' });
+      const second = todoService.addTodo({ text: 'Second' });
+      todoService.moveTodo(first.id, null);
+      containerFor('work').get<ITodoService>(TODO_TYPES.TodoService).addTodo({ text: 'Elsewhere' });
+
+      expect(transferService.exportTodos('markdown')).toBe(
+        `- [ ] Second <!-- id:${second.id} -->\n- [ ] First <!-- id:${first.id} -->\n`
+      );
+    });
+
+    test('exports can be imported into a fresh store unchanged', () => {
+      todoService.addTodo({ text: 'Plan trip', priority: 'high', tags: ['travel'], dueAt: new Date(2024, 2, 4) });
+      const call = todoService.addTodo({ text: 'Call mom' });
+      todoService.addSubtask(call.id, 'Find number');
+      const json = transferService.exportTodos('json');
+      const before = todoService.getAllTodos();
+
+      masterStore = new MasterStore();
+      const container = containerFor();
+      const result = container.get<ITodoTransferService>(TODO_TYPES.TodoTransferService).importTodos(json, 'json');
+
+      expect(result).toEqual({ added: 2, updated: 0, skipped: 0 });
+      expect(container.get<ITodoService>(TODO_TYPES.TodoService).getAllTodos()).toEqual(before);
+      expect(container.get<ITodoTagService>(TODO_TYPES.TodoTagService).getTag('travel')).toBeDefined();
+    });
+  });
+
+  describe('Importing', () => {
+    test('adds todos to the end of the list with defaults for missing fields', () => {
+      todoService.addTodo({ text: 'Existing' });
+
+      const result = transferService.importTodos('- [ ] Buy milk #errands\n- [x] Call mom\n', 'markdown');
+
+      expect(result).toEqual({ added: 2, updated: 0, skipped: 0 });
+      expect(texts()).toEqual(['Existing', 'Buy milk', 'Call mom']);
+      const [, milk, call] = todoService.getAllTodos();
+      expect(milk).toMatchObject({ completed: false, createdAt: NOW, tags: ['errands'] });
+      expect(call).not.toHaveProperty('tags');
+      expect(call.completed).toBe(true);
+      expect(milk.id).not.toBe(call.id);
+      expect(tagService.getTag('errands')).toBeDefined();
+    });
+
+    test('imports into the list of the container', () => {
+      const workTransfer = containerFor('work').get<ITodoTransferService>(TODO_TYPES.TodoTransferService);
+
+      workTransfer.importTodos('text\nDeploy\n', 'csv');
+
+      expect(todoView.getItems()).toEqual([expect.objectContaining({ text: 'Deploy', listId: 'work' })]);
+      expect(texts()).toEqual([]);
+    });
+
+    describe('Duplicates', () => {
+      let existing: Todo;
+      const file = (id: string) => `id,text,priority\n${id},Renamed,high\nnew-1,Brand new,\n`;
+
+      beforeEach(() => {
+        existing = todoService.addTodo({ text: 'Original', tags: ['home'], dueAt: new Date(2024, 2, 4) });
+        todoService.addTodo({ text: 'After' });
+      });
+
+      test('are kept as they are by default', () => {
+        expect(transferService.importTodos(file(existing.id), 'csv')).toEqual({ added: 1, updated: 0, skipped: 1 });
+        expect(todoView.getById(existing.id)).toBe(existing);
+        expect(texts()).toEqual(['Original', 'After', 'Brand new']);
+      });
+
+      test('are merged field by field, keeping their place', () => {
+        const result = transferService.importTodos(file(existing.id), 'csv', 'merge');
+
+        expect(result).toEqual({ added: 1, updated: 1, skipped: 0 });
+        expect(todoView.getById(existing.id)).toEqual({ ...existing, text: 'Renamed', priority: 'high' });
+        expect(texts()).toEqual(['Renamed', 'After', 'Brand new']);
+      });
+
+      test('are replaced, keeping their place and creation time', () => {
+        transferService.importTodos(file(existing.id), 'csv', 'replace');
+
+        expect(todoView.getById(existing.id)).toEqual({
+          id: existing.id,
+          text: 'Renamed',
+          completed: false,
+          createdAt: existing.createdAt,
+          priority: 'high',
+          order: existing.order,
+        });
+        expect(texts()).toEqual(['Renamed', 'After', 'Brand new']);
+      });
+
+      test('within the file are handled like todos already in the store', () => {
+        const result = transferService.importTodos('id,text\nx1,One\nx1,Two\n', 'csv', 'merge');
+
+        expect(result).toEqual({ added: 1, updated: 1, skipped: 0 });
+        expect(todoView.getById('x1')?.text).toBe('Two');
+      });
+    });
+
+    test('is a single undo step', () => {
+      todoService.addTodo({ text: 'Existing' });
+      const updates = jest.fn();
+      todoView.subscribe(updates);
+
+      transferService.importTodos('One +a\nTwo +b\n', 'todotxt');
+      expect(updates).toHaveBeenCalledTimes(1);
+      expect(texts()).toEqual(['Existing', 'One', 'Two']);
+
+      masterStore.undo();
+      expect(texts()).toEqual(['Existing']);
+      expect(tagService.getTags()).toEqual([]);
+    });
+
+    test('imports nothing when the file cannot be read or a todo is invalid', () => {
+      todoService.addTodo({ text: 'Existing' });
+
+      expect(() => transferService.importTodos('Fine\nBad due:soon\n', 'todotxt')).toThrow(TodoImportError);
+      expect(() =>
+        transferService.importTodos(
+          '{"format":"todo-export","version":1,"todos":[{"text":"Fine"},{"text":"Bad","priority":"urgent"}]}',
+          'json'
+        )
+      ).toThrow(ValidationError);
+      expect(texts()).toEqual(['Existing']);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { injectable, inject } from 'inversify';
+import type { MasterStore, StoreView } from '@/store/MasterStore';
+import { keyBetween } from '@/store/ordering/fractionalIndex';
+import { TODO_TYPES } from '../config/todo.types';
+import { scopeTodos } from '../config/todo.lists';
+import type { TodoListScope } from '../config/todo.lists';
+import { sortTodos } from '../config/todo.sort';
+import { normalizeTagNames } from '../config/todo.tags';
+import { parseTodos, serializeTodos } from '../config/transfer';
+import type {
+  Todo,
+  TodoDuplicatePolicy,
+  TodoImportRecord,
+  TodoImportResult,
+  TodoTransferFormat,
+} from '../types/Todo';
+import type { Clock } from './Clock';
+import type { ITodoTagService } from './ITodoTagService';
+import type { ITodoTransferService } from './ITodoTransferService';
+
+/**
+ * Fields of an imported todo, without its ID and without fields that are
+ * absent. An empty tag list means the todo has no tags.
+ */
+function importedFields(record: TodoImportRecord): Partial<Todo> {
+  const fields: Partial<Todo> = {};
+  (Object.keys(record) as (keyof TodoImportRecord)[]).forEach((field) => {
+    if (field !== 'id' && record[field] !== undefined) {
+      (fields as Record<string, unknown>)[field] = record[field];
+    }
+  });
+  if (fields.text !== undefined) {
+    fields.text = fields.text.trim();
+  }
+  if (Array.isArray(fields.tags)) {
+    fields.tags = normalizeTagNames(fields.tags);
+  }
+  return fields;
+}
+
+/**
+ * Remove an empty tag list, which the store keeps as no `tags` field.
+ */
+function withoutEmptyTags(todo: Todo): Todo {
+  if (todo.tags?.length === 0) {
+    delete todo.tags;
+  }
+  return todo;
+}
+
+/**
+ * Service layer for import and export.
+ *
+ * Reading and writing the formats is left to `config/transfer`; this
+ * service decides what an import does to the store. The whole import is
+ * one `updateItems` in one transaction, so it is a single undo step and
+ * the todo schema rejects a file with any invalid todo as a whole.
+ *
+ * @example
+ * ```typescript
+ * const transferService = container.get<ITodoTransferService>(TODO_TYPES.TodoTransferService);
+ * transferService.importTodos('- [ ] Buy milk\n- [x] Call mom\n', 'markdown');
+ * ```
+ */
+@injectable()
+export class TodoTransferService implements ITodoTransferService {
+  /**
+   * Initialize TodoTransferService with injected dependencies.
+   * @param todoView - Injected StoreView holding the todos
+   * @param masterStore - Injected MasterStore, used for the import transaction
+   * @param tagService - Injected tag service, which keeps metadata for imported tags
+   * @param clock - Injected time source for export and creation times
+   * @param scope - Injected list to export from and import into
+   */
+  constructor(
+    @inject(TODO_TYPES.TodoView) private todoView: StoreView<Todo>,
+    @inject(TODO_TYPES.MasterStore) private masterStore: MasterStore,
+    @inject(TODO_TYPES.TodoTagService) private tagService: ITodoTagService,
+    @inject(TODO_TYPES.Clock) private clock: Clock,
+    @inject(TODO_TYPES.ListScope) private scope: TodoListScope
+  ) {}
+
+  exportTodos(format: TodoTransferFormat): string {
+    const todos = sortTodos(scopeTodos(this.todoView.getItems(), this.scope.listId), 'manual');
+    return serializeTodos(todos, format, new Date(this.clock.now()));
+  }
+
+  importTodos(text: string, format: TodoTransferFormat, duplicates: TodoDuplicatePolicy = 'skip'): TodoImportResult {
+    const records = parseTodos(text, format);
+    const result: TodoImportResult = { added: 0, updated: 0, skipped: 0 };
+
+    // New state of every todo the import adds or changes, in file order
+    const imported = new Map<string, Todo>();
+    const existingIds = new Set<string>();
+    const tags = new Set<string>();
+    let order = this.lastOrder();
+
+    records.forEach((record) => {
+      const fields = importedFields(record);
+      fields.tags?.forEach((tag) => tags.add(tag));
+      // A todo repeated within the file is a duplicate of its first occurrence
+      const existing = record.id === undefined ? undefined : imported.get(record.id) ?? this.todoView.getById(record.id);
+
+      if (!existing) {
+        order = keyBetween(order, null);
+        const todo: Todo = {
+          completed: false,
+          createdAt: new Date(this.clock.now()),
+          ...fields,
+          id: record.id ?? this.newTodoId(),
+          order,
+          ...(this.scope.listId !== undefined && { listId: this.scope.listId }),
+        } as Todo;
+        imported.set(todo.id, withoutEmptyTags(todo));
+        result.added++;
+        return;
+      }
+
+      if (duplicates === 'skip') {
+        result.skipped++;
+        return;
+      }
+      const kept: Partial<Todo> = {
+        id: existing.id,
+        ...(existing.order !== undefined && { order: existing.order }),
+        ...(existing.listId !== undefined && { listId: existing.listId }),
+      };
+      const todo =
+        duplicates === 'merge'
+          ? { ...existing, ...fields, ...kept }
+          : ({ completed: false, createdAt: existing.createdAt, ...fields, ...kept } as Todo);
+      imported.set(existing.id, withoutEmptyTags(todo));
+      if (this.todoView.getById(existing.id)) {
+        existingIds.add(existing.id);
+      }
+      result.updated++;
+    });
+
+    if (imported.size === 0) {
+      return result;
+    }
+    this.masterStore.transaction(() => {
+      this.todoView.updateItems((draft) => {
+        draft.forEach((todo, index) => {
+          if (existingIds.has(todo.id)) {
+            draft[index] = imported.get(todo.id)!;
+          }
+        });
+        imported.forEach((todo, id) => {
+          if (!existingIds.has(id)) {
+            draft.push(todo);
+          }
+        });
+      });
+      if (tags.size > 0) {
+        this.tagService.ensureTags([...tags]);
+      }
+    }, 'importTodos');
+    return result;
+  }
+
+  /**
+   * ID for an imported todo that has none.
+   */
+  private newTodoId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substring(2, 9);
+  }
+
+  /**
+   * Highest order key in use, or null if no todo has one.
+   */
+  private lastOrder(): string | null {
+    let last: string | null = null;
+    for (const todo of this.todoView.getItems()) {
+      if (todo.order !== undefined && (last === null || todo.order > last)) {
+        last = todo.order;
+      }
+    }
+    return last;
+  }
+}
@@ -1,4 +1,5 @@
 import type { Identifiable } from '@/store/MasterStore';
+import type { SyncVersion } from '@/store/sync';
 
 /**
  * Todo entity interface representing a single todo item.
@@ -23,8 +24,90 @@ export interface Todo extends Identifiable {
   completed: boolean;
   /** Timestamp when the todo was created */
   createdAt: Date;
+  /** When the todo should be done by */
+  dueAt?: Date;
+  /** When to remind the user about the todo */
+  remindAt?: Date;
+  /** Importance of the todo; treated as `normal` when absent */
+  priority?: TodoPriority;
+  /**
+   * Position in the manually arranged list, as a fractional index key
+   * (see `keyBetween`). Todos created before ordering existed have none and
+   * sort first, in insertion order.
+   */
+  order?: string;
+  /** Names of the tags the todo is labelled with, lowercase and without `#` */
+  tags?: string[];
+  /** Checklist items breaking the todo down, in display order */
+  subtasks?: TodoSubtask[];
+  /** How the todo repeats; completing it adds the next occurrence */
+  recurrence?: TodoRecurrence;
+  /** ID of the list the todo belongs to; the default list when absent */
+  listId?: string;
+  /**
+   * Version of each field's value, set while the todo is synced with a
+   * server, so concurrent edits can be merged field by field
+   */
+  versions?: TodoFieldVersions;
 }
 
+/**
+ * Checklist item within a todo.
+ * IDs are unique within their todo.
+ */
+export interface TodoSubtask extends Identifiable {
+  /** The checklist item's text */
+  text: string;
+  /** Whether the item has been done */
+  completed: boolean;
+}
+
+/**
+ * Unit a recurring todo repeats in.
+ */
+export type TodoRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Day of the week, numbered like `Date#getDay` (0 is Sunday).
+ */
+export type TodoWeekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Repetition rule of a recurring todo, modelled on iCalendar RRULEs.
+ *
+ * Occurrences fall on the todo's due date (or, without one, the time it was
+ * completed) and keep its time of day. Monthly and yearly recurrences skip
+ * months without the day, so a todo due on the 31st repeats on the 31st.
+ *
+ * @example
+ * ```typescript
+ * // Every other week on Monday and Thursday, ten times
+ * const recurrence: TodoRecurrence = { frequency: 'weekly', interval: 2, byWeekday: [1, 4], count: 10 };
+ * ```
+ */
+export interface TodoRecurrence {
+  /** Unit the todo repeats in */
+  frequency: TodoRecurrenceFrequency;
+  /** Number of units between occurrences; 1 when absent */
+  interval?: number;
+  /**
+   * Days of the week the todo falls on. Only used by daily and weekly
+   * recurrences; weeks start on Monday.
+   */
+  byWeekday?: TodoWeekday[];
+  /** Total number of occurrences, including the first */
+  count?: number;
+  /** Last time an occurrence may fall on */
+  until?: Date;
+  /** Position of this todo in its series, starting at 1; 1 when absent */
+  occurrence?: number;
+}
+
+/**
+ * Importance of a todo.
+ */
+export type TodoPriority = 'low' | 'normal' | 'high';
+
 /**
  * Request interface for creating new todo items.
  *
@@ -43,4 +126,254 @@ export interface Todo extends Identifiable {
 export interface CreateTodoRequest {
   /** The text content for the new todo */
   text: string;
+  /** Optional due date */
+  dueAt?: Date;
+  /** Optional reminder time */
+  remindAt?: Date;
+  /** Optional priority (defaults to normal) */
+  priority?: TodoPriority;
+  /** Optional tag names; normalized to lowercase without `#` */
+  tags?: string[];
+  /** Optional repetition rule */
+  recurrence?: TodoRecurrence;
+}
+
+/**
+ * Request interface for changing an existing todo item.
+ *
+ * Only the provided fields are changed; omitted fields keep their value.
+ * The position is changed with `moveTodo` and subtasks with the subtask
+ * methods of the service instead.
+ * Pass `undefined` explicitly to clear an optional field such as `dueAt`.
+ *
+ * @example
+ * ```typescript
+ * todoService.updateTodo(todo.id, { text: 'Buy groceries and milk' });
+ * ```
+ */
+export type UpdateTodoRequest = Partial<Omit<Todo, 'id' | 'createdAt' | 'order' | 'subtasks' | 'versions'>>;
+
+/**
+ * Aggregate statistics over the todo collection.
+ *
+ * Exposed as the single item of the derived `todos.stats` view so that it
+ * can be read and subscribed to like any other MasterStore view.
+ */
+export interface TodoStats extends Identifiable {
+  /** Number of todos */
+  total: number;
+  /** Number of completed todos */
+  completed: number;
+  /** Number of todos not yet completed */
+  active: number;
+}
+
+/**
+ * Which todos the list shows.
+ */
+export type TodoFilter = 'all' | 'active' | 'completed';
+
+/**
+ * Stored filter selection.
+ *
+ * Kept as the single item of the `todoFilter` MasterStore view so that the
+ * selection is shared by every component and can be persisted like any
+ * other store data.
+ */
+export interface TodoFilterState extends Identifiable {
+  /** The selected filter */
+  filter: TodoFilter;
+  /** Show the list in Overdue/Today/This week/Later sections */
+  groupByDue?: boolean;
+  /** How the list is sorted; manual when absent */
+  sort?: TodoSortMode;
+  /** Only show todos with this tag; all todos when absent */
+  tag?: string;
+  /** Only show todos matching this search, ranked by relevance; all todos when absent */
+  query?: string;
+}
+
+/**
+ * Ways of sorting the todo list.
+ * - manual: the order arranged by the user (drag and drop)
+ * - priority: high priority first
+ * - created: newest first
+ * - due: earliest due date first, todos without one last
+ */
+export type TodoSortMode = 'manual' | 'priority' | 'created' | 'due';
+
+/**
+ * Due date sections of the todo list, in display order.
+ */
+export type TodoDueGroup = 'overdue' | 'today' | 'thisWeek' | 'later';
+
+/**
+ * In-app notification raised when a todo's reminder time is reached.
+ * The ID is the ID of the todo it reminds about.
+ */
+export interface TodoReminder extends Identifiable {
+  /** Text of the todo at the time the reminder fired */
+  text: string;
+  /** Reminder time that was reached */
+  remindAt: Date;
+  /** Due date of the todo, if any */
+  dueAt?: Date;
+}
+
+/**
+ * A list (project) of todos, kept in the `todoLists` MasterStore view.
+ *
+ * Todos refer to their list by `listId`. Todos without one belong to the
+ * default list, which has no entry of its own.
+ */
+export interface TodoListInfo extends Identifiable {
+  /** Name of the list */
+  name: string;
+  /** Timestamp when the list was created */
+  createdAt: Date;
+  /** Archived lists are kept, with their todos, but listed separately */
+  archived?: boolean;
+}
+
+/**
+ * Metadata of a tag, kept in the `todoTags` MasterStore view.
+ * Todos refer to tags by name.
+ */
+export interface TodoTag extends Identifiable {
+  /** Tag name, lowercase and without `#` */
+  name: string;
+  /** Colour of the tag, as `#rrggbb` */
+  color: string;
+}
+
+/**
+ * Part of a todo's text matched by a search, from `start` up to (not
+ * including) `end`.
+ */
+export interface TodoSearchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A todo found by a search.
+ */
+export interface TodoSearchResult {
+  /** The todo found */
+  todo: Todo;
+  /** Relevance; higher scores are better matches */
+  score: number;
+}
+
+/**
+ * File formats todos can be exported to and imported from.
+ * - json: versioned export keeping every field
+ * - csv: one row per todo, for spreadsheets
+ * - markdown: a task list (`- [x] text`) with subtasks nested below their todo
+ * - todotxt: the plain text format of todotxt.org
+ */
+export type TodoTransferFormat = 'json' | 'csv' | 'markdown' | 'todotxt';
+
+/**
+ * What to do with an imported todo whose ID already exists.
+ * - merge: overwrite the fields the file has, keep the others
+ * - replace: replace the todo with the imported one
+ * - skip: keep the existing todo
+ */
+export type TodoDuplicatePolicy = 'merge' | 'replace' | 'skip';
+
+/**
+ * A todo read from an imported file. Formats carry different fields;
+ * fields a format or file does not have are absent.
+ */
+export interface TodoImportRecord extends Partial<Omit<Todo, 'id' | 'order' | 'listId' | 'versions'>> {
+  /** ID from the file, used to recognise todos that already exist */
+  id?: string;
+  text: string;
+}
+
+/**
+ * Outcome of an import.
+ */
+export interface TodoImportResult {
+  /** Todos added */
+  added: number;
+  /** Existing todos merged or replaced */
+  updated: number;
+  /** Existing todos left as they were */
+  skipped: number;
+}
+
+/**
+ * Fields of a todo that are versioned and merged one by one.
+ */
+export type TodoVersionedField =
+  | 'text'
+  | 'completed'
+  | 'dueAt'
+  | 'remindAt'
+  | 'priority'
+  | 'order'
+  | 'tags'
+  | 'subtasks'
+  | 'recurrence'
+  | 'listId';
+
+/**
+ * Lamport version of the value of each field of a todo. Fields without one
+ * have not changed since the todo was first synced, or predate syncing.
+ */
+export type TodoFieldVersions = Partial<Record<TodoVersionedField, SyncVersion>>;
+
+/**
+ * Outcome of merging a local and a remote version of a todo.
+ */
+export interface TodoMergeResult {
+  /** The merged todo; conflicting fields keep their local value */
+  todo: Todo;
+  /** Fields changed on both sides to different values */
+  conflicts: TodoVersionedField[];
+}
+
+/**
+ * Side whose values resolve a conflict: the local changes or the server's.
+ */
+export type TodoConflictChoice = 'local' | 'remote';
+
+/**
+ * Concurrent changes to a todo that could not be merged, kept under
+ * `TODO_CONFLICTS_KEY` with the todo's ID until one side is chosen.
+ */
+export interface TodoConflict extends Identifiable {
+  /** Fields changed both locally and on the server */
+  fields: TodoVersionedField[];
+  /** Local version of the todo */
+  local: Todo;
+  /** Version of the todo on the server */
+  remote: Todo;
+  /** When the conflict was found, in milliseconds since the epoch */
+  detectedAt: number;
+}
+
+/**
+ * Whether the server has the latest local version of a todo.
+ * - pending: a change is waiting to be sent, or being sent
+ * - synced: the server has the todo as it is
+ * - failed: the server rejected the change, or it could not be sent after several attempts
+ * - conflict: the todo was changed on the server too, and the changes need to be resolved by hand
+ */
+export type TodoSyncStatus = 'pending' | 'synced' | 'failed' | 'conflict';
+
+/**
+ * Sync state of a todo, kept under `TODO_SYNC_KEY` with the todo's ID.
+ * Removed once the removal of a todo has reached the server.
+ */
+export interface TodoSyncState extends Identifiable {
+  status: TodoSyncStatus;
+  /** Whether the server has a version of the todo, so changes update it rather than create it */
+  remote?: boolean;
+  /** Why the last attempt failed */
+  error?: string;
+  /** Field versions of the todo on the server when last synced, the base for merging */
+  base?: TodoFieldVersions;
 }
@@ -1,16 +1,47 @@
 import 'reflect-metadata';
 import React from 'react';
 import { createRoot } from 'react-dom/client';
-import { TodoApp, TodoFeatureProvider } from '@/features/todo';
+import { TodoWorkspace, TodoFeatureProvider, TODO_FEATURE_INFO } from '@/features/todo';
+import { AppContainer, featureStoreKeys } from '@/container';
+import { MasterStore } from '@/store/MasterStore';
+import { LocalStorageAdapter } from '@/store/persistence';
+import { createFreezeMiddleware } from '@/store/middleware';
+import { connectDevtools, StoreDevtoolsPanel } from '@/store/devtools';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error('Root element not found');
 }
 
+const features = [TODO_FEATURE_INFO];
+
+const masterStore = new MasterStore({
+  persistence: { adapter: new LocalStorageAdapter({ prefix: 'inversify-zustand-todo:' }) },
+  // UI state such as the selected filter is neither undoable nor shared between tabs
+  history: { limit: 50, keys: featureStoreKeys(features, 'undoable') },
+  middleware: [createFreezeMiddleware()],
+  sync: { channelName: 'inversify-zustand-todo:sync', keys: featureStoreKeys(features, 'synced') },
+});
+
+const app = new AppContainer({ masterStore }).load(...features);
+
+// localStorage writes are synchronous, so flushing here completes before unload
+window.addEventListener('pagehide', () => {
+  void masterStore.flush();
+});
+
+// Replaced by a no-op in production builds (see webpack.config.js)
+const devtools = connectDevtools(masterStore, { name: 'InversifyJS Zustand Todo App' });
+
+// Todos stay in this browser. To sync them with a server as well, bind a repository:
+//   app.container.bind(TODO_TYPES.RestRepositoryOptions).toConstantValue({ baseUrl: '/api' });
+//   app.container.bind(TODO_TYPES.TodoRepository).to(RestTodoRepository).inSingletonScope();
 const root = createRoot(rootElement);
 root.render(
-  <TodoFeatureProvider>
-    <TodoApp />
-  </TodoFeatureProvider>
+  <>
+    <TodoFeatureProvider container={app.container}>
+      <TodoWorkspace />
+    </TodoFeatureProvider>
+    {!devtools.isExtensionConnected() && <StoreDevtoolsPanel devtools={devtools} />}
+  </>
 );
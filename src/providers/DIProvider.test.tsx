@@ -0,0 +1,168 @@
+import React, { ReactNode } from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { Container, injectable, preDestroy } from 'inversify';
+import type { interfaces } from 'inversify';
+import { DIProvider, DIScope, useDIContainer, useInjection } from './DIProvider';
+
+describe('useInjection', () => {
+  const GREETING = Symbol.for('Test.Greeting');
+
+  const containerWith = (greeting: string) => {
+    const container = new Container();
+    container.bind(GREETING).toConstantValue(greeting);
+    return container;
+  };
+
+  test('resolves services from the nearest DIProvider', () => {
+    const outer = containerWith('Hello');
+    const inner = containerWith('Hi');
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <DIProvider container={outer}>
+        <DIProvider container={inner}>{children}</DIProvider>
+      </DIProvider>
+    );
+
+    const { result } = renderHook(() => useInjection<string>(GREETING), { wrapper });
+
+    expect(result.current).toBe('Hi');
+  });
+
+  test('resolves once per container', () => {
+    const container = new Container();
+    container.bind(GREETING).toDynamicValue(() => ({ text: 'Hello' }));
+    const wrapper = ({ children }: { children: ReactNode }) => <DIProvider container={container}>{children}</DIProvider>;
+
+    const { result, rerender } = renderHook(() => useInjection<{ text: string }>(GREETING), { wrapper });
+    const first = result.current;
+    rerender();
+
+    expect(result.current).toBe(first);
+  });
+
+  test('throws outside a DIProvider', () => {
+    // React logs the error thrown while rendering
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => renderHook(() => useInjection(GREETING))).toThrow('useInjection must be used within a DIProvider');
+    consoleError.mockRestore();
+  });
+});
+
+describe('DIScope', () => {
+  const GREETING = Symbol.for('Test.Greeting');
+  const NAME = Symbol.for('Test.Name');
+  const DRAFT = Symbol.for('Test.Draft');
+
+  @injectable()
+  class Draft {
+    static created: Draft[] = [];
+    disposed = false;
+
+    constructor() {
+      Draft.created.push(this);
+    }
+
+    @preDestroy()
+    dispose(): void {
+      this.disposed = true;
+    }
+  }
+
+  let root: Container;
+
+  const Greeting: React.FC = () => {
+    const greeting = useInjection<string>(GREETING);
+    const name = useInjection<string>(NAME);
+    const draft = useInjection<Draft>(DRAFT);
+    return <p>{`${greeting} ${name} #${Draft.created.indexOf(draft)}`}</p>;
+  };
+
+  const scoped = (name: string) => (container: interfaces.Container) => {
+    container.bind(NAME).toConstantValue(name);
+    container.bind(DRAFT).to(Draft).inSingletonScope();
+  };
+
+  beforeEach(() => {
+    Draft.created = [];
+    root = new Container();
+    root.bind(GREETING).toConstantValue('Hello');
+    root.bind(NAME).toConstantValue('everyone');
+  });
+
+  test('subtrees override bindings and inherit the rest', () => {
+    render(
+      <DIProvider container={root}>
+        <DIScope configure={scoped('Ada')}>
+          <Greeting />
+          <Greeting />
+        </DIScope>
+        <DIScope configure={scoped('Grace')}>
+          <Greeting />
+        </DIScope>
+      </DIProvider>
+    );
+
+    // One draft per scope, shared within it
+    expect(screen.getAllByText('Hello Ada #0')).toHaveLength(2);
+    expect(screen.getByText('Hello Grace #1')).toBeInTheDocument();
+  });
+
+  test('scopes nest', () => {
+    render(
+      <DIProvider container={root}>
+        <DIScope configure={scoped('Ada')}>
+          <DIScope configure={(container) => container.bind(GREETING).toConstantValue('Hi')}>
+            <Greeting />
+          </DIScope>
+        </DIScope>
+      </DIProvider>
+    );
+
+    expect(screen.getByText('Hi Ada #0')).toBeInTheDocument();
+  });
+
+  test('scoped services are disposed on unmount', () => {
+    const renderScope = (show: boolean) => (
+      <DIProvider container={root}>
+        {show && (
+          <DIScope configure={scoped('Ada')}>
+            <Greeting />
+          </DIScope>
+        )}
+      </DIProvider>
+    );
+    const { rerender } = render(renderScope(true));
+    const [draft] = Draft.created;
+    expect(draft.disposed).toBe(false);
+
+    rerender(renderScope(false));
+
+    expect(draft.disposed).toBe(true);
+    expect(root.get(NAME)).toBe('everyone');
+  });
+
+  test('scopes keep their bindings under StrictMode', () => {
+    let scope: interfaces.Container | null = null;
+    const Capture: React.FC = () => {
+      scope = useDIContainer();
+      return null;
+    };
+    const { unmount } = render(
+      <React.StrictMode>
+        <DIProvider container={root}>
+          <DIScope configure={scoped('Ada')}>
+            <Capture />
+          </DIScope>
+        </DIProvider>
+      </React.StrictMode>
+    );
+
+    // StrictMode disposes the first container; the scope renders again with a new one
+    expect(scope!.get(NAME)).toBe('Ada');
+    expect(scope!.get<Draft>(DRAFT).disposed).toBe(false);
+
+    unmount();
+
+    expect(Draft.created.every((draft) => draft.disposed)).toBe(true);
+  });
+});
@@ -1,24 +1,11 @@
-import React, { createContext, useContext, useMemo, ReactNode } from 'react';
-import type { Container } from 'inversify';
-import type { ITodoService } from '@/services/interfaces/ITodoService';
-import type { MasterStore } from '@/store/MasterStore';
-
-/**
- * Context value interface for dependency injection.
- * Provides factory functions for retrieving services from the DI container.
- */
-interface DIContextValue {
-  /** Factory function to get TodoService instance */
-  getTodoService: () => ITodoService;
-  /** Factory function to get MasterStore instance */
-  getMasterStore: () => MasterStore;
-}
+import React, { createContext, useContext, useEffect, useMemo, useReducer, useRef, DependencyList, ReactNode } from 'react';
+import type { interfaces } from 'inversify';
 
 /**
  * React context for dependency injection.
  * Provides access to the DI container throughout the component tree.
  */
-const DIContext = createContext<DIContextValue | null>(null);
+const DIContext = createContext<interfaces.Container | null>(null);
 
 /**
  * Props for the DIProvider component.
@@ -26,80 +13,179 @@ const DIContext = createContext<DIContextValue | null>(null);
 interface DIProviderProps {
   /** Child components that will have access to DI services */
   children: ReactNode;
-  /** InversifyJS container instance */
-  container: Container;
-  /** Service type symbols for container resolution */
-  serviceTypes: {
-    /** Symbol for TodoService binding */
-    TodoService: symbol;
-    /** Symbol for MasterStore binding */
-    MasterStore: symbol;
-  };
+  /** InversifyJS container to resolve services from, e.g. `AppContainer.container` */
+  container: interfaces.Container;
 }
 
 /**
  * Dependency Injection Provider component - completely portable!
  *
- * Provides dependency injection context to React components, making them
- * portable across different applications by externalizing DI configuration.
+ * Provides an InversifyJS container to React components, which resolve
+ * whatever they need from it with `useInjection`. The provider knows
+ * nothing about the services bound, so any feature can use it.
  *
  * @example
  * ```tsx
  * // App entry point
- * <DIProvider
- *   container={myContainer}
- *   serviceTypes={{
- *     TodoService: TYPES.TodoService,
- *     MasterStore: TYPES.MasterStore,
- *   }}
- * >
+ * const app = new AppContainer({ masterStore }).load(TODO_FEATURE_INFO);
+ *
+ * <DIProvider container={app.container}>
  *   <App />
  * </DIProvider>
  * ```
  */
-export const DIProvider: React.FC<DIProviderProps> = ({
-  children,
-  container,
-  serviceTypes
-}) => {
-  const contextValue = useMemo<DIContextValue>(() => ({
-    getTodoService: () => container.get<ITodoService>(serviceTypes.TodoService),
-    getMasterStore: () => container.get<MasterStore>(serviceTypes.MasterStore),
-  }), [container, serviceTypes]);
-
-  return (
-    <DIContext.Provider value={contextValue}>
-      {children}
-    </DIContext.Provider>
-  );
-};
+export const DIProvider: React.FC<DIProviderProps> = ({ children, container }) => (
+  <DIContext.Provider value={container}>
+    {children}
+  </DIContext.Provider>
+);
 
 /**
- * Hook to access TodoService from DI context.
+ * Hook to resolve a service from the DI context.
  * Components using this hook are completely portable - no hard-coded dependencies.
  *
- * @returns TodoService instance from the DI container
+ * The service is resolved again only when the container changes.
+ *
+ * @param identifier - Symbol the service is bound to
+ * @returns Service instance from the DI container
  * @throws Error if used outside DIProvider
+ *
+ * @example
+ * ```tsx
+ * const todoService = useInjection<ITodoService>(TODO_TYPES.TodoService);
+ * ```
  */
-export const useDITodoService = (): ITodoService => {
-  const context = useContext(DIContext);
-  if (!context) {
-    throw new Error('useDITodoService must be used within a DIProvider');
+export function useInjection<T>(identifier: interfaces.ServiceIdentifier<T>): T {
+  const container = useContext(DIContext);
+  if (!container) {
+    throw new Error('useInjection must be used within a DIProvider');
   }
-  return context.getTodoService();
-};
+  return useMemo(() => container.get<T>(identifier), [container, identifier]);
+}
 
 /**
- * Hook to access MasterStore from DI context.
- * Components using this hook are completely portable - no hard-coded dependencies.
+ * Hook to get the container of the nearest DIProvider or DIScope.
  *
- * @returns MasterStore instance from the DI container
- * @throws Error if used outside DIProvider
+ * @returns The container, or null outside any DIProvider
+ */
+export function useDIContainer(): interfaces.Container | null {
+  return useContext(DIContext);
+}
+
+/**
+ * A container created by useOwnedContainer and the dependencies it was created with.
+ */
+interface OwnedContainer {
+  container: interfaces.Container | null;
+  deps: DependencyList;
+  disposed: boolean;
+}
+
+const sameDeps = (a: DependencyList, b: DependencyList): boolean =>
+  a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+
+/**
+ * Hook creating a container the component owns, e.g. a child container.
+ *
+ * The container is created while rendering, again whenever a dependency
+ * changes, and disposed when it is replaced or the component unmounts.
+ * Disposing unbinds everything bound in the container itself, which runs
+ * the `@preDestroy` methods and `onDeactivation` handlers of the singletons
+ * it created. Bindings inherited from parent containers are untouched.
+ *
+ * When the container is disposed while the component stays mounted, as
+ * StrictMode does when it runs effects twice, a new one is created and the
+ * component renders again with it, so it never serves a disposed container.
+ *
+ * @param create - Creates the container, or returns null for none
+ * @param deps - Values the container is created from
+ * @returns The current container, or null
  */
-export const useDIMasterStore = (): MasterStore => {
-  const context = useContext(DIContext);
-  if (!context) {
-    throw new Error('useDIMasterStore must be used within a DIProvider');
+export function useOwnedContainer(
+  create: () => interfaces.Container | null,
+  deps: DependencyList
+): interfaces.Container | null {
+  const owned = useRef<OwnedContainer | null>(null);
+  const [, recreate] = useReducer((count: number) => count + 1, 0);
+
+  if (!owned.current || owned.current.disposed || !sameDeps(owned.current.deps, deps)) {
+    owned.current = { container: create(), deps, disposed: false };
   }
-  return context.getMasterStore();
+  const current = owned.current;
+
+  useEffect(() => {
+    if (current.disposed) {
+      // Disposed by the cleanup of a previous run; render again with a new container
+      recreate();
+      return undefined;
+    }
+    return () => {
+      current.disposed = true;
+      current.container?.unbindAll();
+    };
+  }, [current]);
+
+  return current.container;
+}
+
+/**
+ * Props for the DIScope component.
+ */
+interface DIScopeProps {
+  /** Child components that resolve services from the scope */
+  children: ReactNode;
+  /**
+   * Add bindings to the scope's child container. Bindings made here override
+   * those of the parent containers within the subtree. Called when the
+   * scope is created; later changes have no effect.
+   */
+  configure?: (container: interfaces.Container) => void;
+}
+
+/**
+ * Child container scope for a React subtree.
+ *
+ * Creates an InversifyJS child container of the nearest DIProvider or
+ * DIScope. Services resolve from the child first and fall back to its
+ * ancestors, so a subtree can override a few bindings and inherit the rest.
+ *
+ * Services bound in `configure` in singleton scope are scoped services:
+ * one instance per mounted scope, shared by the components in it, and
+ * disposed with the scope when it unmounts (see `useOwnedContainer`).
+ *
+ * Singletons of the parent are created with the bindings of the container
+ * that first resolves them, so override only what the parent's singletons
+ * do not depend on, or bind the dependent services in the scope too.
+ *
+ * @example
+ * ```tsx
+ * <DIScope
+ *   configure={(container) => {
+ *     container.bind(TODO_TYPES.TodoService).to(ReadOnlyTodoService).inSingletonScope();
+ *     container.bind(EDITOR_TYPES.Draft).to(Draft).inSingletonScope();
+ *   }}
+ * >
+ *   <TodoPreview />
+ * </DIScope>
+ * ```
+ */
+export const DIScope: React.FC<DIScopeProps> = ({ children, configure }) => {
+  const parent = useDIContainer();
+  if (!parent) {
+    throw new Error('DIScope must be used within a DIProvider');
+  }
+  const configureRef = useRef(configure);
+  configureRef.current = configure;
+
+  const container = useOwnedContainer(() => {
+    const child = parent.createChild();
+    configureRef.current?.(child);
+    return child;
+  }, [parent])!;
+
+  return (
+    <DIContext.Provider value={container}>
+      {children}
+    </DIContext.Provider>
+  );
 };
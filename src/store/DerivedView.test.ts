@@ -0,0 +1,138 @@
+import { MasterStore, StoreView } from './MasterStore';
+import type { Todo } from '@/features/todo';
+
+interface Tag {
+  id: string;
+  name: string;
+}
+
+describe('MasterStore Derived Views', () => {
+  let masterStore: MasterStore;
+  let todoView: StoreView<Todo>;
+
+  const addTodo = (text: string, completed = false) =>
+    todoView.addItem({ text, completed, createdAt: new Date() });
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    todoView = masterStore.getView<Todo>('todos');
+  });
+
+  describe('Computation', () => {
+    test('computes items from the source key', () => {
+      const active = masterStore.derive<Todo>('todos.active', ['todos'], (todos: Todo[]) =>
+        todos.filter((todo) => !todo.completed)
+      );
+
+      const first = addTodo('First');
+      addTodo('Done', true);
+
+      expect(active.getItems()).toEqual([first]);
+      expect(active.getById(first.id)).toBe(first);
+      expect(active.findItem((todo) => todo.text === 'Done')).toBeUndefined();
+    });
+
+    test('combines several source keys', () => {
+      const tagView = masterStore.getView<Tag>('tags');
+      const summary = masterStore.derive('summary', ['todos', 'tags'], (todos: Todo[], tags: Tag[]) => [
+        { id: 'summary', todos: todos.length, tags: tags.length },
+      ]);
+
+      addTodo('Todo');
+      tagView.addItem({ name: 'work' });
+      tagView.addItem({ name: 'home' });
+
+      expect(summary.getItem()).toEqual({ id: 'summary', todos: 1, tags: 2 });
+    });
+
+    test('is memoized on source references', () => {
+      const compute = jest.fn((todos: Todo[]) => todos.filter((todo) => todo.completed));
+      const completed = masterStore.derive<Todo>('todos.completed', ['todos'], compute);
+      addTodo('Todo');
+
+      const first = completed.getItems();
+      expect(completed.getItems()).toBe(first);
+      expect(compute).toHaveBeenCalledTimes(1);
+
+      masterStore.getView<Tag>('tags').addItem({ name: 'unrelated' });
+      expect(completed.getItems()).toBe(first);
+      expect(compute).toHaveBeenCalledTimes(1);
+    });
+
+    test('keeps the previous array when the computed items are unchanged', () => {
+      const completed = masterStore.derive<Todo>('todos.completed', ['todos'], (todos: Todo[]) =>
+        todos.filter((todo) => todo.completed)
+      );
+      addTodo('Done', true);
+      const before = completed.getItems();
+
+      const active = addTodo('Active');
+      todoView.updateItem(active.id, (draft) => {
+        draft.text = 'Renamed';
+      });
+
+      expect(completed.getItems()).toBe(before);
+    });
+
+    test('sees writes staged in a transaction', () => {
+      const active = masterStore.derive<Todo>('todos.active', ['todos'], (todos: Todo[]) =>
+        todos.filter((todo) => !todo.completed)
+      );
+
+      masterStore.transaction(() => {
+        addTodo('Staged');
+        expect(active.getItems()).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('Subscriptions', () => {
+    test('notifies only when the derived items change', () => {
+      const completed = masterStore.derive<Todo>('todos.completed', ['todos'], (todos: Todo[]) =>
+        todos.filter((todo) => todo.completed)
+      );
+      const callback = jest.fn();
+      completed.subscribe(callback);
+
+      const todo = addTodo('Todo');
+      expect(callback).not.toHaveBeenCalled();
+
+      todoView.updateItem(todo.id, (draft) => {
+        draft.completed = true;
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenLastCalledWith([todoView.getById(todo.id)]);
+    });
+
+    test('supports selector subscriptions', () => {
+      const active = masterStore.derive<Todo>('todos.active', ['todos'], (todos: Todo[]) =>
+        todos.filter((todo) => !todo.completed)
+      );
+      const listener = jest.fn();
+      active.subscribe((todos) => todos.length, listener);
+
+      addTodo('One');
+      addTodo('Done', true);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(1, 0);
+    });
+  });
+
+  describe('Registration', () => {
+    test('deriving an existing key returns the same view', () => {
+      const compute = (todos: Todo[]) => todos;
+      const view = masterStore.derive<Todo>('todos.all', ['todos'], compute);
+      expect(masterStore.derive<Todo>('todos.all', ['todos'], compute)).toBe(view);
+    });
+
+    test('derived and regular keys cannot collide', () => {
+      masterStore.derive<Todo>('todos.active', ['todos'], (todos: Todo[]) => todos);
+
+      expect(() => masterStore.getView('todos.active')).toThrow('derived view');
+      expect(() => masterStore.derive('todos', ['tags'], (tags: Tag[]) => tags)).toThrow(
+        'already used by a StoreView'
+      );
+    });
+  });
+});
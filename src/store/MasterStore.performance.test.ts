@@ -255,5 +255,88 @@ describe('MasterStore Performance Tests', () => {
 
       unsubscribe();
     });
+
+    test('subscribers are not notified when an unrelated key changes', () => {
+      const callback = jest.fn();
+      const unsubscribe = todoView.subscribe(callback);
+
+      const otherView = masterStore.getView<any>('settings');
+      for (let i = 0; i < 100; i++) {
+        otherView.setItem({ theme: `theme-${i}` });
+      }
+
+      expect(callback).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    test('selector subscribers only fire when the selection changes', () => {
+      const listener = jest.fn();
+      const unsubscribe = todoView.subscribe(
+        (todos: Todo[]) => todos.filter((todo) => todo.completed).length,
+        listener
+      );
+
+      const todos = todoView.getItems();
+      const initialCompleted = todos.filter((todo: Todo) => todo.completed).length;
+
+      // Text edits and unrelated keys do not change the completed count
+      todoView.updateItem(todos[0].id, (draft: any) => {
+        draft.text = 'Edited';
+      });
+      masterStore.getView<any>('settings').setItem({ theme: 'dark' });
+      expect(listener).not.toHaveBeenCalled();
+
+      // Completing an incomplete todo does
+      const incomplete = todos.find((todo: Todo) => !todo.completed);
+      todoView.updateItem(incomplete.id, (draft: any) => {
+        draft.completed = true;
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(initialCompleted + 1, initialCompleted);
+      unsubscribe();
+    });
+
+    test('selector subscribers respect a custom equality function', () => {
+      const listener = jest.fn();
+      const unsubscribe = todoView.subscribe(
+        (todos: Todo[]) => todos.map((todo) => todo.id),
+        listener,
+        {
+          equalityFn: (a: string[], b: string[]) =>
+            a.length === b.length && a.every((id, index) => id === b[index]),
+        }
+      );
+
+      // Toggling every todo keeps the ID list equal
+      todoView.updateItems((draft: any) => {
+        draft.forEach((todo: any) => {
+          todo.completed = !todo.completed;
+        });
+      });
+      expect(listener).not.toHaveBeenCalled();
+
+      todoView.addItem({ text: 'New', completed: false, createdAt: new Date() });
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+
+    test('selector subscriptions stay cheap with many unrelated writes', () => {
+      const selector = jest.fn((todos: Todo[]) => todos.length);
+      const unsubscribe = todoView.subscribe(selector, () => undefined);
+      selector.mockClear();
+
+      const otherView = masterStore.getView<any>('events');
+      const start = performance.now();
+      for (let i = 0; i < 500; i++) {
+        otherView.addItem({ index: i });
+      }
+      const elapsed = performance.now() - start;
+
+      // The selector is never re-run for writes to other keys
+      expect(selector).not.toHaveBeenCalled();
+      expect(elapsed).toBeLessThan(1000);
+      unsubscribe();
+    });
   });
 });
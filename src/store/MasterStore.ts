@@ -1,6 +1,17 @@
-import { injectable } from "inversify";
+import { injectable, inject, multiInject, optional } from "inversify";
 import { createStore } from "zustand/vanilla";
-import { produce, Draft } from "immer";
+import { produce, produceWithPatches, Draft, Patch } from "immer";
+import { TYPES } from "@/constants/types";
+import { StorePersistence, PersistenceOptions } from "./persistence/StorePersistence";
+import { StoreHistory, HistoryOptions } from "./history/StoreHistory";
+import { StoreTransaction } from "./transaction/StoreTransaction";
+import { CollectionIndex, IndexOptions } from "./indexing/CollectionIndex";
+import { MiddlewarePipeline, StoreMiddleware, WriteContext } from "./middleware/StoreMiddleware";
+import { SchemaRegistry } from "./schema/SchemaRegistry";
+import { StoreSync, SyncOptions } from "./sync/StoreSync";
+import type { Schema } from "./schema/schema";
+
+export type { IndexOptions };
 
 /**
  * Base interface for entities that can be stored in collections.
@@ -12,27 +23,22 @@ export interface Identifiable {
 }
 
 /**
- * Unified interface for both single items and collections using pure Immer approach.
- * Provides a consistent API for CRUD operations with structural sharing optimization.
+ * Options for selector-based StoreView subscriptions.
  *
- * @template T - The type of entity being stored, must extend Identifiable
- *
- * @example
- * ```typescript
- * const todoView = masterStore.getView<Todo>('todos');
- *
- * // Add a new todo
- * const newTodo = todoView.addItem({ text: 'Learn TypeScript', completed: false });
- *
- * // Update a todo using Immer draft
- * todoView.updateItem(newTodo.id, (draft) => {
- *   draft.completed = true;
- * });
- * ```
+ * @template S - The type of the selected value
  */
-export interface StoreView<T extends Identifiable> {
-  // === READ OPERATIONS ===
+export interface SubscribeOptions<S> {
+  /** Decides whether two selections are equal (defaults to `Object.is`) */
+  equalityFn?: (a: S, b: S) => boolean;
+}
 
+/**
+ * Read-only access to a collection: lookups and subscriptions.
+ * Implemented by regular StoreViews and by derived views.
+ *
+ * @template T - The type of entity in the collection, must extend Identifiable
+ */
+export interface ReadonlyStoreView<T extends Identifiable> {
   /**
    * Get the first item from the collection (for single-item collections).
    * @returns The first item or undefined if collection is empty
@@ -59,13 +65,92 @@ export interface StoreView<T extends Identifiable> {
    */
   findItem(predicate: (item: T) => boolean): T | undefined;
 
+  /**
+   * Get an item by ID in constant time.
+   * @param id - ID of the item
+   * @returns The item or undefined if not found
+   */
+  getById(id: string): T | undefined;
+
   /**
    * Subscribe to changes in the collection.
+   * Only called when this collection changes, not when other keys change.
    * @param callback - Function called when collection changes
    * @returns Unsubscribe function
    */
   subscribe(callback: (items: T[]) => void): () => void;
 
+  /**
+   * Subscribe to a value selected from the collection.
+   * The listener is only called when the selection changes according to the equality function.
+   * @param selector - Function deriving the value of interest from the collection
+   * @param listener - Function called with the new and previous selection
+   * @param options - Subscription options such as a custom equality function
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * todoView.subscribe(
+   *   (todos) => todos.filter((todo) => todo.completed).length,
+   *   (completedCount) => console.log(completedCount)
+   * );
+   * ```
+   */
+  subscribe<S>(
+    selector: (items: T[]) => S,
+    listener: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void;
+}
+
+/**
+ * Unified interface for both single items and collections using pure Immer approach.
+ * Provides a consistent API for CRUD operations with structural sharing optimization.
+ *
+ * @template T - The type of entity being stored, must extend Identifiable
+ *
+ * @example
+ * ```typescript
+ * const todoView = masterStore.getView<Todo>('todos');
+ *
+ * // Add a new todo
+ * const newTodo = todoView.addItem({ text: 'Learn TypeScript', completed: false });
+ *
+ * // Update a todo using Immer draft
+ * todoView.updateItem(newTodo.id, (draft) => {
+ *   draft.completed = true;
+ * });
+ * ```
+ */
+export interface StoreView<T extends Identifiable> extends ReadonlyStoreView<T> {
+  // === INDEX OPERATIONS ===
+
+  /**
+   * Get all items stored under a key of a secondary index.
+   * @param indexName - Name of an index declared with `defineIndex`
+   * @param value - Index key to look up
+   * @returns Matching items in collection order
+   * @throws Error if the index has not been defined
+   */
+  getByIndex(indexName: string, value: unknown): T[];
+
+  /**
+   * Declare a secondary index kept in sync with every write.
+   * Redefining an existing index replaces it.
+   * @param indexName - Name used with `getByIndex`
+   * @param keyFn - Function returning the index key for an item (or a list of keys with `multi`)
+   * @param options - Index options
+   *
+   * @example
+   * ```typescript
+   * todoView.defineIndex('completed', (todo) => todo.completed);
+   * todoView.defineIndex('tag', (todo) => todo.tags, { multi: true });
+   *
+   * const done = todoView.getByIndex('completed', true);
+   * ```
+   */
+  defineIndex(indexName: string, keyFn: (item: T) => unknown, options?: IndexOptions): void;
+
   // === WRITE OPERATIONS (ALL use Immer Draft pattern) ===
 
   /**
@@ -131,6 +216,55 @@ export interface StoreView<T extends Identifiable> {
   ): void;
 }
 
+/**
+ * Configuration for MasterStore.
+ * Bind under `TYPES.MasterStoreConfig` to configure a container-managed store.
+ *
+ * @example
+ * ```typescript
+ * container.bind<MasterStoreConfig>(TYPES.MasterStoreConfig).toConstantValue({
+ *   persistence: { adapter: new LocalStorageAdapter() },
+ * });
+ * ```
+ */
+export interface MasterStoreConfig {
+  /** Hydrate data from and persist changes to a storage backend */
+  persistence?: PersistenceOptions;
+  /** Record undo/redo history for StoreView writes */
+  history?: HistoryOptions;
+  /** Middleware run for every StoreView write, in order */
+  middleware?: StoreMiddleware[];
+  /** Sync changes with other tabs */
+  sync?: SyncOptions;
+}
+
+/**
+ * Label describing a change to the store state, for debugging tools.
+ */
+export interface StoreAction {
+  /**
+   * What caused the change: `<key>/<operation>` for StoreView writes
+   * (e.g. `todos/addItem`), the transaction label for transactions, `undo`,
+   * `redo`, `restore`, `sync` for changes from other tabs or replicas, or
+   * `setData` for unlabelled changes such as hydration.
+   */
+  type: string;
+  /** Keys whose value changed */
+  keys: string[];
+}
+
+/**
+ * Listener notified after every change to the store state.
+ * @param action - Label of the change
+ * @param data - Data after the change
+ * @param previousData - Data before the change
+ */
+export type StoreActionListener = (
+  action: StoreAction,
+  data: Record<string, any>,
+  previousData: Record<string, any>
+) => void;
+
 /**
  * Internal state interface for the master store.
  * Manages the underlying Zustand store state and operations.
@@ -142,16 +276,113 @@ interface MasterStoreState {
   setData: (key: string, value: any) => void;
   /** Update data for a specific key using an updater function */
   updateData: (key: string, updater: (current: any) => any) => void;
+  /** Set data for several keys in a single update */
+  mergeData: (values: Record<string, any>) => void;
+}
+
+/**
+ * Names of the StoreView write operations, used to label writes.
+ */
+export type StoreOperation =
+  | 'setItem'
+  | 'addItem'
+  | 'updateItem'
+  | 'removeItem'
+  | 'clearItems'
+  | 'updateItems'
+  | 'updateItemsWhere';
+
+/**
+ * Immer recipe applied to a collection by a StoreView write.
+ * May mutate the draft or return a replacement collection.
+ */
+export type StoreRecipe<T = any> = (draft: Draft<T[]>) => T[] | void;
+
+/**
+ * Access to MasterStore data used by views for every read and write.
+ */
+interface StoreAccess {
+  /** Read the current value of a key, including uncommitted transaction writes */
+  read(key: string): any;
+  /** Apply a write recipe to a key */
+  write(key: string, operation: StoreOperation, recipe: StoreRecipe): void;
+}
+
+/**
+ * Shared empty collection returned for keys without data.
+ * Keeping it stable lets reference-based change detection treat "no data" as unchanged.
+ */
+const EMPTY_ITEMS: any[] = [];
+Object.freeze(EMPTY_ITEMS);
+
+/**
+ * Subscribe to a collection read from committed store state.
+ *
+ * Shared by regular and derived views. Listeners only run when the
+ * collection returned by `readItems` changes by reference, and selector
+ * listeners additionally only when the selection changes.
+ */
+function subscribeToItems<T, S>(
+  store: any,
+  readItems: (state: MasterStoreState) => T[],
+  selectorOrCallback: ((items: T[]) => S) | ((items: T[]) => void),
+  listener?: (selection: S, previousSelection: S) => void,
+  options: SubscribeOptions<S> = {}
+): () => void {
+  let items = readItems(store.getState());
+
+  if (!listener) {
+    const callback = selectorOrCallback as (items: T[]) => void;
+    return store.subscribe((state: MasterStoreState) => {
+      const nextItems = readItems(state);
+      if (nextItems !== items) {
+        items = nextItems;
+        callback(items);
+      }
+    });
+  }
+
+  const selector = selectorOrCallback as (items: T[]) => S;
+  const equalityFn = options.equalityFn ?? Object.is;
+  let selection = selector(items);
+
+  return store.subscribe((state: MasterStoreState) => {
+    const nextItems = readItems(state);
+    if (nextItems === items) {
+      return;
+    }
+    items = nextItems;
+
+    const nextSelection = selector(items);
+    if (!equalityFn(selection, nextSelection)) {
+      const previousSelection = selection;
+      selection = nextSelection;
+      listener(nextSelection, previousSelection);
+    }
+  });
+}
+
+/**
+ * Generate a unique ID for a new item.
+ */
+function generateId(): string {
+  return Date.now().toString() + Math.random().toString(36).substring(2, 11);
 }
 
 /**
  * Implementation of unified StoreView that handles both single items and collections.
  * Provides Immer-powered operations with structural sharing optimization.
  *
+ * Every write is expressed as an Immer recipe and handed to MasterStore,
+ * which applies it and takes care of cross-cutting concerns such as history.
+ *
  * @template T - The type of entity being stored
  */
 class StoreViewImpl<T extends Identifiable> implements StoreView<T> {
-  constructor(private store: any, private key: string) {}
+  /** ID and secondary indexes, synchronised lazily with the current items */
+  private index = new CollectionIndex<T>();
+
+  constructor(private store: any, private key: string, private access: StoreAccess) {}
 
   // Single item operations
   getItem(): T | undefined {
@@ -165,24 +396,21 @@ class StoreViewImpl<T extends Identifiable> implements StoreView<T> {
   setItem(itemOrUpdater: T | Omit<T, "id"> | ((draft: Draft<T>) => void)): T | void {
     if (typeof itemOrUpdater === 'function') {
       // Draft updater function
-      const currentItems = this.getItems();
-      const firstItem = currentItems[0];
-      if (firstItem) {
-        const updatedItem = produce(firstItem, itemOrUpdater as (draft: Draft<T>) => void);
-        this.store.getState().setData(this.key, [updatedItem]);
+      if (this.getItem()) {
+        this.mutate('setItem', (draft) => {
+          (itemOrUpdater as (draft: Draft<T>) => void)(draft[0]);
+          draft.splice(1);
+        });
       }
       return;
     } else if ('id' in itemOrUpdater) {
       // Replace existing item or set as single item
-      this.store.getState().setData(this.key, [itemOrUpdater]);
+      this.mutate('setItem', () => [itemOrUpdater]);
       return;
     } else {
       // Create new item with ID
-      const newItem = {
-        ...itemOrUpdater,
-        id: Date.now().toString() + Math.random().toString(36).substring(2, 11),
-      } as T;
-      this.store.getState().setData(this.key, [newItem]);
+      const newItem = { ...itemOrUpdater, id: generateId() } as T;
+      this.mutate('setItem', () => [newItem]);
       return newItem;
     }
   }
@@ -191,39 +419,39 @@ class StoreViewImpl<T extends Identifiable> implements StoreView<T> {
   getItems(): T[];
   getItems(filter: (item: T) => boolean): T[];
   getItems(filter?: (item: T) => boolean): T[] {
-    const state = this.store.getState();
-    const items: T[] = state.data[this.key] ?? [];
+    const items: T[] = this.access.read(this.key) ?? EMPTY_ITEMS;
     return filter ? items.filter(filter) : items;
   }
 
   addItem(item: Omit<T, "id">): T {
-    const newItem = {
-      ...item,
-      id: Date.now().toString() + Math.random().toString(36).substring(2, 11),
-    } as T;
-
-    const currentItems = this.getItems();
-    const updatedItems = [...currentItems, newItem];
-    this.store.getState().setData(this.key, updatedItems);
-
+    const newItem = { ...item, id: generateId() } as T;
+    this.mutate('addItem', (draft) => {
+      draft.push(newItem as Draft<T>);
+    });
     return newItem;
   }
 
   updateItem(id: string, updater: (draft: Draft<T>) => void): void {
-    const currentItems = this.getItems();
-    const updatedItems = produce(currentItems, draft => {
-      const item = draft.find(item => item.id === id);
-      if (item) {
-        updater(item);
+    // Look the position up via the index so only the target item is drafted
+    const position = this.index.positionOf(this.getItems(), id);
+    this.mutate('updateItem', (draft) => {
+      if (position !== -1) {
+        updater(draft[position]);
       }
     });
-    this.store.getState().setData(this.key, updatedItems);
   }
 
   removeItem(id: string): void {
+    // Copying the original array is much cheaper than splicing a draft
     const currentItems = this.getItems();
-    const updatedItems = currentItems.filter((item) => item.id !== id);
-    this.store.getState().setData(this.key, updatedItems);
+    const position = this.index.positionOf(currentItems, id);
+    this.mutate('removeItem', () => {
+      if (position !== -1) {
+        const remaining = currentItems.slice();
+        remaining.splice(position, 1);
+        return remaining;
+      }
+    });
   }
 
   findItem(predicate: (item: T) => boolean): T | undefined {
@@ -231,19 +459,31 @@ class StoreViewImpl<T extends Identifiable> implements StoreView<T> {
     return items.find(predicate);
   }
 
+  getById(id: string): T | undefined {
+    const items = this.getItems();
+    const position = this.index.positionOf(items, id);
+    return position === -1 ? undefined : items[position];
+  }
+
+  getByIndex(indexName: string, value: unknown): T[] {
+    return this.index.lookup(this.getItems(), indexName, value);
+  }
+
+  defineIndex(indexName: string, keyFn: (item: T) => unknown, options?: IndexOptions): void {
+    this.index.define(indexName, keyFn, options);
+  }
+
   clearItems(): void {
-    this.store.getState().setData(this.key, []);
+    this.mutate('clearItems', () => []);
   }
 
   updateItems(updater: (draft: Draft<T[]>) => void): void {
-    const currentItems = this.getItems();
-    const updatedItems = produce(currentItems, updater);
-    this.store.getState().setData(this.key, updatedItems);
+    this.mutate('updateItems', updater);
   }
 
   updateItemsWhere(predicate: (item: T) => boolean, updater: (draft: Draft<T>) => void): void {
     const currentItems = this.getItems();
-    const updatedItems = produce(currentItems, draft => {
+    this.mutate('updateItemsWhere', (draft) => {
       draft.forEach((item, index) => {
         // Check predicate on original item structure
         if (predicate(currentItems[index])) {
@@ -251,14 +491,111 @@ class StoreViewImpl<T extends Identifiable> implements StoreView<T> {
         }
       });
     });
-    this.store.getState().setData(this.key, updatedItems);
   }
 
-  subscribe(callback: (items: T[]) => void): () => void {
-    return this.store.subscribe((state: MasterStoreState) => {
-      const items: T[] = state.data[this.key] ?? [];
-      callback(items);
-    });
+  subscribe(callback: (items: T[]) => void): () => void;
+  subscribe<S>(
+    selector: (items: T[]) => S,
+    listener: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void;
+  subscribe<S>(
+    selectorOrCallback: ((items: T[]) => S) | ((items: T[]) => void),
+    listener?: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void {
+    return subscribeToItems<T, S>(
+      this.store,
+      (state) => state.data[this.key] ?? EMPTY_ITEMS,
+      selectorOrCallback,
+      listener,
+      options
+    );
+  }
+
+  private mutate(operation: StoreOperation, recipe: StoreRecipe<T>): void {
+    this.access.write(this.key, operation, recipe as StoreRecipe);
+  }
+}
+
+/**
+ * Read-only view computed from one or more source keys.
+ *
+ * The result is memoized on the source arrays: it is recomputed only when
+ * at least one source array changes by reference. When a recomputation
+ * yields exactly the same items, the previous array is kept so subscribers
+ * are not notified.
+ *
+ * @template T - The type of entity produced by the computation
+ */
+class DerivedViewImpl<T extends Identifiable> implements ReadonlyStoreView<T> {
+  /** Source arrays the cached result was computed from */
+  private sources: any[][] | null = null;
+  private result: T[] = EMPTY_ITEMS;
+  private index = new CollectionIndex<T>();
+
+  constructor(
+    private store: any,
+    private deps: string[],
+    private compute: (...sources: any[][]) => T[],
+    private read: (key: string) => any
+  ) {}
+
+  getItem(): T | undefined {
+    return this.getItems()[0];
+  }
+
+  getItems(): T[];
+  getItems(filter: (item: T) => boolean): T[];
+  getItems(filter?: (item: T) => boolean): T[] {
+    const items = this.resolve(this.deps.map((dep) => this.read(dep) ?? EMPTY_ITEMS));
+    return filter ? items.filter(filter) : items;
+  }
+
+  findItem(predicate: (item: T) => boolean): T | undefined {
+    return this.getItems().find(predicate);
+  }
+
+  getById(id: string): T | undefined {
+    const items = this.getItems();
+    const position = this.index.positionOf(items, id);
+    return position === -1 ? undefined : items[position];
+  }
+
+  subscribe(callback: (items: T[]) => void): () => void;
+  subscribe<S>(
+    selector: (items: T[]) => S,
+    listener: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void;
+  subscribe<S>(
+    selectorOrCallback: ((items: T[]) => S) | ((items: T[]) => void),
+    listener?: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void {
+    return subscribeToItems<T, S>(
+      this.store,
+      (state) => this.resolve(this.deps.map((dep) => state.data[dep] ?? EMPTY_ITEMS)),
+      selectorOrCallback,
+      listener,
+      options
+    );
+  }
+
+  private resolve(sources: any[][]): T[] {
+    const cached = this.sources;
+    if (cached && sources.every((source, i) => source === cached[i])) {
+      return this.result;
+    }
+    this.sources = sources;
+
+    const next = this.compute(...sources);
+    const unchanged =
+      next.length === this.result.length && next.every((item, i) => item === this.result[i]);
+    if (!unchanged) {
+      this.result = Object.freeze(next) as T[];
+    }
+    return this.result;
   }
 }
 
@@ -271,6 +608,13 @@ class StoreViewImpl<T extends Identifiable> implements StoreView<T> {
  * - Automatic ID generation
  * - Subscription-based reactivity
  * - View caching for performance
+ * - Optional persistence through a pluggable StorageAdapter
+ * - Optional undo/redo history recorded as Immer patches
+ * - Transactions committing writes to several views in a single update
+ * - Memoized derived views computed from other keys
+ * - Middleware intercepting every write (transform, veto, observe)
+ * - Schema validation rejecting invalid writes with a ValidationError
+ * - Optional cross-tab sync merging concurrent edits per item
  *
  * @example
  * ```typescript
@@ -298,11 +642,34 @@ export class MasterStore {
   private store: any; // Temporarily use any to fix the build
   /** Cache for StoreView instances to avoid recreation */
   private viewCache = new Map<string, any>();
+  /** Derived views by key */
+  private derivedViews = new Map<string, any>();
+  /** Persistence bridge, present only when persistence is configured */
+  private persistence?: StorePersistence;
+  /** Undo/redo history, present only when history is configured */
+  private history?: StoreHistory;
+  /** Cross-tab sync, present only when sync is configured */
+  private sync?: StoreSync;
+  /** Open transactions, innermost last */
+  private transactions: StoreTransaction[] = [];
+  /** Middleware run for every write */
+  private middleware = new MiddlewarePipeline();
+  /** Item schemas by key */
+  private schemas = new SchemaRegistry();
+  /** Listeners for labelled state changes */
+  private actionListeners = new Set<StoreActionListener>();
+  /** Label of the state change currently being made */
+  private pendingAction?: string;
 
   /**
    * Initialize the master store with Zustand state management.
+   * @param config - Optional store configuration (persistence, history, ...)
+   * @param middleware - Middleware bound under `TYPES.StoreMiddleware`, run after `config.middleware`
    */
-  constructor() {
+  constructor(
+    @inject(TYPES.MasterStoreConfig) @optional() config: MasterStoreConfig = {},
+    @multiInject(TYPES.StoreMiddleware) @optional() middleware: StoreMiddleware[] = []
+  ) {
     this.store = createStore<MasterStoreState>((set) => ({
       data: {},
 
@@ -318,7 +685,149 @@ export class MasterStore {
             [key]: updater(state.data[key]),
           },
         })),
+
+      mergeData: (values: Record<string, any>) =>
+        set((state) => ({
+          data: { ...state.data, ...values },
+        })),
     }));
+
+    if (config.persistence) {
+      this.persistence = new StorePersistence(this.store, config.persistence);
+    }
+
+    if (config.history) {
+      this.history = new StoreHistory({
+        get: (key) => this.store.getState().data[key] ?? EMPTY_ITEMS,
+        set: (values) => this.store.getState().mergeData(values),
+      }, config.history);
+    }
+
+    [...(config.middleware ?? []), ...middleware].forEach((entry) => this.middleware.use(entry));
+
+    if (config.sync) {
+      this.sync = new StoreSync({
+        subscribe: (listener) => this.subscribeActions(listener),
+        getData: () => this.store.getState().data,
+        isHydrated: () => this.isHydrated(),
+        whenHydrated: () => this.whenHydrated(),
+        apply: (values) => this.applyRemoteData(values),
+      }, config.sync);
+    }
+
+    this.store.subscribe((state: MasterStoreState, previous: MasterStoreState) => {
+      if (this.actionListeners.size === 0 || state.data === previous.data) {
+        return;
+      }
+      const keys = Array.from(new Set([...Object.keys(state.data), ...Object.keys(previous.data)])).filter(
+        (key) => state.data[key] !== previous.data[key]
+      );
+      const action: StoreAction = { type: this.pendingAction ?? 'setData', keys };
+      this.actionListeners.forEach((listener) => listener(action, state.data, previous.data));
+    });
+  }
+
+  /**
+   * Wait until persisted data has been loaded into the store.
+   * Resolves immediately when persistence is not configured.
+   * @returns Promise resolved once hydration is complete
+   */
+  whenHydrated(): Promise<void> {
+    return this.persistence ? this.persistence.whenHydrated() : Promise.resolve();
+  }
+
+  /**
+   * Check whether persisted data has been loaded into the store.
+   * @returns True once hydration is complete (always true without persistence)
+   */
+  isHydrated(): boolean {
+    return this.persistence ? this.persistence.isHydrated() : true;
+  }
+
+  /**
+   * Write pending changes to storage immediately, bypassing the debounce.
+   * @returns Promise resolved once all pending writes have completed
+   */
+  flush(): Promise<void> {
+    return this.persistence ? this.persistence.flush() : Promise.resolve();
+  }
+
+  /**
+   * Register middleware at the end of the write chain.
+   *
+   * Middleware sees every StoreView write as `{ key, operation, previous, next, meta }`
+   * and may pass it on unchanged, pass on a transformed `next` collection,
+   * or veto it. Writes that change nothing, undo/redo and persistence
+   * hydration do not pass through middleware.
+   *
+   * @param middleware - Middleware to add
+   * @returns Function removing the middleware again
+   *
+   * @example
+   * ```typescript
+   * masterStore.use((context, next) => {
+   *   if (context.next.length <= 100) {
+   *     next(context); // larger collections are vetoed
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: StoreMiddleware): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  /**
+   * Register a schema that every item written to a key must match.
+   *
+   * Writes are validated after middleware has run, so the schema checks
+   * what would actually be stored. A write containing an invalid item is
+   * rejected as a whole with a ValidationError listing the offending field
+   * paths. Only added or replaced items are validated; data already in the
+   * store (e.g. hydrated from persistence) is not re-checked.
+   *
+   * @template T - The type of entity stored under the key
+   * @param key - MasterStore key
+   * @param schema - Item schema, replacing any previously defined for the key
+   *
+   * @example
+   * ```typescript
+   * masterStore.defineSchema<Todo>('todos', object<Todo>({
+   *   id: string({ minLength: 1 }),
+   *   text: string({ minLength: 1 }),
+   *   completed: boolean(),
+   *   createdAt: date(),
+   * }));
+   *
+   * todoView.addItem({ text: '', completed: false, createdAt: new Date() });
+   * // throws ValidationError: Invalid data for "todos": text must not be empty
+   * ```
+   */
+  defineSchema<T extends Identifiable>(key: string, schema: Schema<T>): void {
+    this.schemas.define(key, schema);
+  }
+
+  /**
+   * Stop syncing with other tabs and close the sync channel.
+   * Does nothing when sync is not configured.
+   */
+  disconnectSync(): void {
+    this.sync?.dispose();
+    this.sync = undefined;
+  }
+
+  /**
+   * Store values merged from other replicas, e.g. by cross-tab sync or a
+   * CrdtStoreView, in a single update labelled `sync`.
+   *
+   * Bypasses middleware and validation, since the values were checked by
+   * the replica that wrote them. Clears the undo history of the keys.
+   *
+   * @param values - Merged values by key
+   */
+  applyRemoteData(values: Record<string, any>): void {
+    this.labelled('sync', () => this.store.getState().mergeData(values));
+    // Recorded patches are positional and may no longer match the merged collections
+    Object.keys(values).forEach((key) => this.history?.clear(key));
   }
 
   /**
@@ -330,17 +839,189 @@ export class MasterStore {
    * @returns StoreView instance for the specified key
    */
   getView<T extends Identifiable>(key: string): StoreView<T> {
+    if (this.derivedViews.has(key)) {
+      throw new Error(`Key "${key}" is a derived view; use derive() to access it`);
+    }
+
     // Use cached view if available
     if (this.viewCache.has(key)) {
       return this.viewCache.get(key) as StoreView<T>;
     }
 
     // Create new view and cache it
-    const view = new StoreViewImpl<T>(this.store, key);
+    const view = new StoreViewImpl<T>(this.store, key, {
+      read: this.read,
+      write: this.write,
+    });
     this.viewCache.set(key, view);
     return view;
   }
 
+  /**
+   * Run a function whose StoreView writes are committed atomically.
+   *
+   * Writes made inside `fn` are staged and visible to reads inside `fn`, then
+   * committed in a single store update, so subscribers are notified exactly
+   * once. If `fn` throws, all staged writes are discarded and the error is
+   * rethrown. Transactions may be nested: a failing inner transaction only
+   * discards its own writes. With history enabled, a committed transaction
+   * forms a single undo step.
+   *
+   * The function must be synchronous.
+   *
+   * @param fn - Function performing the writes
+   * @param label - Label for the resulting undo step
+   * @returns The function's return value
+   *
+   * @example
+   * ```typescript
+   * masterStore.transaction(() => {
+   *   todoView.removeItem(todo.id);
+   *   archiveView.addItem({ ...todo, archivedAt: new Date() });
+   * });
+   * ```
+   */
+  transaction<R>(fn: () => R, label = 'transaction'): R {
+    const transaction = new StoreTransaction();
+    this.transactions.push(transaction);
+
+    let result: R;
+    try {
+      result = fn();
+      if (result instanceof Promise) {
+        throw new Error('MasterStore.transaction() does not support async functions');
+      }
+    } finally {
+      this.transactions.pop();
+    }
+
+    const parent = this.transactions[this.transactions.length - 1];
+    if (parent) {
+      transaction.mergeInto(parent);
+    } else {
+      this.commit(transaction, label);
+    }
+    return result;
+  }
+
+  /**
+   * Check whether a transaction is currently open.
+   */
+  isInTransaction(): boolean {
+    return this.transactions.length > 0;
+  }
+
+  /**
+   * Check whether undo/redo history is enabled for this store.
+   */
+  isHistoryEnabled(): boolean {
+    return this.history !== undefined;
+  }
+
+  /**
+   * Check whether there is a step to undo.
+   * @param key - Optional key to restrict the check to a single view
+   */
+  canUndo(key?: string): boolean {
+    return this.history ? this.history.canUndo(key) : false;
+  }
+
+  /**
+   * Check whether there is a step to redo.
+   * @param key - Optional key to restrict the check to a single view
+   */
+  canRedo(key?: string): boolean {
+    return this.history ? this.history.canRedo(key) : false;
+  }
+
+  /**
+   * Revert the most recent step, or the most recent change to a single view.
+   * @param key - Optional key to restrict the undo to a single view
+   * @returns True if something was undone
+   */
+  undo(key?: string): boolean {
+    return this.history ? this.labelled('undo', () => this.history!.undo(key)) : false;
+  }
+
+  /**
+   * Re-apply the most recently undone step, or the most recently undone change to a single view.
+   * @param key - Optional key to restrict the redo to a single view
+   * @returns True if something was redone
+   */
+  redo(key?: string): boolean {
+    return this.history ? this.labelled('redo', () => this.history!.redo(key)) : false;
+  }
+
+  /**
+   * Run a function and record all of its writes as a single undo step.
+   * Without history enabled the function simply runs.
+   *
+   * @param label - Label for the grouped step
+   * @param fn - Function performing the writes
+   * @returns The function's return value
+   *
+   * @example
+   * ```typescript
+   * masterStore.groupHistory('clearCompleted', () => {
+   *   completed.forEach((todo) => todoView.removeItem(todo.id));
+   * });
+   * ```
+   */
+  groupHistory<R>(label: string, fn: () => R): R {
+    return this.history ? this.history.group(label, fn) : fn();
+  }
+
+  /**
+   * Subscribe to changes in undo/redo availability.
+   * @param listener - Called whenever history changes
+   * @returns Unsubscribe function
+   */
+  subscribeHistory(listener: () => void): () => void {
+    return this.history ? this.history.subscribe(listener) : () => undefined;
+  }
+
+  /**
+   * Create a read-only view computed from one or more source keys.
+   *
+   * The computation runs lazily and is memoized on the source arrays, so it
+   * is only re-run when a source collection changes by reference. The
+   * returned view can be read and subscribed to like any StoreView.
+   * Calling `derive` again with the same key returns the existing view.
+   *
+   * @template T - The type of entity produced by the computation
+   * @param key - Unique key for the derived view (must not be used by a StoreView)
+   * @param deps - Keys of the source collections
+   * @param compute - Function producing the derived items from the source collections, in `deps` order
+   * @returns Read-only view of the derived items
+   * @throws Error if the key is already used by a StoreView
+   *
+   * @example
+   * ```typescript
+   * const activeTodos = masterStore.derive<Todo>('todos.active', ['todos'],
+   *   (todos: Todo[]) => todos.filter((todo) => !todo.completed)
+   * );
+   *
+   * activeTodos.subscribe((active) => console.log(active.length));
+   * ```
+   */
+  derive<T extends Identifiable>(
+    key: string,
+    deps: string[],
+    compute: (...sources: any[][]) => T[]
+  ): ReadonlyStoreView<T> {
+    const existing = this.derivedViews.get(key);
+    if (existing) {
+      return existing as ReadonlyStoreView<T>;
+    }
+    if (this.viewCache.has(key)) {
+      throw new Error(`Key "${key}" is already used by a StoreView`);
+    }
+
+    const view = new DerivedViewImpl<T>(this.store, deps, compute, this.read);
+    this.derivedViews.set(key, view);
+    return view;
+  }
+
   /**
    * Backward compatibility alias for getView.
    * @deprecated Use getView instead
@@ -349,6 +1030,43 @@ export class MasterStore {
     return this.getView<T>(key);
   }
 
+  /**
+   * Subscribe to every change of the store state, labelled with its cause.
+   * Intended for debugging tools such as the devtools bridge.
+   *
+   * @param listener - Called after each state change
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * masterStore.subscribeActions((action) => console.log(action.type, action.keys));
+   * todoView.addItem({ text: 'Logged', completed: false, createdAt: new Date() });
+   * // todos/addItem ['todos']
+   * ```
+   */
+  subscribeActions(listener: StoreActionListener): () => void {
+    this.actionListeners.add(listener);
+    return () => {
+      this.actionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace all store data with a snapshot, e.g. to jump to an earlier state.
+   *
+   * Bypasses middleware and validation. Undo history is cleared, since
+   * its patches do not apply to arbitrary snapshots.
+   *
+   * @param data - Snapshot previously obtained from `getAllData()`
+   */
+  restoreData(data: Record<string, any>): void {
+    if (this.isInTransaction()) {
+      throw new Error('MasterStore.restoreData() cannot be called inside a transaction');
+    }
+    this.labelled('restore', () => this.store.setState({ data }));
+    this.history?.clear();
+  }
+
   /**
    * Get all data from the store (for debugging/testing).
    * @returns All stored data as key-value pairs
@@ -359,7 +1077,7 @@ export class MasterStore {
 
   /**
    * Clear all data from the store (for testing).
-   * Removes all collections and clears the view cache.
+   * Removes all collections and clears the view and derived view caches.
    */
   clear(): void {
     // Use the existing setData method to clear each key
@@ -368,5 +1086,117 @@ export class MasterStore {
       this.store.getState().setData(key, undefined);
     });
     this.viewCache.clear();
+    this.derivedViews.clear();
+    this.history?.clear();
+  }
+
+  /**
+   * Read the current value of a key, preferring uncommitted transaction writes.
+   */
+  private read = (key: string): any => {
+    for (let i = this.transactions.length - 1; i >= 0; i--) {
+      if (this.transactions[i].has(key)) {
+        return this.transactions[i].data[key];
+      }
+    }
+    return this.store.getState().data[key];
+  };
+
+  /**
+   * Apply a view write, running it through middleware, staging it when
+   * inside a transaction and recording patches when history is enabled.
+   */
+  private write = (key: string, operation: StoreOperation, recipe: StoreRecipe): void => {
+    const current: any[] = this.read(key) ?? EMPTY_ITEMS;
+    const tracked = this.history?.isTracking(key) ?? false;
+
+    let next: any[];
+    let patches: Patch[] = [];
+    let inversePatches: Patch[] = [];
+    if (tracked) {
+      [next, patches, inversePatches] = produceWithPatches(current, recipe);
+    } else {
+      next = produce(current, recipe);
+    }
+
+    if (next === current) {
+      this.apply(key, operation, next, tracked ? [patches, inversePatches] : undefined);
+      return;
+    }
+    if (this.middleware.isEmpty()) {
+      this.schemas.validateWrite(key, current, next);
+      this.apply(key, operation, next, tracked ? [patches, inversePatches] : undefined);
+      return;
+    }
+
+    const context: WriteContext = {
+      key,
+      operation,
+      previous: current,
+      next,
+      meta: { inTransaction: this.isInTransaction(), timestamp: Date.now() },
+    };
+    this.middleware.run(context, (applied) => {
+      this.schemas.validateWrite(key, current, applied.next);
+      if (!tracked) {
+        this.apply(key, applied.operation, applied.next);
+      } else if (applied.next === next) {
+        this.apply(key, applied.operation, next, [patches, inversePatches]);
+      } else {
+        // Middleware replaced the collection; record the replacement instead
+        const [, replacePatches, replaceInverse] = produceWithPatches(current, () => applied.next);
+        this.apply(key, applied.operation, applied.next, [replacePatches, replaceInverse]);
+      }
+    });
+  };
+
+  /**
+   * Store the result of a write, or stage it inside a transaction.
+   */
+  private apply(key: string, operation: StoreOperation, next: any[], patches?: [Patch[], Patch[]]): void {
+    const transaction = this.transactions[this.transactions.length - 1];
+    if (transaction) {
+      if (patches) {
+        transaction.stagePatches(key, operation, patches[0], patches[1]);
+      }
+      transaction.stage(key, next);
+    } else {
+      if (patches) {
+        this.history!.record(key, operation, patches[0], patches[1]);
+      }
+      this.labelled(`${key}/${operation}`, () => this.store.getState().setData(key, next));
+    }
+  }
+
+  /**
+   * Run a function that changes the store state, labelling the change for action listeners.
+   */
+  private labelled<R>(type: string, fn: () => R): R {
+    const outer = this.pendingAction;
+    this.pendingAction = type;
+    try {
+      return fn();
+    } finally {
+      this.pendingAction = outer;
+    }
+  }
+
+  /**
+   * Commit an outermost transaction in a single store update.
+   */
+  private commit(transaction: StoreTransaction, label: string): void {
+    if (Object.keys(transaction.data).length === 0) {
+      return;
+    }
+
+    const history = this.history;
+    if (history && transaction.changes.size > 0) {
+      history.group(label, () => {
+        transaction.changes.forEach((change, key) => {
+          history.record(key, change.label, change.patches, change.inversePatches);
+        });
+      });
+    }
+    this.labelled(label, () => this.store.getState().mergeData(transaction.data));
   }
 }
@@ -0,0 +1,291 @@
+import type { Identifiable } from '../MasterStore';
+import type { SyncVersion } from '../sync/SyncTransport';
+import { compareVersions } from '../sync/StoreSync';
+import type { CrdtInsertOp, CrdtOp } from './CrdtMessage';
+
+/**
+ * Last-writer-wins register: a value and the version that wrote it.
+ */
+interface Register<V> {
+  value: V;
+  version: SyncVersion;
+}
+
+const elementKey = (element: SyncVersion): string => `${element.clock}@${element.replica}`;
+
+/**
+ * Write a register if the version is newer than the one it holds.
+ * @returns Whether the register was written
+ */
+function writeRegister<V>(registers: Map<string, Register<V>>, name: string, value: V, version: SyncVersion): boolean {
+  const current = registers.get(name);
+  if (current && compareVersions(version, current.version) <= 0) {
+    return false;
+  }
+  registers.set(name, { value, version });
+  return true;
+}
+
+/**
+ * Positions of the longest increasing subsequence of some numbers.
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  // ends[k]: position of the smallest value ending an increasing run of length k + 1
+  const ends: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, position) => {
+    let low = 0;
+    let high = ends.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[ends[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[position] = low > 0 ? ends[low - 1] : -1;
+    ends[low] = position;
+  });
+
+  const run = new Set<number>();
+  for (let position = ends.length > 0 ? ends[ends.length - 1] : -1; position !== -1; position = previous[position]) {
+    run.add(position);
+  }
+  return run;
+}
+
+/**
+ * Collection of identifiable items replicated as a CRDT.
+ *
+ * The order is kept in a replicated growable array (RGA): a list of
+ * elements, each inserted after another and identified by a Lamport
+ * version, concurrent inserts at the same place being ordered by version.
+ * Every item has a last-writer-wins position register naming the element
+ * it sits at, so moving an item is inserting a new element and placing the
+ * item there, and removing it is placing it nowhere. Every field is a
+ * last-writer-wins register of its own, so concurrent edits of different
+ * fields are all kept.
+ *
+ * Applying the same ops in any order gives the same items, provided every
+ * op is applied after the ops of the change it was made after. Applying an
+ * op twice has no effect. Elements are never removed, so the list grows
+ * with every move.
+ *
+ * @template T - The type of the items
+ */
+export class CrdtCollection<T extends Identifiable> {
+  private clock = 0;
+  /** Elements in list order, including those no item sits at any more */
+  private elements: CrdtInsertOp[] = [];
+  private elementKeys = new Set<string>();
+  /** Inserts received before the element they follow */
+  private orphans: CrdtInsertOp[] = [];
+  private positions = new Map<string, Register<SyncVersion | null>>();
+  private fields = new Map<string, Map<string, Register<unknown>>>();
+  /** Items built from their field registers, dropped when a register changes */
+  private built = new Map<string, T>();
+
+  /**
+   * @param replicaId - ID of the replica, making the versions of its ops unique
+   */
+  constructor(readonly replicaId: string) {}
+
+  /**
+   * Turn a local change of the items into ops, and apply them.
+   *
+   * Only changed fields are written, compared by reference. Items that keep
+   * their order relative to each other stay at their elements; the fewest
+   * others are placed anew, so concurrent moves of different items all
+   * take effect.
+   *
+   * @param previous - The items before the change, as returned by `getItems`
+   * @param next - The items after the change
+   * @returns The ops to send to the other replicas
+   */
+  change(previous: readonly T[], next: readonly T[]): CrdtOp[] {
+    const ops: CrdtOp[] = [];
+    const before = new Map(previous.map((item) => [item.id, item]));
+    const nextIds = new Set(next.map((item) => item.id));
+
+    next.forEach((item) => {
+      // An item added back is compared with what it was when removed
+      const old = before.get(item.id) ?? (this.fields.has(item.id) ? this.build(item.id) : undefined);
+      if (old === item) {
+        return;
+      }
+      const oldFields = (old ?? {}) as Record<string, unknown>;
+      const newFields = item as unknown as Record<string, unknown>;
+      const names = new Set([...Object.keys(oldFields), ...Object.keys(newFields)]);
+      names.delete('id');
+      names.forEach((field) => {
+        if (oldFields[field] !== newFields[field]) {
+          ops.push({ type: 'set', item: item.id, field, value: newFields[field], version: this.tick() });
+        }
+      });
+    });
+
+    const kept = this.keptItems(previous, next);
+    let anchor: SyncVersion | null = null;
+    next.forEach((item) => {
+      if (kept.has(item.id)) {
+        anchor = this.positions.get(item.id)!.value;
+        return;
+      }
+      const insert: CrdtInsertOp = { type: 'insert', element: this.tick(), after: anchor };
+      ops.push(insert, { type: 'place', item: item.id, element: insert.element, version: this.tick() });
+      anchor = insert.element;
+    });
+
+    previous.forEach((item) => {
+      if (!nextIds.has(item.id)) {
+        ops.push({ type: 'place', item: item.id, element: null, version: this.tick() });
+      }
+    });
+
+    this.apply(ops);
+    // The registers now hold exactly the new items
+    next.forEach((item) => this.built.set(item.id, item));
+    return ops;
+  }
+
+  /**
+   * Apply ops made by any replica.
+   * @param ops - Ops to apply
+   * @returns Whether the items may have changed
+   */
+  apply(ops: readonly CrdtOp[]): boolean {
+    let changed = false;
+    ops.forEach((op) => {
+      switch (op.type) {
+        case 'insert':
+          this.observe(op.element);
+          changed = this.insert(op) || changed;
+          break;
+        case 'place':
+          this.observe(op.version);
+          changed = writeRegister(this.positions, op.item, op.element, op.version) || changed;
+          break;
+        case 'set': {
+          this.observe(op.version);
+          let registers = this.fields.get(op.item);
+          if (!registers) {
+            registers = new Map();
+            this.fields.set(op.item, registers);
+          }
+          if (writeRegister(registers, op.field, op.value, op.version)) {
+            this.built.delete(op.item);
+            changed = true;
+          }
+          break;
+        }
+      }
+    });
+    return changed;
+  }
+
+  /**
+   * Ops rebuilding the whole state, for a replica joining late.
+   */
+  snapshot(): CrdtOp[] {
+    // Every element follows the element it was inserted after, so replaying them in order works
+    const ops: CrdtOp[] = [...this.elements, ...this.orphans];
+    this.positions.forEach(({ value, version }, item) => {
+      ops.push({ type: 'place', item, element: value, version });
+    });
+    this.fields.forEach((registers, item) => {
+      registers.forEach(({ value, version }, field) => {
+        ops.push({ type: 'set', item, field, value, version });
+      });
+    });
+    return ops;
+  }
+
+  /**
+   * The items in list order. Unchanged items keep their identity.
+   */
+  getItems(): T[] {
+    const itemAt = new Map<string, string>();
+    this.positions.forEach(({ value }, item) => {
+      if (value) {
+        itemAt.set(elementKey(value), item);
+      }
+    });
+    const items: T[] = [];
+    this.elements.forEach(({ element }) => {
+      const id = itemAt.get(elementKey(element));
+      if (id !== undefined) {
+        items.push(this.build(id));
+      }
+    });
+    return items;
+  }
+
+  private tick(): SyncVersion {
+    return { clock: ++this.clock, replica: this.replicaId };
+  }
+
+  private observe(version: SyncVersion): void {
+    this.clock = Math.max(this.clock, version.clock);
+  }
+
+  /**
+   * Items whose order relative to each other is unchanged: the longest
+   * run of them in the same order before and after.
+   */
+  private keptItems(previous: readonly T[], next: readonly T[]): Set<string> {
+    const positionBefore = new Map(previous.map((item, position) => [item.id, position]));
+    const remaining = next.filter((item) => positionBefore.has(item.id) && this.positions.get(item.id)?.value);
+    const run = longestIncreasing(remaining.map((item) => positionBefore.get(item.id)!));
+    return new Set(remaining.filter((_item, position) => run.has(position)).map((item) => item.id));
+  }
+
+  /**
+   * Add an element to the list, or keep it until the element it follows arrives.
+   * @returns Whether an element was added
+   */
+  private insert(op: CrdtInsertOp): boolean {
+    if (this.elementKeys.has(elementKey(op.element))) {
+      return false;
+    }
+    if (op.after && !this.elementKeys.has(elementKey(op.after))) {
+      this.orphans.push(op);
+      return false;
+    }
+
+    const after = op.after ? elementKey(op.after) : null;
+    let position = after === null ? 0 : this.elements.findIndex(({ element }) => elementKey(element) === after) + 1;
+    // Later inserts after the same element come first
+    while (position < this.elements.length && compareVersions(this.elements[position].element, op.element) > 0) {
+      position++;
+    }
+    this.elements.splice(position, 0, op);
+    this.elementKeys.add(elementKey(op.element));
+
+    const key = elementKey(op.element);
+    const waiting = this.orphans.filter((orphan) => orphan.after && elementKey(orphan.after) === key);
+    if (waiting.length > 0) {
+      this.orphans = this.orphans.filter((orphan) => !waiting.includes(orphan));
+      waiting.forEach((orphan) => this.insert(orphan));
+    }
+    return true;
+  }
+
+  /**
+   * Build an item from its field registers.
+   */
+  private build(id: string): T {
+    let item = this.built.get(id);
+    if (!item) {
+      const values: Record<string, unknown> = { id };
+      this.fields.get(id)?.forEach(({ value }, field) => {
+        if (value !== undefined) {
+          values[field] = value;
+        }
+      });
+      item = values as unknown as T;
+      this.built.set(id, item);
+    }
+    return item;
+  }
+}
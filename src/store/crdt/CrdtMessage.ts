@@ -0,0 +1,83 @@
+import type { SyncVersion } from '../sync/SyncTransport';
+
+/**
+ * Add an element to the list CRDT that orders the items. The element is
+ * identified by the version of the insert and follows the element `after`
+ * (null for the head of the list).
+ */
+export interface CrdtInsertOp {
+  type: 'insert';
+  element: SyncVersion;
+  after: SyncVersion | null;
+}
+
+/**
+ * Set the position register of an item: the element it sits at, or null
+ * once it is removed. Moving an item inserts a new element and places the
+ * item there.
+ */
+export interface CrdtPlaceOp {
+  type: 'place';
+  item: string;
+  element: SyncVersion | null;
+  version: SyncVersion;
+}
+
+/**
+ * Set a field register of an item. A missing value removes the field.
+ */
+export interface CrdtSetOp {
+  type: 'set';
+  item: string;
+  field: string;
+  value?: unknown;
+  version: SyncVersion;
+}
+
+/**
+ * Change to a CRDT collection. Ops are plain data, so any transport that
+ * can carry Dates can carry them.
+ */
+export type CrdtOp = CrdtInsertOp | CrdtPlaceOp | CrdtSetOp;
+
+/**
+ * Ops made by one local change of a replica.
+ */
+export interface CrdtOpsMessage {
+  kind: 'ops';
+  /** MasterStore key of the collection */
+  key: string;
+  /** Replica that made the change */
+  replica: string;
+  /** Position of the message among the messages of its replica, from 1 */
+  seq: number;
+  /** Number of messages of each other replica applied before the change was made */
+  deps: Record<string, number>;
+  ops: CrdtOp[];
+}
+
+/**
+ * Whole state of a replica, answering a state request.
+ */
+export interface CrdtStateMessage {
+  kind: 'state';
+  key: string;
+  replica: string;
+  /** Number of messages of each replica, including the sender, the state includes */
+  delivered: Record<string, number>;
+  ops: CrdtOp[];
+}
+
+/**
+ * Request for the state of the other replicas, sent by a replica joining.
+ */
+export interface CrdtRequestMessage {
+  kind: 'request';
+  key: string;
+  replica: string;
+}
+
+/**
+ * Message exchanged between the replicas of a CrdtStoreView.
+ */
+export type CrdtMessage = CrdtOpsMessage | CrdtStateMessage | CrdtRequestMessage;
@@ -0,0 +1,301 @@
+import { MasterStore } from '../MasterStore';
+import { MemoryStorageAdapter } from '../persistence';
+import { CrdtStoreView } from './CrdtStoreView';
+import type { CrdtMessage } from './CrdtMessage';
+import { SimulatedNetwork } from '@/test/simulatedNetwork';
+import { configureTodoContainer, TODO_TYPES, TODOS_KEY } from '@/features/todo';
+import type { ITodoService, Todo } from '@/features/todo';
+
+interface Item {
+  id: string;
+  text: string;
+  done?: boolean;
+}
+
+describe('CrdtStoreView', () => {
+  let network: SimulatedNetwork<CrdtMessage>;
+
+  const createReplica = (name: string, masterStore = new MasterStore()) =>
+    new CrdtStoreView<Item>(masterStore, 'items', { transport: network.createTransport(), replicaId: name });
+
+  const texts = (view: CrdtStoreView<Item>) => view.getItems().map((item) => item.text);
+
+  beforeEach(() => {
+    network = new SimulatedNetwork(1);
+  });
+
+  describe('Convergence', () => {
+    let a: CrdtStoreView<Item>;
+    let b: CrdtStoreView<Item>;
+
+    beforeEach(() => {
+      a = createReplica('a');
+      b = createReplica('b');
+      a.updateItems((draft) => {
+        draft.push({ id: '1', text: 'One' }, { id: '2', text: 'Two' }, { id: '3', text: 'Three' });
+      });
+      network.deliverAll();
+    });
+
+    test('changes reach the other replicas', () => {
+      expect(b.getItems()).toEqual(a.getItems());
+      expect(texts(b)).toEqual(['One', 'Two', 'Three']);
+    });
+
+    test('concurrent edits of different fields are all kept', () => {
+      a.updateItem('1', (draft) => {
+        draft.text = 'First';
+      });
+      b.updateItem('1', (draft) => {
+        draft.done = true;
+      });
+      network.deliverAll();
+
+      expect(a.getById('1')).toEqual({ id: '1', text: 'First', done: true });
+      expect(b.getItems()).toEqual(a.getItems());
+    });
+
+    test('concurrent edits of the same field settle on one value everywhere', () => {
+      a.updateItem('1', (draft) => {
+        draft.text = 'From a';
+      });
+      b.updateItem('1', (draft) => {
+        draft.text = 'From b';
+      });
+      network.deliverAll();
+
+      // Same clock, so the higher replica ID wins
+      expect(texts(a)).toEqual(['From b', 'Two', 'Three']);
+      expect(texts(b)).toEqual(texts(a));
+    });
+
+    test('concurrent inserts at the same place keep both, in the same order', () => {
+      a.updateItems((draft) => {
+        draft.splice(1, 0, { id: 'a', text: 'From a' });
+      });
+      b.updateItems((draft) => {
+        draft.splice(1, 0, { id: 'b', text: 'From b' });
+      });
+      network.deliverAll();
+
+      expect(texts(a)).toEqual(['One', 'From b', 'From a', 'Two', 'Three']);
+      expect(texts(b)).toEqual(texts(a));
+    });
+
+    test('concurrent moves of different items both take effect', () => {
+      a.updateItems((draft) => [draft[2], draft[0], draft[1]]);
+      b.updateItems((draft) => [draft[1], draft[0], draft[2]]);
+      network.deliverAll();
+
+      // Both went to the front; the later move, by version, comes first
+      expect(texts(a)).toEqual(['Two', 'Three', 'One']);
+      expect(texts(b)).toEqual(texts(a));
+    });
+
+    test('removed items stay removed unless added back later', () => {
+      a.removeItem('2');
+      b.updateItem('2', (draft) => {
+        draft.done = true;
+      });
+      network.deliverAll();
+      expect(texts(b)).toEqual(['One', 'Three']);
+
+      b.updateItems((draft) => {
+        draft.push({ id: '2', text: 'Two again' });
+      });
+      network.deliverAll();
+      expect(a.getById('2')).toEqual({ id: '2', text: 'Two again' });
+    });
+
+    test('unchanged items keep their identity when changes arrive', () => {
+      const [first] = b.getItems();
+      a.updateItem('2', (draft) => {
+        draft.done = true;
+      });
+      network.deliverAll();
+
+      expect(b.getItems()[0]).toBe(first);
+    });
+  });
+
+  describe('Delivery', () => {
+    test('changes wait for the changes they were made after', () => {
+      network = new SimulatedNetwork(1, { duplicateRate: 0 });
+      const a = createReplica('a');
+      const b = createReplica('b');
+      const sent: CrdtMessage[] = [];
+      network.createTransport().subscribe((message) => sent.push(message));
+      a.updateItems((draft) => {
+        draft.push({ id: '1', text: 'One' }, { id: '2', text: 'Two' });
+      });
+      network.deliverAll();
+      b.updateItems((draft) => [draft[1], draft[0]]);
+      network.deliverAll();
+
+      // c receives b's move before a's insert
+      let deliver: (message: CrdtMessage) => void = () => undefined;
+      const c = new CrdtStoreView<Item>(new MasterStore(), 'items', {
+        replicaId: 'c',
+        transport: {
+          post: () => undefined,
+          subscribe: (listener) => {
+            deliver = listener;
+            return () => undefined;
+          },
+          close: () => undefined,
+        },
+      });
+      const [insert, move] = sent.filter((message) => message.kind === 'ops');
+      deliver(move);
+      expect(c.getItems()).toEqual([]);
+
+      deliver(insert);
+      deliver(move);
+      expect(texts(c)).toEqual(['Two', 'One']);
+    });
+
+    test('a replica joining late catches up', () => {
+      const a = createReplica('a');
+      a.addItem({ text: 'Before b joined' });
+      network.deliverAll();
+
+      const b = createReplica('b');
+      network.deliverAll();
+
+      expect(b.getItems()).toEqual(a.getItems());
+    });
+
+    test('items hydrated from persistence are shared once the store is hydrated', async () => {
+      const a = createReplica('a');
+      const adapter = new MemoryStorageAdapter({ items: [{ id: 'saved', text: 'Saved offline' }] });
+      const masterStore = new MasterStore({ persistence: { adapter } });
+      createReplica('b', masterStore);
+      await masterStore.whenHydrated();
+      network.deliverAll();
+
+      expect(texts(a)).toEqual(['Saved offline']);
+    });
+
+    test('disposing stops replicating', () => {
+      const a = createReplica('a');
+      const b = createReplica('b');
+      b.dispose();
+      a.addItem({ text: 'Not sent to b' });
+      network.deliverAll();
+
+      expect(b.getItems()).toEqual([]);
+    });
+  });
+
+  describe('Simulation', () => {
+    interface TodoReplica {
+      masterStore: MasterStore;
+      todoService: ITodoService;
+    }
+
+    const createTodoReplica = (name: string): TodoReplica => {
+      const masterStore = new MasterStore({ history: { keys: [TODOS_KEY] } });
+      const container = configureTodoContainer(masterStore);
+      const view = new CrdtStoreView<Todo>(masterStore, TODOS_KEY, {
+        transport: network.createTransport(),
+        replicaId: name,
+      });
+      container.rebind(TODO_TYPES.TodoView).toConstantValue(view);
+      return { masterStore, todoService: container.get<ITodoService>(TODO_TYPES.TodoService) };
+    };
+
+    /** Make a random edit through TodoService */
+    const randomEdit = ({ todoService }: TodoReplica, step: number) => {
+      const todos = todoService.getAllTodos();
+      const any = () => todos[network.pick(todos.length)];
+      const choice = todos.length === 0 ? 0 : network.pick(6);
+      switch (choice) {
+        case 0:
+          todoService.addTodo({ text: `Todo ${step}` });
+          break;
+        case 1:
+          todoService.toggleTodo(any().id);
+          break;
+        case 2:
+          todoService.updateTodo(any().id, { text: `Edited ${step}` });
+          break;
+        case 3:
+          todoService.moveTodo(any().id, network.random() < 0.2 ? null : any().id);
+          break;
+        case 4:
+          todoService.removeTodo(any().id);
+          break;
+        case 5:
+          todoService.undo();
+          break;
+      }
+    };
+
+    test.each([1, 2, 3, 4, 5, 6, 7, 8])('items inserted, moved, edited and removed at random converge (seed %i)', (seed) => {
+      network = new SimulatedNetwork(seed, { duplicateRate: 0.3 });
+      const replicas = ['a', 'b', 'c'].map((name) => createReplica(name));
+
+      for (let step = 0; step < 60; step++) {
+        const view = replicas[network.pick(replicas.length)];
+        view.updateItems((draft) => {
+          const position = network.pick(draft.length + 1);
+          switch (draft.length === 0 ? 0 : network.pick(4)) {
+            case 0:
+              draft.splice(position, 0, { id: `${seed}-${step}`, text: `Item ${step}` });
+              break;
+            case 1:
+              draft.splice(position, 0, ...draft.splice(network.pick(draft.length), 1));
+              break;
+            case 2:
+              draft[network.pick(draft.length)].text = `Edited ${step}`;
+              break;
+            case 3:
+              draft.splice(network.pick(draft.length), 1);
+              break;
+          }
+        });
+        for (let deliveries = network.pick(4); deliveries > 0; deliveries--) {
+          network.step();
+        }
+      }
+      network.deliverAll();
+
+      replicas.slice(1).forEach((view) => expect(view.getItems()).toEqual(replicas[0].getItems()));
+    });
+
+    test('TodoService works unchanged on a CRDT view', () => {
+      const [a, b] = [createTodoReplica('a'), createTodoReplica('b')];
+      const todo = a.todoService.addTodo({ text: 'Buy milk' });
+      network.deliverAll();
+
+      b.todoService.toggleTodo(todo.id);
+      a.todoService.updateTodo(todo.id, { text: 'Buy oat milk' });
+      network.deliverAll();
+
+      expect(b.todoService.getAllTodos()).toEqual([
+        expect.objectContaining({ id: todo.id, text: 'Buy oat milk', completed: true }),
+      ]);
+      expect(a.todoService.getAllTodos()).toEqual(b.todoService.getAllTodos());
+    });
+
+    test.each([1, 2, 3, 4, 5, 6, 7, 8])(
+      'replicas converge whatever the order, delays and repeats of messages (seed %i)',
+      (seed) => {
+        network = new SimulatedNetwork(seed, { duplicateRate: 0.3 });
+        const replicas = ['a', 'b', 'c'].map(createTodoReplica);
+        network.deliverAll();
+
+        for (let step = 0; step < 60; step++) {
+          randomEdit(replicas[network.pick(replicas.length)], step);
+          for (let deliveries = network.pick(4); deliveries > 0; deliveries--) {
+            network.step();
+          }
+        }
+        network.deliverAll();
+
+        const [first, ...others] = replicas.map(({ masterStore }) => masterStore.getAllData()[TODOS_KEY]);
+        others.forEach((todos) => expect(todos).toEqual(first));
+      }
+    );
+  });
+});
@@ -0,0 +1,309 @@
+import type { Draft } from 'immer';
+import type { Identifiable, IndexOptions, MasterStore, StoreView, SubscribeOptions } from '../MasterStore';
+import type { SyncTransport } from '../sync/SyncTransport';
+import { CrdtCollection } from './CrdtCollection';
+import type { CrdtMessage, CrdtOpsMessage } from './CrdtMessage';
+
+/**
+ * Options for CrdtStoreView.
+ */
+export interface CrdtStoreViewOptions {
+  /** Channel to exchange ops with the other replicas over; closed by `dispose` */
+  transport: SyncTransport<CrdtMessage>;
+  /**
+   * ID of this replica, used to break ties between concurrent edits (random
+   * by default). Must not be reused by another view, nor after a reload.
+   */
+  replicaId?: string;
+}
+
+/**
+ * StoreView of a MasterStore key whose items are replicated as a CRDT, so
+ * any number of replicas can write to it at once and still converge.
+ *
+ * Reads and writes go to the key's regular view. Every change of the key
+ * committed to the store, whether written through this view, another view
+ * of the key, a transaction or undo, is turned into CrdtCollection ops and
+ * posted to the other replicas. Received ops are merged and the merged
+ * items stored under the key through `MasterStore.applyRemoteData`, which
+ * clears the key's undo history.
+ *
+ * Ops are applied in causal order: each message lists how many messages of
+ * every other replica its change was made after, and messages that arrive
+ * too early wait for those. Duplicates are dropped, so the transport may
+ * reorder and repeat messages. A replica asks the others for their state
+ * when it starts, so it catches up on changes made before it joined.
+ *
+ * The CRDT state is kept in memory only. Items in the key when the view
+ * starts, e.g. after hydration from persistence, are posted as a change of
+ * this replica; their low versions lose to any later edit elsewhere. Do not
+ * also sync the key with `MasterStoreConfig.sync`.
+ *
+ * @template T - The type of entity stored, must extend Identifiable
+ *
+ * @example
+ * ```typescript
+ * const todoView = new CrdtStoreView<Todo>(masterStore, TODOS_KEY, {
+ *   transport: new BroadcastChannelTransport<CrdtMessage>({ channelName: 'team-todos' }),
+ * });
+ * container.rebind(TODO_TYPES.TodoView).toConstantValue(todoView);
+ * ```
+ */
+export class CrdtStoreView<T extends Identifiable> implements StoreView<T> {
+  readonly replicaId: string;
+  private view: StoreView<T>;
+  private crdt: CrdtCollection<T>;
+  private transport: SyncTransport<CrdtMessage>;
+  /** Number of messages sent */
+  private seq = 0;
+  /** Number of messages applied per other replica */
+  private delivered: Record<string, number> = {};
+  /** Messages waiting for the messages they were made after */
+  private waiting: CrdtOpsMessage[] = [];
+  /** Messages received before the view started */
+  private early: CrdtMessage[] = [];
+  private started = false;
+  private applyingRemote = false;
+  private unsubscribeStore: () => void;
+  private unsubscribeTransport: () => void;
+
+  /**
+   * @param masterStore - Store holding the items
+   * @param key - Key of the collection
+   * @param options - Transport and replica ID
+   */
+  constructor(private masterStore: MasterStore, private key: string, options: CrdtStoreViewOptions) {
+    this.replicaId = options.replicaId ?? `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+    this.view = masterStore.getView<T>(key);
+    this.crdt = new CrdtCollection<T>(this.replicaId);
+    this.transport = options.transport;
+
+    this.unsubscribeStore = masterStore.subscribeActions((_action, data, previousData) => {
+      if (this.started && !this.applyingRemote && data[key] !== previousData[key]) {
+        this.send(previousData[key] ?? [], data[key] ?? []);
+      }
+    });
+    this.unsubscribeTransport = this.transport.subscribe((message) => {
+      if (message.key !== key || message.replica === this.replicaId) {
+        return;
+      }
+      if (this.started) {
+        this.receive(message);
+      } else {
+        this.early.push(message);
+      }
+    });
+
+    if (masterStore.isHydrated()) {
+      this.start();
+    } else {
+      void masterStore.whenHydrated().then(() => this.start());
+    }
+  }
+
+  /**
+   * Stop replicating and close the transport.
+   * The items stay in the store, as a regular collection.
+   */
+  dispose(): void {
+    this.unsubscribeStore();
+    this.unsubscribeTransport();
+    this.transport.close();
+  }
+
+  // === READ OPERATIONS ===
+
+  getItem(): T | undefined {
+    return this.view.getItem();
+  }
+
+  getItems(): T[];
+  getItems(filter: (item: T) => boolean): T[];
+  getItems(filter?: (item: T) => boolean): T[] {
+    return filter ? this.view.getItems(filter) : this.view.getItems();
+  }
+
+  findItem(predicate: (item: T) => boolean): T | undefined {
+    return this.view.findItem(predicate);
+  }
+
+  getById(id: string): T | undefined {
+    return this.view.getById(id);
+  }
+
+  getByIndex(indexName: string, value: unknown): T[] {
+    return this.view.getByIndex(indexName, value);
+  }
+
+  defineIndex(indexName: string, keyFn: (item: T) => unknown, options?: IndexOptions): void {
+    this.view.defineIndex(indexName, keyFn, options);
+  }
+
+  subscribe(callback: (items: T[]) => void): () => void;
+  subscribe<S>(
+    selector: (items: T[]) => S,
+    listener: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void;
+  subscribe<S>(
+    selectorOrCallback: ((items: T[]) => S) | ((items: T[]) => void),
+    listener?: (selection: S, previousSelection: S) => void,
+    options?: SubscribeOptions<S>
+  ): () => void {
+    if (!listener) {
+      return this.view.subscribe(selectorOrCallback as (items: T[]) => void);
+    }
+    return this.view.subscribe(selectorOrCallback as (items: T[]) => S, listener, options);
+  }
+
+  // === WRITE OPERATIONS ===
+
+  setItem(item: T): void;
+  setItem(item: Omit<T, 'id'>): T;
+  setItem(updater: (draft: Draft<T>) => void): void;
+  setItem(itemOrUpdater: T | Omit<T, 'id'> | ((draft: Draft<T>) => void)): T | void {
+    return this.view.setItem(itemOrUpdater as Omit<T, 'id'>);
+  }
+
+  addItem(item: Omit<T, 'id'>): T {
+    return this.view.addItem(item);
+  }
+
+  updateItem(id: string, updater: (draft: Draft<T>) => void): void {
+    this.view.updateItem(id, updater);
+  }
+
+  removeItem(id: string): void {
+    this.view.removeItem(id);
+  }
+
+  clearItems(): void {
+    this.view.clearItems();
+  }
+
+  updateItems(updater: (draft: Draft<T[]>) => void): void {
+    this.view.updateItems(updater);
+  }
+
+  updateItemsWhere(predicate: (item: T) => boolean, updater: (draft: Draft<T>) => void): void {
+    this.view.updateItemsWhere(predicate, updater);
+  }
+
+  // === REPLICATION ===
+
+  /**
+   * Post the items already stored, ask the other replicas for their state
+   * and apply what arrived in the meantime.
+   */
+  private start(): void {
+    this.started = true;
+    this.send([], this.view.getItems());
+    this.transport.post({ kind: 'request', key: this.key, replica: this.replicaId });
+    const early = this.early;
+    this.early = [];
+    early.forEach((message) => this.receive(message));
+  }
+
+  /**
+   * Post a local change of the items.
+   */
+  private send(previous: T[], next: T[]): void {
+    const ops = this.crdt.change(previous, next);
+    if (ops.length === 0) {
+      return;
+    }
+    this.transport.post({
+      kind: 'ops',
+      key: this.key,
+      replica: this.replicaId,
+      seq: ++this.seq,
+      deps: { ...this.delivered },
+      ops,
+    });
+  }
+
+  private receive(message: CrdtMessage): void {
+    if (this.masterStore.isInTransaction()) {
+      // Merging now would be overwritten when the transaction commits
+      void Promise.resolve().then(() => this.receive(message));
+      return;
+    }
+
+    switch (message.kind) {
+      case 'request':
+        this.transport.post({
+          kind: 'state',
+          key: this.key,
+          replica: this.replicaId,
+          delivered: { ...this.delivered, [this.replicaId]: this.seq },
+          ops: this.crdt.snapshot(),
+        });
+        return;
+      case 'state': {
+        let changed = this.crdt.apply(message.ops);
+        Object.keys(message.delivered).forEach((replica) => {
+          if (replica !== this.replicaId) {
+            this.delivered[replica] = Math.max(this.delivered[replica] ?? 0, message.delivered[replica]);
+          }
+        });
+        changed = this.deliverWaiting() || changed;
+        if (changed) {
+          this.store();
+        }
+        return;
+      }
+      case 'ops':
+        if (
+          message.seq > (this.delivered[message.replica] ?? 0) &&
+          !this.waiting.some(({ replica, seq }) => replica === message.replica && seq === message.seq)
+        ) {
+          this.waiting.push(message);
+          if (this.deliverWaiting()) {
+            this.store();
+          }
+        }
+        return;
+    }
+  }
+
+  /**
+   * Apply the waiting messages whose turn has come.
+   * @returns Whether the items may have changed
+   */
+  private deliverWaiting(): boolean {
+    let changed = false;
+    let ready: CrdtOpsMessage | undefined;
+    do {
+      this.waiting = this.waiting.filter(({ replica, seq }) => seq > (this.delivered[replica] ?? 0));
+      ready = this.waiting.find(
+        (message) =>
+          message.seq === (this.delivered[message.replica] ?? 0) + 1 &&
+          Object.keys(message.deps).every(
+            (replica) => replica === this.replicaId || message.deps[replica] <= (this.delivered[replica] ?? 0)
+          )
+      );
+      if (ready) {
+        changed = this.crdt.apply(ready.ops) || changed;
+        this.delivered[ready.replica] = ready.seq;
+      }
+    } while (ready);
+    return changed;
+  }
+
+  /**
+   * Store the merged items.
+   */
+  private store(): void {
+    const current = this.view.getItems();
+    const items = this.crdt.getItems();
+    if (items.length === current.length && items.every((item, position) => item === current[position])) {
+      return;
+    }
+    this.applyingRemote = true;
+    try {
+      this.masterStore.applyRemoteData({ [this.key]: items });
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * CRDT-backed StoreView for collections written by several replicas at once.
+ *
+ * Rebind a feature's view to a CrdtStoreView to replicate its collection
+ * over any SyncTransport carrying CrdtMessages.
+ */
+export { CrdtStoreView } from './CrdtStoreView';
+export type { CrdtStoreViewOptions } from './CrdtStoreView';
+export { CrdtCollection } from './CrdtCollection';
+export type {
+  CrdtOp,
+  CrdtInsertOp,
+  CrdtPlaceOp,
+  CrdtSetOp,
+  CrdtMessage,
+  CrdtOpsMessage,
+  CrdtStateMessage,
+  CrdtRequestMessage,
+} from './CrdtMessage';
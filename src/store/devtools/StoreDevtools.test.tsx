@@ -0,0 +1,191 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { act } from 'react';
+import { MasterStore, StoreView } from '../MasterStore';
+import { StoreDevtools } from './StoreDevtools';
+import { StoreDevtoolsPanel } from './StoreDevtoolsPanel';
+import { diffCollection } from './diff';
+import type { DevtoolsConnection, DevtoolsExtension, DevtoolsMessage } from './StoreDevtools';
+import type { Todo } from '@/features/todo';
+
+/**
+ * In-memory stand-in for the Redux DevTools extension.
+ */
+class FakeExtension implements DevtoolsExtension {
+  sent: Array<{ type: string; state: unknown }> = [];
+  initialState: unknown;
+  private listener?: (message: DevtoolsMessage) => void;
+
+  connect(): DevtoolsConnection {
+    return {
+      init: (state) => {
+        this.initialState = state;
+      },
+      send: (action, state) => {
+        this.sent.push({ type: action.type, state });
+      },
+      subscribe: (listener) => {
+        this.listener = listener;
+        return () => {
+          this.listener = undefined;
+        };
+      },
+    };
+  }
+
+  dispatch(payload: DevtoolsMessage['payload']): void {
+    this.listener?.({ type: 'DISPATCH', payload });
+  }
+}
+
+describe('StoreDevtools', () => {
+  let masterStore: MasterStore;
+  let todoView: StoreView<Todo>;
+
+  const addTodo = (text: string) =>
+    todoView.addItem({ text, completed: false, createdAt: new Date() });
+
+  beforeEach(() => {
+    masterStore = new MasterStore({ history: {} });
+    todoView = masterStore.getView<Todo>('todos');
+  });
+
+  describe('Action Labels', () => {
+    test('every change is labelled with its operation and key', () => {
+      const devtools = new StoreDevtools(masterStore, { extension: null });
+
+      const todo = addTodo('First');
+      todoView.updateItem(todo.id, (draft) => {
+        draft.completed = true;
+      });
+      masterStore.transaction(() => {
+        addTodo('Second');
+        masterStore.getView<{ id: string; name: string }>('tags').addItem({ name: 'work' });
+      }, 'addWithTag');
+      masterStore.undo();
+
+      expect(devtools.getState().actions.map((action) => [action.type, action.keys])).toEqual([
+        ['@@INIT', []],
+        ['todos/addItem', ['todos']],
+        ['todos/updateItem', ['todos']],
+        ['addWithTag', ['todos', 'tags']],
+        ['undo', ['todos', 'tags']],
+      ]);
+    });
+
+    test('diffs list added, updated and removed items per key', () => {
+      const devtools = new StoreDevtools(masterStore, { extension: null });
+      const first = addTodo('First');
+      const second = addTodo('Second');
+
+      todoView.updateItems((draft) => {
+        draft[0].completed = true;
+        draft.splice(1, 1);
+        draft.push({ id: 'third', text: 'Third', completed: false, createdAt: new Date() });
+      });
+
+      const last = devtools.getState().actions[devtools.getState().actions.length - 1];
+      expect(devtools.diff(last.id)).toEqual([
+        { key: 'todos', added: ['third'], removed: [second.id], updated: [first.id], reordered: false },
+      ]);
+      expect(diffCollection('todos', [first, second], [second, first]).reordered).toBe(true);
+    });
+
+    test('the number of recorded actions is capped', () => {
+      const devtools = new StoreDevtools(masterStore, { extension: null, maxActions: 3 });
+      ['A', 'B', 'C', 'D'].forEach(addTodo);
+
+      expect(devtools.getState().actions).toHaveLength(3);
+    });
+  });
+
+  describe('Time Travel', () => {
+    test('jumpTo restores a recorded state without recording it', () => {
+      const devtools = new StoreDevtools(masterStore, { extension: null });
+      addTodo('First');
+      addTodo('Second');
+      const [, afterFirst] = devtools.getState().actions;
+
+      devtools.jumpTo(afterFirst.id);
+
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['First']);
+      expect(devtools.getState().currentId).toBe(afterFirst.id);
+      expect(devtools.getState().actions).toHaveLength(3);
+
+      devtools.resume();
+      expect(todoView.getItems()).toHaveLength(2);
+      expect(devtools.getState().currentId).toBeNull();
+    });
+
+    test('replay steps through every recorded state', async () => {
+      jest.useFakeTimers();
+      try {
+        const devtools = new StoreDevtools(masterStore, { extension: null });
+        ['A', 'B', 'C'].forEach(addTodo);
+        const lengths: number[] = [];
+        masterStore.subscribeActions(() => lengths.push(todoView.getItems().length));
+
+        const done = devtools.replay(0, 100);
+        await jest.runAllTimersAsync();
+        await done;
+
+        expect(lengths).toEqual([0, 1, 2, 3]);
+        expect(devtools.getState().currentId).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('Extension Protocol', () => {
+    test('changes are sent to the extension and its jump messages are applied', () => {
+      const extension = new FakeExtension();
+      const devtools = new StoreDevtools(masterStore, { extension });
+      expect(devtools.isExtensionConnected()).toBe(true);
+      expect(extension.initialState).toEqual({});
+
+      addTodo('First');
+      addTodo('Second');
+      expect(extension.sent.map((entry) => entry.type)).toEqual(['todos/addItem', 'todos/addItem']);
+
+      extension.dispatch({ type: 'JUMP_TO_ACTION', actionId: 1 });
+      expect(todoView.getItems()).toHaveLength(1);
+
+      extension.dispatch({ type: 'JUMP_TO_STATE', actionId: 0 });
+      expect(todoView.getItems()).toEqual([]);
+      expect(extension.sent).toHaveLength(2);
+    });
+
+    test('disconnect stops recording', () => {
+      const extension = new FakeExtension();
+      const devtools = new StoreDevtools(masterStore, { extension });
+
+      devtools.disconnect();
+      addTodo('Ignored');
+
+      expect(devtools.getState().actions).toHaveLength(1);
+      expect(extension.sent).toEqual([]);
+    });
+  });
+
+  describe('Fallback Panel', () => {
+    test('lists actions, shows diffs and jumps to a state', () => {
+      const devtools = new StoreDevtools(masterStore, { extension: null });
+      const first = addTodo('First');
+      render(<StoreDevtoolsPanel devtools={devtools} />);
+
+      act(() => {
+        addTodo('Second');
+      });
+      expect(screen.getAllByText('todos/addItem')).toHaveLength(2);
+
+      fireEvent.click(screen.getAllByText('todos/addItem')[0]);
+      expect(screen.getByText(/\+1 added/)).toHaveTextContent(first.id);
+
+      fireEvent.click(screen.getByText('Jump to this state'));
+      expect(todoView.getItems()).toEqual([first]);
+
+      fireEvent.click(screen.getByText('Resume live'));
+      expect(todoView.getItems()).toHaveLength(2);
+    });
+  });
+});
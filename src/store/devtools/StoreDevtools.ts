@@ -0,0 +1,324 @@
+import type { MasterStore, StoreAction } from '../MasterStore';
+import { diffCollection, KeyDiff } from './diff';
+
+/**
+ * Connection to the Redux DevTools browser extension, as returned by
+ * `window.__REDUX_DEVTOOLS_EXTENSION__.connect()`.
+ */
+export interface DevtoolsConnection {
+  init(state: unknown): void;
+  send(action: { type: string; [field: string]: unknown }, state: unknown): void;
+  subscribe(listener: (message: DevtoolsMessage) => void): (() => void) | void;
+  unsubscribe?(): void;
+}
+
+/**
+ * The Redux DevTools extension entry point.
+ */
+export interface DevtoolsExtension {
+  connect(options: { name?: string }): DevtoolsConnection;
+}
+
+/**
+ * Message sent by the extension when the user interacts with it.
+ */
+export interface DevtoolsMessage {
+  type: string;
+  payload?: { type: string; actionId?: number };
+  state?: string;
+}
+
+/**
+ * A recorded state change.
+ */
+export interface DevtoolsAction extends StoreAction {
+  /** Sequential ID; 0 is the initial state */
+  id: number;
+  /** Time the change happened, in milliseconds since the epoch */
+  timestamp: number;
+  /** Store data after the change */
+  state: Record<string, any>;
+  /** Store data before the change */
+  previousState: Record<string, any>;
+}
+
+/**
+ * Options for the devtools bridge.
+ */
+export interface DevtoolsOptions {
+  /** Instance name shown in the extension */
+  name?: string;
+  /** Maximum number of recorded actions (defaults to 200) */
+  maxActions?: number;
+  /**
+   * Extension to report to. Defaults to `window.__REDUX_DEVTOOLS_EXTENSION__`;
+   * pass `null` to only record actions for the in-app panel.
+   */
+  extension?: DevtoolsExtension | null;
+}
+
+/**
+ * Snapshot of the devtools state, for UI rendering.
+ */
+export interface DevtoolsState {
+  actions: DevtoolsAction[];
+  /** ID of the action whose state is shown, or null when following live changes */
+  currentId: number | null;
+}
+
+/**
+ * Devtools bridge for a MasterStore.
+ *
+ * Records every store change labelled with the StoreView operation and key
+ * that caused it, and supports jumping to and replaying recorded states.
+ * Changes are mirrored to the Redux DevTools extension when it is installed;
+ * the recorded actions also back the in-app `StoreDevtoolsPanel`.
+ *
+ * States are kept by reference: structural sharing makes each snapshot
+ * cost only the objects the change actually touched.
+ *
+ * Create it with `connectDevtools()` so that production builds can swap in
+ * the no-op implementation.
+ */
+export class StoreDevtools {
+  private state: DevtoolsState;
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+  /** Set while restoring a recorded state, so the restore is not recorded */
+  private travelling = false;
+  private connection?: DevtoolsConnection;
+  private unsubscribeStore: () => void;
+  private unsubscribeConnection?: () => void;
+  private replayTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private masterStore: MasterStore, private options: DevtoolsOptions = {}) {
+    const initial = masterStore.getAllData();
+    this.state = {
+      actions: [{ id: 0, type: '@@INIT', keys: [], timestamp: Date.now(), state: initial, previousState: {} }],
+      currentId: null,
+    };
+
+    this.unsubscribeStore = masterStore.subscribeActions((action, data, previousData) => {
+      if (!this.travelling) {
+        this.record(action, data, previousData);
+      }
+    });
+
+    const extension = options.extension === undefined ? findExtension() : options.extension;
+    if (extension) {
+      this.connection = extension.connect({ name: options.name ?? 'MasterStore' });
+      this.connection.init(initial);
+      const unsubscribe = this.connection.subscribe((message) => this.handleMessage(message));
+      this.unsubscribeConnection = unsubscribe ?? (() => this.connection?.unsubscribe?.());
+    }
+  }
+
+  /**
+   * Get the recorded actions and the currently shown action.
+   */
+  getState(): DevtoolsState {
+    return this.state;
+  }
+
+  /**
+   * Check whether changes are mirrored to the browser extension.
+   * When false, render `StoreDevtoolsPanel` to inspect the store in-app.
+   */
+  isExtensionConnected(): boolean {
+    return this.connection !== undefined;
+  }
+
+  /**
+   * Get the per-key changes made by an action.
+   * @param id - Action ID
+   * @returns One diff per changed key
+   */
+  diff(id: number): KeyDiff[] {
+    const action = this.find(id);
+    if (!action) {
+      return [];
+    }
+    return action.keys.map((key) => diffCollection(key, action.previousState[key], action.state[key]));
+  }
+
+  /**
+   * Restore the store to the state after an action.
+   * @param id - Action ID
+   * @returns True if the action exists
+   */
+  jumpTo(id: number): boolean {
+    this.stopReplay();
+    return this.show(id);
+  }
+
+  /**
+   * Return to the latest recorded state and follow live changes again.
+   */
+  resume(): void {
+    this.stopReplay();
+    const latest = this.state.actions[this.state.actions.length - 1];
+    this.restore(latest.state);
+    this.update({ ...this.state, currentId: null });
+  }
+
+  /**
+   * Step through the recorded states from an action to the latest one.
+   * @param fromId - First action to show (defaults to the oldest recorded)
+   * @param intervalMs - Delay between steps
+   * @returns Promise resolved once the latest state is shown
+   */
+  replay(fromId = this.state.actions[0].id, intervalMs = 500): Promise<void> {
+    this.stopReplay();
+    const ids = this.state.actions.map((action) => action.id).filter((id) => id >= fromId);
+
+    return new Promise((resolve) => {
+      const step = (index: number) => {
+        if (index >= ids.length) {
+          this.replayTimer = undefined;
+          this.update({ ...this.state, currentId: null });
+          resolve();
+          return;
+        }
+        this.show(ids[index]);
+        this.replayTimer = setTimeout(() => step(index + 1), intervalMs);
+      };
+      step(0);
+    });
+  }
+
+  /**
+   * Subscribe to changes of the recorded actions or current action.
+   * @param listener - Called after every change
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop recording and disconnect from the extension.
+   */
+  disconnect(): void {
+    this.stopReplay();
+    this.unsubscribeStore();
+    this.unsubscribeConnection?.();
+    this.listeners.clear();
+  }
+
+  private show(id: number): boolean {
+    const action = this.find(id);
+    if (!action) {
+      return false;
+    }
+    this.restore(action.state);
+    this.update({ ...this.state, currentId: id });
+    return true;
+  }
+
+  private record(action: StoreAction, data: Record<string, any>, previousData: Record<string, any>): void {
+    const recorded: DevtoolsAction = {
+      ...action,
+      id: this.nextId++,
+      timestamp: Date.now(),
+      state: data,
+      previousState: previousData,
+    };
+    const maxActions = this.options.maxActions ?? 200;
+    const actions = [...this.state.actions, recorded].slice(-maxActions);
+
+    // A change made while looking at an old state continues from that state
+    this.update({ actions, currentId: null });
+    this.connection?.send({ type: action.type, keys: action.keys }, data);
+  }
+
+  private handleMessage(message: DevtoolsMessage): void {
+    if (message.type !== 'DISPATCH' || !message.payload) {
+      return;
+    }
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.payload.actionId !== undefined) {
+          this.jumpTo(message.payload.actionId);
+        }
+        break;
+      case 'COMMIT':
+        this.update({
+          actions: [{ ...this.state.actions[this.state.actions.length - 1], id: 0, type: '@@INIT', keys: [] }],
+          currentId: null,
+        });
+        this.connection?.init(this.masterStore.getAllData());
+        break;
+      case 'ROLLBACK':
+        this.jumpTo(this.state.actions[0].id);
+        break;
+    }
+  }
+
+  private restore(data: Record<string, any>): void {
+    if (data === this.masterStore.getAllData()) {
+      return;
+    }
+    this.travelling = true;
+    try {
+      this.masterStore.restoreData(data);
+    } finally {
+      this.travelling = false;
+    }
+  }
+
+  private stopReplay(): void {
+    if (this.replayTimer !== undefined) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = undefined;
+    }
+  }
+
+  private find(id: number): DevtoolsAction | undefined {
+    return this.state.actions.find((action) => action.id === id);
+  }
+
+  private update(state: DevtoolsState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Look up the Redux DevTools extension in the browser.
+ */
+function findExtension(): DevtoolsExtension | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  return (window as unknown as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension }).__REDUX_DEVTOOLS_EXTENSION__;
+}
+
+/**
+ * Public surface of the devtools bridge, shared with the production no-op.
+ */
+export type DevtoolsBridge = Pick<StoreDevtools, keyof StoreDevtools>;
+
+/**
+ * Connect a MasterStore to the devtools.
+ *
+ * In production builds webpack replaces this module with a no-op, so the
+ * devtools add nothing to the bundle.
+ *
+ * @param masterStore - Store to inspect
+ * @param options - Devtools options
+ * @returns The devtools bridge
+ *
+ * @example
+ * ```typescript
+ * const devtools = connectDevtools(masterStore, { name: 'Todo App' });
+ * devtools.jumpTo(3);
+ * devtools.resume();
+ * ```
+ */
+export function connectDevtools(masterStore: MasterStore, options: DevtoolsOptions = {}): DevtoolsBridge {
+  return new StoreDevtools(masterStore, options);
+}
@@ -0,0 +1,98 @@
+import React, { useCallback, useState, useSyncExternalStore } from 'react';
+import type { DevtoolsBridge } from './StoreDevtools';
+import type { KeyDiff } from './diff';
+
+/**
+ * Props for the StoreDevtoolsPanel component.
+ */
+interface StoreDevtoolsPanelProps {
+  /** Devtools bridge returned by `connectDevtools()` */
+  devtools: DevtoolsBridge;
+}
+
+/**
+ * Summarize the changes to one key.
+ */
+const describeDiff = (diff: KeyDiff): string => {
+  const parts = [
+    diff.added.length > 0 && `+${diff.added.length} added`,
+    diff.updated.length > 0 && `~${diff.updated.length} updated`,
+    diff.removed.length > 0 && `-${diff.removed.length} removed`,
+    diff.reordered && 'reordered',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'replaced';
+};
+
+/**
+ * In-app devtools panel, for browsers without the Redux DevTools extension.
+ *
+ * Lists every recorded store action with the keys it changed. Selecting an
+ * action shows its per-key diff (added, updated and removed item IDs) and
+ * allows jumping to the state after it; recorded states can also be
+ * replayed step by step.
+ *
+ * @example
+ * ```tsx
+ * const devtools = connectDevtools(masterStore);
+ *
+ * <StoreDevtoolsPanel devtools={devtools} />
+ * ```
+ */
+export const StoreDevtoolsPanel: React.FC<StoreDevtoolsPanelProps> = ({ devtools }) => {
+  const subscribe = useCallback((listener: () => void) => devtools.subscribe(listener), [devtools]);
+  const getSnapshot = useCallback(() => devtools.getState(), [devtools]);
+  const { actions, currentId } = useSyncExternalStore(subscribe, getSnapshot);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const selected = actions.find((action) => action.id === selectedId);
+
+  return (
+    <aside className="devtools-panel" aria-label="Store devtools">
+      <header className="devtools-header">
+        <h2>Store actions</h2>
+        <button type="button" onClick={() => void devtools.replay()}>
+          Replay
+        </button>
+        <button type="button" onClick={() => devtools.resume()} disabled={currentId === null}>
+          Resume live
+        </button>
+      </header>
+
+      <ol className="devtools-actions">
+        {actions.map((action) => (
+          <li
+            key={action.id}
+            className={[
+              action.id === selectedId ? 'selected' : '',
+              action.id === currentId ? 'current' : '',
+            ].join(' ')}
+          >
+            <button type="button" onClick={() => setSelectedId(action.id)}>
+              {action.type}
+              {action.keys.length > 0 && <small> [{action.keys.join(', ')}]</small>}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {selected && (
+        <section className="devtools-details">
+          <h3>{selected.type}</h3>
+          <button type="button" onClick={() => devtools.jumpTo(selected.id)}>
+            Jump to this state
+          </button>
+          <ul className="devtools-diff">
+            {devtools.diff(selected.id).map((diff) => (
+              <li key={diff.key}>
+                <strong>{diff.key}</strong>: {describeDiff(diff)}
+                {[...diff.added, ...diff.updated, ...diff.removed].length > 0 && (
+                  <small> ({[...diff.added, ...diff.updated, ...diff.removed].join(', ')})</small>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </aside>
+  );
+};
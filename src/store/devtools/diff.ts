@@ -0,0 +1,52 @@
+/**
+ * Changes to a single key between two states.
+ */
+export interface KeyDiff {
+  key: string;
+  /** IDs of items present only in the new collection */
+  added: string[];
+  /** IDs of items present only in the old collection */
+  removed: string[];
+  /** IDs of items present in both whose object changed */
+  updated: string[];
+  /** Whether the order of the remaining items changed */
+  reordered: boolean;
+}
+
+const idsOf = (items: unknown): Array<{ id: string }> =>
+  Array.isArray(items) ? items.filter((item) => item && typeof item.id === 'string') : [];
+
+/**
+ * Compare the collections stored under a key in two states.
+ *
+ * Items are matched by ID and compared by reference, which is exact for
+ * MasterStore data thanks to structural sharing.
+ *
+ * @param key - MasterStore key
+ * @param previous - Collection before the change
+ * @param next - Collection after the change
+ * @returns Added, removed and updated item IDs
+ */
+export function diffCollection(key: string, previous: unknown, next: unknown): KeyDiff {
+  const before = new Map(idsOf(previous).map((item) => [item.id, item]));
+  const after = idsOf(next);
+  const afterIds = new Set(after.map((item) => item.id));
+
+  const added: string[] = [];
+  const updated: string[] = [];
+  after.forEach((item) => {
+    const old = before.get(item.id);
+    if (!old) {
+      added.push(item.id);
+    } else if (old !== item) {
+      updated.push(item.id);
+    }
+  });
+  const removed = Array.from(before.keys()).filter((id) => !afterIds.has(id));
+
+  const remainingBefore = Array.from(before.keys()).filter((id) => afterIds.has(id));
+  const remainingAfter = after.map((item) => item.id).filter((id) => before.has(id));
+  const reordered = remainingBefore.some((id, index) => remainingAfter[index] !== id);
+
+  return { key, added, removed, updated, reordered };
+}
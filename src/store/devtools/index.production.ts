@@ -0,0 +1,23 @@
+/**
+ * No-op devtools used by production builds in place of `index.ts`.
+ *
+ * Only types are imported from the real implementation, so webpack bundles
+ * nothing but these stubs.
+ */
+import type { connectDevtools as ConnectDevtools, DevtoolsBridge } from './StoreDevtools';
+import type { StoreDevtoolsPanel as Panel } from './StoreDevtoolsPanel';
+
+const noopDevtools: DevtoolsBridge = {
+  getState: () => ({ actions: [], currentId: null }),
+  isExtensionConnected: () => false,
+  diff: () => [],
+  jumpTo: () => false,
+  resume: () => undefined,
+  replay: () => Promise.resolve(),
+  subscribe: () => () => undefined,
+  disconnect: () => undefined,
+};
+
+export const connectDevtools: typeof ConnectDevtools = () => noopDevtools;
+
+export const StoreDevtoolsPanel: typeof Panel = () => null;
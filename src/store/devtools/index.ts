@@ -0,0 +1,19 @@
+/**
+ * Devtools for MasterStore: Redux DevTools extension bridge and in-app panel.
+ *
+ * Production builds resolve this module to `index.production.ts` (see
+ * webpack.config.js), so none of it ends up in the production bundle.
+ * Keep the value exports of both files in sync.
+ */
+export { connectDevtools } from './StoreDevtools';
+export type {
+  DevtoolsBridge,
+  DevtoolsAction,
+  DevtoolsOptions,
+  DevtoolsState,
+  DevtoolsExtension,
+  DevtoolsConnection,
+  DevtoolsMessage,
+} from './StoreDevtools';
+export { StoreDevtoolsPanel } from './StoreDevtoolsPanel';
+export type { KeyDiff } from './diff';
@@ -0,0 +1,208 @@
+import { MasterStore, StoreView } from '../MasterStore';
+import { configureTodoContainer, TODO_TYPES } from '@/features/todo';
+import type { ITodoService, Todo } from '@/features/todo';
+
+describe('MasterStore History', () => {
+  let masterStore: MasterStore;
+  let todoView: StoreView<Todo>;
+
+  const addTodo = (text: string) =>
+    todoView.addItem({ text, completed: false, createdAt: new Date() });
+
+  beforeEach(() => {
+    masterStore = new MasterStore({ history: {} });
+    todoView = masterStore.getView<Todo>('todos');
+  });
+
+  describe('Undo/Redo', () => {
+    test('every StoreView write can be undone and redone', () => {
+      const first = addTodo('First');
+      const second = addTodo('Second');
+      todoView.updateItem(first.id, (draft) => {
+        draft.completed = true;
+      });
+      todoView.updateItems((draft) => {
+        draft.reverse();
+      });
+      todoView.updateItemsWhere((todo) => !todo.completed, (draft) => {
+        draft.text = 'Renamed';
+      });
+      todoView.removeItem(second.id);
+      todoView.clearItems();
+
+      const snapshots: Todo[][] = [];
+      while (masterStore.canUndo()) {
+        snapshots.push(todoView.getItems());
+        masterStore.undo();
+      }
+      expect(todoView.getItems()).toEqual([]);
+      expect(snapshots).toHaveLength(7);
+
+      snapshots.reverse().forEach((snapshot) => {
+        masterStore.redo();
+        expect(todoView.getItems()).toEqual(snapshot);
+      });
+      expect(masterStore.canRedo()).toBe(false);
+    });
+
+    test('setItem writes are recorded', () => {
+      const settings = masterStore.getView<{ id: string; theme: string }>('settings');
+      settings.setItem({ id: 'settings', theme: 'light' });
+      settings.setItem((draft) => {
+        draft.theme = 'dark';
+      });
+
+      masterStore.undo();
+      expect(settings.getItem()?.theme).toBe('light');
+      masterStore.undo();
+      expect(settings.getItem()).toBeUndefined();
+    });
+
+    test('undo preserves references of untouched items', () => {
+      addTodo('First');
+      const second = addTodo('Second');
+      const before = todoView.getItems();
+
+      todoView.updateItem(second.id, (draft) => {
+        draft.completed = true;
+      });
+      masterStore.undo();
+
+      const after = todoView.getItems();
+      expect(after[0]).toBe(before[0]);
+      expect(after[1]).toEqual(before[1]);
+    });
+
+    test('writes that change nothing are not recorded', () => {
+      const todo = addTodo('First');
+      todoView.updateItem(todo.id, (draft) => {
+        draft.completed = false;
+      });
+
+      masterStore.undo();
+      expect(masterStore.canUndo()).toBe(false);
+    });
+
+    test('a new write clears redo for that key', () => {
+      addTodo('First');
+      masterStore.undo();
+      expect(masterStore.canRedo()).toBe(true);
+
+      addTodo('Second');
+      expect(masterStore.canRedo()).toBe(false);
+    });
+  });
+
+  describe('Per-key History', () => {
+    test('undo(key) reverts only the most recent change to that key', () => {
+      const tags = masterStore.getView<{ id: string; name: string }>('tags');
+      addTodo('Todo');
+      tags.addItem({ name: 'work' });
+
+      masterStore.undo('todos');
+
+      expect(todoView.getItems()).toEqual([]);
+      expect(tags.getItems()).toHaveLength(1);
+      expect(masterStore.canUndo('todos')).toBe(false);
+      expect(masterStore.canUndo('tags')).toBe(true);
+      expect(masterStore.canRedo('todos')).toBe(true);
+      expect(masterStore.canRedo('tags')).toBe(false);
+    });
+
+    test('keys option limits which views are recorded', () => {
+      masterStore = new MasterStore({ history: { keys: ['todos'] } });
+      todoView = masterStore.getView<Todo>('todos');
+      masterStore.getView<{ id: string }>('ui').addItem({});
+
+      expect(masterStore.canUndo()).toBe(false);
+      addTodo('Tracked');
+      expect(masterStore.canUndo()).toBe(true);
+    });
+  });
+
+  describe('Grouping', () => {
+    test('grouped writes form a single undo step', () => {
+      addTodo('Existing');
+
+      masterStore.groupHistory('bulk', () => {
+        addTodo('One');
+        addTodo('Two');
+        masterStore.groupHistory('nested', () => {
+          masterStore.getView<{ id: string; name: string }>('tags').addItem({ name: 'work' });
+        });
+      });
+
+      masterStore.undo();
+
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['Existing']);
+      expect(masterStore.getView('tags').getItems()).toEqual([]);
+
+      masterStore.redo();
+      expect(todoView.getItems()).toHaveLength(3);
+      expect(masterStore.getView('tags').getItems()).toHaveLength(1);
+    });
+
+    test('group returns the function result', () => {
+      const todo = masterStore.groupHistory('add', () => addTodo('Grouped'));
+      expect(todo.text).toBe('Grouped');
+    });
+  });
+
+  describe('Limits and Lifecycle', () => {
+    test('history depth is capped', () => {
+      masterStore = new MasterStore({ history: { limit: 3 } });
+      todoView = masterStore.getView<Todo>('todos');
+      for (let i = 0; i < 5; i++) {
+        addTodo(`Todo ${i}`);
+      }
+
+      let undoCount = 0;
+      while (masterStore.undo()) {
+        undoCount++;
+      }
+
+      expect(undoCount).toBe(3);
+      expect(todoView.getItems()).toHaveLength(2);
+    });
+
+    test('subscribers are notified when history changes', () => {
+      const listener = jest.fn();
+      const unsubscribe = masterStore.subscribeHistory(listener);
+
+      addTodo('Todo');
+      masterStore.undo();
+      unsubscribe();
+      masterStore.redo();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    test('history is disabled by default', () => {
+      const plainStore = new MasterStore();
+      plainStore.getView<Todo>('todos').addItem({ text: 'Todo', completed: false, createdAt: new Date() });
+
+      expect(plainStore.isHistoryEnabled()).toBe(false);
+      expect(plainStore.canUndo()).toBe(false);
+      expect(plainStore.undo()).toBe(false);
+    });
+  });
+
+  describe('TodoService Integration', () => {
+    test('accidentally removed todos can be restored', () => {
+      const container = configureTodoContainer(masterStore);
+      const todoService = container.get<ITodoService>(TODO_TYPES.TodoService);
+
+      const todo = todoService.addTodo({ text: 'Important' });
+      todoService.removeTodo(todo.id);
+      expect(todoService.getAllTodos()).toEqual([]);
+
+      expect(todoService.canUndo()).toBe(true);
+      todoService.undo();
+      expect(todoService.getAllTodos()).toEqual([todo]);
+
+      expect(todoService.canRedo()).toBe(true);
+      todoService.redo();
+      expect(todoService.getAllTodos()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { applyPatches, enablePatches, Patch } from 'immer';
+
+enablePatches();
+
+/**
+ * History configuration for MasterStore.
+ */
+export interface HistoryOptions {
+  /** Maximum number of undo steps kept (defaults to 100) */
+  limit?: number;
+  /** Keys to record; every key is recorded when omitted */
+  keys?: string[];
+}
+
+/**
+ * Patches recorded for a single key within a history entry.
+ */
+interface KeyChange {
+  key: string;
+  /** Patches that re-apply the change */
+  patches: Patch[];
+  /** Patches that revert the change */
+  inversePatches: Patch[];
+}
+
+/**
+ * A single undo/redo step, possibly spanning several keys.
+ */
+export interface HistoryEntry {
+  /** Operation(s) that produced the step, e.g. `'removeItem'` */
+  label: string;
+  /** Changes per key, in the order the keys were first written */
+  changes: KeyChange[];
+}
+
+/**
+ * Read/write access to MasterStore data needed to apply patches.
+ */
+interface HistoryTarget {
+  get(key: string): any;
+  /** Store new values for several keys in a single update */
+  set(values: Record<string, any>): void;
+}
+
+/**
+ * Records Immer patches for MasterStore writes and replays them for undo/redo.
+ *
+ * Undo and redo work either globally (the most recent step across all keys)
+ * or per key (the most recent step touching that key, reverting only that
+ * key's part of it). Consecutive writes can be grouped into one step.
+ *
+ * Used internally by MasterStore; enable it via `MasterStoreConfig.history`.
+ */
+export class StoreHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  /** Entry being built while inside `group()` */
+  private openGroup?: HistoryEntry;
+  private groupDepth = 0;
+  /** Set while undo/redo applies patches so those writes are not recorded */
+  private replaying = false;
+  private listeners = new Set<() => void>();
+
+  constructor(private target: HistoryTarget, private options: HistoryOptions = {}) {}
+
+  /**
+   * Check whether writes to a key should be recorded.
+   * @param key - MasterStore key being written
+   */
+  isTracking(key: string): boolean {
+    return !this.replaying && (!this.options.keys || this.options.keys.includes(key));
+  }
+
+  /**
+   * Record the patches produced by a write.
+   * @param key - MasterStore key that was written
+   * @param label - Operation name for the write
+   * @param patches - Forward patches
+   * @param inversePatches - Patches reverting the write
+   */
+  record(key: string, label: string, patches: Patch[], inversePatches: Patch[]): void {
+    if (patches.length === 0) {
+      return;
+    }
+
+    // A new change to this key invalidates anything that could be redone for it
+    this.redoStack = this.withoutKey(this.redoStack, key);
+
+    const entry = this.openGroup ?? { label, changes: [] };
+    const existing = entry.changes.find((change) => change.key === key);
+    if (existing) {
+      existing.patches.push(...patches);
+      existing.inversePatches.unshift(...inversePatches);
+    } else {
+      entry.changes.push({ key, patches: [...patches], inversePatches: [...inversePatches] });
+    }
+
+    if (!this.openGroup) {
+      this.push(entry);
+    }
+    this.notify();
+  }
+
+  /**
+   * Run a function and record every write it makes as a single undo step.
+   * Groups may be nested; only the outermost group creates a step.
+   *
+   * @param label - Label for the grouped step
+   * @param fn - Function performing the writes
+   * @returns The function's return value
+   */
+  group<R>(label: string, fn: () => R): R {
+    if (this.groupDepth === 0) {
+      this.openGroup = { label, changes: [] };
+    }
+    this.groupDepth++;
+    try {
+      return fn();
+    } finally {
+      this.groupDepth--;
+      if (this.groupDepth === 0) {
+        const entry = this.openGroup!;
+        this.openGroup = undefined;
+        if (entry.changes.length > 0) {
+          this.push(entry);
+          this.notify();
+        }
+      }
+    }
+  }
+
+  /**
+   * Check whether there is a step to undo.
+   * @param key - Optional key to restrict the check to
+   */
+  canUndo(key?: string): boolean {
+    return this.findIndex(this.undoStack, key) !== -1;
+  }
+
+  /**
+   * Check whether there is a step to redo.
+   * @param key - Optional key to restrict the check to
+   */
+  canRedo(key?: string): boolean {
+    return this.findIndex(this.redoStack, key) !== -1;
+  }
+
+  /**
+   * Revert the most recent step, or the most recent change to a key.
+   * @param key - Optional key to restrict the undo to
+   * @returns True if something was undone
+   */
+  undo(key?: string): boolean {
+    return this.move(this.undoStack, this.redoStack, 'inversePatches', key);
+  }
+
+  /**
+   * Re-apply the most recently undone step, or the most recently undone change to a key.
+   * @param key - Optional key to restrict the redo to
+   * @returns True if something was redone
+   */
+  redo(key?: string): boolean {
+    return this.move(this.redoStack, this.undoStack, 'patches', key);
+  }
+
+  /**
+   * Get the label of the step that would be undone next.
+   * @param key - Optional key to restrict the lookup to
+   */
+  peekUndo(key?: string): string | undefined {
+    const index = this.findIndex(this.undoStack, key);
+    return index === -1 ? undefined : this.undoStack[index].label;
+  }
+
+  /**
+   * Drop recorded steps.
+   * @param key - Optional key whose changes to drop; every step is dropped when omitted
+   */
+  clear(key?: string): void {
+    if (key === undefined) {
+      this.undoStack = [];
+      this.redoStack = [];
+    } else {
+      this.undoStack = this.withoutKey(this.undoStack, key);
+      this.redoStack = this.withoutKey(this.redoStack, key);
+    }
+    this.notify();
+  }
+
+  /**
+   * Subscribe to changes in undo/redo availability.
+   * @param listener - Called after history changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private move(
+    from: HistoryEntry[],
+    to: HistoryEntry[],
+    direction: 'patches' | 'inversePatches',
+    key?: string
+  ): boolean {
+    const index = this.findIndex(from, key);
+    if (index === -1) {
+      return false;
+    }
+
+    let entry = from[index];
+    if (key === undefined) {
+      from.splice(index, 1);
+    } else {
+      // Split this key's change out of a multi-key step
+      const change = entry.changes.find((candidate) => candidate.key === key)!;
+      const remaining = entry.changes.filter((candidate) => candidate !== change);
+      if (remaining.length > 0) {
+        from[index] = { ...entry, changes: remaining };
+      } else {
+        from.splice(index, 1);
+      }
+      entry = { ...entry, changes: [change] };
+    }
+
+    const changes = direction === 'inversePatches' ? [...entry.changes].reverse() : entry.changes;
+    const values: Record<string, any> = {};
+    changes.forEach((change) => {
+      values[change.key] = applyPatches(this.target.get(change.key), change[direction]);
+    });
+    this.replaying = true;
+    try {
+      this.target.set(values);
+    } finally {
+      this.replaying = false;
+    }
+
+    to.push(entry);
+    this.notify();
+    return true;
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    const limit = this.options.limit ?? 100;
+    if (this.undoStack.length > limit) {
+      this.undoStack.splice(0, this.undoStack.length - limit);
+    }
+  }
+
+  private findIndex(stack: HistoryEntry[], key?: string): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (key === undefined || stack[i].changes.some((change) => change.key === key)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private withoutKey(stack: HistoryEntry[], key: string): HistoryEntry[] {
+    return stack
+      .map((entry) => ({ ...entry, changes: entry.changes.filter((change) => change.key !== key) }))
+      .filter((entry) => entry.changes.length > 0);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
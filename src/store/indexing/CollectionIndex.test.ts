@@ -0,0 +1,161 @@
+import { MasterStore, StoreView } from '../MasterStore';
+
+interface Task {
+  id: string;
+  title: string;
+  done: boolean;
+  tags: string[];
+}
+
+describe('StoreView Indexes', () => {
+  let masterStore: MasterStore;
+  let taskView: StoreView<Task>;
+
+  const addTask = (title: string, done = false, tags: string[] = []) =>
+    taskView.addItem({ title, done, tags });
+
+  /**
+   * Compare every index lookup against a brute-force scan of the collection.
+   */
+  const expectIndexesConsistent = () => {
+    const items = taskView.getItems();
+    items.forEach((item) => {
+      expect(taskView.getById(item.id)).toBe(item);
+    });
+    [true, false].forEach((done) => {
+      expect(taskView.getByIndex('done', done)).toEqual(items.filter((item) => item.done === done));
+    });
+    const allTags = new Set(['home', 'work', 'urgent', 'errands']);
+    allTags.forEach((tag) => {
+      expect(taskView.getByIndex('tag', tag)).toEqual(items.filter((item) => item.tags.includes(tag)));
+    });
+  };
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    taskView = masterStore.getView<Task>('tasks');
+    taskView.defineIndex('done', (task) => task.done);
+    taskView.defineIndex('tag', (task) => task.tags, { multi: true });
+  });
+
+  describe('ID Lookup', () => {
+    test('getById finds items and returns undefined for unknown IDs', () => {
+      const first = addTask('First');
+      const second = addTask('Second');
+
+      expect(taskView.getById(first.id)).toBe(first);
+      expect(taskView.getById(second.id)).toBe(second);
+      expect(taskView.getById('missing')).toBeUndefined();
+    });
+
+    test('getById reflects removals and clears', () => {
+      const first = addTask('First');
+      const second = addTask('Second');
+      const third = addTask('Third');
+
+      taskView.removeItem(second.id);
+      expect(taskView.getById(second.id)).toBeUndefined();
+      expect(taskView.getById(third.id)).toBe(taskView.getItems()[1]);
+
+      taskView.clearItems();
+      expect(taskView.getById(first.id)).toBeUndefined();
+    });
+  });
+
+  describe('Secondary Indexes', () => {
+    test('indexes stay consistent across every write operation', () => {
+      const a = addTask('A', false, ['home']);
+      const b = addTask('B', true, ['work', 'urgent']);
+      addTask('C', false, ['work']);
+      expectIndexesConsistent();
+
+      taskView.updateItem(a.id, (draft) => {
+        draft.done = true;
+        draft.tags.push('errands');
+      });
+      expectIndexesConsistent();
+
+      taskView.updateItemsWhere((task) => task.tags.includes('work'), (draft) => {
+        draft.tags = draft.tags.filter((tag) => tag !== 'work');
+      });
+      expectIndexesConsistent();
+
+      taskView.removeItem(b.id);
+      expectIndexesConsistent();
+
+      taskView.setItem({ id: 'single', title: 'Single', done: true, tags: ['home'] });
+      expectIndexesConsistent();
+
+      taskView.clearItems();
+      expectIndexesConsistent();
+    });
+
+    test('indexes handle arbitrary draft changes in updateItems', () => {
+      for (let i = 0; i < 20; i++) {
+        addTask(`Task ${i}`, i % 3 === 0, i % 2 === 0 ? ['home'] : ['work']);
+      }
+
+      // Reorder
+      taskView.updateItems((draft) => {
+        draft.reverse();
+      });
+      expectIndexesConsistent();
+
+      // Insert in the middle, change ids and fields
+      taskView.updateItems((draft) => {
+        draft.splice(5, 0, { id: 'inserted', title: 'Inserted', done: true, tags: ['urgent'] });
+        draft[0].id = 'renamed';
+        draft[10].done = !draft[10].done;
+      });
+      expectIndexesConsistent();
+
+      // Swap two items
+      taskView.updateItems((draft) => {
+        const first = draft[1];
+        draft[1] = draft[2];
+        draft[2] = first;
+      });
+      expectIndexesConsistent();
+
+      // Replace everything with the same length
+      taskView.updateItems((draft) => {
+        for (let i = 0; i < draft.length; i++) {
+          draft[i] = { id: `new-${i}`, title: 'New', done: i % 2 === 0, tags: ['errands'] };
+        }
+      });
+      expectIndexesConsistent();
+    });
+
+    test('indexes follow undo/redo and transactions', () => {
+      masterStore = new MasterStore({ history: {} });
+      taskView = masterStore.getView<Task>('tasks');
+      taskView.defineIndex('done', (task) => task.done);
+      taskView.defineIndex('tag', (task) => task.tags, { multi: true });
+
+      const task = addTask('Task', false, ['home']);
+      taskView.updateItem(task.id, (draft) => {
+        draft.done = true;
+      });
+      masterStore.undo();
+      expectIndexesConsistent();
+
+      masterStore.transaction(() => {
+        addTask('Staged', true, ['work']);
+        expect(taskView.getByIndex('tag', 'work')).toHaveLength(1);
+      });
+      expectIndexesConsistent();
+    });
+
+    test('indexes defined after data exists cover existing items', () => {
+      addTask('A', true, ['home']);
+      addTask('B', false, ['home']);
+
+      taskView.defineIndex('title', (task) => task.title);
+      expect(taskView.getByIndex('title', 'B')).toEqual([taskView.getItems()[1]]);
+    });
+
+    test('looking up an undefined index throws', () => {
+      expect(() => taskView.getByIndex('missing', true)).toThrow('Index "missing" is not defined');
+    });
+  });
+});
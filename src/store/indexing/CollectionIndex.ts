@@ -0,0 +1,181 @@
+import type { Identifiable } from '../MasterStore';
+
+/**
+ * Options for a secondary index.
+ */
+export interface IndexOptions {
+  /**
+   * Treat the key function's result as a list of keys, indexing the item
+   * under each of them (e.g. an index of todos by tag).
+   */
+  multi?: boolean;
+}
+
+/**
+ * Definition of a user-declared secondary index.
+ */
+interface SecondaryIndex<T> {
+  keyFn: (item: T) => unknown;
+  multi: boolean;
+  /** IDs of the items stored under each key */
+  entries: Map<unknown, Set<string>>;
+}
+
+/**
+ * ID and secondary indexes for a single immutable collection.
+ *
+ * Indexes are synchronised lazily against whatever array is current when
+ * they are read. Because collections are updated immutably with structural
+ * sharing, the previous and next arrays can be compared by reference:
+ * - Same length: only positions holding a new object reference are reindexed
+ * - Appends: the unchanged prefix is checked and the new tail is added
+ * - Anything else (removals, inserts): the indexes are rebuilt
+ *
+ * This keeps indexes correct for arbitrary draft changes made through
+ * `updateItems` while making the common single-item update cheap.
+ *
+ * Used internally by StoreView implementations.
+ */
+export class CollectionIndex<T extends Identifiable> {
+  /** Array the indexes currently describe */
+  private items: T[] = [];
+  /** Position of every item by ID */
+  private positions = new Map<string, number>();
+  private secondary = new Map<string, SecondaryIndex<T>>();
+
+  /**
+   * Declare a secondary index.
+   * @param name - Index name used with `getByIndex`
+   * @param keyFn - Function returning the key (or keys, with `multi`) for an item
+   * @param options - Index options
+   */
+  define(name: string, keyFn: (item: T) => unknown, options: IndexOptions = {}): void {
+    const index: SecondaryIndex<T> = { keyFn, multi: options.multi ?? false, entries: new Map() };
+    this.secondary.set(name, index);
+    this.items.forEach((item) => this.addToIndex(index, item));
+  }
+
+  /**
+   * Check whether a secondary index exists.
+   * @param name - Index name
+   */
+  has(name: string): boolean {
+    return this.secondary.has(name);
+  }
+
+  /**
+   * Get the position of an item in the collection.
+   * @param items - Current collection
+   * @param id - Item ID
+   * @returns Position of the item, or -1 if not present
+   */
+  positionOf(items: T[], id: string): number {
+    this.sync(items);
+    return this.positions.get(id) ?? -1;
+  }
+
+  /**
+   * Get the IDs stored under a secondary index key, in collection order.
+   * @param items - Current collection
+   * @param name - Index name
+   * @param key - Key to look up
+   * @returns Matching items in collection order
+   */
+  lookup(items: T[], name: string, key: unknown): T[] {
+    const index = this.secondary.get(name);
+    if (!index) {
+      throw new Error(`Index "${name}" is not defined`);
+    }
+    this.sync(items);
+
+    const ids = index.entries.get(key);
+    if (!ids) {
+      return [];
+    }
+    return Array.from(ids, (id) => this.positions.get(id)!)
+      .sort((a, b) => a - b)
+      .map((position) => items[position]);
+  }
+
+  private sync(next: T[]): void {
+    const previous = this.items;
+    if (next === previous) {
+      return;
+    }
+    this.items = next;
+
+    if (next.length < previous.length) {
+      this.rebuild();
+      return;
+    }
+
+    const changed: number[] = [];
+    for (let i = 0; i < previous.length; i++) {
+      if (next[i] !== previous[i]) {
+        changed.push(i);
+      }
+    }
+
+    // An ID moving to another position means items were inserted or reordered
+    if (changed.some((i) => next[i].id !== previous[i].id) && next.length !== previous.length) {
+      this.rebuild();
+      return;
+    }
+
+    // Remove every stale entry before adding new ones so reordered items are not lost
+    changed.forEach((i) => {
+      const old = previous[i];
+      if (this.positions.get(old.id) === i) {
+        this.positions.delete(old.id);
+      }
+      this.secondary.forEach((index) => this.removeFromIndex(index, old));
+    });
+    changed.forEach((i) => this.add(next[i], i));
+
+    for (let i = previous.length; i < next.length; i++) {
+      this.add(next[i], i);
+    }
+  }
+
+  private rebuild(): void {
+    this.positions.clear();
+    this.secondary.forEach((index) => index.entries.clear());
+    this.items.forEach((item, position) => this.add(item, position));
+  }
+
+  private add(item: T, position: number): void {
+    this.positions.set(item.id, position);
+    this.secondary.forEach((index) => this.addToIndex(index, item));
+  }
+
+  private addToIndex(index: SecondaryIndex<T>, item: T): void {
+    this.keysOf(index, item).forEach((key) => {
+      let ids = index.entries.get(key);
+      if (!ids) {
+        ids = new Set();
+        index.entries.set(key, ids);
+      }
+      ids.add(item.id);
+    });
+  }
+
+  private removeFromIndex(index: SecondaryIndex<T>, item: T): void {
+    this.keysOf(index, item).forEach((key) => {
+      const ids = index.entries.get(key);
+      if (ids) {
+        ids.delete(item.id);
+        if (ids.size === 0) {
+          index.entries.delete(key);
+        }
+      }
+    });
+  }
+
+  private keysOf(index: SecondaryIndex<T>, item: T): unknown[] {
+    const key = index.keyFn(item);
+    if (!index.multi) {
+      return [key];
+    }
+    return Array.isArray(key) ? key : [];
+  }
+}
@@ -0,0 +1,232 @@
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { TYPES } from '@/constants/types';
+import { MasterStore, StoreView } from '../MasterStore';
+import { createLoggerMiddleware } from './loggerMiddleware';
+import { createFreezeMiddleware } from './freezeMiddleware';
+import type { StoreMiddleware, WriteContext } from './StoreMiddleware';
+import type { Todo } from '@/features/todo';
+
+describe('MasterStore Middleware', () => {
+  let masterStore: MasterStore;
+  let todoView: StoreView<Todo>;
+
+  const addTodo = (text: string) =>
+    todoView.addItem({ text, completed: false, createdAt: new Date() });
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    todoView = masterStore.getView<Todo>('todos');
+  });
+
+  describe('Pipeline', () => {
+    test('middleware observes every write with key, operation, previous and next', () => {
+      const seen: WriteContext[] = [];
+      masterStore.use((context, next) => {
+        seen.push(context);
+        next(context);
+      });
+
+      const todo = addTodo('First');
+      todoView.updateItem(todo.id, (draft) => {
+        draft.completed = true;
+      });
+
+      expect(seen.map((context) => `${context.key}/${context.operation}`)).toEqual([
+        'todos/addItem',
+        'todos/updateItem',
+      ]);
+      expect(seen[0].previous).toEqual([]);
+      expect(seen[1].previous).toBe(seen[0].next);
+      expect(seen[1].next).toBe(todoView.getItems());
+      expect(seen[0].meta.inTransaction).toBe(false);
+    });
+
+    test('middleware runs in registration order and can transform writes', () => {
+      const order: string[] = [];
+      masterStore.use((context, next) => {
+        order.push('first');
+        next({ ...context, next: context.next.map((todo) => ({ ...todo, text: todo.text.trim() })) });
+      });
+      masterStore.use((context, next) => {
+        order.push('second');
+        expect(context.next[0].text).toBe('Padded');
+        next(context);
+      });
+
+      addTodo('  Padded  ');
+
+      expect(order).toEqual(['first', 'second']);
+      expect(todoView.getItems()[0].text).toBe('Padded');
+    });
+
+    test('not calling next vetoes the write', () => {
+      const callback = jest.fn();
+      todoView.subscribe(callback);
+      masterStore.use((context, next) => {
+        if (context.operation !== 'clearItems') {
+          next(context);
+        }
+      });
+
+      addTodo('Kept');
+      todoView.clearItems();
+
+      expect(todoView.getItems()).toHaveLength(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test('thrown errors veto the write and reach the caller', () => {
+      masterStore.use(() => {
+        throw new Error('rejected');
+      });
+
+      expect(() => addTodo('Rejected')).toThrow('rejected');
+      expect(todoView.getItems()).toEqual([]);
+    });
+
+    test('next returns the applied write, or undefined when vetoed downstream', () => {
+      const results: Array<WriteContext | undefined> = [];
+      masterStore.use((context, next) => {
+        results.push(next(context));
+      });
+      const unsubscribe = masterStore.use((context, next) => {
+        if (!context.next.some((todo) => todo.text === 'Blocked')) {
+          next(context);
+        }
+      });
+
+      addTodo('Allowed');
+      addTodo('Blocked');
+      unsubscribe();
+      addTodo('Blocked');
+
+      expect(results.map((result) => result?.next.length)).toEqual([1, undefined, 2]);
+    });
+
+    test('writes that change nothing skip middleware', () => {
+      const middleware = jest.fn<void, Parameters<StoreMiddleware>>((context, next) => {
+        next(context);
+      });
+      const todo = addTodo('Todo');
+      masterStore.use(middleware);
+
+      todoView.updateItem(todo.id, (draft) => {
+        draft.completed = false;
+      });
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Integration', () => {
+    test('transformed writes inside transactions are committed and undoable', () => {
+      masterStore = new MasterStore({
+        history: {},
+        middleware: [
+          (context, next) => {
+            next({ ...context, next: context.next.map((todo) => ({ ...todo, text: todo.text.toUpperCase() })) });
+          },
+        ],
+      });
+      todoView = masterStore.getView<Todo>('todos');
+      const metas: boolean[] = [];
+      masterStore.use((context, next) => {
+        metas.push(context.meta.inTransaction);
+        next(context);
+      });
+
+      masterStore.transaction(() => {
+        addTodo('one');
+        addTodo('two');
+      });
+
+      expect(metas).toEqual([true, true]);
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['ONE', 'TWO']);
+
+      masterStore.undo();
+      expect(todoView.getItems()).toEqual([]);
+      masterStore.redo();
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['ONE', 'TWO']);
+    });
+
+    test('middleware bound in the container is multi-injected', () => {
+      const seen: string[] = [];
+      const container = new Container();
+      container.bind<StoreMiddleware>(TYPES.StoreMiddleware).toConstantValue((context, next) => {
+        seen.push(`a:${context.operation}`);
+        next(context);
+      });
+      container.bind<StoreMiddleware>(TYPES.StoreMiddleware).toConstantValue((context, next) => {
+        seen.push(`b:${context.operation}`);
+        next(context);
+      });
+      container.bind(TYPES.MasterStore).to(MasterStore).inSingletonScope();
+
+      const store = container.get<MasterStore>(TYPES.MasterStore);
+      store.getView<Todo>('todos').addItem({ text: 'Injected', completed: false, createdAt: new Date() });
+
+      expect(seen).toEqual(['a:addItem', 'b:addItem']);
+    });
+
+    test('a container without middleware bindings still resolves', () => {
+      const container = new Container();
+      container.bind(TYPES.MasterStore).to(MasterStore);
+
+      expect(() => container.get<MasterStore>(TYPES.MasterStore)).not.toThrow();
+    });
+  });
+
+  describe('Built-in Middleware', () => {
+    test('logger logs applied writes for the configured keys', () => {
+      const logger = { log: jest.fn() };
+      masterStore.use(createLoggerMiddleware({ logger, keys: ['todos'] }));
+
+      addTodo('Logged');
+      masterStore.getView<{ id: string }>('ui').addItem({});
+
+      expect(logger.log).toHaveBeenCalledTimes(1);
+      expect(logger.log).toHaveBeenCalledWith(
+        '[MasterStore] todos/addItem',
+        expect.objectContaining({ previous: [], next: todoView.getItems() })
+      );
+    });
+
+    test('logger skips vetoed writes', () => {
+      const logger = { log: jest.fn() };
+      masterStore.use(createLoggerMiddleware({ logger }));
+      masterStore.use(() => undefined);
+
+      addTodo('Vetoed');
+
+      expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    test('freeze middleware deep-freezes written data', () => {
+      masterStore.use((context, next) => {
+        next({ ...context, next: context.next.map((todo) => ({ ...todo, meta: { source: 'test' } })) });
+      });
+      masterStore.use(createFreezeMiddleware({ enabled: true }));
+
+      addTodo('Frozen');
+      const [todo] = todoView.getItems() as Array<Todo & { meta: { source: string } }>;
+
+      expect(Object.isFrozen(todoView.getItems())).toBe(true);
+      expect(Object.isFrozen(todo.meta)).toBe(true);
+      expect(() => {
+        todo.meta.source = 'mutated';
+      }).toThrow(TypeError);
+    });
+
+    test('freeze middleware can be disabled', () => {
+      masterStore.use((context, next) => {
+        next({ ...context, next: [...context.next] });
+      });
+      masterStore.use(createFreezeMiddleware({ enabled: false }));
+
+      addTodo('Mutable');
+
+      expect(Object.isFrozen(todoView.getItems())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import type { StoreOperation } from '../MasterStore';
+
+/**
+ * Metadata describing the circumstances of a write.
+ * Middleware may attach extra fields for middleware further down the chain.
+ */
+export interface WriteMeta {
+  /** Whether the write is staged inside `MasterStore.transaction()` */
+  inTransaction: boolean;
+  /** Time the write was made, in milliseconds since the epoch */
+  timestamp: number;
+  [field: string]: unknown;
+}
+
+/**
+ * A single StoreView write passing through the middleware chain.
+ *
+ * @template T - The type of entity in the collection
+ */
+export interface WriteContext<T = any> {
+  /** MasterStore key being written */
+  key: string;
+  /** StoreView operation that produced the write */
+  operation: StoreOperation;
+  /** Collection before the write */
+  previous: T[];
+  /** Collection the write will store */
+  next: T[];
+  /** Write metadata */
+  meta: WriteMeta;
+}
+
+/**
+ * Middleware intercepting MasterStore writes.
+ *
+ * Call `next` to pass the write on, optionally with a modified context
+ * (e.g. a transformed `next` collection). Not calling `next` vetoes the
+ * write; throwing vetoes it and propagates the error to the caller.
+ * Code after `next` runs once the rest of the chain has finished; `next`
+ * returns the write as it was applied, or undefined if a later middleware
+ * vetoed it.
+ *
+ * @example
+ * ```typescript
+ * const readOnlyArchive: StoreMiddleware = (context, next) => {
+ *   if (context.key !== 'archive') {
+ *     next(context);
+ *   }
+ * };
+ * ```
+ */
+export type StoreMiddleware = (
+  context: WriteContext,
+  next: (context: WriteContext) => WriteContext | undefined
+) => void;
+
+/**
+ * Ordered chain of middleware run for every MasterStore write.
+ *
+ * Used internally by MasterStore; register middleware via
+ * `MasterStore.use()`, `MasterStoreConfig.middleware` or by binding
+ * `TYPES.StoreMiddleware`.
+ */
+export class MiddlewarePipeline {
+  private middleware: StoreMiddleware[] = [];
+
+  /**
+   * Append middleware to the end of the chain.
+   * @param middleware - Middleware to add
+   * @returns Function removing the middleware again
+   */
+  use(middleware: StoreMiddleware): () => void {
+    this.middleware = [...this.middleware, middleware];
+    return () => {
+      this.middleware = this.middleware.filter((candidate) => candidate !== middleware);
+    };
+  }
+
+  /**
+   * Check whether any middleware is registered.
+   */
+  isEmpty(): boolean {
+    return this.middleware.length === 0;
+  }
+
+  /**
+   * Run a write through the chain.
+   * @param context - Write entering the chain
+   * @param apply - Applies the write that leaves the chain
+   * @returns The applied write, or undefined if it was vetoed
+   */
+  run(context: WriteContext, apply: (context: WriteContext) => void): WriteContext | undefined {
+    // Later registrations do not affect a write already in progress
+    const chain = this.middleware;
+
+    const dispatch = (index: number, current: WriteContext): WriteContext | undefined => {
+      if (index === chain.length) {
+        apply(current);
+        return current;
+      }
+
+      let called = false;
+      let applied: WriteContext | undefined;
+      chain[index](current, (passed) => {
+        if (called) {
+          throw new Error('Store middleware called next() more than once');
+        }
+        called = true;
+        applied = dispatch(index + 1, passed);
+        return applied;
+      });
+      return applied;
+    };
+
+    return dispatch(0, context);
+  }
+}
@@ -0,0 +1,51 @@
+import type { StoreMiddleware } from './StoreMiddleware';
+
+/**
+ * Options for the freeze middleware.
+ */
+export interface FreezeMiddlewareOptions {
+  /** Whether to freeze written data (defaults to true outside production builds) */
+  enabled?: boolean;
+}
+
+/**
+ * Recursively freeze a value, stopping at values that are already frozen.
+ * Unchanged parts of a collection are shared with the previous (already
+ * frozen) collection, so only newly written objects are visited.
+ */
+function deepFreeze(value: unknown): void {
+  if (value === null || typeof value !== 'object' || Object.isFrozen(value)) {
+    return;
+  }
+  Object.freeze(value);
+  Object.values(value).forEach(deepFreeze);
+}
+
+/**
+ * Create middleware that deep-freezes every written collection.
+ *
+ * Catches code that mutates store data outside of an Immer recipe, e.g.
+ * data produced by other middleware or objects kept after `setItem`:
+ * such mutations throw in strict mode instead of silently bypassing
+ * change detection. The collection is frozen as it was stored, so the
+ * middleware may sit anywhere in the chain. Disabled in production builds
+ * by default.
+ *
+ * @param options - Freeze options
+ * @returns Freeze middleware
+ *
+ * @example
+ * ```typescript
+ * const masterStore = new MasterStore({ middleware: [createFreezeMiddleware()] });
+ * ```
+ */
+export function createFreezeMiddleware(options: FreezeMiddlewareOptions = {}): StoreMiddleware {
+  const enabled = options.enabled ?? process.env.NODE_ENV !== 'production';
+
+  return (context, next) => {
+    const applied = next(context);
+    if (enabled && applied) {
+      deepFreeze(applied.next);
+    }
+  };
+}
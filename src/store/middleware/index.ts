@@ -0,0 +1,11 @@
+/**
+ * Write middleware for MasterStore.
+ *
+ * Register middleware via `MasterStore.use()`, `MasterStoreConfig.middleware`
+ * or by binding `TYPES.StoreMiddleware` in the container.
+ */
+export type { StoreMiddleware, WriteContext, WriteMeta } from './StoreMiddleware';
+export { createLoggerMiddleware } from './loggerMiddleware';
+export type { LoggerMiddlewareOptions } from './loggerMiddleware';
+export { createFreezeMiddleware } from './freezeMiddleware';
+export type { FreezeMiddlewareOptions } from './freezeMiddleware';
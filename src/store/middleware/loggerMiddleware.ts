@@ -0,0 +1,53 @@
+import type { StoreMiddleware, WriteContext } from './StoreMiddleware';
+
+/**
+ * Options for the logger middleware.
+ */
+export interface LoggerMiddlewareOptions {
+  /** Destination for log output (defaults to `console`) */
+  logger?: Pick<Console, 'log'>;
+  /** Keys to log; every key is logged when omitted */
+  keys?: string[];
+  /** Additional predicate deciding whether a write is logged */
+  filter?: (context: WriteContext) => boolean;
+}
+
+/**
+ * Create middleware logging every applied write.
+ *
+ * Writes are logged once the rest of the chain has run, showing the
+ * collection as it was actually stored; vetoed writes are not logged.
+ *
+ * @param options - Logger options
+ * @returns Logger middleware
+ *
+ * @example
+ * ```typescript
+ * const masterStore = new MasterStore({
+ *   middleware: [createLoggerMiddleware({ keys: ['todos'] })],
+ * });
+ * // [MasterStore] todos/addItem { previous: [...], next: [...], meta: {...} }
+ * ```
+ */
+export function createLoggerMiddleware(options: LoggerMiddlewareOptions = {}): StoreMiddleware {
+  const logger = options.logger ?? console;
+
+  return (context, next) => {
+    const applied = next(context);
+    if (!applied) {
+      return;
+    }
+    if (options.keys && !options.keys.includes(applied.key)) {
+      return;
+    }
+    if (options.filter && !options.filter(applied)) {
+      return;
+    }
+
+    logger.log(`[MasterStore] ${applied.key}/${applied.operation}`, {
+      previous: applied.previous,
+      next: applied.next,
+      meta: applied.meta,
+    });
+  };
+}
@@ -0,0 +1,81 @@
+import { compareKeys, keyBetween, keysBetween } from './fractionalIndex';
+
+describe('Fractional Index', () => {
+  const expectAscending = (keys: string[]) => {
+    keys.slice(1).forEach((key, i) => expect(compareKeys(keys[i], key)).toBe(-1));
+  };
+
+  describe('keyBetween', () => {
+    test('generates keys between, before and after others', () => {
+      const first = keyBetween(null, null);
+      const last = keyBetween(first, null);
+      const start = keyBetween(null, first);
+      const middle = keyBetween(first, last);
+
+      expectAscending([start, first, middle, last]);
+    });
+
+    test('always finds room between adjacent keys', () => {
+      let low = keyBetween(null, null);
+      const high = keyBetween(low, null);
+      const keys = [low];
+      for (let i = 0; i < 200; i++) {
+        low = keyBetween(low, high);
+        keys.push(low);
+      }
+      keys.push(high);
+
+      expectAscending(keys);
+      // Every generated key is itself a valid bound
+      keys.forEach((key) => expect(() => keyBetween(key, null)).not.toThrow());
+    });
+
+    test('crosses integer lengths when appending and prepending', () => {
+      expect(keyBetween('az', null)).toBe('b00');
+      expect(keyBetween(null, 'a0')).toBe('Zz');
+      expect(keyBetween(null, 'Z0')).toBe('Yzz');
+    });
+
+    test('repeated inserts at the front stay ordered', () => {
+      let first = keyBetween(null, null);
+      const keys = [first];
+      for (let i = 0; i < 200; i++) {
+        first = keyBetween(null, first);
+        keys.unshift(first);
+      }
+
+      expectAscending(keys);
+    });
+
+    test('appending grows keys slowly', () => {
+      let key = keyBetween(null, null);
+      for (let i = 0; i < 1000; i++) {
+        key = keyBetween(key, null);
+      }
+      expect(key.length).toBeLessThanOrEqual(3);
+    });
+
+    test('rejects unordered or malformed keys', () => {
+      expect(() => keyBetween('a2', 'a1')).toThrow('must sort below');
+      expect(() => keyBetween('a1', 'a1')).toThrow('must sort below');
+      expect(() => keyBetween('a10', null)).toThrow('Invalid order key');
+      expect(() => keyBetween('b1', null)).toThrow('Invalid order key');
+      expect(() => keyBetween(null, 'a-')).toThrow('Invalid order key');
+    });
+  });
+
+  describe('keysBetween', () => {
+    test('generates evenly spread ascending keys', () => {
+      const keys = keysBetween(null, null, 100);
+
+      expect(keys).toHaveLength(100);
+      expectAscending(keys);
+      expect(Math.max(...keys.map((key) => key.length))).toBeLessThanOrEqual(3);
+    });
+
+    test('fits keys into a gap', () => {
+      const keys = keysBetween('a1', 'a2', 10);
+      expectAscending(['a1', ...keys, 'a2']);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Digits of order keys, in ascending character code order so that keys
+ * compare correctly with `<` (not `localeCompare`).
+ */
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = DIGITS[0];
+const LAST = DIGITS[DIGITS.length - 1];
+
+/** Smallest integer part; nothing can be generated below a key starting with it */
+const SMALLEST_INTEGER = 'A' + ZERO.repeat(26);
+
+/*
+ * Keys are an integer part followed by an optional fraction:
+ * - The integer's head character encodes its length: `a`-`z` for 1-26 digits
+ *   of non-negative integers, `Z`-`A` for 1-26 digits of negative ones. This
+ *   keeps appends and prepends short: they increment or decrement the integer
+ * - The fraction is read as base-62 digits after the point and never ends in
+ *   the zero digit, which keeps room between any two keys
+ */
+
+function integerLength(head: string): number {
+  if (head >= 'a' && head <= 'z') {
+    return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  }
+  if (head >= 'A' && head <= 'Z') {
+    return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid order key head "${head}"`);
+}
+
+function integerPart(key: string): string {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new Error(`Invalid order key "${key}"`);
+  }
+  return key.slice(0, length);
+}
+
+function assertKey(key: string): void {
+  if (key === SMALLEST_INTEGER || [...key].some((char) => !DIGITS.includes(char))) {
+    throw new Error(`Invalid order key "${key}"`);
+  }
+  const fraction = key.slice(integerPart(key).length);
+  if (fraction.endsWith(ZERO)) {
+    throw new Error(`Invalid order key "${key}"`);
+  }
+}
+
+/**
+ * Fraction between two fractions; `b` of null stands for 1.
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Copy the common prefix, treating a missing digit in `a` as zero
+    let n = 0;
+    while ((a[n] ?? ZERO) === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent digits: a shorter fraction may still fit, otherwise go one digit deeper
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Next integer, or null past the largest one.
+ */
+function increment(integer: string): string | null {
+  const [head, ...digits] = integer.split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const next = DIGITS.indexOf(digits[i]) + 1;
+    if (next < DIGITS.length) {
+      digits[i] = DIGITS[next];
+      return head + digits.join('');
+    }
+    digits[i] = ZERO;
+  }
+  // Every digit carried over: move to the next integer length
+  if (head === 'Z') {
+    return 'a' + ZERO;
+  }
+  if (head === 'z') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') {
+    digits.push(ZERO);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
+
+/**
+ * Previous integer, or null below the smallest one.
+ */
+function decrement(integer: string): string | null {
+  const [head, ...digits] = integer.split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const previous = DIGITS.indexOf(digits[i]) - 1;
+    if (previous >= 0) {
+      digits[i] = DIGITS[previous];
+      return head + digits.join('');
+    }
+    digits[i] = LAST;
+  }
+  if (head === 'a') {
+    return 'Z' + LAST;
+  }
+  if (head === 'A') {
+    return null;
+  }
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < 'Z') {
+    digits.push(LAST);
+  } else {
+    digits.pop();
+  }
+  return previousHead + digits.join('');
+}
+
+/**
+ * Generate an order key that sorts between two others.
+ *
+ * Fractional indexing lets an item be moved by rewriting only its own key,
+ * so reordering leaves every other item (and its object reference) alone.
+ * Keys are plain strings compared with `<`; appending or prepending keeps
+ * them short, repeatedly inserting into the same gap makes them longer.
+ *
+ * @param before - Key to sort after, or null for the start
+ * @param after - Key to sort before, or null for the end
+ * @returns A key strictly between `before` and `after`
+ * @throws Error if `before` does not sort below `after`, or a key is malformed
+ *
+ * @example
+ * ```typescript
+ * const first = keyBetween(null, null);
+ * const second = keyBetween(first, null);
+ * const middle = keyBetween(first, second); // first < middle < second
+ * ```
+ */
+export function keyBetween(before: string | null, after: string | null): string {
+  if (before !== null) {
+    assertKey(before);
+  }
+  if (after !== null) {
+    assertKey(after);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Order key "${before}" must sort below "${after}"`);
+  }
+
+  if (before === null) {
+    if (after === null) {
+      return 'a' + ZERO;
+    }
+    const integer = integerPart(after);
+    if (integer === SMALLEST_INTEGER) {
+      return integer + midpoint('', after.slice(integer.length));
+    }
+    if (integer < after) {
+      return integer;
+    }
+    const previous = decrement(integer);
+    if (previous === null) {
+      throw new Error('Cannot generate an order key below the smallest key');
+    }
+    return previous;
+  }
+
+  const integer = integerPart(before);
+  const fraction = before.slice(integer.length);
+  if (after === null) {
+    const next = increment(integer);
+    return next ?? integer + midpoint(fraction, null);
+  }
+
+  const afterInteger = integerPart(after);
+  if (integer === afterInteger) {
+    return integer + midpoint(fraction, after.slice(afterInteger.length));
+  }
+  const next = increment(integer);
+  if (next !== null && next < after) {
+    return next;
+  }
+  return integer + midpoint(fraction, null);
+}
+
+/**
+ * Generate `count` ascending keys between two others.
+ * @param before - Key to sort after, or null for the start
+ * @param after - Key to sort before, or null for the end
+ * @param count - Number of keys
+ */
+export function keysBetween(before: string | null, after: string | null, count: number): string[] {
+  if (count <= 0) {
+    return [];
+  }
+  if (count === 1) {
+    return [keyBetween(before, after)];
+  }
+  // Split at the middle key and recurse, so keys in a gap grow logarithmically
+  const half = Math.floor(count / 2);
+  const middle = keyBetween(before, after);
+  return [...keysBetween(before, middle, half), middle, ...keysBetween(middle, after, count - half - 1)];
+}
+
+/**
+ * Compare order keys for sorting.
+ */
+export function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+// jsdom has neither IndexedDB nor the structuredClone it stores values with
+import { IDBFactory } from 'fake-indexeddb';
+import { MasterStore } from '../MasterStore';
+import { IndexedDBAdapter } from './IndexedDBAdapter';
+import type { Todo } from '@/features/todo/types/Todo';
+
+describe('IndexedDBAdapter', () => {
+  // Each test gets its own in-memory databases
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  test('round trips todos through IndexedDB across store instances', async () => {
+    const first = new MasterStore({ persistence: { adapter: new IndexedDBAdapter({ factory }) } });
+    await first.whenHydrated();
+
+    const created = first.getView<Todo>('todos').addItem({
+      text: 'Survives reload',
+      completed: false,
+      createdAt: new Date('2024-05-05T05:05:05.000Z'),
+    });
+    await first.flush();
+
+    const second = new MasterStore({ persistence: { adapter: new IndexedDBAdapter({ factory }) } });
+    await second.whenHydrated();
+
+    // Dates come back as Dates, cloned by Node in a realm other than the test's
+    expect(second.getView<Todo>('todos').getItems()).toEqual([created]);
+  });
+
+  test('loads what was saved and nothing for unknown keys', async () => {
+    const adapter = new IndexedDBAdapter({ factory });
+    const value = { text: 'Stored', createdAt: new Date('2024-05-05T05:05:05.000Z') };
+    await adapter.save('todos', value);
+
+    expect(await adapter.load('todos')).toEqual(value);
+    expect(await adapter.load('missing')).toBeUndefined();
+    expect(await adapter.keys()).toEqual(['todos']);
+  });
+
+  test('removes saved keys', async () => {
+    const adapter = new IndexedDBAdapter({ factory });
+    await adapter.save('todos', []);
+    await adapter.save('filter', 'all');
+
+    await adapter.remove('todos');
+
+    expect(await adapter.load('todos')).toBeUndefined();
+    expect(await adapter.keys()).toEqual(['filter']);
+  });
+
+  test('keeps databases apart', async () => {
+    await new IndexedDBAdapter({ factory, databaseName: 'work' }).save('todos', ['work']);
+
+    expect(await new IndexedDBAdapter({ factory }).load('todos')).toBeUndefined();
+    expect(await new IndexedDBAdapter({ factory, databaseName: 'work' }).load('todos')).toEqual(['work']);
+  });
+
+  test('rejects when IndexedDB fails', async () => {
+    const adapter = new IndexedDBAdapter({ factory });
+
+    // Functions cannot be cloned into IndexedDB
+    await expect(adapter.save('todos', () => undefined)).rejects.toMatchObject({ name: 'DataCloneError' });
+    // The object store of an existing database is only created on upgrade
+    await expect(new IndexedDBAdapter({ factory, storeName: 'other' }).load('todos')).rejects.toMatchObject({ name: 'NotFoundError' });
+  });
+
+  test('hydration reports errors of the database', async () => {
+    const failing: IDBFactory = Object.assign(new IDBFactory(), {
+      open: () => {
+        throw new Error('IndexedDB unavailable');
+      },
+    });
+    const onError = jest.fn();
+    const store = new MasterStore({ persistence: { adapter: new IndexedDBAdapter({ factory: failing }), onError } });
+
+    await store.whenHydrated();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'IndexedDB unavailable' }));
+  });
+});
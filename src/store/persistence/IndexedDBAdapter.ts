@@ -0,0 +1,84 @@
+import type { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Options for IndexedDBAdapter.
+ */
+export interface IndexedDBAdapterOptions {
+  /** Database name (defaults to `'master-store'`) */
+  databaseName?: string;
+  /** Object store name (defaults to `'data'`) */
+  storeName?: string;
+  /** IDBFactory to use (defaults to the global `indexedDB`) */
+  factory?: IDBFactory;
+}
+
+/**
+ * Wrap an IDBRequest in a promise.
+ */
+function requestToPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * StorageAdapter backed by IndexedDB.
+ *
+ * Values are stored via the structured clone algorithm, so Date instances
+ * survive the round trip without any custom serialization.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new IndexedDBAdapter({ databaseName: 'todo-app' });
+ * ```
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  private storeName: string;
+  /** Lazily opened database connection */
+  private database?: Promise<IDBDatabase>;
+
+  constructor(private options: IndexedDBAdapterOptions = {}) {
+    this.storeName = options.storeName ?? 'data';
+  }
+
+  async load(key: string): Promise<unknown> {
+    const store = await this.objectStore('readonly');
+    return requestToPromise(store.get(key));
+  }
+
+  async save(key: string, value: unknown): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const store = await this.objectStore('readonly');
+    const keys = await requestToPromise(store.getAllKeys());
+    return keys.map(String);
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const factory = this.options.factory ?? indexedDB;
+      const request = factory.open(this.options.databaseName ?? 'master-store', 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      this.database = requestToPromise(request);
+    }
+    return this.database;
+  }
+}
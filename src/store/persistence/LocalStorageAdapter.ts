@@ -0,0 +1,57 @@
+import type { StorageAdapter } from './StorageAdapter';
+import { serialize, deserialize } from './serialization';
+
+/**
+ * Options for LocalStorageAdapter.
+ */
+export interface LocalStorageAdapterOptions {
+  /** Storage instance to use (defaults to `window.localStorage`) */
+  storage?: Storage;
+  /** Prefix applied to every key to avoid clashing with other data */
+  prefix?: string;
+}
+
+/**
+ * StorageAdapter backed by the Web Storage API (localStorage by default).
+ *
+ * Simple and synchronous under the hood, but limited to a few megabytes.
+ * Prefer IndexedDBAdapter for large collections.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new LocalStorageAdapter({ prefix: 'my-app:' });
+ * ```
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: Storage;
+  private prefix: string;
+
+  constructor(options: LocalStorageAdapterOptions = {}) {
+    this.storage = options.storage ?? window.localStorage;
+    this.prefix = options.prefix ?? 'masterStore:';
+  }
+
+  async load(key: string): Promise<unknown> {
+    const text = this.storage.getItem(this.prefix + key);
+    return text === null ? undefined : deserialize(text);
+  }
+
+  async save(key: string, value: unknown): Promise<void> {
+    this.storage.setItem(this.prefix + key, serialize(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const storageKey = this.storage.key(i);
+      if (storageKey !== null && storageKey.startsWith(this.prefix)) {
+        keys.push(storageKey.substring(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+}
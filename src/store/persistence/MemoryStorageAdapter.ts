@@ -0,0 +1,45 @@
+import type { StorageAdapter } from './StorageAdapter';
+import { serialize, deserialize } from './serialization';
+
+/**
+ * In-memory StorageAdapter intended for tests.
+ *
+ * Values are stored serialized so that loading returns fresh copies,
+ * mirroring the behaviour of real storage backends.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new MemoryStorageAdapter({ todos: [] });
+ * const masterStore = new MasterStore({ persistence: { adapter } });
+ * ```
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  /** Serialized entries by key */
+  private entries = new Map<string, string>();
+
+  /**
+   * @param initialData - Optional data to pre-populate the adapter with
+   */
+  constructor(initialData: Record<string, unknown> = {}) {
+    Object.entries(initialData).forEach(([key, value]) => {
+      this.entries.set(key, serialize(value));
+    });
+  }
+
+  async load(key: string): Promise<unknown> {
+    const text = this.entries.get(key);
+    return text === undefined ? undefined : deserialize(text);
+  }
+
+  async save(key: string, value: unknown): Promise<void> {
+    this.entries.set(key, serialize(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Asynchronous key-value backend used by MasterStore persistence.
+ *
+ * Each MasterStore key (e.g. `'todos'`) is stored as a single entry holding
+ * the full value of that key. Adapters are responsible for any serialization
+ * their backend needs and must hand back values with `Date` instances intact.
+ *
+ * @example
+ * ```typescript
+ * const masterStore = new MasterStore({
+ *   persistence: { adapter: new LocalStorageAdapter() },
+ * });
+ * ```
+ */
+export interface StorageAdapter {
+  /**
+   * Load the stored value for a key.
+   * @param key - MasterStore key to load
+   * @returns The stored value, or undefined if nothing is stored
+   */
+  load(key: string): Promise<unknown>;
+
+  /**
+   * Store the value for a key, replacing any previous value.
+   * @param key - MasterStore key to store
+   * @param value - Value to store
+   */
+  save(key: string, value: unknown): Promise<void>;
+
+  /**
+   * Remove the stored value for a key.
+   * @param key - MasterStore key to remove
+   */
+  remove(key: string): Promise<void>;
+
+  /**
+   * List all keys that currently have a stored value.
+   * @returns Array of stored MasterStore keys
+   */
+  keys(): Promise<string[]>;
+}
@@ -0,0 +1,212 @@
+import { MasterStore } from '../MasterStore';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { serialize, deserialize } from './serialization';
+import type { Todo } from '@/features/todo/types/Todo';
+
+describe('MasterStore Persistence', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  describe('Serialization', () => {
+    test('dates survive a serialize/deserialize round trip', () => {
+      const createdAt = new Date('2024-03-01T10:00:00.000Z');
+      const result = deserialize(serialize([{ id: '1', createdAt, nested: { at: createdAt } }])) as any[];
+
+      expect(result[0].createdAt).toBeInstanceOf(Date);
+      expect(result[0].createdAt.getTime()).toBe(createdAt.getTime());
+      expect(result[0].nested.at).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('Hydration', () => {
+    test('hydrates stored keys and revives createdAt as a Date', async () => {
+      const createdAt = new Date('2024-03-01T10:00:00.000Z');
+      const adapter = new MemoryStorageAdapter({
+        todos: [{ id: '1', text: 'Persisted', completed: false, createdAt }],
+      });
+      const masterStore = new MasterStore({ persistence: { adapter } });
+
+      expect(masterStore.isHydrated()).toBe(false);
+      await masterStore.whenHydrated();
+      expect(masterStore.isHydrated()).toBe(true);
+
+      const todos = masterStore.getView<Todo>('todos').getItems();
+      expect(todos).toHaveLength(1);
+      expect(todos[0].createdAt).toBeInstanceOf(Date);
+      expect(todos[0].createdAt.getTime()).toBe(createdAt.getTime());
+    });
+
+    test('collections written before hydration completes keep the stored items', async () => {
+      const adapter = new MemoryStorageAdapter({
+        todos: [{ id: 'stored', text: 'Stored', completed: false, createdAt: new Date() }],
+      });
+      const masterStore = new MasterStore({ persistence: { adapter } });
+
+      masterStore.getView<Todo>('todos').addItem({ text: 'Fresh', completed: false, createdAt: new Date() });
+      await masterStore.whenHydrated();
+
+      const todos = masterStore.getView<Todo>('todos').getItems();
+      expect(todos.map((todo) => todo.text)).toEqual(['Stored', 'Fresh']);
+    });
+
+    test('other keys written before hydration completes are not overwritten', async () => {
+      const adapter = new MemoryStorageAdapter({ settings: [{ theme: 'light' }] });
+      const masterStore = new MasterStore({ persistence: { adapter } });
+
+      masterStore.getView<any>('settings').setItem({ theme: 'dark' });
+      await masterStore.whenHydrated();
+
+      expect(masterStore.getView<any>('settings').getItem()).toEqual({ theme: 'dark', id: expect.any(String) });
+    });
+
+    test('writes made before loading completes are held and saved with the stored items', async () => {
+      const adapter = new MemoryStorageAdapter({
+        todos: [{ id: 'stored', text: 'Stored', completed: false, createdAt: new Date() }],
+      });
+      const load = adapter.load.bind(adapter);
+      let finishLoading: () => void = () => undefined;
+      jest.spyOn(adapter, 'load').mockImplementation(
+        (key) => new Promise((resolve) => (finishLoading = () => resolve(load(key))))
+      );
+      const save = jest.spyOn(adapter, 'save');
+      const masterStore = new MasterStore({ persistence: { adapter, debounceMs: 0 } });
+
+      masterStore.getView<Todo>('todos').addItem({ text: 'Fresh', completed: false, createdAt: new Date() });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(save).not.toHaveBeenCalled();
+
+      finishLoading();
+      await masterStore.whenHydrated();
+      await masterStore.flush();
+
+      const stored = (await load('todos')) as Todo[];
+      expect(stored.map((todo) => todo.text)).toEqual(['Stored', 'Fresh']);
+    });
+
+    test('hydration resolves and reports errors when the adapter fails', async () => {
+      const onError = jest.fn();
+      const adapter = new MemoryStorageAdapter();
+      jest.spyOn(adapter, 'keys').mockRejectedValue(new Error('unavailable'));
+
+      const masterStore = new MasterStore({ persistence: { adapter, onError } });
+      await masterStore.whenHydrated();
+
+      expect(masterStore.isHydrated()).toBe(true);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    test('store without persistence is hydrated immediately', async () => {
+      const masterStore = new MasterStore();
+      expect(masterStore.isHydrated()).toBe(true);
+      await expect(masterStore.whenHydrated()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Writes', () => {
+    test('writes are debounced per key', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const masterStore = new MasterStore({ persistence: { adapter, debounceMs: 50 } });
+      await masterStore.whenHydrated();
+
+      jest.useFakeTimers();
+      const save = jest.spyOn(adapter, 'save');
+      const todoView = masterStore.getView<Todo>('todos');
+
+      for (let i = 0; i < 10; i++) {
+        todoView.addItem({ text: `Todo ${i}`, completed: false, createdAt: new Date() });
+      }
+      expect(save).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(50);
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(save).toHaveBeenCalledWith('todos', todoView.getItems());
+    });
+
+    test('only changed keys are written', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const masterStore = new MasterStore({ persistence: { adapter } });
+      await masterStore.whenHydrated();
+
+      masterStore.getView<Todo>('todos').addItem({ text: 'Todo', completed: false, createdAt: new Date() });
+      await masterStore.flush();
+
+      const save = jest.spyOn(adapter, 'save');
+      masterStore.getView<any>('settings').setItem({ theme: 'dark' });
+      await masterStore.flush();
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(save.mock.calls[0][0]).toBe('settings');
+    });
+
+    test('hydrated data is not written back unchanged', async () => {
+      const adapter = new MemoryStorageAdapter({ todos: [] });
+      const save = jest.spyOn(adapter, 'save');
+      const masterStore = new MasterStore({ persistence: { adapter } });
+
+      await masterStore.whenHydrated();
+      await masterStore.flush();
+
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    test('keys option restricts which keys are persisted', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const masterStore = new MasterStore({ persistence: { adapter, keys: ['todos'] } });
+      await masterStore.whenHydrated();
+
+      masterStore.getView<Todo>('todos').addItem({ text: 'Todo', completed: false, createdAt: new Date() });
+      masterStore.getView<any>('ui').setItem({ open: true });
+      await masterStore.flush();
+
+      expect(await adapter.keys()).toEqual(['todos']);
+    });
+
+    test('clearing the store removes stored keys', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const masterStore = new MasterStore({ persistence: { adapter } });
+      await masterStore.whenHydrated();
+
+      masterStore.getView<Todo>('todos').addItem({ text: 'Todo', completed: false, createdAt: new Date() });
+      await masterStore.flush();
+      masterStore.clear();
+      await masterStore.flush();
+
+      expect(await adapter.keys()).toEqual([]);
+    });
+  });
+
+  describe('LocalStorageAdapter', () => {
+    test('round trips todos through localStorage across store instances', async () => {
+      const adapter = new LocalStorageAdapter({ prefix: 'test:' });
+      const first = new MasterStore({ persistence: { adapter } });
+      await first.whenHydrated();
+
+      const created = first.getView<Todo>('todos').addItem({
+        text: 'Survives reload',
+        completed: false,
+        createdAt: new Date('2024-05-05T05:05:05.000Z'),
+      });
+      await first.flush();
+
+      expect(localStorage.getItem('test:todos')).not.toBeNull();
+
+      const second = new MasterStore({ persistence: { adapter: new LocalStorageAdapter({ prefix: 'test:' }) } });
+      await second.whenHydrated();
+
+      const todos = second.getView<Todo>('todos').getItems();
+      expect(todos).toEqual([created]);
+      expect(todos[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    test('ignores keys outside its prefix', async () => {
+      localStorage.setItem('unrelated', 'value');
+      const adapter = new LocalStorageAdapter({ prefix: 'test:' });
+      await adapter.save('todos', []);
+
+      expect(await adapter.keys()).toEqual(['todos']);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import type { StoreApi } from 'zustand/vanilla';
+import type { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Persistence configuration for MasterStore.
+ */
+export interface PersistenceOptions {
+  /** Backend that data is loaded from and written to */
+  adapter: StorageAdapter;
+  /** Delay in milliseconds used to coalesce writes (defaults to 100) */
+  debounceMs?: number;
+  /** Keys to persist; every key is persisted when omitted */
+  keys?: string[];
+  /** Called when loading or saving fails (defaults to console.error) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Minimal shape of the MasterStore Zustand state used by persistence.
+ */
+interface PersistedState {
+  data: Record<string, any>;
+}
+
+/**
+ * Check whether a value is a collection of items with ids.
+ */
+const isCollection = (value: unknown): value is Array<{ id: unknown }> =>
+  Array.isArray(value) && value.every((item) => typeof item === 'object' && item !== null && 'id' in item);
+
+/**
+ * Merge a stored collection with the items written before hydration finished.
+ * Written items replace stored items with the same id; new ones follow the stored items.
+ */
+function mergeById(stored: Array<{ id: unknown }>, written: Array<{ id: unknown }>): Array<{ id: unknown }> {
+  const writtenById = new Map(written.map((item) => [item.id, item]));
+  const merged = stored.map((item) => writtenById.get(item.id) ?? item);
+  const storedIds = new Set(stored.map((item) => item.id));
+  return [...merged, ...written.filter((item) => !storedIds.has(item.id))];
+}
+
+/**
+ * Keeps a MasterStore's Zustand state in sync with a StorageAdapter.
+ *
+ * - Hydrates stored keys on startup; collections written in the meantime are merged
+ *   with the stored ones by id, other keys written in the meantime win
+ * - Holds writes until hydration finishes, so storage is never replaced by partial data
+ * - Tracks changes per key by reference and only writes keys that changed
+ * - Debounces writes so bursts of updates result in a single save per key
+ *
+ * Used internally by MasterStore; not intended to be constructed directly.
+ */
+export class StorePersistence {
+  /** Latest unsaved value per key */
+  private pending = new Map<string, unknown>();
+  /** Last value known to match storage per key */
+  private persisted = new Map<string, unknown>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private hydrated = false;
+  private hydration: Promise<void>;
+  private unsubscribe: () => void;
+
+  constructor(private store: StoreApi<PersistedState>, private options: PersistenceOptions) {
+    this.unsubscribe = store.subscribe((state, previous) => this.handleChange(state, previous));
+    this.hydration = this.hydrate();
+  }
+
+  /**
+   * Resolve once stored data has been loaded into the store.
+   * Resolves even if loading failed, so callers never hang.
+   */
+  whenHydrated(): Promise<void> {
+    return this.hydration;
+  }
+
+  /**
+   * Check whether hydration has finished.
+   */
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  /**
+   * Write all pending changes immediately instead of waiting for the debounce.
+   */
+  async flush(): Promise<void> {
+    if (!this.hydrated) {
+      // Writes made before hydration are saved merged with the stored data
+      await this.hydration;
+    }
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const entries = Array.from(this.pending.entries());
+    this.pending.clear();
+
+    await Promise.all(
+      entries.map(async ([key, value]) => {
+        try {
+          if (value === undefined) {
+            await this.options.adapter.remove(key);
+          } else {
+            await this.options.adapter.save(key, value);
+          }
+        } catch (error) {
+          this.reportError(error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Stop tracking store changes. Pending writes are discarded.
+   */
+  dispose(): void {
+    this.unsubscribe();
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+  }
+
+  private async hydrate(): Promise<void> {
+    try {
+      const { adapter } = this.options;
+      const keys = (await adapter.keys()).filter((key) => this.shouldPersist(key));
+      const loaded: Record<string, unknown> = {};
+
+      await Promise.all(
+        keys.map(async (key) => {
+          loaded[key] = await adapter.load(key);
+        })
+      );
+
+      // Keys written before hydration finished win over stored values,
+      // except collections, which keep the stored items too
+      const current = this.store.getState().data;
+      const applied: Record<string, unknown> = {};
+      Object.entries(loaded).forEach(([key, value]) => {
+        if (value === undefined) {
+          return;
+        }
+        if (current[key] === undefined) {
+          applied[key] = value;
+          this.persisted.set(key, value);
+        } else if (isCollection(value) && isCollection(current[key])) {
+          // Left out of `persisted`, so the merged collection is written back
+          applied[key] = mergeById(value, current[key]);
+        }
+      });
+
+      if (Object.keys(applied).length > 0) {
+        this.store.setState((state) => ({ data: { ...state.data, ...applied } }));
+      }
+    } catch (error) {
+      this.reportError(error);
+    } finally {
+      this.hydrated = true;
+    }
+  }
+
+  private handleChange(state: PersistedState, previous: PersistedState): void {
+    if (state.data === previous.data) {
+      return;
+    }
+
+    const keys = new Set([...Object.keys(state.data), ...Object.keys(previous.data)]);
+    keys.forEach((key) => {
+      const value = state.data[key];
+      if (value === previous.data[key] || !this.shouldPersist(key)) {
+        return;
+      }
+      if (this.pending.has(key) || value !== this.persisted.get(key)) {
+        this.pending.set(key, value);
+        this.persisted.set(key, value);
+      }
+    });
+
+    if (this.pending.size > 0) {
+      this.schedule();
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush();
+    }, this.options.debounceMs ?? 100);
+  }
+
+  private shouldPersist(key: string): boolean {
+    return !this.options.keys || this.options.keys.includes(key);
+  }
+
+  private reportError(error: unknown): void {
+    (this.options.onError ?? console.error)(error);
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Persistence layer for MasterStore.
+ *
+ * Pass one of these adapters via `MasterStoreConfig.persistence` to hydrate
+ * the store on startup and write changes back per key.
+ */
+export type { StorageAdapter } from './StorageAdapter';
+export type { PersistenceOptions } from './StorePersistence';
+export { LocalStorageAdapter } from './LocalStorageAdapter';
+export type { LocalStorageAdapterOptions } from './LocalStorageAdapter';
+export { IndexedDBAdapter } from './IndexedDBAdapter';
+export type { IndexedDBAdapterOptions } from './IndexedDBAdapter';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export { serialize, deserialize } from './serialization';
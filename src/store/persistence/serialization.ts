@@ -0,0 +1,45 @@
+/**
+ * Marker used to tag serialized Date instances.
+ */
+const DATE_TAG = '__date';
+
+/**
+ * Serialize a store value to a JSON string, preserving Date instances.
+ *
+ * `JSON.stringify` turns dates into plain ISO strings, which would come back
+ * as strings on load. Dates are instead written as `{ "__date": "<iso>" }`
+ * so {@link deserialize} can revive them.
+ *
+ * @param value - Value to serialize
+ * @returns JSON string representation
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, current) {
+    // `current` has already been through Date#toJSON, so inspect the raw value
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { [DATE_TAG]: raw.toISOString() };
+    }
+    return current;
+  });
+}
+
+/**
+ * Parse a string produced by {@link serialize}, reviving tagged dates.
+ *
+ * @param text - JSON string to parse
+ * @returns The deserialized value
+ */
+export function deserialize(text: string): unknown {
+  return JSON.parse(text, (_key, value) => {
+    if (
+      value !== null &&
+      typeof value === 'object' &&
+      Object.keys(value).length === 1 &&
+      typeof value[DATE_TAG] === 'string'
+    ) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,67 @@
+import type { Schema } from './schema';
+import { ValidationError, ValidationIssue } from './ValidationError';
+
+/**
+ * Item schemas registered per MasterStore key.
+ *
+ * Validates only the items a write actually adds or replaces: unchanged
+ * items keep their object reference thanks to structural sharing, so a
+ * single-item update validates a single item regardless of collection size.
+ *
+ * Used internally by MasterStore; register schemas via `MasterStore.defineSchema()`.
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, Schema<any>>();
+
+  /**
+   * Register the schema for a key, replacing any previous one.
+   * @param key - MasterStore key
+   * @param schema - Schema every item must match
+   */
+  define(key: string, schema: Schema<any>): void {
+    this.schemas.set(key, schema);
+  }
+
+  /**
+   * Check whether a key has a schema.
+   * @param key - MasterStore key
+   */
+  has(key: string): boolean {
+    return this.schemas.has(key);
+  }
+
+  /**
+   * Validate the items a write adds or replaces.
+   * @param key - MasterStore key being written
+   * @param previous - Collection before the write
+   * @param next - Collection the write will store
+   * @throws ValidationError if any new or changed item is invalid
+   */
+  validateWrite(key: string, previous: any[], next: any[]): void {
+    const schema = this.schemas.get(key);
+    if (!schema) {
+      return;
+    }
+
+    const issues: ValidationIssue[] = [];
+    let previousItems: Set<any> | undefined;
+    next.forEach((item, position) => {
+      const replaced = previous[position];
+      if (item === replaced) {
+        return;
+      }
+      // Items that merely moved (inserts, removals, reordering) were validated before
+      if (replaced?.id !== item?.id) {
+        previousItems ??= new Set(previous);
+        if (previousItems.has(item)) {
+          return;
+        }
+      }
+      schema.issuesFor(item).forEach((issue) => issues.push({ ...issue, id: item?.id }));
+    });
+
+    if (issues.length > 0) {
+      throw new ValidationError(key, issues);
+    }
+  }
+}
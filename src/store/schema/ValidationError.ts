@@ -0,0 +1,59 @@
+/**
+ * A single problem found while validating a value.
+ */
+export interface ValidationIssue {
+  /** Path of the offending field relative to the item, e.g. `text` or `tags[1]` (empty for the item itself) */
+  path: string;
+  /** Human readable description of the problem */
+  message: string;
+  /** ID of the item the issue was found in, when known */
+  id?: string;
+}
+
+/**
+ * Error thrown when a write to a key with a schema contains invalid items.
+ * The write is rejected as a whole; nothing is stored.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   todoService.addTodo({ text: '' });
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     console.log(error.messagesFor('text')); // ['must not be empty']
+ *   }
+ * }
+ * ```
+ */
+export class ValidationError extends Error {
+  constructor(
+    /** MasterStore key the rejected write targeted */
+    readonly key: string,
+    /** Every problem found, in item and field order */
+    readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid data for "${key}": ` +
+        issues.map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message)).join('; ')
+    );
+    this.name = 'ValidationError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+
+  /**
+   * Paths of all invalid fields, without duplicates.
+   */
+  get paths(): string[] {
+    return Array.from(new Set(this.issues.map((issue) => issue.path)));
+  }
+
+  /**
+   * Get the messages reported for a field.
+   * @param path - Field path, e.g. `text`
+   * @returns Messages for that field, empty if it is valid
+   */
+  messagesFor(path: string): string[] {
+    return this.issues.filter((issue) => issue.path === path).map((issue) => issue.message);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Schema validation for MasterStore writes.
+ *
+ * Register a schema with `MasterStore.defineSchema()`; writes containing
+ * items that do not match it throw a ValidationError.
+ */
+export { Schema, string, number, boolean, date, literal, array, object } from './schema';
+export type { StringOptions, NumberOptions, ArrayOptions, ObjectShape } from './schema';
+export { ValidationError } from './ValidationError';
+export type { ValidationIssue } from './ValidationError';
@@ -0,0 +1,173 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MasterStore, StoreView } from '../MasterStore';
+import { object, string, number, boolean, date, literal, array } from './schema';
+import { ValidationError } from './ValidationError';
+import { AddTodo, TodoFeatureProvider, configureTodoContainer, TODO_TYPES } from '@/features/todo';
+import type { ITodoService, Todo } from '@/features/todo';
+
+interface Task {
+  id: string;
+  title: string;
+  estimate?: number;
+  status: 'open' | 'done';
+  tags: string[];
+}
+
+const taskSchema = object<Task>({
+  id: string({ minLength: 1 }),
+  title: string({ minLength: 1, maxLength: 10 }),
+  estimate: number({ min: 0, integer: true }).optional(),
+  status: literal('open', 'done'),
+  tags: array(string({ pattern: /^[a-z]+$/ })),
+});
+
+describe('Schema Validation', () => {
+  describe('Validator DSL', () => {
+    test('valid values produce no issues', () => {
+      expect(taskSchema.issuesFor({ id: '1', title: 'Write', status: 'open', tags: ['work'] })).toEqual([]);
+      expect(date().issuesFor(new Date())).toEqual([]);
+      expect(boolean().issuesFor(false)).toEqual([]);
+    });
+
+    test('issues list every invalid field path', () => {
+      const issues = taskSchema.issuesFor({
+        id: '1',
+        title: '   ',
+        estimate: 1.5,
+        status: 'closed',
+        tags: ['ok', 'Not OK'],
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual(['title', 'estimate', 'status', 'tags[1]']);
+      expect(issues[0].message).toBe('must not be empty');
+    });
+
+    test('type mismatches are reported', () => {
+      expect(date().issuesFor('2024-01-01')).toEqual([{ path: '', message: 'must be a valid Date' }]);
+      expect(date().issuesFor(new Date('invalid'))).toHaveLength(1);
+      expect(number().issuesFor(NaN)).toHaveLength(1);
+      expect(taskSchema.issuesFor(null)).toEqual([{ path: '', message: 'must be an object' }]);
+    });
+
+    test('refinements run after the base checks', () => {
+      const even = number().refine((value) => value % 2 === 0, 'must be even');
+
+      expect(even.issuesFor(3)).toEqual([{ path: '', message: 'must be even' }]);
+      expect(even.issuesFor('3')).toEqual([{ path: '', message: 'must be a number' }]);
+      expect(even.issuesFor(4)).toEqual([]);
+    });
+  });
+
+  describe('MasterStore Integration', () => {
+    let masterStore: MasterStore;
+    let taskView: StoreView<Task>;
+
+    beforeEach(() => {
+      masterStore = new MasterStore();
+      masterStore.defineSchema<Task>('tasks', taskSchema);
+      taskView = masterStore.getView<Task>('tasks');
+    });
+
+    test('invalid writes throw a ValidationError and store nothing', () => {
+      const callback = jest.fn();
+      taskView.subscribe(callback);
+
+      let error: unknown;
+      try {
+        taskView.addItem({ title: '', status: 'open', tags: [] });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).key).toBe('tasks');
+      expect((error as ValidationError).paths).toEqual(['title']);
+      expect((error as ValidationError).issues[0].id).toEqual(expect.any(String));
+      expect(taskView.getItems()).toEqual([]);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    test('updates are validated', () => {
+      const task = taskView.addItem({ title: 'Valid', status: 'open', tags: [] });
+
+      expect(() =>
+        taskView.updateItem(task.id, (draft) => {
+          draft.title = 'Far too long a title';
+        })
+      ).toThrow(ValidationError);
+      expect(taskView.getById(task.id)).toBe(task);
+    });
+
+    test('only added or replaced items are validated', () => {
+      const validate = jest.spyOn(taskSchema, 'issuesFor');
+      const tasks = ['a', 'b', 'c'].map((title) => taskView.addItem({ title, status: 'open', tags: [] }));
+      validate.mockClear();
+
+      taskView.updateItem(tasks[1].id, (draft) => {
+        draft.status = 'done';
+      });
+      expect(validate).toHaveBeenCalledTimes(1);
+
+      taskView.removeItem(tasks[0].id);
+      taskView.updateItems((draft) => {
+        draft.reverse();
+      });
+      expect(validate).toHaveBeenCalledTimes(1);
+      validate.mockRestore();
+    });
+
+    test('the result of middleware is validated', () => {
+      masterStore.use((context, next) => {
+        next({ ...context, next: context.next.map((task: Task) => ({ ...task, title: task.title.trim() })) });
+      });
+
+      expect(() => taskView.addItem({ title: '  ', status: 'open', tags: [] })).toThrow('title must not be empty');
+    });
+
+    test('invalid writes inside a transaction roll it back', () => {
+      expect(() =>
+        masterStore.transaction(() => {
+          taskView.addItem({ title: 'Valid', status: 'open', tags: [] });
+          taskView.addItem({ title: 'Valid', status: 'unknown' as Task['status'], tags: [] });
+        })
+      ).toThrow(ValidationError);
+
+      expect(taskView.getItems()).toEqual([]);
+    });
+  });
+
+  describe('Todo Feature', () => {
+    test('TodoService.addTodo surfaces validation errors', () => {
+      const masterStore = new MasterStore();
+      const todoService = configureTodoContainer(masterStore).get<ITodoService>(TODO_TYPES.TodoService);
+
+      expect(() => todoService.addTodo({ text: '' })).toThrow(ValidationError);
+      expect(() =>
+        masterStore.getView<Todo>('todos').addItem({ text: 'Bad date', completed: false, createdAt: 'today' as never })
+      ).toThrow('createdAt must be a valid Date');
+      expect(todoService.getAllTodos()).toEqual([]);
+    });
+
+    test('AddTodo renders validation errors inline until the text changes', async () => {
+      const user = userEvent.setup();
+      render(
+        <TodoFeatureProvider masterStore={new MasterStore()}>
+          <AddTodo />
+        </TodoFeatureProvider>
+      );
+      const input = screen.getByPlaceholderText('Add a new todo...');
+
+      await user.click(screen.getByText('Add Todo'));
+      expect(screen.getByRole('alert')).toHaveTextContent('Text must not be empty');
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+
+      await user.type(input, 'Fixed');
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+      await user.click(screen.getByText('Add Todo'));
+      expect(input).toHaveValue('');
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import type { ValidationIssue } from './ValidationError';
+
+/**
+ * Validator for values of type T.
+ *
+ * Schemas are built with the functions in this module and can be combined
+ * freely, e.g. `array(string({ minLength: 1 }))`.
+ *
+ * @template T - The type of value the schema accepts
+ */
+export abstract class Schema<T> {
+  /** Extra checks added with `refine` */
+  private refinements: Array<{ predicate: (value: T) => boolean; message: string }> = [];
+
+  /**
+   * Validate a value.
+   * @param value - Value to validate
+   * @param path - Path of the value, used in issues
+   * @param issues - Collects every issue found
+   */
+  validate(value: unknown, path: string, issues: ValidationIssue[]): void {
+    const before = issues.length;
+    this.check(value, path, issues);
+    if (issues.length > before) {
+      return;
+    }
+    this.refinements.forEach(({ predicate, message }) => {
+      if (!predicate(value as T)) {
+        issues.push({ path, message });
+      }
+    });
+  }
+
+  /**
+   * Check a value against this schema.
+   * @param value - Value to check
+   * @returns Issues found, empty when the value is valid
+   */
+  issuesFor(value: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    this.validate(value, '', issues);
+    return issues;
+  }
+
+  /**
+   * Allow `undefined` in addition to values accepted by this schema.
+   */
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * Add a custom check, run only when the value passes the schema itself.
+   * @param predicate - Returns true for valid values
+   * @param message - Message reported for invalid values
+   * @returns This schema, for chaining
+   */
+  refine(predicate: (value: T) => boolean, message: string): this {
+    this.refinements.push({ predicate, message });
+    return this;
+  }
+
+  protected abstract check(value: unknown, path: string, issues: ValidationIssue[]): void;
+}
+
+class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(private inner: Schema<T>) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (value !== undefined) {
+      this.inner.validate(value, path, issues);
+    }
+  }
+}
+
+/**
+ * Options for string schemas.
+ */
+export interface StringOptions {
+  /** Minimum length after trimming whitespace */
+  minLength?: number;
+  /** Maximum length */
+  maxLength?: number;
+  /** Pattern the string must match */
+  pattern?: RegExp;
+}
+
+class StringSchema extends Schema<string> {
+  constructor(private options: StringOptions) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: 'must be a string' });
+      return;
+    }
+    const { minLength, maxLength, pattern } = this.options;
+    if (minLength !== undefined && value.trim().length < minLength) {
+      issues.push({
+        path,
+        message: minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters`,
+      });
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      issues.push({ path, message: `must be at most ${maxLength} characters` });
+    }
+    if (pattern && !pattern.test(value)) {
+      issues.push({ path, message: `must match ${pattern}` });
+    }
+  }
+}
+
+/**
+ * Options for number schemas.
+ */
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  /** Only accept whole numbers */
+  integer?: boolean;
+}
+
+class NumberSchema extends Schema<number> {
+  constructor(private options: NumberOptions) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push({ path, message: 'must be a number' });
+      return;
+    }
+    const { min, max, integer } = this.options;
+    if (integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'must be a whole number' });
+    }
+    if (min !== undefined && value < min) {
+      issues.push({ path, message: `must be at least ${min}` });
+    }
+    if (max !== undefined && value > max) {
+      issues.push({ path, message: `must be at most ${max}` });
+    }
+  }
+}
+
+class BooleanSchema extends Schema<boolean> {
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: 'must be a boolean' });
+    }
+  }
+}
+
+class DateSchema extends Schema<Date> {
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+      issues.push({ path, message: 'must be a valid Date' });
+    }
+  }
+}
+
+class LiteralSchema<T extends string | number | boolean> extends Schema<T> {
+  constructor(private values: readonly T[]) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!this.values.includes(value as T)) {
+      issues.push({ path, message: `must be one of ${this.values.map((v) => JSON.stringify(v)).join(', ')}` });
+    }
+  }
+}
+
+/**
+ * Options for array schemas.
+ */
+export interface ArrayOptions {
+  minLength?: number;
+  maxLength?: number;
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  constructor(private item: Schema<T>, private options: ArrayOptions) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: 'must be an array' });
+      return;
+    }
+    const { minLength, maxLength } = this.options;
+    if (minLength !== undefined && value.length < minLength) {
+      issues.push({ path, message: `must contain at least ${minLength} items` });
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      issues.push({ path, message: `must contain at most ${maxLength} items` });
+    }
+    value.forEach((entry, index) => this.item.validate(entry, `${path}[${index}]`, issues));
+  }
+}
+
+/**
+ * Schemas for every property of an object type.
+ */
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+class ObjectSchema<T> extends Schema<T> {
+  constructor(private shape: ObjectShape<T>) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    (Object.keys(this.shape) as Array<keyof T & string>).forEach((field) => {
+      const schema = this.shape[field] as Schema<unknown>;
+      schema.validate((value as Record<string, unknown>)[field], path ? `${path}.${field}` : field, issues);
+    });
+  }
+}
+
+/**
+ * Accept strings.
+ * @param options - Length and pattern constraints
+ */
+export function string(options: StringOptions = {}): Schema<string> {
+  return new StringSchema(options);
+}
+
+/**
+ * Accept numbers (NaN is rejected).
+ * @param options - Range constraints
+ */
+export function number(options: NumberOptions = {}): Schema<number> {
+  return new NumberSchema(options);
+}
+
+/**
+ * Accept booleans.
+ */
+export function boolean(): Schema<boolean> {
+  return new BooleanSchema();
+}
+
+/**
+ * Accept valid Date instances.
+ */
+export function date(): Schema<Date> {
+  return new DateSchema();
+}
+
+/**
+ * Accept only the listed values.
+ * @param values - Allowed values
+ */
+export function literal<T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return new LiteralSchema(values);
+}
+
+/**
+ * Accept arrays whose items all match a schema.
+ * @param item - Schema for each item
+ * @param options - Length constraints
+ */
+export function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  return new ArraySchema(item, options);
+}
+
+/**
+ * Accept objects whose properties match a schema per property.
+ * Properties not listed in the shape are ignored.
+ *
+ * @param shape - Schema for every property
+ *
+ * @example
+ * ```typescript
+ * const todoSchema = object<Todo>({
+ *   id: string({ minLength: 1 }),
+ *   text: string({ minLength: 1, maxLength: 500 }),
+ *   completed: boolean(),
+ *   createdAt: date(),
+ * });
+ * ```
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return new ObjectSchema(shape);
+}
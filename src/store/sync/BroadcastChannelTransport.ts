@@ -0,0 +1,50 @@
+import type { SyncMessage, SyncTransport } from './SyncTransport';
+
+/**
+ * The parts of `BroadcastChannel` used by the transport.
+ */
+export interface BroadcastChannelLike {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  close(): void;
+}
+
+/**
+ * Options for BroadcastChannelTransport.
+ */
+export interface BroadcastChannelTransportOptions {
+  /** Channel name shared by all tabs (defaults to `'master-store-sync'`) */
+  channelName?: string;
+  /** Channel factory, e.g. a fake channel in tests (defaults to `new BroadcastChannel(name)`) */
+  createChannel?: (name: string) => BroadcastChannelLike;
+}
+
+/**
+ * Sync transport using `BroadcastChannel`.
+ *
+ * Messages are structured-cloned by the browser, so Dates survive intact.
+ * A channel never receives its own messages.
+ */
+export class BroadcastChannelTransport<M = SyncMessage> implements SyncTransport<M> {
+  private channel: BroadcastChannelLike;
+
+  constructor(options: BroadcastChannelTransportOptions = {}) {
+    const name = options.channelName ?? 'master-store-sync';
+    this.channel = options.createChannel ? options.createChannel(name) : new BroadcastChannel(name);
+  }
+
+  post(message: M): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: M) => void): () => void {
+    const handler = (event: MessageEvent) => listener(event.data as M);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
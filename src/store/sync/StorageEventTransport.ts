@@ -0,0 +1,63 @@
+import { serialize, deserialize } from '../persistence/serialization';
+import type { SyncMessage, SyncTransport } from './SyncTransport';
+
+/**
+ * Options for StorageEventTransport.
+ */
+export interface StorageEventTransportOptions {
+  /** Storage key used to pass messages (defaults to `'master-store-sync'`) */
+  channelName?: string;
+  /** Storage to write messages to (defaults to `window.localStorage`) */
+  storage?: Storage;
+  /** Window to listen for `storage` events on (defaults to `window`) */
+  target?: Pick<Window, 'addEventListener' | 'removeEventListener'>;
+}
+
+/**
+ * Sync transport for browsers without `BroadcastChannel`.
+ *
+ * Each message is written to a storage key and removed again immediately;
+ * other tabs receive it through the `storage` event, which browsers never
+ * fire in the tab that made the change. Messages are serialized with the
+ * persistence serializer so Dates survive.
+ */
+export class StorageEventTransport<M = SyncMessage> implements SyncTransport<M> {
+  private key: string;
+  private storage: Storage;
+  private target: Pick<Window, 'addEventListener' | 'removeEventListener'>;
+  private handlers = new Set<(event: StorageEvent) => void>();
+
+  constructor(options: StorageEventTransportOptions = {}) {
+    this.key = options.channelName ?? 'master-store-sync';
+    this.storage = options.storage ?? window.localStorage;
+    this.target = options.target ?? window;
+  }
+
+  post(message: M): void {
+    // A unique nonce makes every write a change, even for identical messages
+    const nonce = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    this.storage.setItem(this.key, serialize({ nonce, message }));
+    this.storage.removeItem(this.key);
+  }
+
+  subscribe(listener: (message: M) => void): () => void {
+    const handler = (event: StorageEvent) => {
+      if (event.key !== this.key || !event.newValue) {
+        return;
+      }
+      const { message } = deserialize(event.newValue) as { message: M };
+      listener(message);
+    };
+    this.handlers.add(handler);
+    this.target.addEventListener('storage', handler as EventListener);
+    return () => {
+      this.handlers.delete(handler);
+      this.target.removeEventListener('storage', handler as EventListener);
+    };
+  }
+
+  close(): void {
+    this.handlers.forEach((handler) => this.target.removeEventListener('storage', handler as EventListener));
+    this.handlers.clear();
+  }
+}
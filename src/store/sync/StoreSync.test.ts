@@ -0,0 +1,315 @@
+import { MasterStore, StoreView } from '../MasterStore';
+import { MemoryStorageAdapter, serialize, deserialize } from '../persistence';
+import { BroadcastChannelTransport, BroadcastChannelLike } from './BroadcastChannelTransport';
+import { StorageEventTransport } from './StorageEventTransport';
+import type { SyncMessage } from './SyncTransport';
+import type { Todo } from '@/features/todo';
+
+/**
+ * Fake BroadcastChannel network: messages are queued and delivered on demand,
+ * so tests control interleaving.
+ */
+class FakeChannelNetwork {
+  private channels = new Set<FakeChannel>();
+  private queue: Array<{ from: FakeChannel; message: unknown }> = [];
+
+  create = (): BroadcastChannelLike => {
+    const channel = new FakeChannel(this);
+    this.channels.add(channel);
+    return channel;
+  };
+
+  enqueue(from: FakeChannel, message: unknown): void {
+    // Copy the message like the browser's structured clone would (jsdom lacks structuredClone)
+    this.queue.push({ from, message: deserialize(serialize(message)) });
+  }
+
+  remove(channel: FakeChannel): void {
+    this.channels.delete(channel);
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  deliverAll(): void {
+    while (this.queue.length > 0) {
+      const { from, message } = this.queue.shift()!;
+      this.channels.forEach((channel) => {
+        if (channel !== from) {
+          channel.dispatch(message);
+        }
+      });
+    }
+  }
+}
+
+class FakeChannel implements BroadcastChannelLike {
+  private listeners = new Set<(event: MessageEvent) => void>();
+
+  constructor(private network: FakeChannelNetwork) {}
+
+  postMessage(message: unknown): void {
+    this.network.enqueue(this, message);
+  }
+
+  addEventListener(_type: 'message', listener: (event: MessageEvent) => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: 'message', listener: (event: MessageEvent) => void): void {
+    this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.network.remove(this);
+  }
+
+  dispatch(data: unknown): void {
+    this.listeners.forEach((listener) => listener({ data } as MessageEvent));
+  }
+}
+
+describe('MasterStore Cross-tab Sync', () => {
+  let network: FakeChannelNetwork;
+
+  const createTab = (replicaId: string, config: ConstructorParameters<typeof MasterStore>[0] = {}) => {
+    const store = new MasterStore({
+      ...config,
+      sync: { replicaId, transport: new BroadcastChannelTransport({ createChannel: network.create }) },
+    });
+    return { store, todos: store.getView<Todo>('todos') };
+  };
+
+  const texts = (view: StoreView<Todo>) => view.getItems().map((todo) => todo.text);
+
+  beforeEach(() => {
+    network = new FakeChannelNetwork();
+  });
+
+  describe('Propagation', () => {
+    test('adds, updates, removals and reorders reach other tabs', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+
+      const first = a.todos.addItem({ text: 'First', completed: false, createdAt: new Date() });
+      a.todos.addItem({ text: 'Second', completed: false, createdAt: new Date() });
+      network.deliverAll();
+      expect(texts(b.todos)).toEqual(['First', 'Second']);
+      expect(b.todos.getById(first.id)?.createdAt).toBeInstanceOf(Date);
+
+      b.todos.updateItem(first.id, (draft) => {
+        draft.completed = true;
+      });
+      b.todos.updateItems((draft) => {
+        draft.reverse();
+      });
+      network.deliverAll();
+      expect(a.todos.getItems()).toEqual(b.todos.getItems());
+
+      a.todos.removeItem(first.id);
+      network.deliverAll();
+      expect(texts(b.todos)).toEqual(['Second']);
+    });
+
+    test('remote changes keep references of untouched items', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+      const first = a.todos.addItem({ text: 'First', completed: false, createdAt: new Date() });
+      const second = a.todos.addItem({ text: 'Second', completed: false, createdAt: new Date() });
+      network.deliverAll();
+      const untouched = b.todos.getById(first.id);
+
+      a.todos.updateItem(second.id, (draft) => {
+        draft.text = 'Changed';
+      });
+      network.deliverAll();
+
+      expect(b.todos.getById(first.id)).toBe(untouched);
+    });
+
+    test('applied remote changes are not echoed back', () => {
+      const a = createTab('a');
+      createTab('b');
+
+      a.todos.addItem({ text: 'Once', completed: false, createdAt: new Date() });
+      expect(network.pending).toBe(1);
+      network.deliverAll();
+
+      expect(network.pending).toBe(0);
+    });
+
+    test('only configured keys are synced', () => {
+      const transport = new BroadcastChannelTransport({ createChannel: network.create });
+      const a = new MasterStore({ sync: { replicaId: 'a', keys: ['todos'], transport } });
+      const b = createTab('b');
+
+      a.getView<{ id: string }>('ui').addItem({});
+      network.deliverAll();
+
+      expect(b.store.getAllData().ui).toBeUndefined();
+    });
+
+    test('disconnected tabs neither send nor receive', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+      b.store.disconnectSync();
+
+      a.todos.addItem({ text: 'Lost', completed: false, createdAt: new Date() });
+      b.todos.addItem({ text: 'Local', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      expect(texts(a.todos)).toEqual(['Lost']);
+      expect(texts(b.todos)).toEqual(['Local']);
+    });
+  });
+
+  describe('Concurrent Edits', () => {
+    test('concurrent edits of the same item converge on the same winner', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+      const todo = a.todos.addItem({ text: 'Shared', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      a.todos.updateItem(todo.id, (draft) => {
+        draft.text = 'From A';
+      });
+      b.todos.updateItem(todo.id, (draft) => {
+        draft.text = 'From B';
+      });
+      network.deliverAll();
+
+      // Same clock: the higher replica ID wins on both sides
+      expect(texts(a.todos)).toEqual(['From B']);
+      expect(texts(b.todos)).toEqual(['From B']);
+    });
+
+    test('the later edit wins regardless of delivery order', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+      const todo = b.todos.addItem({ text: 'Shared', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      b.todos.updateItem(todo.id, (draft) => {
+        draft.text = 'B1';
+      });
+      b.todos.updateItem(todo.id, (draft) => {
+        draft.text = 'B2';
+      });
+      a.todos.updateItem(todo.id, (draft) => {
+        draft.text = 'A1';
+      });
+      network.deliverAll();
+
+      expect(texts(a.todos)).toEqual(['B2']);
+      expect(texts(b.todos)).toEqual(['B2']);
+    });
+
+    test('concurrent additions are kept on both sides, in the same order', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+
+      a.todos.addItem({ text: 'From A', completed: false, createdAt: new Date() });
+      b.todos.addItem({ text: 'From B', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      // Same clock, so the replica ID breaks the tie: B's addition is newer and comes first
+      expect(texts(a.todos)).toEqual(['From B', 'From A']);
+      expect(texts(b.todos)).toEqual(['From B', 'From A']);
+    });
+
+    test('concurrent additions after the same todo are ordered alike on both sides', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+      a.todos.addItem({ text: 'First', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      a.todos.addItem({ text: 'A1', completed: false, createdAt: new Date() });
+      a.todos.addItem({ text: 'A2', completed: false, createdAt: new Date() });
+      b.todos.addItem({ text: 'B1', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      // B1 ties with A1 and wins on replica ID; A2 stays after A1, which it was added after
+      expect(texts(a.todos)).toEqual(['First', 'B1', 'A1', 'A2']);
+      expect(texts(b.todos)).toEqual(['First', 'B1', 'A1', 'A2']);
+    });
+
+    test('a removal beats an older concurrent edit', () => {
+      const a = createTab('a');
+      const b = createTab('b');
+      const todo = a.todos.addItem({ text: 'Doomed', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      b.todos.updateItem(todo.id, (draft) => {
+        draft.completed = true;
+      });
+      a.todos.updateItem(todo.id, (draft) => {
+        draft.text = 'Still doomed';
+      });
+      a.todos.removeItem(todo.id);
+      network.deliverAll();
+
+      expect(a.todos.getItems()).toEqual([]);
+      expect(b.todos.getItems()).toEqual([]);
+    });
+  });
+
+  describe('Store Integration', () => {
+    test('remote changes clear undo history for the affected key', () => {
+      const a = createTab('a', { history: {} });
+      const b = createTab('b', { history: {} });
+      b.todos.addItem({ text: 'Local', completed: false, createdAt: new Date() });
+      expect(b.store.canUndo('todos')).toBe(true);
+
+      a.todos.addItem({ text: 'Remote', completed: false, createdAt: new Date() });
+      network.deliverAll();
+
+      expect(b.store.canUndo('todos')).toBe(false);
+      expect(b.todos.getItems()).toHaveLength(2);
+    });
+
+    test('hydrated data is not broadcast and early messages wait for hydration', async () => {
+      const adapter = new MemoryStorageAdapter();
+      await adapter.save('todos', [{ id: 'stored', text: 'Stored', completed: false, createdAt: new Date() }]);
+      const a = createTab('a');
+      const b = createTab('b', { persistence: { adapter } });
+
+      a.todos.addItem({ text: 'Early', completed: false, createdAt: new Date() });
+      network.deliverAll();
+      await b.store.whenHydrated();
+      await Promise.resolve();
+
+      // 'Early' is the first item in tab A, so it is inserted at the front
+      expect(texts(b.todos)).toEqual(['Early', 'Stored']);
+      network.deliverAll();
+      expect(texts(a.todos)).toEqual(['Early']);
+    });
+  });
+
+  describe('Storage Event Fallback', () => {
+    test('messages are passed through storage events with dates intact', () => {
+      const transport = new StorageEventTransport({ channelName: 'sync-test' });
+      const received: SyncMessage[] = [];
+      transport.subscribe((message) => received.push(message));
+
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+      const message: SyncMessage = {
+        version: { clock: 1, replica: 'other' },
+        patches: [{ key: 'todos', upserts: [{ item: { id: '1', createdAt }, after: null }], removes: [] }],
+      };
+      const setItem = jest.spyOn(Storage.prototype, 'setItem');
+      transport.post(message);
+      const written = setItem.mock.calls[0][1];
+      setItem.mockRestore();
+
+      // Browsers only fire storage events in other tabs, so simulate one
+      window.dispatchEvent(new StorageEvent('storage', { key: 'sync-test', newValue: written }));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'sync-test', newValue: null }));
+
+      expect(received).toHaveLength(1);
+      expect(received[0].patches[0].upserts[0].item.createdAt).toEqual(createdAt);
+      expect(window.localStorage.getItem('sync-test')).toBeNull();
+      transport.close();
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import type { StoreAction } from '../MasterStore';
+import { BroadcastChannelTransport } from './BroadcastChannelTransport';
+import { StorageEventTransport } from './StorageEventTransport';
+import type { KeyPatch, SyncMessage, SyncTransport, SyncVersion } from './SyncTransport';
+
+/**
+ * Cross-tab sync configuration for MasterStore.
+ */
+export interface SyncOptions {
+  /**
+   * Channel to exchange changes over. Defaults to a BroadcastChannelTransport,
+   * or a StorageEventTransport where `BroadcastChannel` is unavailable.
+   */
+  transport?: SyncTransport;
+  /** Channel name used by the default transport */
+  channelName?: string;
+  /** Keys to sync; every key is synced when omitted */
+  keys?: string[];
+  /** ID of this replica, used to break ties between concurrent edits (random by default) */
+  replicaId?: string;
+}
+
+/**
+ * Access to MasterStore needed to sync it.
+ */
+interface SyncTarget {
+  subscribe(
+    listener: (action: StoreAction, data: Record<string, any>, previousData: Record<string, any>) => void
+  ): () => void;
+  getData(): Record<string, any>;
+  isHydrated(): boolean;
+  whenHydrated(): Promise<void>;
+  /** Store values received from another tab */
+  apply(values: Record<string, any>): void;
+}
+
+/**
+ * Compare two versions; later clocks win, ties go to the higher replica ID.
+ */
+export function compareVersions(a: SyncVersion, b: SyncVersion): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0;
+}
+
+const isNewer = (version: SyncVersion | undefined, than: SyncVersion): boolean =>
+  version !== undefined && compareVersions(version, than) > 0;
+
+const isCollection = (value: unknown): value is Array<{ id: string }> =>
+  Array.isArray(value) && value.every((item) => item !== null && typeof item === 'object' && typeof item.id === 'string');
+
+/**
+ * Keeps a MasterStore in sync with other tabs.
+ *
+ * Every local change is turned into per-key patches addressed by item ID
+ * and broadcast with a Lamport version. Remote patches are merged item by
+ * item: each item (and each removal) remembers the version that last
+ * changed it, and a remote change only wins if its version is newer, ties
+ * being broken by replica ID. Items added concurrently after the same item
+ * are ordered by the versions that added them, newest first. All tabs
+ * therefore converge on the same state regardless of the order in which
+ * concurrent edits arrive.
+ *
+ * Remote changes are applied without being broadcast again, and clear the
+ * local undo history of the keys they touch. Data loaded from persistence is
+ * not broadcast, since every tab hydrates from the same storage; messages
+ * received before hydration are applied once it has finished.
+ *
+ * Used internally by MasterStore; enable it via `MasterStoreConfig.sync`.
+ */
+export class StoreSync {
+  readonly replicaId: string;
+  private clock = 0;
+  /** Version of every item per key, including removed items */
+  private itemVersions = new Map<string, Map<string, SyncVersion>>();
+  /** Version that added each item per key, ordering concurrent additions */
+  private additionVersions = new Map<string, Map<string, SyncVersion>>();
+  /** Version of the order (or whole value) per key */
+  private keyVersions = new Map<string, SyncVersion>();
+  private transport: SyncTransport;
+  private applyingRemote = false;
+  private unsubscribeStore: () => void;
+  private unsubscribeTransport: () => void;
+
+  constructor(private target: SyncTarget, private options: SyncOptions = {}) {
+    this.replicaId = options.replicaId ?? `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+    this.transport = options.transport ?? createDefaultTransport(options.channelName);
+
+    this.unsubscribeStore = target.subscribe((_action, data, previousData) => {
+      if (!this.applyingRemote && target.isHydrated()) {
+        this.broadcast(data, previousData);
+      }
+    });
+
+    this.unsubscribeTransport = this.transport.subscribe((message) => {
+      if (target.isHydrated()) {
+        this.receive(message);
+      } else {
+        void target.whenHydrated().then(() => this.receive(message));
+      }
+    });
+  }
+
+  /**
+   * Stop syncing and close the transport.
+   */
+  dispose(): void {
+    this.unsubscribeStore();
+    this.unsubscribeTransport();
+    this.transport.close();
+  }
+
+  private shouldSync(key: string): boolean {
+    return !this.options.keys || this.options.keys.includes(key);
+  }
+
+  private broadcast(data: Record<string, any>, previousData: Record<string, any>): void {
+    const keys = new Set([...Object.keys(data), ...Object.keys(previousData)]);
+    const changed = Array.from(keys).filter((key) => data[key] !== previousData[key] && this.shouldSync(key));
+    if (changed.length === 0) {
+      return;
+    }
+
+    const version: SyncVersion = { clock: ++this.clock, replica: this.replicaId };
+    const patches = changed.map((key) => this.diff(key, previousData[key], data[key], version));
+    this.transport.post({ version, patches });
+  }
+
+  /**
+   * Turn a local change into a patch, recording the new versions.
+   */
+  private diff(key: string, previous: unknown, next: unknown, version: SyncVersion): KeyPatch {
+    if (!isCollection(next) || (previous !== undefined && !isCollection(previous))) {
+      this.keyVersions.set(key, version);
+      return { key, upserts: [], removes: [], replace: true, value: next };
+    }
+
+    const versions = this.versionsOf(key);
+    const additions = this.versionsOf(key, this.additionVersions);
+    const before = new Map((previous ?? []).map((item) => [item.id, item]));
+    const nextIds = new Set(next.map((item) => item.id));
+
+    const upserts: KeyPatch['upserts'] = [];
+    next.forEach((item, position) => {
+      if (before.get(item.id) !== item) {
+        upserts.push({ item, after: position === 0 ? null : next[position - 1].id });
+        versions.set(item.id, version);
+        if (!before.has(item.id)) {
+          additions.set(item.id, version);
+        }
+      }
+    });
+
+    const removes = Array.from(before.keys()).filter((id) => !nextIds.has(id));
+    removes.forEach((id) => versions.set(id, version));
+
+    const patch: KeyPatch = { key, upserts, removes };
+    const remainingBefore = Array.from(before.keys()).filter((id) => nextIds.has(id));
+    const remainingAfter = next.map((item) => item.id).filter((id) => before.has(id));
+    if (remainingBefore.some((id, index) => remainingAfter[index] !== id)) {
+      patch.order = next.map((item) => item.id);
+      this.keyVersions.set(key, version);
+    }
+    return patch;
+  }
+
+  private receive(message: SyncMessage): void {
+    this.clock = Math.max(this.clock, message.version.clock);
+
+    const data = this.target.getData();
+    const values: Record<string, any> = {};
+    message.patches
+      .filter((patch) => this.shouldSync(patch.key))
+      .forEach((patch) => {
+        const merged = this.merge(patch, data[patch.key], message.version);
+        if (merged !== data[patch.key]) {
+          values[patch.key] = merged;
+        }
+      });
+
+    if (Object.keys(values).length === 0) {
+      return;
+    }
+    this.applyingRemote = true;
+    try {
+      this.target.apply(values);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  /**
+   * Merge a remote patch into the current value of its key.
+   * @returns The merged value, or `current` if the patch lost every conflict
+   */
+  private merge(patch: KeyPatch, current: unknown, version: SyncVersion): unknown {
+    const keyVersion = this.keyVersions.get(patch.key);
+    const newerThanKey = !keyVersion || compareVersions(version, keyVersion) > 0;
+
+    if (patch.replace) {
+      if (!newerThanKey) {
+        return current;
+      }
+      this.keyVersions.set(patch.key, version);
+      return patch.value;
+    }
+
+    const versions = this.versionsOf(patch.key);
+    const additions = this.versionsOf(patch.key, this.additionVersions);
+    const wins = (id: string) => {
+      const existing = versions.get(id);
+      if (existing && compareVersions(version, existing) <= 0) {
+        return false;
+      }
+      versions.set(id, version);
+      return true;
+    };
+
+    let items: Array<{ id: string }> = isCollection(current) ? current : [];
+    let changed = false;
+
+    const removed = new Set(patch.removes.filter(wins));
+    if (removed.size > 0) {
+      items = items.filter((item) => !removed.has(item.id));
+      changed = true;
+    }
+
+    patch.upserts.forEach(({ item, after }) => {
+      if (!wins(item.id)) {
+        return;
+      }
+      if (!changed) {
+        items = [...items];
+        changed = true;
+      }
+      const position = items.findIndex((candidate) => candidate.id === item.id);
+      if (position !== -1) {
+        items[position] = item;
+        return;
+      }
+      additions.set(item.id, version);
+      const anchor = after === null ? -1 : items.findIndex((candidate) => candidate.id === after);
+      if (after !== null && anchor === -1) {
+        items.push(item);
+        return;
+      }
+      // Later additions after the same item come first, as in CrdtCollection
+      let index = anchor + 1;
+      while (index < items.length && isNewer(additions.get(items[index].id), version)) {
+        index++;
+      }
+      items.splice(index, 0, item);
+    });
+
+    if (patch.order && newerThanKey) {
+      this.keyVersions.set(patch.key, version);
+      const rank = new Map(patch.order.map((id, index) => [id, index]));
+      // Items unknown to the sender keep their relative order after the ordered ones
+      items = [...items].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+      changed = true;
+    }
+
+    return changed ? items : current;
+  }
+
+  private versionsOf(
+    key: string,
+    byKey: Map<string, Map<string, SyncVersion>> = this.itemVersions
+  ): Map<string, SyncVersion> {
+    let versions = byKey.get(key);
+    if (!versions) {
+      versions = new Map();
+      byKey.set(key, versions);
+    }
+    return versions;
+  }
+}
+
+/**
+ * Create the best transport available in the current environment.
+ * @param channelName - Channel name shared by all tabs
+ */
+export function createDefaultTransport(channelName?: string): SyncTransport {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastChannelTransport({ channelName });
+  }
+  return new StorageEventTransport({ channelName });
+}
@@ -0,0 +1,61 @@
+/**
+ * Version of an item or key: a Lamport clock plus the replica that made
+ * the change, which breaks ties deterministically.
+ */
+export interface SyncVersion {
+  clock: number;
+  replica: string;
+}
+
+/**
+ * Changes to a single key, addressed by item ID rather than by position so
+ * that concurrent edits in different tabs can be merged.
+ */
+export interface KeyPatch {
+  key: string;
+  /** Added or changed items, each with the ID of the item preceding it (null for the first item) */
+  upserts: Array<{ item: any; after: string | null }>;
+  /** IDs of removed items */
+  removes: string[];
+  /** Full item order, sent only when existing items were reordered */
+  order?: string[];
+  /** Whether `value` replaces the whole key, for keys that do not hold a collection of identifiable items */
+  replace?: boolean;
+  /** Replacement value when `replace` is set */
+  value?: unknown;
+}
+
+/**
+ * Message exchanged between tabs.
+ */
+export interface SyncMessage {
+  /** Version assigned to every change in the message */
+  version: SyncVersion;
+  patches: KeyPatch[];
+}
+
+/**
+ * Channel carrying sync messages between tabs.
+ * Messages posted by a transport must not be delivered back to itself.
+ *
+ * @template M - Type of the messages; SyncMessage for cross-tab sync, CrdtMessage for a CrdtStoreView
+ */
+export interface SyncTransport<M = SyncMessage> {
+  /**
+   * Send a message to every other tab.
+   * @param message - Message to send
+   */
+  post(message: M): void;
+
+  /**
+   * Receive messages sent by other tabs.
+   * @param listener - Called for every received message
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (message: M) => void): () => void;
+
+  /**
+   * Release the underlying channel.
+   */
+  close(): void;
+}
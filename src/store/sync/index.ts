@@ -0,0 +1,13 @@
+/**
+ * Cross-tab sync for MasterStore.
+ *
+ * Enable it via `MasterStoreConfig.sync`; the default transport uses
+ * `BroadcastChannel` and falls back to `storage` events.
+ */
+export type { SyncOptions } from './StoreSync';
+export { createDefaultTransport } from './StoreSync';
+export type { SyncTransport, SyncMessage, KeyPatch, SyncVersion } from './SyncTransport';
+export { BroadcastChannelTransport } from './BroadcastChannelTransport';
+export type { BroadcastChannelLike, BroadcastChannelTransportOptions } from './BroadcastChannelTransport';
+export { StorageEventTransport } from './StorageEventTransport';
+export type { StorageEventTransportOptions } from './StorageEventTransport';
@@ -0,0 +1,180 @@
+import { MasterStore, StoreView } from '../MasterStore';
+import type { Todo } from '@/features/todo';
+
+interface Tag {
+  id: string;
+  name: string;
+}
+
+describe('MasterStore Transactions', () => {
+  let masterStore: MasterStore;
+  let todoView: StoreView<Todo>;
+  let tagView: StoreView<Tag>;
+
+  const addTodo = (text: string) =>
+    todoView.addItem({ text, completed: false, createdAt: new Date() });
+
+  beforeEach(() => {
+    masterStore = new MasterStore();
+    todoView = masterStore.getView<Todo>('todos');
+    tagView = masterStore.getView<Tag>('tags');
+  });
+
+  describe('Commit', () => {
+    test('writes to several views commit in a single notification', () => {
+      const todoCallback = jest.fn();
+      const tagCallback = jest.fn();
+      todoView.subscribe(todoCallback);
+      tagView.subscribe(tagCallback);
+
+      masterStore.transaction(() => {
+        addTodo('One');
+        addTodo('Two');
+        tagView.addItem({ name: 'work' });
+        todoView.updateItemsWhere(() => true, (draft) => {
+          draft.completed = true;
+        });
+      });
+
+      expect(todoCallback).toHaveBeenCalledTimes(1);
+      expect(tagCallback).toHaveBeenCalledTimes(1);
+      expect(todoCallback.mock.calls[0][0]).toHaveLength(2);
+      expect(todoView.getItems().every((todo) => todo.completed)).toBe(true);
+      expect(tagView.getItems()).toHaveLength(1);
+    });
+
+    test('reads inside the transaction see staged writes, outside readers do not', () => {
+      const seen: number[] = [];
+      const unsubscribe = todoView.subscribe((todos) => seen.push(todos.length));
+
+      masterStore.transaction(() => {
+        addTodo('Staged');
+        expect(todoView.getItems()).toHaveLength(1);
+        expect(masterStore.getAllData().todos).toBeUndefined();
+      });
+
+      expect(seen).toEqual([1]);
+      unsubscribe();
+    });
+
+    test('returns the function result', () => {
+      const todo = masterStore.transaction(() => addTodo('Result'));
+      expect(todoView.getItems()).toEqual([todo]);
+    });
+
+    test('transactions without writes do not notify', () => {
+      const callback = jest.fn();
+      todoView.subscribe(callback);
+
+      masterStore.transaction(() => todoView.getItems());
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rollback', () => {
+    test('all writes are discarded when the function throws', () => {
+      addTodo('Existing');
+      const before = todoView.getItems();
+      const callback = jest.fn();
+      todoView.subscribe(callback);
+
+      expect(() =>
+        masterStore.transaction(() => {
+          addTodo('Discarded');
+          tagView.addItem({ name: 'discarded' });
+          throw new Error('boom');
+        })
+      ).toThrow('boom');
+
+      expect(todoView.getItems()).toBe(before);
+      expect(tagView.getItems()).toEqual([]);
+      expect(callback).not.toHaveBeenCalled();
+      expect(masterStore.isInTransaction()).toBe(false);
+    });
+
+    test('async functions are rejected and rolled back', () => {
+      expect(() =>
+        masterStore.transaction((async () => {
+          addTodo('Async');
+        }) as () => unknown)
+      ).toThrow('does not support async');
+
+      expect(todoView.getItems()).toEqual([]);
+    });
+  });
+
+  describe('Nesting', () => {
+    test('nested transactions commit with the outer transaction', () => {
+      const callback = jest.fn();
+      todoView.subscribe(callback);
+
+      masterStore.transaction(() => {
+        addTodo('Outer');
+        masterStore.transaction(() => {
+          addTodo('Inner');
+        });
+        expect(masterStore.getAllData().todos).toBeUndefined();
+        expect(todoView.getItems()).toHaveLength(2);
+      });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['Outer', 'Inner']);
+    });
+
+    test('a failing nested transaction only discards its own writes', () => {
+      masterStore.transaction(() => {
+        addTodo('Kept');
+        try {
+          masterStore.transaction(() => {
+            addTodo('Dropped');
+            tagView.addItem({ name: 'dropped' });
+            throw new Error('inner');
+          });
+        } catch {
+          // Recover and continue the outer transaction
+        }
+        tagView.addItem({ name: 'kept' });
+      });
+
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['Kept']);
+      expect(tagView.getItems().map((tag) => tag.name)).toEqual(['kept']);
+    });
+  });
+
+  describe('History', () => {
+    test('a committed transaction is a single undo step', () => {
+      masterStore = new MasterStore({ history: {} });
+      todoView = masterStore.getView<Todo>('todos');
+      tagView = masterStore.getView<Tag>('tags');
+
+      addTodo('Before');
+      masterStore.transaction(() => {
+        addTodo('One');
+        tagView.addItem({ name: 'work' });
+      });
+
+      masterStore.undo();
+      expect(todoView.getItems().map((todo) => todo.text)).toEqual(['Before']);
+      expect(tagView.getItems()).toEqual([]);
+
+      masterStore.redo();
+      expect(todoView.getItems()).toHaveLength(2);
+      expect(tagView.getItems()).toHaveLength(1);
+    });
+
+    test('a rolled back transaction leaves no history', () => {
+      masterStore = new MasterStore({ history: {} });
+      todoView = masterStore.getView<Todo>('todos');
+
+      expect(() =>
+        masterStore.transaction(() => {
+          addTodo('Discarded');
+          throw new Error('boom');
+        })
+      ).toThrow();
+
+      expect(masterStore.canUndo()).toBe(false);
+    });
+  });
+});
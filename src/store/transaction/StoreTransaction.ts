@@ -0,0 +1,77 @@
+import type { Patch } from 'immer';
+
+/**
+ * Patches staged for a single key within a transaction.
+ */
+export interface StagedChange {
+  /** Operation that first wrote the key in this transaction */
+  label: string;
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+/**
+ * Staging area for writes made inside `MasterStore.transaction()`.
+ *
+ * Holds the uncommitted value of every key written in the transaction, plus
+ * the history patches for those writes, so that the whole transaction can be
+ * committed in one Zustand `set` or discarded without touching the store.
+ * Nested transactions get their own frame that is merged into the parent on
+ * success and simply dropped on failure.
+ *
+ * Used internally by MasterStore.
+ */
+export class StoreTransaction {
+  /** Uncommitted values by key */
+  readonly data: Record<string, any> = {};
+  /** History patches by key, only populated when history is tracked */
+  readonly changes = new Map<string, StagedChange>();
+
+  /**
+   * Check whether the transaction has written a key.
+   * @param key - MasterStore key
+   */
+  has(key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.data, key);
+  }
+
+  /**
+   * Stage a new value for a key.
+   * @param key - MasterStore key
+   * @param value - New uncommitted value
+   */
+  stage(key: string, value: any): void {
+    this.data[key] = value;
+  }
+
+  /**
+   * Stage history patches for a key, appending to earlier ones.
+   * @param key - MasterStore key
+   * @param label - Operation that produced the patches
+   * @param patches - Forward patches
+   * @param inversePatches - Patches reverting the write
+   */
+  stagePatches(key: string, label: string, patches: Patch[], inversePatches: Patch[]): void {
+    if (patches.length === 0) {
+      return;
+    }
+    const existing = this.changes.get(key);
+    if (existing) {
+      existing.patches.push(...patches);
+      existing.inversePatches.unshift(...inversePatches);
+    } else {
+      this.changes.set(key, { label, patches: [...patches], inversePatches: [...inversePatches] });
+    }
+  }
+
+  /**
+   * Fold this (nested) transaction into its parent.
+   * @param parent - Enclosing transaction
+   */
+  mergeInto(parent: StoreTransaction): void {
+    Object.keys(this.data).forEach((key) => parent.stage(key, this.data[key]));
+    this.changes.forEach((change, key) => {
+      parent.stagePatches(key, change.label, change.patches, change.inversePatches);
+    });
+  }
+}
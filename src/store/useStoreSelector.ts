@@ -0,0 +1,66 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import type { Identifiable, ReadonlyStoreView } from './MasterStore';
+
+/**
+ * Cached selection for the current collection and selector.
+ */
+interface SelectionCache<T, S> {
+  items: T[];
+  selector: (items: T[]) => S;
+  selection: S;
+}
+
+/**
+ * React hook that subscribes a component to a value selected from a StoreView
+ * or derived view.
+ *
+ * Built on `useSyncExternalStore`, so the component only re-renders when the
+ * selected value changes according to `equalityFn` - changes to other keys,
+ * or to parts of the collection the selector ignores, do not cause renders.
+ *
+ * The selector may be an inline function; it is re-run when the collection
+ * changes or when a new selector is passed.
+ *
+ * @template T - The type of entity stored in the view
+ * @template S - The type of the selected value
+ * @param view - StoreView or derived view to read from
+ * @param selector - Function deriving the value of interest from the collection
+ * @param equalityFn - Decides whether two selections are equal (defaults to `Object.is`)
+ * @returns The current selection
+ *
+ * @example
+ * ```tsx
+ * const completedCount = useStoreSelector(
+ *   todoView,
+ *   (todos) => todos.filter((todo) => todo.completed).length
+ * );
+ * ```
+ */
+export function useStoreSelector<T extends Identifiable, S>(
+  view: ReadonlyStoreView<T>,
+  selector: (items: T[]) => S,
+  equalityFn: (a: S, b: S) => boolean = Object.is
+): S {
+  const cacheRef = useRef<SelectionCache<T, S> | null>(null);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => view.subscribe(() => onStoreChange()),
+    [view]
+  );
+
+  const getSnapshot = (): S => {
+    const items = view.getItems();
+    const cache = cacheRef.current;
+    if (cache && cache.items === items && cache.selector === selector) {
+      return cache.selection;
+    }
+
+    const selection = selector(items);
+    // Keep the previous selection when equal so React can bail out of rendering
+    const stable = cache && equalityFn(cache.selection, selection) ? cache.selection : selection;
+    cacheRef.current = { items, selector, selection: stable };
+    return stable;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
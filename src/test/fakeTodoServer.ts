@@ -0,0 +1,146 @@
+import type { TodoFetch } from '@/features/todo';
+
+/**
+ * Request received by a FakeTodoServer.
+ */
+export interface FakeTodoRequest {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * In-process stand-in for the todo REST API used by RestTodoRepository.
+ *
+ * Keeps the todos as JSON in memory and answers through `fetch`, a
+ * function with the signature of the global `fetch`. Tests can take it
+ * offline, make requests fail and inspect the requests it received.
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeTodoServer();
+ * container.bind(TODO_TYPES.RestRepositoryOptions).toConstantValue({ baseUrl: server.baseUrl, fetch: server.fetch });
+ * ```
+ */
+export class FakeTodoServer {
+  readonly baseUrl = 'https://todos.test/api';
+  /** Requests received, in order, including those failed on purpose */
+  readonly requests: FakeTodoRequest[] = [];
+  /** Whether the server can be reached; requests made offline reject like `fetch` does */
+  online = true;
+
+  private todos = new Map<string, Record<string, unknown>>();
+  private failures: number[] = [];
+
+  /**
+   * Store todos on the server, as JSON.
+   */
+  seed(...todos: object[]): void {
+    todos.forEach((todo) => {
+      const json = JSON.parse(JSON.stringify(todo)) as Record<string, unknown>;
+      this.todos.set(json.id as string, json);
+    });
+  }
+
+  /**
+   * Remove a todo from the server, as if by another client.
+   */
+  remove(id: string): void {
+    this.todos.delete(id);
+  }
+
+  /**
+   * The todos stored on the server, as JSON.
+   */
+  list(): Record<string, unknown>[] {
+    return Array.from(this.todos.values());
+  }
+
+  /**
+   * A todo stored on the server, as JSON.
+   */
+  get(id: string): Record<string, unknown> | undefined {
+    return this.todos.get(id);
+  }
+
+  /**
+   * Answer the next requests with an error status instead of handling them.
+   * @param count - Number of requests to fail
+   * @param status - Status to answer with
+   */
+  failNext(count: number, status = 500): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push(status);
+    }
+  }
+
+  /**
+   * Handle a request, with the signature of `fetch`.
+   */
+  fetch: TodoFetch = async (url, init) => {
+    const method = init.method ?? 'GET';
+    const path = url.slice(this.baseUrl.length);
+    const body = typeof init.body === 'string' ? (JSON.parse(init.body) as Record<string, unknown>) : undefined;
+    this.requests.push({ method, path, ...(body && { body }) });
+
+    // Answer asynchronously, like a real server
+    await Promise.resolve();
+    if (!this.online) {
+      throw new TypeError('Failed to fetch');
+    }
+    const failure = this.failures.shift();
+    if (failure !== undefined) {
+      return respond(failure);
+    }
+
+    const id = path.startsWith('/todos/') ? decodeURIComponent(path.slice('/todos/'.length)) : undefined;
+    if (path === '/todos' && method === 'GET') {
+      return respond(200, this.list());
+    }
+    if (path === '/todos' && method === 'POST' && body) {
+      if (this.todos.has(body.id as string)) {
+        return respond(409);
+      }
+      this.todos.set(body.id as string, body);
+      return respond(201, body);
+    }
+    if (id !== undefined && method === 'GET') {
+      const todo = this.todos.get(id);
+      return todo ? respond(200, todo) : respond(404);
+    }
+    if (id !== undefined && method === 'PUT' && body) {
+      if (body.id !== id) {
+        return respond(400);
+      }
+      this.todos.set(id, body);
+      return respond(200, body);
+    }
+    if (id !== undefined && method === 'DELETE') {
+      return respond(this.todos.delete(id) ? 204 : 404);
+    }
+    return respond(404);
+  };
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  409: 'Conflict',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable',
+};
+
+/**
+ * Build the parts of a `Response` RestTodoRepository reads.
+ */
+function respond(status: number, body?: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: STATUS_TEXT[status] ?? '',
+    json: async () => body,
+  } as Response;
+}
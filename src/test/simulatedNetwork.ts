@@ -0,0 +1,158 @@
+import type { SyncTransport } from '@/store/sync';
+import { deserialize, serialize } from '@/store/persistence';
+
+/**
+ * Random number generator returning the same sequence for the same seed
+ * (mulberry32), so simulations can be replayed.
+ * @param seed - Seed of the sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Options for SimulatedNetwork.
+ */
+export interface SimulatedNetworkOptions {
+  /** Chance that a delivered message stays queued to be delivered again (defaults to 0.2) */
+  duplicateRate?: number;
+}
+
+interface Delivery {
+  to: SimulatedTransport<unknown>;
+  /** Serialized message, so every delivery gets its own copy */
+  text: string;
+  copies: number;
+}
+
+/**
+ * Deterministic network for multi-replica simulations.
+ *
+ * Messages posted through its transports are serialized, queued for every
+ * other transport, and delivered only when the test says so, one at a time
+ * in an order picked by a seeded random generator. Delivered messages may
+ * stay queued and arrive again later. The same seed always gives the same
+ * interleaving, so a failing run can be replayed.
+ *
+ * @template M - Type of the messages
+ *
+ * @example
+ * ```typescript
+ * const network = new SimulatedNetwork<CrdtMessage>(42);
+ * const a = new CrdtStoreView(new MasterStore(), 'todos', { transport: network.createTransport() });
+ * const b = new CrdtStoreView(new MasterStore(), 'todos', { transport: network.createTransport() });
+ * a.addItem(todo);
+ * network.deliverAll();
+ * ```
+ */
+export class SimulatedNetwork<M> {
+  /** Random generator of the simulation; use it for the simulated edits too */
+  readonly random: () => number;
+  private transports = new Set<SimulatedTransport<M>>();
+  private queue: Delivery[] = [];
+  private duplicateRate: number;
+
+  constructor(seed: number, options: SimulatedNetworkOptions = {}) {
+    this.random = seededRandom(seed);
+    this.duplicateRate = options.duplicateRate ?? 0.2;
+  }
+
+  /**
+   * Create a transport connected to every other transport of the network.
+   */
+  createTransport(): SyncTransport<M> {
+    const transport = new SimulatedTransport<M>(this);
+    this.transports.add(transport);
+    return transport;
+  }
+
+  /** Number of deliveries waiting */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Pick a random number below a limit.
+   */
+  pick(limit: number): number {
+    return Math.floor(this.random() * limit);
+  }
+
+  /**
+   * Deliver one randomly chosen queued message.
+   * @returns False if nothing was queued
+   */
+  step(): boolean {
+    if (this.queue.length === 0) {
+      return false;
+    }
+    const position = this.pick(this.queue.length);
+    const delivery = this.queue[position];
+    // Each message is repeated at most twice, so the queue always drains
+    if (delivery.copies < 2 && this.random() < this.duplicateRate) {
+      delivery.copies++;
+    } else {
+      this.queue.splice(position, 1);
+    }
+    if (this.transports.has(delivery.to as SimulatedTransport<M>)) {
+      delivery.to.dispatch(deserialize(delivery.text));
+    }
+    return true;
+  }
+
+  /**
+   * Deliver queued messages, including those posted while delivering, until none are left.
+   */
+  deliverAll(): void {
+    while (this.step()) {
+      // Keep delivering
+    }
+  }
+
+  /** @internal Queue a message for every transport but the sender */
+  enqueue(from: SimulatedTransport<M>, message: M): void {
+    const text = serialize(message);
+    this.transports.forEach((to) => {
+      if (to !== from) {
+        this.queue.push({ to: to as SimulatedTransport<unknown>, text, copies: 0 });
+      }
+    });
+  }
+
+  /** @internal Disconnect a closed transport */
+  remove(transport: SimulatedTransport<M>): void {
+    this.transports.delete(transport);
+  }
+}
+
+class SimulatedTransport<M> implements SyncTransport<M> {
+  private listeners = new Set<(message: M) => void>();
+
+  constructor(private network: SimulatedNetwork<M>) {}
+
+  post(message: M): void {
+    this.network.enqueue(this, message);
+  }
+
+  subscribe(listener: (message: M) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.listeners.clear();
+    this.network.remove(this);
+  }
+
+  dispatch(message: unknown): void {
+    this.listeners.forEach((listener) => listener(message as M));
+  }
+}
@@ -14,6 +14,10 @@ module.exports = (env, argv) => {
     resolve: {
       extensions: ['.tsx', '.ts', '.js', '.jsx'],
       alias: {
+        // Swap the store devtools for no-op stubs so they are dropped from production bundles
+        ...(isProduction && {
+          '@/store/devtools$': path.resolve(__dirname, 'src/store/devtools/index.production.ts'),
+        }),
         '@': path.resolve(__dirname, 'src'),
       },
     },